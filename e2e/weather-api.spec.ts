@@ -2,35 +2,75 @@
  * 天気API連携のE2Eテスト
  */
 
-import { test, expect } from '@playwright/test';
+import { test, expect, type Page } from '@playwright/test';
+
+/**
+ * 現在時刻の前後6時間の予報（スタブ応答）
+ *
+ * 発射地点（標高40m）に対して、気圧面のジオポテンシャル高度を指定する
+ */
+function createForecastResponse(geopotentialHeights: Record<number, number>) {
+  const start = Math.floor(Date.now() / 3600000) * 3600 - 6 * 3600;
+  const time = Array.from({ length: 13 }, (_, i) => start + i * 3600);
+  const constant = (value: number) => time.map(() => value);
+
+  const hourly: Record<string, number[]> = {
+    time,
+    temperature_2m: constant(18),
+    relative_humidity_2m: constant(60),
+    surface_pressure: constant(1008),
+    wind_speed_10m: constant(3),
+    wind_direction_10m: constant(270),
+  };
+  for (const [level, height] of Object.entries(geopotentialHeights)) {
+    hourly[`wind_speed_${level}hPa`] = constant(8);
+    hourly[`wind_direction_${level}hPa`] = constant(280);
+    hourly[`geopotential_height_${level}hPa`] = constant(height);
+  }
+  return { elevation: 40, hourly };
+}
+
+/**
+ * Open-Meteo への要求をスタブ応答に差し替える
+ */
+async function stubOpenMeteo(page: Page, body: unknown) {
+  await page.route('https://api.open-meteo.com/**', (route) => route.fulfill({ json: body }));
+}
+
+/**
+ * ネットワークを使わないテスト用の提供元を選ぶ
+ */
+async function selectMockProvider(page: Page) {
+  await page.getByRole('button', { name: 'テスト用', exact: true }).click();
+}
 
 test.describe('天気API連携', () => {
   test('天気データを取得できる', async ({ page }) => {
     await page.goto('/');
+    await selectMockProvider(page);
 
     // 天気取得ボタンをクリック
     const fetchButton = page.getByRole('button', { name: /発射地点の天気を取得/i });
     await expect(fetchButton).toBeVisible();
     await fetchButton.click();
 
-    // ローディング状態が表示される
-    await expect(page.getByText(/取得中/i)).toBeVisible();
-
-    // API取得成功メッセージが表示される（タイムアウト長めに）
-    await expect(page.getByText(/API取得済み/i)).toBeVisible({ timeout: 15000 });
+    // 取得成功メッセージが表示される
+    await expect(page.getByText(/API取得済み/i)).toBeVisible();
 
-    // 風速フィールドに値が入る（0以上の値）
+    // 風速フィールドに予報の値が入る
     const windSpeedInput = page.locator('input[type="number"]').first();
     const value = await windSpeedInput.inputValue();
-    expect(parseFloat(value)).toBeGreaterThanOrEqual(0);
+    expect(parseFloat(value)).toBeGreaterThan(0);
+    await expect(page.getByText('高度別風データ:')).toBeVisible();
   });
 
   test('天気データ取得後も手動で編集できる', async ({ page }) => {
     await page.goto('/');
+    await selectMockProvider(page);
 
     // 天気取得
     await page.getByRole('button', { name: /発射地点の天気を取得/i }).click();
-    await expect(page.getByText(/API取得済み/i)).toBeVisible({ timeout: 15000 });
+    await expect(page.getByText(/API取得済み/i)).toBeVisible();
 
     // 風速を手動で変更
     const windSpeedInput = page.locator('input[type="number"]').first();
@@ -39,4 +79,62 @@ test.describe('天気API連携', () => {
     // 値が更新される
     await expect(windSpeedInput).toHaveValue('5.5');
   });
+
+  test('気圧面の風を発射地点からの高度に変換する（スタブ応答）', async ({ page }) => {
+    await stubOpenMeteo(page, createForecastResponse({ 1000: 110, 925: 800, 850: 1500 }));
+    await page.goto('/');
+
+    await page.getByRole('button', { name: /発射地点の天気を取得/i }).click();
+    await expect(page.getByText(/API取得済み/i)).toBeVisible();
+
+    // 海抜のジオポテンシャル高度から発射地点の標高40mを引いた高度
+    await expect(page.getByText('高度別風データ:')).toBeVisible();
+    await expect(page.getByText('70m', { exact: true })).toBeVisible();
+    await expect(page.getByText('760m', { exact: true })).toBeVisible();
+    await expect(page.getByText('1460m', { exact: true })).toBeVisible();
+  });
+
+  test('予報の風が最高高度に届かないと警告する（スタブ応答）', async ({ page }) => {
+    // 最上層が発射地点から20mまで
+    await stubOpenMeteo(page, createForecastResponse({ 1000: 60 }));
+    await page.goto('/');
+
+    await page.getByRole('button', { name: /発射地点の天気を取得/i }).click();
+    await expect(page.getByText(/API取得済み/i)).toBeVisible();
+
+    await page.getByRole('button', { name: /シミュレーション実行/i }).click();
+    await expect(page.getByText('予測結果')).toBeVisible({ timeout: 10000 });
+    await expect(page.getByText(/予報の風は発射地点から20 mまで/)).toBeVisible();
+  });
+});
+
+test.describe('突風', () => {
+  test('突風が安全規定の上限を超えると警告する', async ({ page }) => {
+    await page.goto('/');
+
+    // 平均風速 4 m/s、突風 10 m/s
+    await page.getByText('風速', { exact: true }).locator('..').locator('input').fill('4');
+    await page.getByPlaceholder('なし').first().fill('10');
+
+    await page.getByRole('button', { name: /シミュレーション実行/i }).click();
+    await expect(page.getByText('予測結果')).toBeVisible({ timeout: 10000 });
+    await expect(page.getByText(/最大瞬間風速が10\.0 m\/sで安全規定の上限/)).toBeVisible();
+  });
+});
+
+test.describe('風速計ログ', () => {
+  test('ログの平均を地上風にする', async ({ page }) => {
+    await page.goto('/');
+    await page.getByRole('button', { name: '風速計ログ', exact: true }).click();
+
+    await page.locator('input[type="file"][accept=".csv,.txt"]').first().setInputFiles({
+      name: 'anemometer.csv',
+      mimeType: 'text/csv',
+      buffer: Buffer.from('time,speed,gust,direction\n10:00,2,3,270\n10:05,4,6,270\n'),
+    });
+
+    await expect(page.getByText(/anemometer\.csv/)).toBeVisible();
+    // 突風は最大瞬間風速、乱流強度は風速のばらつき
+    await expect(page.getByPlaceholder('なし').first()).toHaveValue('6');
+  });
 });
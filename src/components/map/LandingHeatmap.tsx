@@ -0,0 +1,171 @@
+/**
+ * 着地点密度ヒートマップ（六角形ビン）と凡例
+ */
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Polygon, Polyline, Tooltip } from 'react-leaflet';
+import L from 'leaflet';
+import { useMissionStore } from '../../store/missionStore';
+import { calculateLandingDensity } from '../../services/trajectory/LandingDensity';
+import type { LandingDensity } from '../../types/dispersion';
+
+// 履歴の着地点で密度を表示する最小件数
+const MIN_HISTORY_POINTS = 3;
+
+// 密度の色（低→高）
+const DENSITY_COLORS = ['#1e3a8a', '#2563eb', '#06b6d4', '#22c55e', '#eab308', '#f97316', '#dc2626'];
+
+// 確率等高線の線種（50/90/99%）
+const CONTOUR_STYLES = [
+  { color: '#f8fafc', dashArray: undefined },
+  { color: '#f8fafc', dashArray: '6, 4' },
+  { color: '#94a3b8', dashArray: '2, 4' },
+];
+
+/**
+ * 正規化した密度（0〜1）を色に変換
+ */
+function densityColor(value: number): string {
+  const index = Math.min(DENSITY_COLORS.length - 1, Math.floor(value * DENSITY_COLORS.length));
+  return DENSITY_COLORS[Math.max(0, index)];
+}
+
+/**
+ * 凡例
+ */
+function DensityLegend({
+  density,
+  source,
+  visible,
+  onToggle,
+}: {
+  density: LandingDensity;
+  source: string;
+  visible: boolean;
+  onToggle: () => void;
+}) {
+  const ref = useRef<HTMLDivElement>(null);
+
+  // 凡例上のクリック・スクロールを地図に伝えない（発射地点の誤設定防止）
+  useEffect(() => {
+    if (ref.current) {
+      L.DomEvent.disableClickPropagation(ref.current);
+      L.DomEvent.disableScrollPropagation(ref.current);
+    }
+  }, []);
+
+  return (
+    <div
+      ref={ref}
+      className="absolute bottom-6 right-2 z-[1000] bg-slate-800/90 border border-slate-600 rounded-lg p-2 text-xs text-slate-300 w-44"
+    >
+      <div className="flex items-center justify-between mb-1">
+        <span className="font-medium text-slate-200">着地確率分布</span>
+        <button
+          onClick={onToggle}
+          className="px-1.5 py-0.5 rounded bg-slate-600 hover:bg-slate-500 text-slate-200"
+        >
+          {visible ? '非表示' : '表示'}
+        </button>
+      </div>
+      <div className="text-slate-500 mb-1">
+        {source} {density.totalPoints}点 / セル {density.cellSize.toFixed(0)} m
+      </div>
+
+      {visible && (
+        <>
+          {/* 密度の色 */}
+          <div className="flex h-2 rounded overflow-hidden">
+            {DENSITY_COLORS.map((color) => (
+              <div key={color} className="flex-1" style={{ background: color }} />
+            ))}
+          </div>
+          <div className="flex justify-between text-slate-500 mb-1.5">
+            <span>0%</span>
+            <span>{(density.maxProbability * 100).toFixed(1)}%/セル</span>
+          </div>
+
+          {/* 確率等高線 */}
+          {density.contours.map((contour, i) => {
+            const style = CONTOUR_STYLES[i % CONTOUR_STYLES.length];
+            return (
+              <div key={contour.probability} className="flex items-center gap-2">
+                <svg width="20" height="6">
+                  <line
+                    x1="0" y1="3" x2="20" y2="3"
+                    stroke={style.color}
+                    strokeWidth="2"
+                    strokeDasharray={style.dashArray}
+                  />
+                </svg>
+                <span>{(contour.probability * 100).toFixed(0)}%</span>
+                <span className="ml-auto text-slate-400">
+                  {(contour.area / 10000).toFixed(2)} ha
+                </span>
+              </div>
+            );
+          })}
+        </>
+      )}
+    </div>
+  );
+}
+
+export function LandingHeatmap() {
+  const { launchSite, dispersionResult, landingHistory } = useMissionStore();
+  const [visible, setVisible] = useState(true);
+
+  // 分散解析の結果を優先し、なければ繰り返し実行した結果を使う
+  const useHistory = !dispersionResult && landingHistory.length >= MIN_HISTORY_POINTS;
+  const points = dispersionResult?.landingPoints ?? (useHistory ? landingHistory : null);
+
+  // 格子は発射地点基準（再計算しても同じ位置に並ぶ）
+  const density = useMemo(
+    () => (points ? calculateLandingDensity(points, { origin: launchSite }) : null),
+    [points, launchSite]
+  );
+
+  if (!density || density.bins.length === 0) return null;
+
+  return (
+    <>
+      {visible && density.bins.map((bin) => (
+        <Polygon
+          key={`hex-${bin.q},${bin.r}`}
+          positions={bin.vertices.map((v) => [v.latitude, v.longitude] as [number, number])}
+          pathOptions={{
+            color: densityColor(bin.probability / density.maxProbability),
+            fillColor: densityColor(bin.probability / density.maxProbability),
+            fillOpacity: 0.45,
+            weight: 0.5,
+          }}
+        >
+          <Tooltip>
+            {(bin.probability * 100).toFixed(1)}%（{bin.count}点）
+          </Tooltip>
+        </Polygon>
+      ))}
+
+      {visible && density.contours.map((contour, i) => {
+        const style = CONTOUR_STYLES[i % CONTOUR_STYLES.length];
+        return (
+          <Polyline
+            key={`contour-${contour.probability}`}
+            positions={contour.segments.map(([a, b]) => [
+              [a.latitude, a.longitude] as [number, number],
+              [b.latitude, b.longitude] as [number, number],
+            ])}
+            pathOptions={{ color: style.color, weight: 2, dashArray: style.dashArray, interactive: false }}
+          />
+        );
+      })}
+
+      <DensityLegend
+        density={density}
+        source={useHistory ? '繰り返し計算' : '分散解析'}
+        visible={visible}
+        onToggle={() => setVisible(!visible)}
+      />
+    </>
+  );
+}
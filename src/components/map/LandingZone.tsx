@@ -5,9 +5,27 @@
 import { CircleMarker, Polygon, Popup } from 'react-leaflet';
 import { useMissionStore } from '../../store/missionStore';
 import type { LatLngExpression } from 'leaflet';
+import type { Coordinates } from '../../types/mission';
+import type { UncertaintyEllipse } from '../../types/trajectory';
+
+// 分散楕円の色（50/90/99%）
+const DISPERSION_COLORS = ['#f97316', '#eab308', '#84cc16'];
+
+// 着地予測の色（最上段は赤、切り離した下段は順に）
+const MAIN_LANDING_COLOR = '#ef4444';
+const STAGE_LANDING_COLORS = ['#a855f7', '#06b6d4', '#ec4899'];
+
+/**
+ * ポップアップの1行
+ */
+function PopupRow({ label, value }: { label: string; value: string }) {
+  return <div style={{ color: '#94a3b8' }}>{label}: <span style={{ color: '#f8fafc' }}>{value}</span></div>;
+}
 
 /**
  * 楕円のポリゴン座標を生成
+ *
+ * rotation は長軸の方位 [deg]（北=0, 時計回り）
  */
 function createEllipsePolygon(
   center: { latitude: number; longitude: number },
@@ -26,13 +44,13 @@ function createEllipsePolygon(
   for (let i = 0; i < segments; i++) {
     const angle = (2 * Math.PI * i) / segments;
 
-    // 楕円上の点（ローカル座標）
-    const x = semiMajor * Math.cos(angle);
-    const y = semiMinor * Math.sin(angle);
+    // 楕円上の点（長軸・短軸方向の成分）
+    const major = semiMajor * Math.cos(angle);
+    const minor = semiMinor * Math.sin(angle);
 
-    // 回転適用
-    const xRot = x * Math.cos(rotationRad) - y * Math.sin(rotationRad);
-    const yRot = x * Math.sin(rotationRad) + y * Math.cos(rotationRad);
+    // 方位回転（長軸単位ベクトル: (sinθ, cosθ), 短軸: (cosθ, -sinθ)）
+    const xRot = major * Math.sin(rotationRad) + minor * Math.cos(rotationRad);
+    const yRot = major * Math.cos(rotationRad) - minor * Math.sin(rotationRad);
 
     // 地理座標に変換
     const lat = center.latitude + yRot / metersPerDegreeLat;
@@ -44,19 +62,28 @@ function createEllipsePolygon(
   return points;
 }
 
-export function LandingZone() {
-  const { trajectoryResult } = useMissionStore();
-
-  if (!trajectoryResult) return null;
-
-  const { predictedLanding, uncertaintyEllipse, stats } = trajectoryResult;
-
+/**
+ * 着地予測範囲1か所（不確実性楕円と予測着地点）
+ */
+export function LandingZone({
+  title,
+  landing,
+  ellipse,
+  color,
+  details,
+}: {
+  title: string;
+  landing: Coordinates;
+  ellipse: UncertaintyEllipse;
+  color: string;
+  details: { label: string; value: string }[];
+}) {
   // 楕円のポリゴン座標
   const ellipsePoints = createEllipsePolygon(
-    predictedLanding,
-    uncertaintyEllipse.semiMajorAxis,
-    uncertaintyEllipse.semiMinorAxis,
-    uncertaintyEllipse.rotation
+    landing,
+    ellipse.semiMajorAxis,
+    ellipse.semiMinorAxis,
+    ellipse.rotation
   );
 
   return (
@@ -65,8 +92,8 @@ export function LandingZone() {
       <Polygon
         positions={ellipsePoints}
         pathOptions={{
-          color: '#ef4444',
-          fillColor: '#ef4444',
+          color,
+          fillColor: color,
           fillOpacity: 0.2,
           weight: 2,
           dashArray: '5, 5',
@@ -75,28 +102,27 @@ export function LandingZone() {
 
       {/* 予測着地点マーカー */}
       <CircleMarker
-        center={[predictedLanding.latitude, predictedLanding.longitude]}
+        center={[landing.latitude, landing.longitude]}
         radius={12}
         pathOptions={{
           color: '#1e293b',
-          fillColor: '#ef4444',
+          fillColor: color,
           fillOpacity: 1,
           weight: 3,
         }}
       >
         <Popup className="dark-popup">
           <div style={{ background: '#1e293b', color: '#f8fafc', padding: '8px', borderRadius: '8px', fontSize: '13px' }}>
-            <div style={{ fontWeight: 'bold', marginBottom: '6px', color: '#ef4444' }}>予測落下地点</div>
-            <div style={{ color: '#94a3b8' }}>緯度: <span style={{ color: '#f8fafc' }}>{predictedLanding.latitude.toFixed(6)}°</span></div>
-            <div style={{ color: '#94a3b8' }}>経度: <span style={{ color: '#f8fafc' }}>{predictedLanding.longitude.toFixed(6)}°</span></div>
+            <div style={{ fontWeight: 'bold', marginBottom: '6px', color }}>{title}</div>
+            <PopupRow label="緯度" value={`${landing.latitude.toFixed(6)}°`} />
+            <PopupRow label="経度" value={`${landing.longitude.toFixed(6)}°`} />
             <div style={{ marginTop: '6px', paddingTop: '6px', borderTop: '1px solid #334155' }}>
-              <div style={{ color: '#94a3b8' }}>距離: <span style={{ color: '#f8fafc' }}>{stats.horizontalDistance.toFixed(0)} m</span></div>
-              <div style={{ color: '#94a3b8' }}>方位: <span style={{ color: '#f8fafc' }}>{stats.landingBearing.toFixed(0)}°</span></div>
-              <div style={{ color: '#94a3b8' }}>飛行時間: <span style={{ color: '#f8fafc' }}>{stats.totalFlightTime.toFixed(1)} s</span></div>
-              <div style={{ color: '#94a3b8' }}>着地速度: <span style={{ color: '#f8fafc' }}>{stats.landingVelocity.toFixed(1)} m/s</span></div>
+              {details.map((detail) => (
+                <PopupRow key={detail.label} label={detail.label} value={detail.value} />
+              ))}
             </div>
             <div style={{ marginTop: '6px', color: '#64748b', fontSize: '11px' }}>
-              予測誤差: ±{uncertaintyEllipse.semiMajorAxis.toFixed(0)}m (95%信頼区間)
+              予測誤差: ±{ellipse.semiMajorAxis.toFixed(0)}m (95%信頼区間)
             </div>
           </div>
         </Popup>
@@ -104,3 +130,95 @@ export function LandingZone() {
     </>
   );
 }
+
+/**
+ * 着地予測範囲の一覧（分散解析の結果、最上段と切り離した下段）
+ */
+export function LandingZones() {
+  const { trajectoryResult, dispersionResult } = useMissionStore();
+
+  if (!trajectoryResult) return null;
+
+  const { predictedLanding, uncertaintyEllipse, stats, stageLandings } = trajectoryResult;
+
+  return (
+    <>
+      {/* モンテカルロ着地点の散布 */}
+      {dispersionResult?.landingPoints.map((point, i) => (
+        <CircleMarker
+          key={`scatter-${i}`}
+          center={[point.latitude, point.longitude]}
+          radius={2}
+          pathOptions={{
+            color: '#fbbf24',
+            fillColor: '#fbbf24',
+            fillOpacity: 0.6,
+            weight: 0,
+          }}
+        />
+      ))}
+
+      {/* 分散楕円（外側から描画） */}
+      {dispersionResult && [...dispersionResult.ellipses].reverse().map((ellipse) => {
+        const index = dispersionResult.ellipses.indexOf(ellipse);
+        const color = DISPERSION_COLORS[index % DISPERSION_COLORS.length];
+        return (
+          <Polygon
+            key={`dispersion-${ellipse.confidence}`}
+            positions={createEllipsePolygon(
+              ellipse.center,
+              ellipse.semiMajorAxis,
+              ellipse.semiMinorAxis,
+              ellipse.rotation
+            )}
+            pathOptions={{
+              color,
+              fillColor: color,
+              fillOpacity: 0.08,
+              weight: 2,
+            }}
+          >
+            <Popup className="dark-popup">
+              <div style={{ background: '#1e293b', color: '#f8fafc', padding: '8px', borderRadius: '8px', fontSize: '13px' }}>
+                <div style={{ fontWeight: 'bold', color }}>{(ellipse.confidence * 100).toFixed(0)}% 分散楕円</div>
+                <div style={{ color: '#94a3b8' }}>
+                  {ellipse.semiMajorAxis.toFixed(0)} × {ellipse.semiMinorAxis.toFixed(0)} m
+                </div>
+              </div>
+            </Popup>
+          </Polygon>
+        );
+      })}
+
+      {/* 切り離した下段 */}
+      {stageLandings.map((stage, i) => (
+        <LandingZone
+          key={`stage-${i}`}
+          title={`${stage.name} 予測落下地点`}
+          landing={stage.predictedLanding}
+          ellipse={stage.uncertaintyEllipse}
+          color={STAGE_LANDING_COLORS[i % STAGE_LANDING_COLORS.length]}
+          details={[
+            { label: '分離', value: `${stage.separationTime.toFixed(1)} s / ${stage.separationAltitude.toFixed(0)} m` },
+            { label: '着地時刻', value: `${stage.landingTime.toFixed(1)} s` },
+            { label: '着地速度', value: `${stage.landingVelocity.toFixed(1)} m/s` },
+          ]}
+        />
+      ))}
+
+      {/* 最上段（単段では機体） */}
+      <LandingZone
+        title={stageLandings.length > 0 ? '最上段 予測落下地点' : '予測落下地点'}
+        landing={predictedLanding}
+        ellipse={uncertaintyEllipse}
+        color={MAIN_LANDING_COLOR}
+        details={[
+          { label: '距離', value: `${stats.horizontalDistance.toFixed(0)} m` },
+          { label: '方位', value: `${stats.landingBearing.toFixed(0)}°` },
+          { label: '飛行時間', value: `${stats.totalFlightTime.toFixed(1)} s` },
+          { label: '着地速度', value: `${stats.landingVelocity.toFixed(1)} m/s` },
+        ]}
+      />
+    </>
+  );
+}
@@ -0,0 +1,44 @@
+/**
+ * ローンチウィンドウの着地点の推移（時刻順に線で結ぶ）
+ */
+
+import { CircleMarker, Polyline, Tooltip } from 'react-leaflet';
+import { useMissionStore } from '../../store/missionStore';
+import { getBestLaunchSlot } from '../../services/trajectory/LaunchWindow';
+
+// 着地点の推移の色（最適な時刻は緑、警告のある時刻は赤）
+const PATH_COLOR = '#38bdf8';
+const BEST_COLOR = '#22c55e';
+const UNSAFE_COLOR = '#ef4444';
+
+export function LaunchWindowPath() {
+  const { launchWindow } = useMissionStore();
+
+  if (!launchWindow || launchWindow.length === 0) return null;
+
+  const best = getBestLaunchSlot(launchWindow);
+
+  return (
+    <>
+      <Polyline
+        positions={launchWindow.map((slot) => [slot.predictedLanding.latitude, slot.predictedLanding.longitude])}
+        pathOptions={{ color: PATH_COLOR, weight: 1.5, opacity: 0.6, dashArray: '4 4' }}
+      />
+      {launchWindow.map((slot) => {
+        const color = slot === best ? BEST_COLOR : slot.safe ? PATH_COLOR : UNSAFE_COLOR;
+        return (
+          <CircleMarker
+            key={slot.time.getTime()}
+            center={[slot.predictedLanding.latitude, slot.predictedLanding.longitude]}
+            radius={slot === best ? 6 : 4}
+            pathOptions={{ color, fillColor: color, fillOpacity: 0.8, weight: 1 }}
+          >
+            <Tooltip direction="top" offset={[0, -4]}>
+              {slot.time.getHours()}:00 / {slot.horizontalDistance.toFixed(0)} m
+            </Tooltip>
+          </CircleMarker>
+        );
+      })}
+    </>
+  );
+}
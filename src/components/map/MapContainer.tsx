@@ -7,7 +7,10 @@ import { MapContainer as LeafletMapContainer, TileLayer, useMap } from 'react-le
 import { useMissionStore } from '../../store/missionStore';
 import { LaunchSiteMarker } from './LaunchSiteMarker';
 import { TrajectoryPath } from './TrajectoryPath';
-import { LandingZone } from './LandingZone';
+import { LandingZones } from './LandingZone';
+import { LandingHeatmap } from './LandingHeatmap';
+import { TerrainShading } from './TerrainShading';
+import { LaunchWindowPath } from './LaunchWindowPath';
 import { RocketMarker } from './RocketMarker';
 import { MapScrollHandler } from './MapScrollHandler';
 import 'leaflet/dist/leaflet.css';
@@ -56,6 +59,9 @@ export function MapView() {
         url="https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png"
       />
 
+      {/* 地形の陰影起伏 */}
+      <TerrainShading />
+
       {/* 地図更新ハンドラ */}
       <MapUpdater />
 
@@ -68,8 +74,14 @@ export function MapView() {
       {/* 軌道表示 */}
       {trajectoryResult && <TrajectoryPath />}
 
+      {/* 着地確率分布 */}
+      {trajectoryResult && <LandingHeatmap />}
+
+      {/* ローンチウィンドウの着地点の推移 */}
+      {trajectoryResult && <LaunchWindowPath />}
+
       {/* 着地予測範囲 */}
-      {trajectoryResult && <LandingZone />}
+      {trajectoryResult && <LandingZones />}
 
       {/* ロケット位置（ライブテレメトリー） */}
       <RocketMarker />
@@ -0,0 +1,61 @@
+/**
+ * 地形の陰影起伏（読み込んだ地形データの範囲に重ねる）
+ */
+
+import { useMemo } from 'react';
+import { ImageOverlay } from 'react-leaflet';
+import type { LatLngBoundsExpression } from 'leaflet';
+import { useMissionStore } from '../../store/missionStore';
+import { calculateHillshade, resampleElevationModel } from '../../physics/terrain';
+import type { ElevationModel } from '../../types/terrain';
+
+// 陰影画像の最大画素数（縦横）
+const MAX_IMAGE_SIZE = 512;
+
+// 陰影の不透明度（暗い地図タイルに重ねる）
+const SHADING_OPACITY = 0.45;
+
+/**
+ * 陰影起伏の画像（data URL）と表示範囲を作成
+ */
+function createShadingImage(terrain: ElevationModel): { url: string; bounds: LatLngBoundsExpression } | null {
+  const dem = resampleElevationModel(terrain, MAX_IMAGE_SIZE);
+  const shade = calculateHillshade(dem);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = dem.width;
+  canvas.height = dem.height;
+  const context = canvas.getContext('2d');
+  if (!context) return null;
+
+  const image = context.createImageData(dem.width, dem.height);
+  for (let i = 0; i < shade.length; i++) {
+    const missing = Number.isNaN(dem.elevations[i]);
+    image.data[i * 4] = shade[i];
+    image.data[i * 4 + 1] = shade[i];
+    image.data[i * 4 + 2] = shade[i];
+    image.data[i * 4 + 3] = missing ? 0 : 255;
+  }
+  context.putImageData(image, 0, 0);
+
+  // 格子点は画素の中心なので、範囲を半画素ずつ広げる
+  const halfX = (dem.east - dem.west) / (dem.width - 1) / 2;
+  const halfY = (dem.north - dem.south) / (dem.height - 1) / 2;
+
+  return {
+    url: canvas.toDataURL(),
+    bounds: [
+      [dem.south - halfY, dem.west - halfX],
+      [dem.north + halfY, dem.east + halfX],
+    ],
+  };
+}
+
+export function TerrainShading() {
+  const { terrain } = useMissionStore();
+  const image = useMemo(() => (terrain ? createShadingImage(terrain) : null), [terrain]);
+
+  if (!image) return null;
+
+  return <ImageOverlay url={image.url} bounds={image.bounds} opacity={SHADING_OPACITY} />;
+}
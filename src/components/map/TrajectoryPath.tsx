@@ -5,6 +5,18 @@
 import { Polyline, CircleMarker, Popup } from 'react-leaflet';
 import { useMissionStore } from '../../store/missionStore';
 import type { LatLngExpression } from 'leaflet';
+import type { FlightPhase } from '../../types/trajectory';
+import { isDescentPhase, splitTrajectoryByPhase } from '../../types/trajectory';
+
+// 降下区間の色（ドローグはオレンジ、メイン・単一展開は緑）
+const DESCENT_COLORS: Partial<Record<FlightPhase, string>> = {
+  descent: '#22c55e',
+  drogue: '#f97316',
+  main: '#22c55e',
+};
+
+// 切り離した下段の軌道の色（着地予測と同じ順）
+const STAGE_COLORS = ['#a855f7', '#06b6d4', '#ec4899'];
 
 /**
  * ローカル座標を地理座標に変換
@@ -28,17 +40,20 @@ export function TrajectoryPath() {
 
   if (!trajectoryResult) return null;
 
-  const { trajectoryPoints, stats } = trajectoryResult;
+  const { trajectoryPoints, stats, stageLandings } = trajectoryResult;
 
   // 上昇フェーズの座標
   const ascentPoints: LatLngExpression[] = trajectoryPoints
     .filter((p) => p.phase === 'thrust' || p.phase === 'coast')
     .map((p) => positionToLatLng(launchSite, p.position.x, p.position.y));
 
-  // 降下フェーズの座標
-  const descentPoints: LatLngExpression[] = trajectoryPoints
-    .filter((p) => p.phase === 'descent')
-    .map((p) => positionToLatLng(launchSite, p.position.x, p.position.y));
+  // 降下フェーズの座標（ドローグ・メインは区間ごと）
+  const descentSegments = splitTrajectoryByPhase(trajectoryPoints)
+    .filter((segment) => isDescentPhase(segment.phase))
+    .map((segment) => ({
+      phase: segment.phase,
+      positions: segment.points.map((p) => positionToLatLng(launchSite, p.position.x, p.position.y)),
+    }));
 
   // 頂点を探す
   const apogeePoint = trajectoryPoints.find(
@@ -68,17 +83,32 @@ export function TrajectoryPath() {
         />
       )}
 
-      {/* 降下軌道（緑） */}
-      {descentPoints.length > 1 && (
+      {/* 降下軌道（緑、ドローグ区間はオレンジ） */}
+      {descentSegments.filter((segment) => segment.positions.length > 1).map((segment, i) => (
         <Polyline
-          positions={descentPoints}
+          key={`${segment.phase}-${i}`}
+          positions={segment.positions}
           pathOptions={{
-            color: '#22c55e',
+            color: DESCENT_COLORS[segment.phase] ?? '#22c55e',
             weight: 4,
             opacity: 0.9,
           }}
         />
-      )}
+      ))}
+
+      {/* 切り離した下段の軌道（分離から着地まで） */}
+      {stageLandings.map((stage, i) => (
+        <Polyline
+          key={`stage-${i}`}
+          positions={stage.trajectoryPoints.map((p) => positionToLatLng(launchSite, p.position.x, p.position.y))}
+          pathOptions={{
+            color: STAGE_COLORS[i % STAGE_COLORS.length],
+            weight: 3,
+            opacity: 0.8,
+            dashArray: '2, 6',
+          }}
+        />
+      ))}
 
       {/* 頂点マーカー */}
       {apogeeLatLng && (
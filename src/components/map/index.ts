@@ -1,4 +1,7 @@
 export { MapView } from './MapContainer';
 export { LaunchSiteMarker } from './LaunchSiteMarker';
 export { TrajectoryPath } from './TrajectoryPath';
-export { LandingZone } from './LandingZone';
+export { LandingZone, LandingZones } from './LandingZone';
+export { LandingHeatmap } from './LandingHeatmap';
+export { TerrainShading } from './TerrainShading';
+export { LaunchWindowPath } from './LaunchWindowPath';
@@ -2,11 +2,35 @@
  * 発射地点設定
  */
 
+import { useState, type ChangeEvent } from 'react';
 import { useMissionStore } from '../../store/missionStore';
-import { MapPin, Compass } from 'lucide-react';
+import { getElevationAt, parseElevationFile } from '../../physics/terrain';
+import { ELEVATION_FILE_EXTENSIONS } from '../../types/terrain';
+import { SURFACE_TYPE_LABELS, type SurfaceType } from '../../types/mission';
+import { ROUGHNESS_LENGTHS } from '../../physics/windEffect';
+import { MapPin, Compass, AlertTriangle, FileUp, X } from 'lucide-react';
 
 export function LaunchSiteSettings() {
-  const { launchSite, setLaunchSite } = useMissionStore();
+  const { launchSite, setLaunchSite, trajectoryResult, terrain, setTerrain } = useMissionStore();
+  const [terrainError, setTerrainError] = useState<string | null>(null);
+  const railExitVelocity = trajectoryResult?.stats.railExitVelocity;
+
+  // 地形データ上の発射地点の標高
+  const terrainElevation = terrain ? getElevationAt(terrain, launchSite) : undefined;
+
+  // 地形データ（.hgt / GeoTIFF）を読み込む
+  const handleTerrainFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setTerrainError(null);
+    try {
+      setTerrain(parseElevationFile(await file.arrayBuffer(), file.name));
+    } catch (err) {
+      setTerrainError(err instanceof Error ? err.message : '地形データの読み込みに失敗しました');
+    }
+  };
 
   // 現在地を取得
   const getCurrentLocation = () => {
@@ -77,6 +101,82 @@ export function LaunchSiteSettings() {
         現在地を取得
       </button>
 
+      {/* 地形データ */}
+      <div className="space-y-2 pt-2 border-t border-slate-600">
+        <div className="text-xs font-medium text-slate-400 uppercase">地形データ (DEM)</div>
+        {terrain ? (
+          <div className="space-y-1 text-xs bg-slate-800/60 px-2 py-1.5 rounded">
+            <div className="flex items-center justify-between">
+              <span className="text-green-400 truncate">✓ {terrain.name}</span>
+              <button
+                onClick={() => setTerrain(null)}
+                className="text-slate-400 hover:text-slate-200 flex items-center gap-1 transition-colors"
+              >
+                <X size={12} />
+                解除
+              </button>
+            </div>
+            <div className="text-slate-500">
+              {terrain.south.toFixed(3)}〜{terrain.north.toFixed(3)}°N,{' '}
+              {terrain.west.toFixed(3)}〜{terrain.east.toFixed(3)}°E（{terrain.width}×{terrain.height}）
+            </div>
+            {terrainElevation === undefined ? (
+              <div className="text-amber-300 flex items-center gap-1">
+                <AlertTriangle size={12} />
+                発射地点が範囲外です（範囲外は発射地点の標高で平坦とみなします）
+              </div>
+            ) : (
+              <div className="flex items-center justify-between text-slate-500">
+                <span>発射地点の標高（地形データ）: {terrainElevation.toFixed(1)} m</span>
+                {Math.abs(terrainElevation - launchSite.elevation) >= 0.5 && (
+                  <button
+                    onClick={() => setLaunchSite({ elevation: Math.round(terrainElevation * 10) / 10 })}
+                    className="px-1.5 py-0.5 rounded bg-slate-600 hover:bg-slate-500 text-slate-200"
+                  >
+                    標高を反映
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+        ) : (
+          <label className="w-full py-1.5 bg-slate-600 hover:bg-slate-500 border border-slate-500 rounded-lg text-xs text-slate-200 flex items-center justify-center gap-2 transition-colors cursor-pointer">
+            <FileUp size={14} />
+            地形データを読み込む (.hgt, GeoTIFF)
+            <input
+              type="file"
+              accept={ELEVATION_FILE_EXTENSIONS.join(',')}
+              onChange={handleTerrainFile}
+              className="hidden"
+            />
+          </label>
+        )}
+        {terrainError && (
+          <div className="text-xs text-red-400 bg-red-900/30 px-2 py-1 rounded">
+            {terrainError}
+          </div>
+        )}
+      </div>
+
+      {/* 地表の種類（地表付近の風の強まり方） */}
+      <div className="space-y-2 pt-2 border-t border-slate-600">
+        <div className="flex items-center gap-2">
+          <label className="flex-1 text-sm text-slate-400">周囲の地表</label>
+          <select
+            value={launchSite.surfaceType}
+            onChange={(e) => setLaunchSite({ surfaceType: e.target.value as SurfaceType })}
+            className="px-1 py-1 text-sm"
+          >
+            {(Object.keys(SURFACE_TYPE_LABELS) as SurfaceType[]).map((type) => (
+              <option key={type} value={type}>{SURFACE_TYPE_LABELS[type]}</option>
+            ))}
+          </select>
+        </div>
+        <div className="text-xs text-slate-500">
+          粗度長 {ROUGHNESS_LENGTHS[launchSite.surfaceType]} m（地上風から高さ100mまでの風を対数則で求めます）
+        </div>
+      </div>
+
       {/* 発射角度・方位 */}
       <div className="space-y-2 pt-2 border-t border-slate-600">
         <div className="text-xs font-medium text-slate-400 uppercase">発射角度</div>
@@ -109,6 +209,45 @@ export function LaunchSiteSettings() {
           {getCompassDirection(launchSite.launchAzimuth)}向き発射
         </div>
       </div>
+
+      {/* ランチレール */}
+      <div className="space-y-2 pt-2 border-t border-slate-600">
+        <div className="text-xs font-medium text-slate-400 uppercase">ランチレール</div>
+        <div className="flex items-center gap-2">
+          <label className="flex-1 text-sm text-slate-400">レール長</label>
+          <input
+            type="number"
+            value={launchSite.railLength}
+            onChange={(e) => setLaunchSite({ railLength: Math.max(0, parseFloat(e.target.value) || 0) })}
+            min={0}
+            step={0.1}
+            className="w-24 px-2 py-1 text-right"
+          />
+          <span className="w-12 text-sm text-slate-500">m</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <label className="flex-1 text-sm text-slate-400">離脱速度の下限</label>
+          <input
+            type="number"
+            value={launchSite.minRailExitVelocity}
+            onChange={(e) => setLaunchSite({ minRailExitVelocity: Math.max(0, parseFloat(e.target.value) || 0) })}
+            min={0}
+            step={1}
+            className="w-24 px-2 py-1 text-right"
+          />
+          <span className="w-12 text-sm text-slate-500">m/s</span>
+        </div>
+        {railExitVelocity !== undefined && (
+          <div
+            className={`text-xs flex items-center gap-1 ${
+              railExitVelocity < launchSite.minRailExitVelocity ? 'text-amber-300' : 'text-slate-500'
+            }`}
+          >
+            {railExitVelocity < launchSite.minRailExitVelocity && <AlertTriangle size={12} />}
+            前回の計算のレール離脱速度: {railExitVelocity.toFixed(1)} m/s
+          </div>
+        )}
+      </div>
     </div>
   );
 }
@@ -5,14 +5,22 @@
 import { useMissionStore } from '../../store/missionStore';
 import { RocketParameters } from './RocketParameters';
 import { RecoverySettings } from './RecoverySettings';
+import { StabilitySettings } from './StabilitySettings';
+import { StagingSettings } from './StagingSettings';
 import { LaunchSiteSettings } from './LaunchSiteSettings';
 import { WeatherSettings } from './WeatherSettings';
+import { FLIGHT_ENGINE_LABELS, type FlightEngine } from '../../types/trajectory';
 import { Play, RotateCcw } from 'lucide-react';
 
+const ENGINES = Object.keys(FLIGHT_ENGINE_LABELS) as FlightEngine[];
+
 export function MissionSetup() {
   const {
     runSimulation,
     resetToDefaults,
+    flightEngine,
+    setFlightEngine,
+    rocketParams,
     isCalculating,
     calculationError,
   } = useMissionStore();
@@ -43,6 +51,18 @@ export function MissionSetup() {
         <RocketParameters />
       </section>
 
+      {/* 安定性 */}
+      <section>
+        <h3 className="text-sm font-medium text-slate-300 mb-3">安定性</h3>
+        <StabilitySettings />
+      </section>
+
+      {/* 多段・クラスター */}
+      <section>
+        <h3 className="text-sm font-medium text-slate-300 mb-3">多段・クラスター</h3>
+        <StagingSettings />
+      </section>
+
       {/* 回収設定 */}
       <section>
         <h3 className="text-sm font-medium text-slate-300 mb-3">回収方式</h3>
@@ -55,6 +75,32 @@ export function MissionSetup() {
         <WeatherSettings />
       </section>
 
+      {/* 計算モデル */}
+      <section>
+        <div className="flex items-center gap-2">
+          <label className="flex-1 text-sm text-slate-400">計算モデル</label>
+          <div className="flex rounded-lg overflow-hidden border border-slate-500">
+            {ENGINES.map((engine) => (
+              <button
+                key={engine}
+                onClick={() => setFlightEngine(engine)}
+                disabled={engine === 'sixDof' && !rocketParams.geometry}
+                className={`px-2 py-1 text-xs transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+                  flightEngine === engine
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-slate-600 text-slate-300 hover:bg-slate-500'
+                }`}
+              >
+                {FLIGHT_ENGINE_LABELS[engine]}
+              </button>
+            ))}
+          </div>
+        </div>
+        {flightEngine === 'sixDof' && !rocketParams.geometry && (
+          <div className="mt-1 text-xs text-red-400">6自由度計算には機体形状の設定が必要です</div>
+        )}
+      </section>
+
       {/* エラー表示 */}
       {calculationError && (
         <div className="p-3 bg-red-900/50 border border-red-700 rounded-lg text-red-300 text-sm">
@@ -0,0 +1,103 @@
+/**
+ * モーターカタログ検索・選択
+ */
+
+import { useState } from 'react';
+import { useMissionStore } from '../../store/missionStore';
+import { searchMotors, getCatalogImpulseClasses, getMotorById } from '../../services/motor/MotorCatalog';
+import { Search } from 'lucide-react';
+
+export function MotorCatalogPicker() {
+  const { rocketParams, selectMotor } = useMissionStore();
+  const [query, setQuery] = useState('');
+  const [impulseClass, setImpulseClass] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const motors = searchMotors(query, impulseClass ?? undefined);
+  const classes = getCatalogImpulseClasses();
+  const selectedMotor = rocketParams.motorId ? getMotorById(rocketParams.motorId) : undefined;
+
+  return (
+    <div className="space-y-2">
+      {/* 選択中のモーター */}
+      {selectedMotor && (
+        <div className="text-xs text-green-400">
+          ✓ {selectedMotor.manufacturer} {selectedMotor.designation}-{rocketParams.motorDelayTime}
+        </div>
+      )}
+
+      {/* 検索 */}
+      <div className="flex items-center gap-2">
+        <Search size={14} className="text-slate-400" />
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="モーターを検索（例: A8, Estes）"
+          className="flex-1 px-2 py-1 text-sm"
+        />
+      </div>
+
+      {/* クラス絞り込み */}
+      <div className="flex flex-wrap gap-1">
+        {classes.map((c) => (
+          <button
+            key={c}
+            onClick={() => setImpulseClass(impulseClass === c ? null : c)}
+            className={`px-2 py-0.5 rounded text-xs font-medium transition-colors ${
+              impulseClass === c
+                ? 'bg-blue-600 text-white'
+                : 'bg-slate-600 text-slate-300 hover:bg-slate-500'
+            }`}
+          >
+            {c}
+          </button>
+        ))}
+      </div>
+
+      {/* 検索結果 */}
+      <div className="max-h-48 overflow-y-auto space-y-1">
+        {motors.length === 0 && (
+          <div className="text-xs text-slate-500">該当するモーターがありません</div>
+        )}
+        {motors.map((motor) => (
+          <div
+            key={motor.id}
+            className={`rounded px-2 py-1.5 text-xs ${
+              motor.id === rocketParams.motorId ? 'bg-blue-900/40 border border-blue-700' : 'bg-slate-800/60'
+            }`}
+          >
+            <button
+              onClick={() => setExpandedId(expandedId === motor.id ? null : motor.id)}
+              className="w-full flex justify-between text-left"
+            >
+              <span className="text-slate-200 font-medium">
+                {motor.designation}
+                <span className="ml-1 text-slate-500 font-normal">{motor.manufacturer}</span>
+              </span>
+              <span className="text-slate-400">
+                {motor.totalImpulse.toFixed(1)} Ns / {motor.burnTime.toFixed(2)} s
+              </span>
+            </button>
+
+            {/* 遅延時間を選んで適用 */}
+            {expandedId === motor.id && (
+              <div className="flex items-center gap-1 mt-1.5">
+                <span className="text-slate-500 mr-1">遅延:</span>
+                {(motor.delays.length > 0 ? motor.delays : [0]).map((delay) => (
+                  <button
+                    key={delay}
+                    onClick={() => selectMotor(motor.id, delay)}
+                    className="px-2 py-0.5 rounded bg-slate-600 hover:bg-blue-600 text-slate-200 transition-colors"
+                  >
+                    {motor.delays.length > 0 ? `${delay}s` : 'P'}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -3,23 +3,214 @@
  */
 
 import { useMissionStore } from '../../store/missionStore';
-import type { RecoveryMethod } from '../../types/recovery';
-import { RECOVERY_METHOD_LABELS } from '../../types/recovery';
+import type { RecoveryMethod, DeploymentEvent, DeploymentTrigger, DeploymentRole } from '../../types/recovery';
+import {
+  RECOVERY_METHOD_LABELS,
+  DEPLOYMENT_TRIGGER_LABELS,
+  DEPLOYMENT_ROLE_LABELS,
+  DEFAULT_DUAL_DEPLOY_EVENTS,
+  DEFAULT_FILL_DISTANCE,
+} from '../../types/recovery';
+import { Plus, Trash2 } from 'lucide-react';
+
+const TRIGGERS = Object.keys(DEPLOYMENT_TRIGGER_LABELS) as DeploymentTrigger[];
+const ROLES = Object.keys(DEPLOYMENT_ROLE_LABELS) as DeploymentRole[];
+
+/**
+ * 開傘（充填）の設定
+ */
+function InflationInputs({
+  fillTime,
+  fillDistance,
+  onChange,
+}: {
+  fillTime?: number;
+  fillDistance?: number;
+  onChange: (changes: { fillTime?: number; fillDistance?: number }) => void;
+}) {
+  return (
+    <>
+      <div className="flex items-center gap-2">
+        <label className="flex-1 text-sm text-slate-400">充填距離係数</label>
+        <input
+          type="number"
+          value={fillDistance ?? DEFAULT_FILL_DISTANCE}
+          onChange={(e) => onChange({ fillDistance: Math.max(0, parseFloat(e.target.value) || 0) })}
+          min={0}
+          max={20}
+          step={0.5}
+          disabled={fillTime !== undefined}
+          className="w-24 px-2 py-1 text-right disabled:opacity-50"
+        />
+        <span className="w-12 text-sm text-slate-500">× D</span>
+      </div>
+      <div className="flex items-center gap-2">
+        <label className="flex-1 text-sm text-slate-400">充填時間</label>
+        <input
+          type="number"
+          value={fillTime ?? ''}
+          placeholder="自動"
+          onChange={(e) =>
+            onChange({ fillTime: e.target.value === '' ? undefined : Math.max(0, parseFloat(e.target.value) || 0) })
+          }
+          min={0}
+          max={5}
+          step={0.05}
+          className="w-24 px-2 py-1 text-right"
+        />
+        <span className="w-12 text-sm text-slate-500">s</span>
+      </div>
+    </>
+  );
+}
+
+/**
+ * 展開イベント1件の設定
+ */
+function DeploymentEventEditor({
+  index,
+  event,
+  onChange,
+  onRemove,
+}: {
+  index: number;
+  event: DeploymentEvent;
+  onChange: (event: DeploymentEvent) => void;
+  onRemove?: () => void;
+}) {
+  const update = (changes: Partial<DeploymentEvent>) => onChange({ ...event, ...changes });
+
+  return (
+    <div className="bg-slate-800/60 rounded p-2 space-y-2">
+      <div className="flex items-center gap-2">
+        <span className="text-xs text-slate-500">#{index + 1}</span>
+        <select
+          value={event.role ?? 'main'}
+          onChange={(e) => update({ role: e.target.value as DeploymentRole })}
+          className="px-1 py-1 text-sm"
+        >
+          {ROLES.map((role) => (
+            <option key={role} value={role}>{DEPLOYMENT_ROLE_LABELS[role]}</option>
+          ))}
+        </select>
+        <select
+          value={event.device}
+          onChange={(e) => update({ device: e.target.value as DeploymentEvent['device'] })}
+          className="flex-1 px-1 py-1 text-sm"
+        >
+          <option value="parachute">{RECOVERY_METHOD_LABELS.parachute}</option>
+          <option value="streamer">{RECOVERY_METHOD_LABELS.streamer}</option>
+        </select>
+        {onRemove && (
+          <button
+            onClick={onRemove}
+            className="p-1 rounded text-slate-400 hover:text-red-400 hover:bg-slate-700"
+            title="削除"
+          >
+            <Trash2 size={14} />
+          </button>
+        )}
+      </div>
+
+      {/* 展開条件 */}
+      <div className="flex items-center gap-2">
+        <label className="flex-1 text-sm text-slate-400">展開条件</label>
+        <select
+          value={event.trigger}
+          onChange={(e) => update({ trigger: e.target.value as DeploymentTrigger })}
+          className="w-36 px-1 py-1 text-sm"
+        >
+          {TRIGGERS.map((trigger) => (
+            <option key={trigger} value={trigger}>{DEPLOYMENT_TRIGGER_LABELS[trigger]}</option>
+          ))}
+        </select>
+      </div>
+      {(event.trigger === 'altitude' || event.trigger === 'timeAfterApogee') && (
+        <div className="flex items-center gap-2">
+          <label className="flex-1 text-sm text-slate-400">
+            {event.trigger === 'altitude' ? '展開高度' : '頂点からの時間'}
+          </label>
+          <input
+            type="number"
+            value={event.triggerValue ?? 0}
+            onChange={(e) => update({ triggerValue: Math.max(0, parseFloat(e.target.value) || 0) })}
+            min={0}
+            step={event.trigger === 'altitude' ? 10 : 0.5}
+            className="w-24 px-2 py-1 text-right"
+          />
+          <span className="w-12 text-sm text-slate-500">{event.trigger === 'altitude' ? 'm' : 's'}</span>
+        </div>
+      )}
+
+      {/* 回収装置 */}
+      {event.device === 'parachute' ? (
+        <>
+          <div className="flex items-center gap-2">
+            <label className="flex-1 text-sm text-slate-400">直径</label>
+            <input
+              type="number"
+              value={(event.parachuteDiameter ?? 0.3) * 100}
+              onChange={(e) => update({ parachuteDiameter: parseFloat(e.target.value) / 100 || 0.3 })}
+              min={10}
+              max={500}
+              step={5}
+              className="w-24 px-2 py-1 text-right"
+            />
+            <span className="w-12 text-sm text-slate-500">cm</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <label className="flex-1 text-sm text-slate-400">抗力係数 Cd</label>
+            <input
+              type="number"
+              value={event.parachuteCd ?? 1.75}
+              onChange={(e) => update({ parachuteCd: parseFloat(e.target.value) || 1.75 })}
+              min={0.5}
+              max={2.5}
+              step={0.05}
+              className="w-24 px-2 py-1 text-right"
+            />
+            <span className="w-12 text-sm text-slate-500"></span>
+          </div>
+        </>
+      ) : (
+        <div className="flex items-center gap-2">
+          <label className="flex-1 text-sm text-slate-400">面積</label>
+          <input
+            type="number"
+            value={(event.streamerArea ?? 0.01) * 10000}
+            onChange={(e) => update({ streamerArea: parseFloat(e.target.value) / 10000 || 0.01 })}
+            min={10}
+            max={5000}
+            step={10}
+            className="w-24 px-2 py-1 text-right"
+          />
+          <span className="w-12 text-sm text-slate-500">cm²</span>
+        </div>
+      )}
+
+      <InflationInputs fillTime={event.fillTime} fillDistance={event.fillDistance} onChange={update} />
+    </div>
+  );
+}
 
 export function RecoverySettings() {
   const { recoveryParams, setRecoveryParams } = useMissionStore();
 
-  const methods: RecoveryMethod[] = ['parachute', 'streamer', 'freefall'];
+  const methods: RecoveryMethod[] = ['parachute', 'streamer', 'freefall', 'dualDeploy'];
+  const deployments = recoveryParams.deployments ?? DEFAULT_DUAL_DEPLOY_EVENTS;
+
+  const updateDeployment = (index: number, event: DeploymentEvent) =>
+    setRecoveryParams({ deployments: deployments.map((d, i) => (i === index ? event : d)) });
 
   return (
     <div className="space-y-3 bg-slate-700/50 p-3 rounded-lg">
       {/* 回収方式選択 */}
-      <div className="flex gap-2">
+      <div className="grid grid-cols-2 gap-2">
         {methods.map((method) => (
           <button
             key={method}
             onClick={() => setRecoveryParams({ method })}
-            className={`flex-1 py-2 px-3 rounded-lg text-sm font-medium transition-all ${
+            className={`py-2 px-3 rounded-lg text-sm font-medium transition-all ${
               recoveryParams.method === method
                 ? 'bg-blue-600 text-white shadow-lg shadow-blue-600/30'
                 : 'bg-slate-600 border border-slate-500 text-slate-300 hover:bg-slate-500'
@@ -63,6 +254,11 @@ export function RecoverySettings() {
             />
             <span className="w-12 text-sm text-slate-500"></span>
           </div>
+          <InflationInputs
+            fillTime={recoveryParams.fillTime}
+            fillDistance={recoveryParams.fillDistance}
+            onChange={setRecoveryParams}
+          />
         </div>
       )}
 
@@ -84,6 +280,47 @@ export function RecoverySettings() {
             />
             <span className="w-12 text-sm text-slate-500">cm²</span>
           </div>
+          <InflationInputs
+            fillTime={recoveryParams.fillTime}
+            fillDistance={recoveryParams.fillDistance}
+            onChange={setRecoveryParams}
+          />
+        </div>
+      )}
+
+      {/* デュアルデプロイ設定（展開順） */}
+      {recoveryParams.method === 'dualDeploy' && (
+        <div className="space-y-2 pt-2">
+          {deployments.map((event, index) => (
+            <DeploymentEventEditor
+              key={index}
+              index={index}
+              event={event}
+              onChange={(updated) => updateDeployment(index, updated)}
+              onRemove={
+                deployments.length > 1
+                  ? () => setRecoveryParams({ deployments: deployments.filter((_, i) => i !== index) })
+                  : undefined
+              }
+            />
+          ))}
+          <button
+            onClick={() =>
+              setRecoveryParams({
+                deployments: [
+                  ...deployments,
+                  { role: 'main', trigger: 'altitude', triggerValue: 150, device: 'parachute' },
+                ],
+              })
+            }
+            className="w-full flex items-center justify-center gap-1 py-1.5 rounded bg-slate-600 hover:bg-slate-500 text-slate-300 text-sm"
+          >
+            <Plus size={14} />
+            展開イベントを追加
+          </button>
+          <div className="text-xs text-slate-500">
+            上から順に展開します。先に展開した装置は付いたまま抗力が加算されます。
+          </div>
         </div>
       )}
 
@@ -2,7 +2,18 @@
  * ロケットパラメータ入力
  */
 
+import { useState, type ChangeEvent } from 'react';
 import { useMissionStore } from '../../store/missionStore';
+import { parseEngFile, integrateThrustCurve } from '../../physics/motor';
+import { createDragEstimator, calculateReynoldsNumber } from '../../physics/aerodynamics';
+import { getSpeedOfSound } from '../../physics/atmosphere';
+import { getMotorById } from '../../services/motor/MotorCatalog';
+import { getTotalPropellantMass } from '../../types/rocket';
+import { MotorCatalogPicker } from './MotorCatalogPicker';
+import { FileUp, X } from 'lucide-react';
+
+// 推算Cdの表示に使う代表速度 [m/s]
+const DRAG_DISPLAY_VELOCITY = 50;
 
 /**
  * 数値入力フィールド
@@ -15,6 +26,7 @@ function NumberInput({
   min,
   max,
   step = 0.001,
+  disabled = false,
 }: {
   label: string;
   value: number;
@@ -23,6 +35,7 @@ function NumberInput({
   min?: number;
   max?: number;
   step?: number;
+  disabled?: boolean;
 }) {
   return (
     <div className="flex items-center gap-2">
@@ -34,7 +47,8 @@ function NumberInput({
         min={min}
         max={max}
         step={step}
-        className="w-24 px-2 py-1 text-right"
+        disabled={disabled}
+        className="w-24 px-2 py-1 text-right disabled:opacity-50"
       />
       <span className="w-12 text-sm text-slate-500">{unit}</span>
     </div>
@@ -43,6 +57,51 @@ function NumberInput({
 
 export function RocketParameters() {
   const { rocketParams, setRocketParams } = useMissionStore();
+  const [curveName, setCurveName] = useState<string | null>(null);
+  const [curveError, setCurveError] = useState<string | null>(null);
+
+  const hasThrustCurve = !!rocketParams.thrustCurve && rocketParams.thrustCurve.length > 1;
+  const catalogMotor = rocketParams.motorId ? getMotorById(rocketParams.motorId) : undefined;
+  const curveLabel = catalogMotor
+    ? `${catalogMotor.manufacturer} ${catalogMotor.designation}`
+    : curveName ?? '読み込み済み';
+
+  // .engファイルから推力曲線を読み込む
+  const handleEngFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setCurveError(null);
+    try {
+      const [motor] = parseEngFile(await file.text());
+      const curve = motor.thrustCurve;
+      setRocketParams({
+        thrustCurve: curve,
+        motorId: undefined,
+        motorTotalImpulse: integrateThrustCurve(curve),
+        motorBurnTime: curve[curve.length - 1].time,
+        propellantMass: motor.propellantMass,
+      });
+      setCurveName(`${motor.manufacturer} ${motor.designation}`);
+    } catch (err) {
+      setCurveError(err instanceof Error ? err.message : '.engファイルの読み込みに失敗しました');
+    }
+  };
+
+  // 形状からの抗力係数推算（代表速度・地上での値を表示）
+  const isDragEstimated = !!rocketParams.geometry && !rocketParams.manualDragCoefficient;
+  const estimatedCd = rocketParams.geometry
+    ? createDragEstimator(rocketParams.geometry, rocketParams.bodyDiameter)(
+        DRAG_DISPLAY_VELOCITY / getSpeedOfSound(0),
+        calculateReynoldsNumber(DRAG_DISPLAY_VELOCITY, rocketParams.bodyLength, 0)
+      )
+    : undefined;
+
+  const clearThrustCurve = () => {
+    setRocketParams({ thrustCurve: undefined, motorId: undefined });
+    setCurveName(null);
+  };
 
   return (
     <div className="space-y-3 bg-slate-700/50 p-3 rounded-lg">
@@ -85,21 +144,49 @@ export function RocketParameters() {
           unit="cm"
           min={10}
           step={1}
+          disabled={!!rocketParams.geometry}
         />
+        {rocketParams.geometry && (
+          <div className="flex items-center gap-2">
+            <label className="flex-1 text-sm text-slate-400">抗力係数の決め方</label>
+            <div className="flex rounded-lg overflow-hidden border border-slate-500">
+              {[false, true].map((manual) => (
+                <button
+                  key={String(manual)}
+                  onClick={() => setRocketParams({ manualDragCoefficient: manual })}
+                  className={`px-2 py-1 text-xs transition-colors ${
+                    !!rocketParams.manualDragCoefficient === manual
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-slate-600 text-slate-300 hover:bg-slate-500'
+                  }`}
+                >
+                  {manual ? '手入力' : '形状から推算'}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
         <NumberInput
           label="抗力係数 Cd"
-          value={rocketParams.dragCoefficient}
+          value={isDragEstimated && estimatedCd !== undefined ? +estimatedCd.toFixed(3) : rocketParams.dragCoefficient}
           onChange={(v) => setRocketParams({ dragCoefficient: v })}
           unit=""
           min={0.1}
           max={2}
           step={0.05}
+          disabled={isDragEstimated}
         />
+        {isDragEstimated && (
+          <div className="text-xs text-slate-500">
+            {DRAG_DISPLAY_VELOCITY} m/s・地上での推算値。上昇中は速度・高度に応じて変化します
+          </div>
+        )}
       </div>
 
       {/* モーター */}
       <div className="space-y-2 pt-2 border-t border-slate-600">
         <div className="text-xs font-medium text-slate-400 uppercase">モーター</div>
+        <MotorCatalogPicker />
         <NumberInput
           label="総力積"
           value={rocketParams.motorTotalImpulse}
@@ -107,6 +194,7 @@ export function RocketParameters() {
           unit="Ns"
           min={0.1}
           step={0.1}
+          disabled={hasThrustCurve}
         />
         <NumberInput
           label="燃焼時間"
@@ -115,6 +203,7 @@ export function RocketParameters() {
           unit="s"
           min={0.1}
           step={0.1}
+          disabled={hasThrustCurve}
         />
         <NumberInput
           label="遅延時間"
@@ -124,13 +213,40 @@ export function RocketParameters() {
           min={0}
           step={0.5}
         />
+
+        {/* 推力曲線（RASP .eng） */}
+        {hasThrustCurve ? (
+          <div className="flex items-center justify-between text-xs bg-slate-800/60 px-2 py-1.5 rounded">
+            <span className="text-green-400">
+              ✓ 推力曲線: {curveLabel}（{rocketParams.thrustCurve!.length}点）
+            </span>
+            <button
+              onClick={clearThrustCurve}
+              className="text-slate-400 hover:text-slate-200 flex items-center gap-1 transition-colors"
+            >
+              <X size={12} />
+              解除
+            </button>
+          </div>
+        ) : (
+          <label className="w-full py-1.5 bg-slate-600 hover:bg-slate-500 border border-slate-500 rounded-lg text-xs text-slate-200 flex items-center justify-center gap-2 transition-colors cursor-pointer">
+            <FileUp size={14} />
+            推力曲線を読み込む (.eng)
+            <input type="file" accept=".eng,.txt" onChange={handleEngFile} className="hidden" />
+          </label>
+        )}
+        {curveError && (
+          <div className="text-xs text-red-400 bg-red-900/30 px-2 py-1 rounded">
+            {curveError}
+          </div>
+        )}
       </div>
 
       {/* 計算値表示 */}
       <div className="pt-2 border-t border-slate-600 text-xs text-slate-500">
         <div className="flex justify-between">
           <span>総質量:</span>
-          <span className="text-slate-300">{((rocketParams.dryMass + rocketParams.propellantMass) * 1000).toFixed(1)} g</span>
+          <span className="text-slate-300">{((rocketParams.dryMass + getTotalPropellantMass(rocketParams)) * 1000).toFixed(1)} g</span>
         </div>
         <div className="flex justify-between">
           <span>平均推力:</span>
@@ -0,0 +1,303 @@
+/**
+ * 安定性（機体形状・部品配置）設定
+ *
+ * 形状は抗力係数の推算にも使用
+ */
+
+import { useMissionStore } from '../../store/missionStore';
+import { calculateStability } from '../../physics/stability';
+import type { RocketGeometry, NoseConeShape, FinSet, MassComponent } from '../../types/stability';
+import {
+  DEFAULT_ROCKET_GEOMETRY,
+  MIN_STATIC_MARGIN,
+  NOSE_CONE_SHAPE_LABELS,
+  getGeometryLength,
+} from '../../types/stability';
+import { getTotalPropellantMass } from '../../types/rocket';
+import { Plus, Trash2 } from 'lucide-react';
+
+const SHAPES = Object.keys(NOSE_CONE_SHAPE_LABELS) as NoseConeShape[];
+
+/**
+ * 数値入力フィールド（表示単位への倍率つき）
+ */
+function ScaledInput({
+  label,
+  value,
+  scale,
+  onChange,
+  unit,
+  step = 0.5,
+}: {
+  label: string;
+  value: number;
+  scale: number;
+  onChange: (value: number) => void;
+  unit: string;
+  step?: number;
+}) {
+  return (
+    <div className="flex items-center gap-2">
+      <label className="flex-1 text-sm text-slate-400">{label}</label>
+      <input
+        type="number"
+        value={+(value * scale).toFixed(3)}
+        onChange={(e) => onChange(Math.max(0, parseFloat(e.target.value) || 0) / scale)}
+        min={0}
+        step={step}
+        className="w-24 px-2 py-1 text-right"
+      />
+      <span className="w-12 text-sm text-slate-500">{unit}</span>
+    </div>
+  );
+}
+
+/**
+ * 計算結果の1行
+ */
+function ResultRow({ label, value, className = 'text-slate-300' }: { label: string; value: string; className?: string }) {
+  return (
+    <div className="flex justify-between">
+      <span>{label}:</span>
+      <span className={className}>{value}</span>
+    </div>
+  );
+}
+
+export function StabilitySettings() {
+  const { rocketParams, setRocketParams } = useMissionStore();
+  const geometry = rocketParams.geometry;
+
+  if (!geometry) {
+    return (
+      <div className="space-y-2 bg-slate-700/50 p-3 rounded-lg">
+        <div className="text-sm text-slate-400">
+          機体形状と部品配置を入力すると、圧力中心・重心と静安定余裕を計算します。
+        </div>
+        <button
+          onClick={() => setRocketParams({ geometry: DEFAULT_ROCKET_GEOMETRY, bodyLength: getGeometryLength(DEFAULT_ROCKET_GEOMETRY) })}
+          className="w-full flex items-center justify-center gap-1 py-1.5 rounded bg-slate-600 hover:bg-slate-500 text-slate-300 text-sm"
+        >
+          <Plus size={14} />
+          機体形状を設定
+        </button>
+      </div>
+    );
+  }
+
+  // 形状を変えたら全長も合わせる
+  const update = (changes: Partial<RocketGeometry>) => {
+    const next = { ...geometry, ...changes };
+    setRocketParams({ geometry: next, bodyLength: getGeometryLength(next) });
+  };
+  const updateFins = (changes: Partial<FinSet>) => update({ finSet: { ...geometry.finSet, ...changes } });
+  const updateComponent = (index: number, changes: Partial<MassComponent>) =>
+    update({ components: geometry.components.map((c, i) => (i === index ? { ...c, ...changes } : c)) });
+
+  let stability: ReturnType<typeof calculateStability> | null = null;
+  let stabilityError: string | null = null;
+  try {
+    stability = calculateStability(geometry, rocketParams.bodyDiameter, getTotalPropellantMass(rocketParams));
+  } catch (err) {
+    stabilityError = err instanceof Error ? err.message : '安定性を計算できません';
+  }
+
+  const marginClass = (margin: number) => (margin < MIN_STATIC_MARGIN ? 'text-red-400' : 'text-green-400');
+
+  return (
+    <div className="space-y-3 bg-slate-700/50 p-3 rounded-lg">
+      {/* ノーズコーン */}
+      <div className="space-y-2">
+        <div className="text-xs font-medium text-slate-400 uppercase">ノーズコーン</div>
+        <div className="flex items-center gap-2">
+          <label className="flex-1 text-sm text-slate-400">形状</label>
+          <select
+            value={geometry.noseCone.shape}
+            onChange={(e) => update({ noseCone: { ...geometry.noseCone, shape: e.target.value as NoseConeShape } })}
+            className="w-36 px-1 py-1 text-sm"
+          >
+            {SHAPES.map((shape) => (
+              <option key={shape} value={shape}>{NOSE_CONE_SHAPE_LABELS[shape]}</option>
+            ))}
+          </select>
+        </div>
+        <ScaledInput
+          label="長さ"
+          value={geometry.noseCone.length}
+          scale={100}
+          onChange={(v) => update({ noseCone: { ...geometry.noseCone, length: v } })}
+          unit="cm"
+        />
+        <ScaledInput
+          label="質量"
+          value={geometry.noseCone.mass}
+          scale={1000}
+          onChange={(v) => update({ noseCone: { ...geometry.noseCone, mass: v } })}
+          unit="g"
+        />
+      </div>
+
+      {/* ボディチューブ */}
+      <div className="space-y-2 pt-2 border-t border-slate-600">
+        <div className="text-xs font-medium text-slate-400 uppercase">ボディチューブ（ノーズ側から）</div>
+        {geometry.bodyTubes.map((tube, index) => (
+          <div key={index} className="bg-slate-800/60 rounded p-2 space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-slate-500">#{index + 1}</span>
+              {geometry.bodyTubes.length > 1 && (
+                <button
+                  onClick={() => update({ bodyTubes: geometry.bodyTubes.filter((_, i) => i !== index) })}
+                  className="p-1 rounded text-slate-400 hover:text-red-400 hover:bg-slate-700"
+                  title="削除"
+                >
+                  <Trash2 size={14} />
+                </button>
+              )}
+            </div>
+            <ScaledInput
+              label="長さ"
+              value={tube.length}
+              scale={100}
+              onChange={(v) => update({ bodyTubes: geometry.bodyTubes.map((t, i) => (i === index ? { ...t, length: v } : t)) })}
+              unit="cm"
+            />
+            <ScaledInput
+              label="質量"
+              value={tube.mass}
+              scale={1000}
+              onChange={(v) => update({ bodyTubes: geometry.bodyTubes.map((t, i) => (i === index ? { ...t, mass: v } : t)) })}
+              unit="g"
+            />
+          </div>
+        ))}
+        <button
+          onClick={() => update({ bodyTubes: [...geometry.bodyTubes, { length: 0.1, mass: 0.005 }] })}
+          className="w-full flex items-center justify-center gap-1 py-1.5 rounded bg-slate-600 hover:bg-slate-500 text-slate-300 text-sm"
+        >
+          <Plus size={14} />
+          ボディチューブを追加
+        </button>
+      </div>
+
+      {/* フィン */}
+      <div className="space-y-2 pt-2 border-t border-slate-600">
+        <div className="text-xs font-medium text-slate-400 uppercase">フィン</div>
+        <ScaledInput label="枚数" value={geometry.finSet.count} scale={1} onChange={(v) => updateFins({ count: Math.round(v) })} unit="枚" step={1} />
+        <ScaledInput label="根元翼弦長" value={geometry.finSet.rootChord} scale={100} onChange={(v) => updateFins({ rootChord: v })} unit="cm" />
+        <ScaledInput label="翼端翼弦長" value={geometry.finSet.tipChord} scale={100} onChange={(v) => updateFins({ tipChord: v })} unit="cm" />
+        <ScaledInput label="スパン" value={geometry.finSet.span} scale={100} onChange={(v) => updateFins({ span: v })} unit="cm" />
+        <ScaledInput label="後退距離" value={geometry.finSet.sweepLength} scale={100} onChange={(v) => updateFins({ sweepLength: v })} unit="cm" />
+        <ScaledInput label="後端からの位置" value={geometry.finSet.offsetFromTail} scale={100} onChange={(v) => updateFins({ offsetFromTail: v })} unit="cm" />
+        <ScaledInput
+          label="カント角（6自由度）"
+          value={geometry.finSet.cantAngle ?? 0}
+          scale={1}
+          onChange={(v) => updateFins({ cantAngle: v })}
+          unit="°"
+          step={0.5}
+        />
+        <ScaledInput label="板厚" value={geometry.finSet.thickness} scale={1000} onChange={(v) => updateFins({ thickness: v })} unit="mm" />
+        <ScaledInput label="質量（全枚数）" value={geometry.finSet.mass} scale={1000} onChange={(v) => updateFins({ mass: v })} unit="g" />
+      </div>
+
+      {/* ランチラグ（長さ0で無し） */}
+      <div className="space-y-2 pt-2 border-t border-slate-600">
+        <div className="text-xs font-medium text-slate-400 uppercase">ランチラグ</div>
+        <ScaledInput
+          label="長さ"
+          value={geometry.launchLug?.length ?? 0}
+          scale={100}
+          onChange={(v) =>
+            update({ launchLug: v > 0 ? { diameter: geometry.launchLug?.diameter ?? 0.005, length: v } : undefined })
+          }
+          unit="cm"
+        />
+        {geometry.launchLug && (
+          <ScaledInput
+            label="外径"
+            value={geometry.launchLug.diameter}
+            scale={1000}
+            onChange={(v) => update({ launchLug: { ...geometry.launchLug!, diameter: v } })}
+            unit="mm"
+          />
+        )}
+      </div>
+
+      {/* 搭載部品 */}
+      <div className="space-y-2 pt-2 border-t border-slate-600">
+        <div className="text-xs font-medium text-slate-400 uppercase">搭載部品（位置はノーズ先端から）</div>
+        <ScaledInput label="モーター長" value={geometry.motorLength} scale={100} onChange={(v) => update({ motorLength: v })} unit="cm" />
+        {geometry.components.map((component, index) => (
+          <div key={index} className="bg-slate-800/60 rounded p-2 space-y-2">
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                value={component.name}
+                onChange={(e) => updateComponent(index, { name: e.target.value })}
+                className="flex-1 px-2 py-1 text-sm"
+              />
+              <button
+                onClick={() => update({ components: geometry.components.filter((_, i) => i !== index) })}
+                className="p-1 rounded text-slate-400 hover:text-red-400 hover:bg-slate-700"
+                title="削除"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+            <ScaledInput label="質量" value={component.mass} scale={1000} onChange={(v) => updateComponent(index, { mass: v })} unit="g" />
+            <ScaledInput label="位置" value={component.position} scale={100} onChange={(v) => updateComponent(index, { position: v })} unit="cm" />
+          </div>
+        ))}
+        <button
+          onClick={() => update({ components: [...geometry.components, { name: '部品', mass: 0.005, position: 0.1 }] })}
+          className="w-full flex items-center justify-center gap-1 py-1.5 rounded bg-slate-600 hover:bg-slate-500 text-slate-300 text-sm"
+        >
+          <Plus size={14} />
+          部品を追加
+        </button>
+      </div>
+
+      {/* 計算結果 */}
+      <div className="pt-2 border-t border-slate-600 text-xs text-slate-500">
+        {stability ? (
+          <>
+            <ResultRow label="圧力中心 CP" value={`${(stability.cp * 100).toFixed(1)} cm`} />
+            <ResultRow label="重心 CG（点火時）" value={`${(stability.cgWet * 100).toFixed(1)} cm`} />
+            <ResultRow label="重心 CG（燃焼後）" value={`${(stability.cgDry * 100).toFixed(1)} cm`} />
+            <ResultRow
+              label="静安定余裕（点火時）"
+              value={`${stability.staticMarginWet.toFixed(2)} cal`}
+              className={marginClass(stability.staticMarginWet)}
+            />
+            <ResultRow
+              label="静安定余裕（燃焼後）"
+              value={`${stability.staticMarginDry.toFixed(2)} cal`}
+              className={marginClass(stability.staticMarginDry)}
+            />
+            {Math.abs(stability.componentMass - rocketParams.dryMass) > 0.001 && (
+              <div className="flex items-center justify-between mt-2 pt-2 border-t border-slate-600">
+                <span>
+                  部品質量の合計 {(stability.componentMass * 1000).toFixed(1)} g が空虚質量と異なります
+                </span>
+                <button
+                  onClick={() => setRocketParams({ dryMass: stability.componentMass })}
+                  className="px-2 py-0.5 rounded bg-slate-600 hover:bg-slate-500 text-slate-300"
+                >
+                  反映
+                </button>
+              </div>
+            )}
+          </>
+        ) : (
+          <div className="text-red-400">{stabilityError}</div>
+        )}
+      </div>
+      <button
+        onClick={() => setRocketParams({ geometry: undefined })}
+        className="w-full text-xs text-slate-400 hover:text-slate-200 transition-colors"
+      >
+        機体形状の設定を解除
+      </button>
+    </div>
+  );
+}
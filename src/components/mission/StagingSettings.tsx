@@ -0,0 +1,238 @@
+/**
+ * 多段・クラスター設定
+ *
+ * 上の「ロケット」設定が最上段。下段は下から順に並べる
+ */
+
+import { useMissionStore } from '../../store/missionStore';
+import type { RocketStage, StageIgnition, StageIgnitionTrigger } from '../../types/rocket';
+import {
+  DEFAULT_ROCKET_STAGE,
+  DEFAULT_STAGE_IGNITION,
+  STAGE_IGNITION_TRIGGER_LABELS,
+  getTotalPropellantMass,
+} from '../../types/rocket';
+import type { RecoveryMethod } from '../../types/recovery';
+import { RECOVERY_METHOD_LABELS } from '../../types/recovery';
+import { Plus, Trash2 } from 'lucide-react';
+
+const IGNITION_TRIGGERS = Object.keys(STAGE_IGNITION_TRIGGER_LABELS) as StageIgnitionTrigger[];
+
+// 下段の回収方式（デュアルデプロイは最上段のみ）
+const STAGE_RECOVERY_METHODS: RecoveryMethod[] = ['freefall', 'streamer', 'parachute'];
+
+/**
+ * 数値入力フィールド（表示単位への倍率つき）
+ */
+function ScaledInput({
+  label,
+  value,
+  scale,
+  onChange,
+  unit,
+  step = 0.5,
+}: {
+  label: string;
+  value: number;
+  scale: number;
+  onChange: (value: number) => void;
+  unit: string;
+  step?: number;
+}) {
+  return (
+    <div className="flex items-center gap-2">
+      <label className="flex-1 text-sm text-slate-400">{label}</label>
+      <input
+        type="number"
+        value={+(value * scale).toFixed(3)}
+        onChange={(e) => onChange(Math.max(0, parseFloat(e.target.value) || 0) / scale)}
+        min={0}
+        step={step}
+        className="w-24 px-2 py-1 text-right"
+      />
+      <span className="w-12 text-sm text-slate-500">{unit}</span>
+    </div>
+  );
+}
+
+/**
+ * 点火のきっかけの設定
+ */
+function IgnitionInput({ ignition, onChange }: { ignition: StageIgnition; onChange: (ignition: StageIgnition) => void }) {
+  return (
+    <>
+      <div className="flex items-center gap-2">
+        <label className="flex-1 text-sm text-slate-400">点火</label>
+        <select
+          value={ignition.trigger}
+          onChange={(e) => onChange({ ...ignition, trigger: e.target.value as StageIgnitionTrigger })}
+          className="w-36 px-1 py-1 text-sm"
+        >
+          {IGNITION_TRIGGERS.map((trigger) => (
+            <option key={trigger} value={trigger}>{STAGE_IGNITION_TRIGGER_LABELS[trigger]}</option>
+          ))}
+        </select>
+      </div>
+      {ignition.trigger === 'delay' && (
+        <ScaledInput label="点火時刻" value={ignition.delay} scale={1} onChange={(v) => onChange({ ...ignition, delay: v })} unit="s" step={0.1} />
+      )}
+    </>
+  );
+}
+
+/**
+ * 下段1段分の設定
+ */
+function StageEditor({
+  index,
+  stage,
+  onChange,
+  onRemove,
+}: {
+  index: number;
+  stage: RocketStage;
+  onChange: (changes: Partial<RocketStage>) => void;
+  onRemove: () => void;
+}) {
+  const { recovery } = stage;
+
+  return (
+    <div className="bg-slate-800/60 rounded p-2 space-y-2">
+      <div className="flex items-center gap-2">
+        <span className="text-xs text-slate-500">#{index + 1}</span>
+        <input
+          type="text"
+          value={stage.name}
+          onChange={(e) => onChange({ name: e.target.value })}
+          className="flex-1 px-2 py-1 text-sm"
+        />
+        <button
+          onClick={onRemove}
+          className="p-1 rounded text-slate-400 hover:text-red-400 hover:bg-slate-700"
+          title="削除"
+        >
+          <Trash2 size={14} />
+        </button>
+      </div>
+
+      <ScaledInput label="空虚質量" value={stage.dryMass} scale={1000} onChange={(v) => onChange({ dryMass: v })} unit="g" />
+      <ScaledInput label="機体直径" value={stage.bodyDiameter} scale={1000} onChange={(v) => onChange({ bodyDiameter: v })} unit="mm" step={1} />
+      <ScaledInput label="抗力係数 Cd" value={stage.dragCoefficient} scale={1} onChange={(v) => onChange({ dragCoefficient: v })} unit="" step={0.05} />
+
+      {/* モーター（1本あたり） */}
+      <div className="text-xs text-slate-500 pt-1">モーター（1本あたり）</div>
+      <ScaledInput label="総力積" value={stage.motorTotalImpulse} scale={1} onChange={(v) => onChange({ motorTotalImpulse: v, thrustCurve: undefined })} unit="Ns" />
+      <ScaledInput label="燃焼時間" value={stage.motorBurnTime} scale={1} onChange={(v) => onChange({ motorBurnTime: v, thrustCurve: undefined })} unit="s" step={0.1} />
+      <ScaledInput label="推進剤質量" value={stage.propellantMass} scale={1000} onChange={(v) => onChange({ propellantMass: v })} unit="g" step={0.1} />
+      <ScaledInput label="本数" value={stage.motorCount ?? 1} scale={1} onChange={(v) => onChange({ motorCount: Math.max(1, Math.round(v)) })} unit="本" step={1} />
+
+      {/* 点火・分離 */}
+      {index > 0 && (
+        <IgnitionInput ignition={stage.ignition} onChange={(ignition) => onChange({ ignition })} />
+      )}
+      <ScaledInput label="燃焼終了から分離まで" value={stage.separationDelay} scale={1} onChange={(v) => onChange({ separationDelay: v })} unit="s" step={0.1} />
+
+      {/* 分離後の回収 */}
+      <div className="flex items-center gap-2">
+        <label className="flex-1 text-sm text-slate-400">分離後の回収</label>
+        <select
+          value={recovery.method}
+          onChange={(e) => onChange({ recovery: { ...recovery, method: e.target.value as RecoveryMethod } })}
+          className="w-36 px-1 py-1 text-sm"
+        >
+          {STAGE_RECOVERY_METHODS.map((method) => (
+            <option key={method} value={method}>{RECOVERY_METHOD_LABELS[method]}</option>
+          ))}
+        </select>
+      </div>
+      {recovery.method === 'streamer' && (
+        <ScaledInput
+          label="ストリーマー面積"
+          value={recovery.streamerArea ?? 0.02}
+          scale={10000}
+          onChange={(v) => onChange({ recovery: { ...recovery, streamerArea: v } })}
+          unit="cm²"
+          step={10}
+        />
+      )}
+      {recovery.method === 'parachute' && (
+        <ScaledInput
+          label="パラシュート直径"
+          value={recovery.parachuteDiameter ?? 0.3}
+          scale={100}
+          onChange={(v) => onChange({ recovery: { ...recovery, parachuteDiameter: v } })}
+          unit="cm"
+          step={1}
+        />
+      )}
+    </div>
+  );
+}
+
+export function StagingSettings() {
+  const { rocketParams, setRocketParams } = useMissionStore();
+  const boosters = rocketParams.boosters ?? [];
+
+  const updateStage = (index: number, changes: Partial<RocketStage>) =>
+    setRocketParams({ boosters: boosters.map((s, i) => (i === index ? { ...s, ...changes } : s)) });
+
+  const removeStage = (index: number) => {
+    const next = boosters.filter((_, i) => i !== index);
+    setRocketParams({ boosters: next.length > 0 ? next : undefined });
+  };
+
+  // 発射時の総質量（全段）
+  const liftoffMass = rocketParams.dryMass + getTotalPropellantMass(rocketParams)
+    + boosters.reduce((sum, s) => sum + s.dryMass + getTotalPropellantMass(s), 0);
+
+  return (
+    <div className="space-y-3 bg-slate-700/50 p-3 rounded-lg">
+      {/* 最上段のクラスター・点火 */}
+      <div className="space-y-2">
+        <div className="text-xs font-medium text-slate-400 uppercase">最上段</div>
+        <ScaledInput
+          label="モーター本数（クラスター）"
+          value={rocketParams.motorCount ?? 1}
+          scale={1}
+          onChange={(v) => setRocketParams({ motorCount: Math.max(1, Math.round(v)) })}
+          unit="本"
+          step={1}
+        />
+        {boosters.length > 0 && (
+          <IgnitionInput
+            ignition={rocketParams.ignition ?? DEFAULT_STAGE_IGNITION}
+            onChange={(ignition) => setRocketParams({ ignition })}
+          />
+        )}
+      </div>
+
+      {/* 下段 */}
+      <div className="space-y-2 pt-2 border-t border-slate-600">
+        <div className="text-xs font-medium text-slate-400 uppercase">下段（下から順）</div>
+        {boosters.map((stage, index) => (
+          <StageEditor
+            key={index}
+            index={index}
+            stage={stage}
+            onChange={(changes) => updateStage(index, changes)}
+            onRemove={() => removeStage(index)}
+          />
+        ))}
+        <button
+          onClick={() => setRocketParams({ boosters: [...boosters, { ...DEFAULT_ROCKET_STAGE, name: `${DEFAULT_ROCKET_STAGE.name}${boosters.length + 1}` }] })}
+          className="w-full flex items-center justify-center gap-1 py-1.5 rounded bg-slate-600 hover:bg-slate-500 text-slate-300 text-sm"
+        >
+          <Plus size={14} />
+          下段を追加
+        </button>
+      </div>
+
+      {boosters.length > 0 && (
+        <div className="pt-2 border-t border-slate-600 text-xs text-slate-500 flex justify-between">
+          <span>発射時の総質量（全段）:</span>
+          <span className="text-slate-300">{(liftoffMass * 1000).toFixed(1)} g</span>
+        </div>
+      )}
+    </div>
+  );
+}
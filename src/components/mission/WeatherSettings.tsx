@@ -2,24 +2,145 @@
  * 気象データ設定
  */
 
-import { useState } from 'react';
+import { useState, type ChangeEvent } from 'react';
 import { useMissionStore } from '../../store/missionStore';
-import { getWindDirectionLabelJa } from '../../types/weather';
-import { fetchWeatherData } from '../../services/weather/WeatherAPI';
-import { Wind, Thermometer, Gauge, Cloud, Loader2 } from 'lucide-react';
+import {
+  getWindDirectionLabelJa,
+  formatWeatherAge,
+  isWeatherStale,
+  FORECAST_DAYS,
+  DEFAULT_ANEMOMETER_AVERAGING_MINUTES,
+  SAFETY_CODE_MAX_WIND_SPEED,
+  STANDARD_WIND_HEIGHT,
+  getPeakWindSpeed,
+  getTurbulenceIntensity,
+  type WeatherForecast,
+} from '../../types/weather';
+import { getForecastAt } from '../../services/weather/WeatherAPI';
+import { loadCachedForecast } from '../../services/weather/WeatherCache';
+import { requestWeather, type WeatherRequest } from '../../services/weather/WeatherProvider';
+import { getWeatherProvider, getWeatherProviders } from '../../services/weather/WeatherProviderRegistry';
+import { parseSoundingFile } from '../../physics/sounding';
+import { getDewPoint, getRelativeHumidity } from '../../physics/atmosphere';
+import { Wind, Thermometer, Gauge, Droplets, Cloud, CalendarClock, Loader2, FileUp, X } from 'lucide-react';
+
+// 湿度の入力方法（相対湿度 [%] または露点 [°C]）
+type HumidityInput = 'relative' | 'dewPoint';
+
+/**
+ * 日時を datetime-local の値（端末の時刻）に変換
+ */
+function toDateTimeLocal(date: Date): string {
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+/**
+ * 予報時刻の表示（例: 5/1 10:00）
+ */
+function formatForecastTime(date: Date): string {
+  return `${date.getMonth() + 1}/${date.getDate()} ${date.getHours()}:${date.getMinutes().toString().padStart(2, '0')}`;
+}
 
 export function WeatherSettings() {
-  const { weatherData, setWeatherData, launchSite } = useMissionStore();
+  const {
+    weatherData,
+    setWeatherData,
+    weatherProviderId,
+    setWeatherProviderId,
+    launchSite,
+    weatherForecast,
+    setWeatherForecast,
+    launchTime,
+    setLaunchTime,
+    maxWeatherAgeHours,
+    setMaxWeatherAgeHours,
+  } = useMissionStore();
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [soundingError, setSoundingError] = useState<string | null>(null);
+  const [humidityInput, setHumidityInput] = useState<HumidityInput>('relative');
+  const [logFile, setLogFile] = useState<{ name: string; text: string } | null>(null);
+  const [averagingMinutes, setAveragingMinutes] = useState(DEFAULT_ANEMOMETER_AVERAGING_MINUTES);
+  const { sounding, surfaceHumidity, surfaceTemperature } = weatherData;
+  const provider = getWeatherProvider(weatherProviderId);
+  const turbulenceIntensity = getTurbulenceIntensity(weatherData);
+
+  // 湿度の入力欄の値（未入力は乾燥空気）
+  const humidityValue = surfaceHumidity === undefined
+    ? ''
+    : humidityInput === 'relative'
+      ? surfaceHumidity
+      : Math.round(getDewPoint(surfaceTemperature, surfaceHumidity) * 10) / 10;
+
+  // 入力値を相対湿度にして保存
+  const handleHumidityChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const value = parseFloat(e.target.value);
+    if (!Number.isFinite(value)) {
+      setWeatherData({ surfaceHumidity: undefined });
+      return;
+    }
+    const relative = humidityInput === 'relative' ? value : getRelativeHumidity(surfaceTemperature, value);
+    setWeatherData({ surfaceHumidity: Math.min(Math.max(relative, 0), 100) });
+  };
+
+  // 高層気象観測（CSV・テキスト）を読み込む
+  const handleSoundingFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setSoundingError(null);
+    try {
+      setWeatherData({ sounding: parseSoundingFile(await file.text(), file.name) });
+    } catch (err) {
+      setSoundingError(err instanceof Error ? err.message : '高層気象観測の読み込みに失敗しました');
+    }
+  };
+
+  // 予報の範囲（前日0時から取得日数の最終日まで）
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const forecastEnd = new Date(today);
+  forecastEnd.setDate(forecastEnd.getDate() + FORECAST_DAYS);
+  forecastEnd.setMinutes(-1);
+
+  // 予報を使う（発射予定時刻の気象にする）
+  const applyForecast = (forecast: WeatherForecast, time: Date) => {
+    setWeatherForecast(forecast);
+    setWeatherData(getForecastAt(forecast, time));
+  };
+
+  // 発射予定時刻を変更（取得済みの予報、なければ保存した予報からその時刻の気象にする）
+  const handleLaunchTimeChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const time = e.target.value ? new Date(e.target.value) : null;
+    setLaunchTime(time);
+    setError(null);
+    if (!weatherForecast) return;
+
+    try {
+      setWeatherData(getForecastAt(weatherForecast, time ?? new Date()));
+    } catch (err) {
+      const cached = provider.cacheable
+        ? await loadCachedForecast(launchSite, time ?? new Date()).catch(() => undefined)
+        : undefined;
+      if (cached) {
+        applyForecast(cached, time ?? new Date());
+      } else {
+        setError(err instanceof Error ? err.message : '予報の時刻を選べませんでした');
+      }
+    }
+  };
 
-  const handleFetchWeather = async () => {
+  // 選んだ提供元から発射予定時刻の気象データを取得（予報でない提供元は予報を破棄）
+  const loadWeather = async (request: Pick<WeatherRequest, 'file' | 'averagingMinutes'> = {}) => {
     setIsLoading(true);
     setError(null);
 
     try {
-      const data = await fetchWeatherData(launchSite.latitude, launchSite.longitude);
-      setWeatherData(data);
+      const result = await requestWeather(provider, { site: launchSite, time: launchTime ?? new Date(), ...request });
+      setWeatherForecast(result.forecast ?? null);
+      setWeatherData({ surfaceGustSpeed: undefined, turbulenceIntensity: undefined, ...result.weather });
     } catch (err) {
       setError(err instanceof Error ? err.message : '天気データの取得に失敗しました');
     } finally {
@@ -27,35 +148,119 @@ export function WeatherSettings() {
     }
   };
 
+  // 風速計のログを読み込む
+  const handleLogFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const log = { name: file.name, text: await file.text() };
+    setLogFile(log);
+    await loadWeather({ file: log, averagingMinutes });
+  };
+
+  // 平均する時間を変更（読み込み済みのログは平均し直す）
+  const handleAveragingChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const minutes = Math.max(1, parseFloat(e.target.value) || DEFAULT_ANEMOMETER_AVERAGING_MINUTES);
+    setAveragingMinutes(minutes);
+    if (logFile) loadWeather({ file: logFile, averagingMinutes: minutes });
+  };
+
+  const handleProviderChange = (id: string) => {
+    setWeatherProviderId(id);
+    setError(null);
+  };
+
   return (
     <div className="space-y-3 bg-slate-700/50 p-3 rounded-lg">
-      {/* API取得ボタン */}
+      {/* 提供元・発射予定時刻・取得ボタン */}
       <div className="space-y-2">
-        <button
-          onClick={handleFetchWeather}
-          disabled={isLoading}
-          className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-blue-600 hover:bg-blue-500 disabled:bg-slate-600 disabled:cursor-not-allowed text-white text-sm font-medium rounded-lg transition-colors"
-        >
-          {isLoading ? (
-            <>
-              <Loader2 size={16} className="animate-spin" />
-              取得中...
-            </>
-          ) : (
-            <>
-              <Cloud size={16} />
-              発射地点の天気を取得
-            </>
-          )}
-        </button>
+        <div className="flex rounded-lg overflow-hidden border border-slate-500">
+          {getWeatherProviders().map((item) => (
+            <button
+              key={item.id}
+              onClick={() => handleProviderChange(item.id)}
+              className={`flex-1 px-2 py-1 text-xs transition-colors ${
+                item.id === provider.id
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-slate-600 text-slate-300 hover:bg-slate-500'
+              }`}
+            >
+              {item.name}
+            </button>
+          ))}
+        </div>
+        <div className="text-xs text-slate-500">{provider.description}</div>
+        <div className="flex items-center gap-2">
+          <CalendarClock size={14} className="text-blue-400" />
+          <label className="flex-1 text-sm text-slate-400">発射予定</label>
+          <input
+            type="datetime-local"
+            value={launchTime ? toDateTimeLocal(launchTime) : ''}
+            onChange={handleLaunchTimeChange}
+            min={toDateTimeLocal(today)}
+            max={toDateTimeLocal(forecastEnd)}
+            className="px-2 py-1 text-sm"
+          />
+        </div>
+        {!launchTime && provider.input === 'fetch' && (
+          <div className="text-xs text-slate-500">未指定は現在時刻の予報を使います</div>
+        )}
+        {provider.input === 'fetch' ? (
+          <button
+            onClick={() => loadWeather()}
+            disabled={isLoading}
+            className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-blue-600 hover:bg-blue-500 disabled:bg-slate-600 disabled:cursor-not-allowed text-white text-sm font-medium rounded-lg transition-colors"
+          >
+            {isLoading ? (
+              <>
+                <Loader2 size={16} className="animate-spin" />
+                取得中...
+              </>
+            ) : (
+              <>
+                <Cloud size={16} />
+                発射地点の天気を取得
+              </>
+            )}
+          </button>
+        ) : (
+          <>
+            <label className="w-full py-2 bg-blue-600 hover:bg-blue-500 rounded-lg text-sm font-medium text-white flex items-center justify-center gap-2 transition-colors cursor-pointer">
+              {isLoading ? <Loader2 size={16} className="animate-spin" /> : <FileUp size={16} />}
+              {provider.name}を読み込む ({provider.fileAccept})
+              <input type="file" accept={provider.fileAccept} onChange={handleLogFile} className="hidden" />
+            </label>
+            <div className="flex items-center gap-2 text-xs">
+              <label className="flex-1 text-slate-400">平均する時間（最後の観測まで）</label>
+              <input
+                type="number"
+                value={averagingMinutes}
+                onChange={handleAveragingChange}
+                min={1}
+                step={1}
+                className="w-16 px-2 py-1 text-right"
+              />
+              <span className="text-slate-500">分</span>
+            </div>
+          </>
+        )}
         {error && (
           <div className="text-xs text-red-400 bg-red-900/30 px-2 py-1 rounded">
             {error}
           </div>
         )}
         {weatherData.source === 'api' && weatherData.timestamp && (
-          <div className="text-xs text-green-400">
-            ✓ API取得済み ({weatherData.timestamp.toLocaleTimeString()})
+          <div className={`text-xs ${isWeatherStale(weatherData, maxWeatherAgeHours) ? 'text-amber-400' : 'text-green-400'}`}>
+            {weatherForecast?.fromCache ? '✓ 保存した予報を使用' : '✓ API取得済み'}
+            {' '}(予報 {formatForecastTime(weatherData.timestamp)}
+            {weatherData.fetchedAt && `・${formatWeatherAge(weatherData.fetchedAt)}に取得`})
+          </div>
+        )}
+        {weatherData.source === 'file' && weatherData.timestamp && (
+          <div className={`text-xs ${isWeatherStale(weatherData, maxWeatherAgeHours) ? 'text-amber-400' : 'text-green-400'}`}>
+            ✓ {logFile?.name ?? '観測ログ'}（最終観測 {formatForecastTime(weatherData.timestamp)}
+            {weatherData.fetchedAt && `・${formatWeatherAge(weatherData.fetchedAt)}`}）
           </div>
         )}
       </div>
@@ -79,6 +284,20 @@ export function WeatherSettings() {
           />
           <span className="text-sm text-slate-500">m/s</span>
         </div>
+        <div className="flex items-center gap-2">
+          <label className="w-16 text-sm text-slate-400">測定高度</label>
+          <input
+            type="number"
+            value={weatherData.windReferenceHeight}
+            onChange={(e) => setWeatherData({
+              windReferenceHeight: Math.max(0.5, parseFloat(e.target.value) || STANDARD_WIND_HEIGHT),
+            })}
+            min={0.5}
+            step={0.5}
+            className="flex-1 px-2 py-1"
+          />
+          <span className="text-sm text-slate-500">m</span>
+        </div>
         <div className="flex items-center gap-2">
           <label className="w-16 text-sm text-slate-400">風向</label>
           <input
@@ -101,15 +320,56 @@ export function WeatherSettings() {
             </span>
           )}
         </div>
+        <div className="flex items-center gap-2">
+          <label className="w-16 text-sm text-slate-400">突風</label>
+          <input
+            type="number"
+            value={weatherData.surfaceGustSpeed ?? ''}
+            onChange={(e) => {
+              const value = parseFloat(e.target.value);
+              setWeatherData({ surfaceGustSpeed: Number.isFinite(value) ? Math.max(0, value) : undefined });
+            }}
+            min={0}
+            max={40}
+            step={0.1}
+            placeholder="なし"
+            className="flex-1 px-2 py-1"
+          />
+          <span className="text-sm text-slate-500">m/s</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <label className="w-16 text-sm text-slate-400">乱流強度</label>
+          <input
+            type="number"
+            value={weatherData.turbulenceIntensity !== undefined
+              ? Math.round(weatherData.turbulenceIntensity * 1000) / 10
+              : ''}
+            onChange={(e) => {
+              const value = parseFloat(e.target.value);
+              setWeatherData({ turbulenceIntensity: Number.isFinite(value) ? Math.max(0, value) / 100 : undefined });
+            }}
+            min={0}
+            max={100}
+            step={1}
+            placeholder={turbulenceIntensity > 0 ? `推定 ${(turbulenceIntensity * 100).toFixed(0)}` : 'なし'}
+            className="flex-1 px-2 py-1"
+          />
+          <span className="text-sm text-slate-500">%</span>
+        </div>
+        {getPeakWindSpeed(weatherData) > SAFETY_CODE_MAX_WIND_SPEED && (
+          <div className="text-xs text-amber-400">
+            {weatherData.surfaceGustSpeed !== undefined ? '突風' : '風速'}が安全規定の上限（{SAFETY_CODE_MAX_WIND_SPEED} m/s）を超えています
+          </div>
+        )}
       </div>
 
-      {/* 高度別風データ（APIから取得時のみ表示） */}
+      {/* 高度別風データ（APIから取得時のみ表示、発射地点からの高度） */}
       {weatherData.windLayers && weatherData.windLayers.length > 0 && (
         <div className="space-y-1 pt-2 border-t border-slate-600">
           <div className="text-xs text-slate-400">高度別風データ:</div>
           {weatherData.windLayers.map((layer) => (
             <div key={layer.altitude} className="text-xs text-slate-500 flex justify-between">
-              <span>{layer.altitude}m</span>
+              <span>{layer.altitude.toFixed(0)}m</span>
               <span>
                 {layer.windSpeed.toFixed(1)} m/s / {layer.windDirection}°
               </span>
@@ -118,7 +378,7 @@ export function WeatherSettings() {
         </div>
       )}
 
-      {/* 気温・気圧 */}
+      {/* 気温・気圧・湿度 */}
       <div className="space-y-2 pt-2 border-t border-slate-600">
         <div className="flex items-center gap-2">
           <Thermometer size={14} className="text-orange-400" />
@@ -148,6 +408,103 @@ export function WeatherSettings() {
           />
           <span className="text-sm text-slate-500">hPa</span>
         </div>
+        <div className="flex items-center gap-2">
+          <Droplets size={14} className="text-cyan-400" />
+          <div className="flex-1">
+            <div className="inline-flex rounded-lg overflow-hidden border border-slate-500">
+              {(['relative', 'dewPoint'] as const).map((mode) => (
+                <button
+                  key={mode}
+                  onClick={() => setHumidityInput(mode)}
+                  className={`px-2 py-0.5 text-xs transition-colors ${
+                    humidityInput === mode
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-slate-600 text-slate-300 hover:bg-slate-500'
+                  }`}
+                >
+                  {mode === 'relative' ? '湿度' : '露点'}
+                </button>
+              ))}
+            </div>
+          </div>
+          <input
+            type="number"
+            value={humidityValue}
+            onChange={handleHumidityChange}
+            min={humidityInput === 'relative' ? 0 : -40}
+            max={humidityInput === 'relative' ? 100 : surfaceTemperature}
+            step={humidityInput === 'relative' ? 1 : 0.1}
+            placeholder="乾燥"
+            className="w-20 px-2 py-1 text-right"
+          />
+          <span className="text-sm text-slate-500">{humidityInput === 'relative' ? '%' : '°C'}</span>
+        </div>
+      </div>
+
+      {/* 高層気象観測（ゾンデ） */}
+      <div className="space-y-2 pt-2 border-t border-slate-600">
+        <div className="text-xs font-medium text-slate-400 uppercase">高層気象観測</div>
+        {sounding ? (
+          <div className="space-y-1 text-xs bg-slate-800/60 px-2 py-1.5 rounded">
+            <div className="flex items-center justify-between">
+              <span className="text-green-400 truncate">
+                ✓ {sounding.name}（{sounding.levels.length}層）
+              </span>
+              <button
+                onClick={() => setWeatherData({ sounding: undefined })}
+                className="text-slate-400 hover:text-slate-200 flex items-center gap-1 transition-colors"
+              >
+                <X size={12} />
+                解除
+              </button>
+            </div>
+            <div className="text-slate-500">
+              気温・気圧{sounding.levels.some((level) => level.windSpeed !== undefined) && '・風'}
+              は観測値を高度で補間して使用します
+            </div>
+            <div className="max-h-32 overflow-y-auto">
+              {sounding.levels.map((level) => (
+                <div key={level.altitude} className="flex justify-between text-slate-500">
+                  <span>{level.altitude.toFixed(0)} m</span>
+                  <span>{level.temperature.toFixed(1)}°C</span>
+                  <span>{level.pressure.toFixed(1)} hPa</span>
+                  <span>
+                    {level.windSpeed !== undefined
+                      ? `${level.windSpeed.toFixed(1)} m/s / ${level.windDirection?.toFixed(0) ?? '-'}°`
+                      : '-'}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <label className="w-full py-1.5 bg-slate-600 hover:bg-slate-500 border border-slate-500 rounded-lg text-xs text-slate-200 flex items-center justify-center gap-2 transition-colors cursor-pointer">
+            <FileUp size={14} />
+            観測データを読み込む (.csv, .txt)
+            <input type="file" accept=".csv,.txt" onChange={handleSoundingFile} className="hidden" />
+          </label>
+        )}
+        {soundingError && (
+          <div className="text-xs text-red-400 bg-red-900/30 px-2 py-1 rounded">
+            {soundingError}
+          </div>
+        )}
+      </div>
+
+      {/* 予報の古さ（保存した予報を発射場で使う場合の目安） */}
+      <div className="pt-2 border-t border-slate-600">
+        <div className="flex items-center gap-2 text-xs">
+          <label className="flex-1 text-slate-400">古い予報とみなす時間</label>
+          <input
+            type="number"
+            value={maxWeatherAgeHours}
+            onChange={(e) => setMaxWeatherAgeHours(Math.max(0, parseFloat(e.target.value) || 0))}
+            min={0}
+            step={1}
+            className="w-16 px-2 py-1 text-right"
+          />
+          <span className="text-slate-500">時間</span>
+        </div>
       </div>
 
       {/* 風速の目安 */}
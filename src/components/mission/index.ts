@@ -1,5 +1,8 @@
 export { MissionSetup } from './MissionSetup';
 export { RocketParameters } from './RocketParameters';
+export { MotorCatalogPicker } from './MotorCatalogPicker';
 export { RecoverySettings } from './RecoverySettings';
+export { StabilitySettings } from './StabilitySettings';
+export { StagingSettings } from './StagingSettings';
 export { LaunchSiteSettings } from './LaunchSiteSettings';
 export { WeatherSettings } from './WeatherSettings';
@@ -5,6 +5,7 @@
 import { useEffect, useState } from 'react';
 import { useMissionStore } from '../../store/missionStore';
 import { calculateDistance, calculateBearing, type Coordinates } from '../../types/mission';
+import { getRecoveryTargets } from '../../types/trajectory';
 import { Navigation, MapPin, RefreshCw, Rocket, Target, ArrowUp, ArrowDown, Circle } from 'lucide-react';
 
 // iOSのDeviceOrientationEvent拡張
@@ -30,6 +31,11 @@ export function RecoveryAssist() {
   const [watchId, setWatchId] = useState<number | null>(null);
   const [heading, setHeading] = useState<number | null>(null);
   const [navTarget, setNavTarget] = useState<NavigationTarget>('predicted');
+  const [pieceIndex, setPieceIndex] = useState(0);
+
+  // 回収対象（多段では最上段と切り離した下段）
+  const recoveryTargets = trajectoryResult ? getRecoveryTargets(trajectoryResult) : [];
+  const selectedPiece = recoveryTargets[Math.min(pieceIndex, recoveryTargets.length - 1)];
 
   // ロケットの飛行ステータスを判定
   const getFlightStatus = (): FlightStatus => {
@@ -48,7 +54,7 @@ export function RecoveryAssist() {
     if (navTarget === 'live' && currentTelemetry?.coordinates) {
       return currentTelemetry.coordinates;
     }
-    return trajectoryResult?.predictedLanding ?? null;
+    return selectedPiece?.landing ?? null;
   };
 
   const targetCoordinates = getTargetCoordinates();
@@ -118,7 +124,7 @@ export function RecoveryAssist() {
     );
   }
 
-  const { predictedLanding } = trajectoryResult;
+  const predictedLanding = selectedPiece.landing;
 
   // 距離と方位を計算
   const distance = userLocation && targetCoordinates
@@ -166,6 +172,28 @@ export function RecoveryAssist() {
         </div>
       )}
 
+      {/* 回収対象の選択（多段） */}
+      {recoveryTargets.length > 1 && (
+        <div>
+          <div className="text-sm text-slate-400 mb-2">回収する機体</div>
+          <div className="flex flex-wrap gap-1 bg-slate-700 rounded-lg p-1">
+            {recoveryTargets.map((target, index) => (
+              <button
+                key={index}
+                onClick={() => setPieceIndex(index)}
+                className={`flex-1 py-2 px-2 rounded-md text-sm font-medium transition-colors ${
+                  target === selectedPiece
+                    ? 'bg-blue-600 text-white'
+                    : 'text-slate-400 hover:text-slate-200'
+                }`}
+              >
+                {target.name}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* ナビゲーションターゲット切り替え */}
       {hasLiveTelemetry && (
         <div className="flex bg-slate-700 rounded-lg p-1">
@@ -222,7 +250,7 @@ export function RecoveryAssist() {
           {/* 距離 */}
           <div className="text-center">
             <div className="text-sm text-slate-400">
-              {navTarget === 'live' ? 'ロケット' : '予測着地点'}までの距離
+              {navTarget === 'live' ? 'ロケット' : `${selectedPiece.name}の予測着地点`}までの距離
             </div>
             <div className="text-4xl font-bold text-slate-50">
               {distance < 1000
@@ -279,7 +307,9 @@ export function RecoveryAssist() {
 
       {/* 予測着地点情報 */}
       <div className="bg-slate-700/50 rounded-lg p-3 border border-slate-600">
-        <div className="text-sm font-medium text-slate-300 mb-2">予測落下地点</div>
+        <div className="text-sm font-medium text-slate-300 mb-2">
+          予測落下地点{recoveryTargets.length > 1 && `（${selectedPiece.name}）`}
+        </div>
         <div className="text-sm text-slate-400">
           <div>緯度: <span className="text-slate-200">{predictedLanding.latitude.toFixed(6)}°</span></div>
           <div>経度: <span className="text-slate-200">{predictedLanding.longitude.toFixed(6)}°</span></div>
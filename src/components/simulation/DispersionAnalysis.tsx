@@ -0,0 +1,183 @@
+/**
+ * モンテカルロ分散解析の設定と結果
+ */
+
+import { useMissionStore } from '../../store/missionStore';
+import {
+  DISPERSION_PARAMETER_LABELS,
+  DISTRIBUTION_TYPE_LABELS,
+  type DispersionParameter,
+  type DistributionType,
+} from '../../types/dispersion';
+import { getTurbulenceIntensity } from '../../types/weather';
+import { Shuffle, X } from 'lucide-react';
+
+const PARAMETERS = Object.keys(DISPERSION_PARAMETER_LABELS) as DispersionParameter[];
+const DISTRIBUTION_TYPES = Object.keys(DISTRIBUTION_TYPE_LABELS) as DistributionType[];
+
+export function DispersionAnalysis() {
+  const {
+    trajectoryResult,
+    weatherData,
+    dispersionSettings,
+    dispersionResult,
+    isDispersionRunning,
+    dispersionProgress,
+    dispersionError,
+    setDispersionSettings,
+    runDispersionAnalysis,
+    cancelDispersionAnalysis,
+  } = useMissionStore();
+
+  if (!trajectoryResult) return null;
+
+  const turbulenceIntensity = getTurbulenceIntensity(weatherData);
+
+  return (
+    <div className="bg-slate-700/50 rounded-lg p-3 border border-slate-600 space-y-3">
+      <div className="text-sm font-medium text-slate-300">分散解析（モンテカルロ）</div>
+
+      {/* 試行回数・シード */}
+      <div className="grid grid-cols-2 gap-2 text-xs">
+        <label className="flex items-center justify-between gap-2">
+          <span className="text-slate-400">試行回数</span>
+          <input
+            type="number"
+            value={dispersionSettings.runs}
+            min={10}
+            max={5000}
+            step={10}
+            onChange={(e) => setDispersionSettings({ runs: Math.max(2, Math.round(parseFloat(e.target.value) || 0)) })}
+            className="w-20 px-2 py-1 text-right"
+          />
+        </label>
+        <label className="flex items-center justify-between gap-2">
+          <span className="text-slate-400">シード</span>
+          <input
+            type="number"
+            value={dispersionSettings.seed}
+            step={1}
+            onChange={(e) => setDispersionSettings({ seed: Math.round(parseFloat(e.target.value) || 0) })}
+            className="w-20 px-2 py-1 text-right"
+          />
+        </label>
+      </div>
+
+      {/* 入力誤差の分布 */}
+      <div className="space-y-1.5">
+        {PARAMETERS.map((key) => {
+          const { label, unit, relative } = DISPERSION_PARAMETER_LABELS[key];
+          const distribution = dispersionSettings[key];
+          // 相対誤差は%で入力
+          const scale = relative ? 100 : 1;
+
+          return (
+            <div key={key} className="flex items-center gap-2 text-xs">
+              <span className="flex-1 text-slate-400">{label}</span>
+              <select
+                value={distribution.type}
+                onChange={(e) =>
+                  setDispersionSettings({ [key]: { ...distribution, type: e.target.value as DistributionType } })
+                }
+                className="px-1 py-1"
+              >
+                {DISTRIBUTION_TYPES.map((type) => (
+                  <option key={type} value={type}>{DISTRIBUTION_TYPE_LABELS[type]}</option>
+                ))}
+              </select>
+              <span className="text-slate-500">±</span>
+              <input
+                type="number"
+                value={Number((distribution.spread * scale).toPrecision(6))}
+                min={0}
+                step={relative ? 1 : 0.5}
+                disabled={distribution.type === 'none'}
+                onChange={(e) =>
+                  setDispersionSettings({
+                    [key]: { ...distribution, spread: Math.max(0, (parseFloat(e.target.value) || 0) / scale) },
+                  })
+                }
+                className="w-16 px-2 py-1 text-right disabled:opacity-50"
+              />
+              <span className="w-4 text-slate-500">{unit}</span>
+            </div>
+          );
+        })}
+        <div className="text-xs text-slate-500">正規: 標準偏差 / 一様: 半幅</div>
+        {turbulenceIntensity > 0 && (
+          <div className="text-xs text-slate-500">
+            突風: 乱流強度 {(turbulenceIntensity * 100).toFixed(0)}% の乱れを試行ごとに平均風へ加えます
+          </div>
+        )}
+      </div>
+
+      {/* 実行・中止 */}
+      {isDispersionRunning ? (
+        <div className="space-y-1">
+          <div className="flex items-center gap-2">
+            <div className="flex-1 h-2 bg-slate-600 rounded overflow-hidden">
+              <div
+                className="h-full bg-blue-500 transition-all"
+                style={{ width: `${(dispersionProgress * 100).toFixed(0)}%` }}
+              />
+            </div>
+            <button
+              onClick={cancelDispersionAnalysis}
+              className="p-1 rounded bg-slate-600 hover:bg-slate-500 text-slate-300"
+              title="中止"
+            >
+              <X size={14} />
+            </button>
+          </div>
+          <div className="text-xs text-slate-400">
+            計算中... {(dispersionProgress * 100).toFixed(0)}%
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={runDispersionAnalysis}
+          className="w-full flex items-center justify-center gap-2 py-2 rounded bg-blue-600 hover:bg-blue-500 text-white text-sm font-medium transition-colors"
+        >
+          <Shuffle size={16} />
+          分散解析を実行
+        </button>
+      )}
+
+      {dispersionError && (
+        <div className="text-xs text-red-400">{dispersionError}</div>
+      )}
+
+      {/* 結果 */}
+      {dispersionResult && (
+        <div className="text-xs space-y-1">
+          <div className="text-slate-400">
+            有効試行: <span className="text-slate-200">{dispersionResult.runs}</span>
+            {dispersionResult.failedRuns > 0 && (
+              <span className="text-amber-400 ml-2">（計算失敗: {dispersionResult.failedRuns}回）</span>
+            )}
+          </div>
+          <table className="w-full text-left">
+            <thead>
+              <tr className="text-slate-500">
+                <th className="font-normal">信頼度</th>
+                <th className="font-normal text-right">長半径</th>
+                <th className="font-normal text-right">短半径</th>
+                <th className="font-normal text-right">方位</th>
+              </tr>
+            </thead>
+            <tbody className="text-slate-200">
+              {dispersionResult.ellipses.map((ellipse) => (
+                <tr key={ellipse.confidence}>
+                  <td>{(ellipse.confidence * 100).toFixed(0)}%</td>
+                  <td className="text-right">{ellipse.semiMajorAxis.toFixed(0)} m</td>
+                  <td className="text-right">{ellipse.semiMinorAxis.toFixed(0)} m</td>
+                  <td className="text-right">{ellipse.rotation.toFixed(0)}°</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
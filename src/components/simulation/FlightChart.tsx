@@ -10,11 +10,20 @@ import {
   CartesianGrid,
   Tooltip,
   Legend,
+  ReferenceArea,
   ResponsiveContainer,
 } from 'recharts';
 import { useMissionStore } from '../../store/missionStore';
+import type { FlightPhase } from '../../types/trajectory';
+import { FLIGHT_PHASE_LABELS } from '../../types/trajectory';
 import { TouchScrollWrapper } from '../shared/TouchScrollWrapper';
 
+// デュアルデプロイ区間の背景色
+const PHASE_AREA_COLORS: Partial<Record<FlightPhase, string>> = {
+  drogue: '#f97316',
+  main: '#22c55e',
+};
+
 export function FlightChart() {
   const { trajectoryResult, launchSite } = useMissionStore();
 
@@ -31,6 +40,7 @@ export function FlightChart() {
     .filter((_, i) => i % 2 === 0)
     .map((point) => ({
       time: point.time.toFixed(1),
+      phase: point.phase,
       altitude: point.position.z - launchSite.elevation,
       velocity: Math.sqrt(
         point.velocity.x ** 2 +
@@ -43,6 +53,17 @@ export function FlightChart() {
       ),
     }));
 
+  // ドローグ・メイン区間（連続する同一フェーズ）
+  const phaseAreas: { phase: FlightPhase; start: string; end: string }[] = [];
+  for (const data of chartData) {
+    const last = phaseAreas[phaseAreas.length - 1];
+    if (last && last.phase === data.phase) {
+      last.end = data.time;
+    } else if (PHASE_AREA_COLORS[data.phase]) {
+      phaseAreas.push({ phase: data.phase, start: data.time, end: data.time });
+    }
+  }
+
   return (
     <TouchScrollWrapper className="h-full p-2 bg-slate-800">
       <ResponsiveContainer width="100%" height="100%">
@@ -122,6 +143,22 @@ export function FlightChart() {
               return <span style={{ color: '#94a3b8' }}>{labels[value] || value}</span>;
             }}
           />
+          {phaseAreas.map((area) => (
+            <ReferenceArea
+              key={`${area.phase}-${area.start}`}
+              yAxisId="left"
+              x1={area.start}
+              x2={area.end}
+              fill={PHASE_AREA_COLORS[area.phase]}
+              fillOpacity={0.08}
+              label={{
+                value: FLIGHT_PHASE_LABELS[area.phase],
+                position: 'insideTop',
+                fontSize: 11,
+                fill: PHASE_AREA_COLORS[area.phase],
+              }}
+            />
+          ))}
           <Line
             yAxisId="left"
             type="monotone"
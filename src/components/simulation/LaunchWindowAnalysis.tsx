@@ -0,0 +1,96 @@
+/**
+ * ローンチウィンドウ（発射予定日の各時刻の着地予測）
+ */
+
+import { useMissionStore } from '../../store/missionStore';
+import { getBestLaunchSlot } from '../../services/trajectory/LaunchWindow';
+import { getSiteTimeParts, getWindDirectionLabelJa } from '../../types/weather';
+import { CalendarClock } from 'lucide-react';
+
+export function LaunchWindowAnalysis() {
+  const {
+    trajectoryResult,
+    weatherForecast,
+    launchTime,
+    launchWindow,
+    launchWindowError,
+    runLaunchWindow,
+    selectLaunchSlot,
+  } = useMissionStore();
+
+  if (!trajectoryResult || !weatherForecast) return null;
+
+  // 日付・時刻は発射地点の時刻（予報地点のタイムゾーン）
+  const siteTime = (time: Date) => getSiteTimeParts(time, weatherForecast.utcOffsetSeconds);
+  const day = siteTime(launchTime ?? new Date());
+  const best = launchWindow ? getBestLaunchSlot(launchWindow) : undefined;
+  const maxDistance = Math.max(1, ...(launchWindow ?? []).map((slot) => slot.horizontalDistance));
+
+  return (
+    <div className="bg-slate-700/50 rounded-lg p-3 border border-slate-600 space-y-3">
+      <div className="text-sm font-medium text-slate-300">ローンチウィンドウ</div>
+
+      <button
+        onClick={runLaunchWindow}
+        className="w-full flex items-center justify-center gap-2 py-2 rounded bg-blue-600 hover:bg-blue-500 text-white text-sm font-medium transition-colors"
+      >
+        <CalendarClock size={16} />
+        {day.month}/{day.date} の各時刻を計算
+      </button>
+
+      {launchWindowError && (
+        <div className="text-xs text-red-400">{launchWindowError}</div>
+      )}
+
+      {launchWindow && (
+        <div className="text-xs space-y-1">
+          {best ? (
+            <div className="text-green-400">
+              最適: {siteTime(best.time).hours}:00（着地距離 {best.horizontalDistance.toFixed(0)} m）
+            </div>
+          ) : (
+            <div className="text-yellow-400">警告のない時刻がありません</div>
+          )}
+          <table className="w-full text-left">
+            <thead>
+              <tr className="text-slate-500">
+                <th className="font-normal">時刻</th>
+                <th className="font-normal text-right">風</th>
+                <th className="font-normal pl-2">着地距離</th>
+              </tr>
+            </thead>
+            <tbody className="text-slate-200">
+              {launchWindow.map((slot) => (
+                <tr
+                  key={slot.time.getTime()}
+                  onClick={() => selectLaunchSlot(slot)}
+                  className={`cursor-pointer hover:bg-slate-600/50 ${slot === best ? 'text-green-400' : ''} ${
+                    slot.time.getTime() === launchTime?.getTime() ? 'bg-slate-600/40' : ''
+                  }`}
+                  title="この時刻で計算"
+                >
+                  <td>{siteTime(slot.time).hours}:00</td>
+                  <td className="text-right whitespace-nowrap">
+                    {getWindDirectionLabelJa(slot.weather.surfaceWindDirection)} {slot.weather.surfaceWindSpeed.toFixed(1)} m/s
+                  </td>
+                  <td className="pl-2">
+                    <div className="flex items-center gap-1">
+                      <div className="flex-1 h-1.5 bg-slate-600 rounded overflow-hidden">
+                        <div
+                          className={`h-full ${slot.safe ? 'bg-blue-500' : 'bg-red-500'}`}
+                          style={{ width: `${(slot.horizontalDistance / maxDistance * 100).toFixed(0)}%` }}
+                        />
+                      </div>
+                      <span className="w-12 text-right">{slot.horizontalDistance.toFixed(0)} m</span>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="text-slate-500">行を選ぶとその時刻の予報で再計算します（赤は警告あり）</div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,6 +4,11 @@
 
 import { useMissionStore } from '../../store/missionStore';
 import { TelemetryControls } from './TelemetryControls';
+import { DispersionAnalysis } from './DispersionAnalysis';
+import { LaunchWindowAnalysis } from './LaunchWindowAnalysis';
+import { getMotorById } from '../../services/motor/MotorCatalog';
+import { isFlightSafe } from '../../types/trajectory';
+import { MIN_STATIC_MARGIN } from '../../types/stability';
 import {
   Mountain,
   Clock,
@@ -11,6 +16,14 @@ import {
   MapPin,
   Compass,
   ArrowDown,
+  Umbrella,
+  AlertTriangle,
+  Zap,
+  Crosshair,
+  ShieldCheck,
+  Wind,
+  Activity,
+  Rocket,
 } from 'lucide-react';
 
 /**
@@ -44,7 +57,13 @@ function StatCard({
 }
 
 export function SimulationResults() {
-  const { trajectoryResult } = useMissionStore();
+  const {
+    trajectoryResult,
+    landingHistory,
+    clearLandingHistory,
+    launchSite,
+    terrain,
+  } = useMissionStore();
 
   if (!trajectoryResult) {
     return (
@@ -54,11 +73,37 @@ export function SimulationResults() {
     );
   }
 
-  const { stats, predictedLanding, uncertaintyEllipse } = trajectoryResult;
+  const { stats, predictedLanding, uncertaintyEllipse, motorId, warnings, stageLandings } = trajectoryResult;
+  const motor = motorId ? getMotorById(motorId) : undefined;
+  const hasDrogue = trajectoryResult.trajectoryPoints.some((p) => p.phase === 'drogue');
 
   return (
     <div className="p-4 pb-8 space-y-4">
       <h3 className="font-semibold text-slate-50">シミュレーション結果</h3>
+      {motor && (
+        <div className="text-xs text-slate-400">
+          使用モーター: <span className="text-slate-200">{motor.manufacturer} {motor.designation}</span>
+        </div>
+      )}
+
+      {/* 警告（なければ安全表示） */}
+      {isFlightSafe(trajectoryResult) ? (
+        <div className="bg-green-900/30 border border-green-700 rounded-lg p-3 flex items-center gap-2 text-sm text-green-300">
+          <ShieldCheck size={16} className="shrink-0" />
+          安全上の警告はありません
+        </div>
+      ) : (
+        <div className="bg-amber-900/30 border border-amber-700 rounded-lg p-3 space-y-1">
+          {warnings.map((warning) => (
+            <div key={warning.code + warning.message} className="flex items-start gap-2 text-sm text-amber-300">
+              {warning.code === 'staleWeather'
+                ? <Clock size={16} className="shrink-0 mt-0.5" />
+                : <AlertTriangle size={16} className="shrink-0 mt-0.5" />}
+              {warning.message}
+            </div>
+          ))}
+        </div>
+      )}
 
       {/* テレメトリーコントロール */}
       <TelemetryControls />
@@ -86,6 +131,20 @@ export function SimulationResults() {
           unit="m/s"
           color="text-red-400"
         />
+        <StatCard
+          icon={Wind}
+          label="最大マッハ数"
+          value={stats.maxMach.toFixed(2)}
+          unit="M"
+          color="text-red-400"
+        />
+        <StatCard
+          icon={Activity}
+          label="最大動圧"
+          value={(stats.maxDynamicPressure / 1000).toFixed(2)}
+          unit="kPa"
+          color="text-red-400"
+        />
         <StatCard
           icon={MapPin}
           label="飛行距離"
@@ -107,6 +166,51 @@ export function SimulationResults() {
           unit="m/s"
           color="text-orange-400"
         />
+        {stats.railExitVelocity !== undefined && (
+          <StatCard
+            icon={Rocket}
+            label="レール離脱速度"
+            value={stats.railExitVelocity.toFixed(1)}
+            unit="m/s"
+            color="text-sky-400"
+          />
+        )}
+        {stats.deploymentAltitude !== undefined && (
+          <StatCard
+            icon={Umbrella}
+            label="展開高度"
+            value={stats.deploymentAltitude.toFixed(1)}
+            unit="m"
+            color="text-cyan-400"
+          />
+        )}
+        {stats.deploymentVelocity !== undefined && (
+          <StatCard
+            icon={Umbrella}
+            label="展開速度"
+            value={stats.deploymentVelocity.toFixed(1)}
+            unit="m/s"
+            color="text-cyan-400"
+          />
+        )}
+        {stats.peakOpeningForce !== undefined && (
+          <StatCard
+            icon={Zap}
+            label="開傘衝撃"
+            value={stats.peakOpeningForce.toFixed(1)}
+            unit="N"
+            color="text-rose-400"
+          />
+        )}
+        {stats.staticMargin !== undefined && (
+          <StatCard
+            icon={Crosshair}
+            label="静安定余裕"
+            value={stats.staticMargin.toFixed(2)}
+            unit="cal"
+            color={stats.staticMargin < MIN_STATIC_MARGIN ? 'text-red-400' : 'text-emerald-400'}
+          />
+        )}
       </div>
 
       {/* 予測落下地点 */}
@@ -115,17 +219,68 @@ export function SimulationResults() {
         <div className="text-sm text-slate-400 space-y-1">
           <div>緯度: <span className="text-slate-200">{predictedLanding.latitude.toFixed(6)}°N</span></div>
           <div>経度: <span className="text-slate-200">{predictedLanding.longitude.toFixed(6)}°E</span></div>
+          {terrain && (
+            <div>
+              標高: <span className="text-slate-200">{stats.landingElevation.toFixed(1)} m</span>
+              <span className="text-slate-500">
+                （発射地点から {formatSigned(stats.landingElevation - launchSite.elevation)} m）
+              </span>
+            </div>
+          )}
           <div className="text-slate-500 text-xs mt-2">
             予測誤差範囲: ±{uncertaintyEllipse.semiMajorAxis.toFixed(0)}m
             (95%信頼区間)
           </div>
+          {landingHistory.length > 1 && (
+            <div className="flex items-center justify-between text-xs mt-2 pt-2 border-t border-slate-600">
+              <span className="text-slate-500">
+                これまでの着地点: <span className="text-slate-300">{landingHistory.length}件</span>（地図に分布を表示）
+              </span>
+              <button
+                onClick={clearLandingHistory}
+                className="px-2 py-0.5 rounded bg-slate-600 hover:bg-slate-500 text-slate-300"
+              >
+                クリア
+              </button>
+            </div>
+          )}
         </div>
       </div>
 
+      {/* 切り離した下段の落下地点 */}
+      {stageLandings.length > 0 && (
+        <div className="bg-slate-700/50 rounded-lg p-3 border border-slate-600">
+          <div className="text-sm font-medium text-slate-300 mb-2">下段の予測落下地点</div>
+          <div className="space-y-2 text-sm text-slate-400">
+            {stageLandings.map((stage, i) => (
+              <div key={i} className={i > 0 ? 'pt-2 border-t border-slate-600' : undefined}>
+                <div className="text-slate-200">{stage.name}</div>
+                <div>
+                  分離: <span className="text-slate-200">{stage.separationTime.toFixed(1)} s / {stage.separationAltitude.toFixed(0)} m</span>
+                  {' '}着地速度: <span className="text-slate-200">{stage.landingVelocity.toFixed(1)} m/s</span>
+                  {terrain && (
+                    <>{' '}標高: <span className="text-slate-200">{stage.landingElevation.toFixed(0)} m</span></>
+                  )}
+                </div>
+                <div>
+                  {stage.predictedLanding.latitude.toFixed(6)}°N, {stage.predictedLanding.longitude.toFixed(6)}°E
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* 分散解析 */}
+      <DispersionAnalysis />
+
+      {/* ローンチウィンドウ */}
+      <LaunchWindowAnalysis />
+
       {/* フライトフェーズ */}
       <div className="bg-slate-700/50 rounded-lg p-3 border border-slate-600">
         <div className="text-sm font-medium text-slate-300 mb-2">フライトフェーズ</div>
-        <div className="flex items-center gap-3 text-xs">
+        <div className="flex flex-wrap items-center gap-3 text-xs">
           <div className="flex items-center gap-1">
             <div className="w-3 h-3 bg-blue-500 rounded shadow-lg shadow-blue-500/50" />
             <span className="text-slate-400">上昇</span>
@@ -134,9 +289,15 @@ export function SimulationResults() {
             <div className="w-3 h-3 bg-amber-500 rounded shadow-lg shadow-amber-500/50" />
             <span className="text-slate-400">頂点</span>
           </div>
+          {hasDrogue && (
+            <div className="flex items-center gap-1">
+              <div className="w-3 h-3 bg-orange-500 rounded shadow-lg shadow-orange-500/50" />
+              <span className="text-slate-400">ドローグ</span>
+            </div>
+          )}
           <div className="flex items-center gap-1">
             <div className="w-3 h-3 bg-green-500 rounded shadow-lg shadow-green-500/50" />
-            <span className="text-slate-400">降下</span>
+            <span className="text-slate-400">{hasDrogue ? 'メイン' : '降下'}</span>
           </div>
           <div className="flex items-center gap-1">
             <div className="w-3 h-3 bg-red-500 rounded shadow-lg shadow-red-500/50" />
@@ -147,3 +308,10 @@ export function SimulationResults() {
     </div>
   );
 }
+
+/**
+ * 符号つきの数値表示（小数1桁）
+ */
+function formatSigned(value: number): string {
+  return `${value >= 0 ? '+' : ''}${value.toFixed(1)}`;
+}
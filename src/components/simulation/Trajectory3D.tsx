@@ -4,13 +4,27 @@
  * Three.js (React Three Fiber) を使用して軌道を3D表示
  */
 
-import { useMemo, useRef } from 'react';
+import { useEffect, useMemo, useRef } from 'react';
 import { Canvas } from '@react-three/fiber';
 import { OrbitControls, Grid, Line, Text } from '@react-three/drei';
 import { useMissionStore } from '../../store/missionStore';
-import type { TrajectoryPoint } from '../../types/trajectory';
+import type { TrajectoryPoint, FlightPhase } from '../../types/trajectory';
+import { isDescentPhase, splitTrajectoryByPhase } from '../../types/trajectory';
+import type { ElevationModel } from '../../types/terrain';
+import type { LaunchSite } from '../../types/mission';
+import { createTerrainElevation } from '../../physics/terrain';
 import * as THREE from 'three';
 
+// 降下区間の色（ドローグはオレンジ、メイン・単一展開は緑）
+const DESCENT_COLORS: Partial<Record<FlightPhase, string>> = {
+  descent: '#22c55e',
+  drogue: '#f97316',
+  main: '#22c55e',
+};
+
+// 切り離した下段の軌道の色
+const STAGE_COLORS = ['#a855f7', '#06b6d4', '#ec4899'];
+
 /**
  * 軌道ラインコンポーネント
  */
@@ -56,6 +70,79 @@ function Marker({
   );
 }
 
+// 地形メッシュの分割数（一辺）
+const TERRAIN_SEGMENTS = 64;
+
+/**
+ * 地形メッシュ（標高は絶対値、発射地点を中心とする size 四方）
+ */
+function TerrainSurface({ terrain, origin, size }: { terrain: ElevationModel; origin: LaunchSite; size: number }) {
+  const geometry = useMemo(() => {
+    const elevationAt = createTerrainElevation(terrain, origin, origin.elevation);
+    // XY平面を寝かせると (x, y, 0) → (x, 0, −y) なので、北は −z
+    const plane = new THREE.PlaneGeometry(size, size, TERRAIN_SEGMENTS, TERRAIN_SEGMENTS);
+    plane.rotateX(-Math.PI / 2);
+    const positions = plane.attributes.position;
+    for (let i = 0; i < positions.count; i++) {
+      positions.setY(i, elevationAt(positions.getX(i), -positions.getZ(i)));
+    }
+    plane.computeVertexNormals();
+    return plane;
+  }, [terrain, origin, size]);
+
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  return (
+    <mesh geometry={geometry}>
+      <meshStandardMaterial color="#475569" side={THREE.DoubleSide} transparent opacity={0.75} />
+    </mesh>
+  );
+}
+
+// 姿勢表示の最大個数
+const MAX_ATTITUDE_MARKERS = 12;
+
+/**
+ * 機体の姿勢表示（6自由度計算の上昇区間）
+ *
+ * 地上座標 (x, y, z) は Three.js の (x, z, −y) に対応。機体z軸（機首）をメッシュの +y に重ねる
+ */
+function AttitudeMarkers({ points, length }: { points: TrajectoryPoint[]; length: number }) {
+  const markers = useMemo(() => {
+    const oriented = points.filter((p) => p.orientation);
+    const step = Math.max(1, Math.ceil(oriented.length / MAX_ATTITUDE_MARKERS));
+    return oriented
+      .filter((_, i) => i % step === 0)
+      .map((p) => {
+        const { w, x, y, z } = p.orientation!;
+        return {
+          key: p.time,
+          position: [p.position.x, p.position.z, -p.position.y] as [number, number, number],
+          quaternion: new THREE.Quaternion(x, z, -y, w),
+        };
+      });
+  }, [points]);
+
+  const radius = length * 0.06;
+
+  return (
+    <>
+      {markers.map((marker) => (
+        <group key={marker.key} position={marker.position} quaternion={marker.quaternion}>
+          <mesh>
+            <cylinderGeometry args={[radius, radius, length * 0.75, 12]} />
+            <meshStandardMaterial color="#e2e8f0" />
+          </mesh>
+          <mesh position={[0, length * 0.5, 0]}>
+            <coneGeometry args={[radius, length * 0.25, 12]} />
+            <meshStandardMaterial color="#f59e0b" />
+          </mesh>
+        </group>
+      ))}
+    </>
+  );
+}
+
 /**
  * 軸ラベル
  */
@@ -81,7 +168,7 @@ function AxisLabels({ maxAltitude }: { maxAltitude: number }) {
  * 3Dシーン内部
  */
 function Scene() {
-  const { trajectoryResult } = useMissionStore();
+  const { trajectoryResult, terrain, launchSite } = useMissionStore();
   const controlsRef = useRef(null);
 
   // 軌道データがない場合
@@ -110,7 +197,9 @@ function Scene() {
   const ascentPoints = trajectoryPoints.filter(
     (p) => p.phase === 'thrust' || p.phase === 'coast'
   );
-  const descentPoints = trajectoryPoints.filter((p) => p.phase === 'descent');
+  const descentSegments = splitTrajectoryByPhase(trajectoryPoints).filter((segment) =>
+    isDescentPhase(segment.phase)
+  );
 
   // 頂点を探す
   const apogeePoint = trajectoryPoints.reduce((max, p) =>
@@ -124,6 +213,9 @@ function Scene() {
   const maxAlt = stats.maxAltitude;
   const gridSize = Math.max(200, maxAlt * 2, stats.horizontalDistance * 2);
 
+  // 軌道・地形の高さは標高なので、発射地点が原点の高さになるようずらす
+  const groundLevel = trajectoryPoints[0].position.z;
+
   return (
     <>
       {/* ライティング */}
@@ -141,36 +233,59 @@ function Scene() {
         fadeDistance={gridSize * 2}
       />
 
-      {/* 軌道ライン - 上昇（青） */}
-      <TrajectoryLine points={ascentPoints} color="#3b82f6" />
+      <group position={[0, -groundLevel, 0]}>
+        {/* 地形 */}
+        {terrain && <TerrainSurface terrain={terrain} origin={launchSite} size={gridSize} />}
 
-      {/* 軌道ライン - 降下（緑） */}
-      <TrajectoryLine points={descentPoints} color="#22c55e" />
+        {/* 軌道ライン - 上昇（青） */}
+        <TrajectoryLine points={ascentPoints} color="#3b82f6" />
 
-      {/* 発射地点マーカー（青） */}
-      <Marker position={[0, 0, 0]} color="#3b82f6" size={maxAlt * 0.02} />
+        {/* 機体の姿勢（6自由度計算のみ） */}
+        <AttitudeMarkers points={ascentPoints} length={maxAlt * 0.06} />
 
-      {/* 頂点マーカー（黄） */}
-      <Marker
-        position={[
-          apogeePoint.position.x,
-          apogeePoint.position.z,
-          -apogeePoint.position.y,
-        ]}
-        color="#f59e0b"
-        size={maxAlt * 0.03}
-      />
+        {/* 軌道ライン - 降下（区間ごとに色分け） */}
+        {descentSegments.map((segment) => (
+          <TrajectoryLine
+            key={`${segment.phase}-${segment.points[0].time}`}
+            points={segment.points}
+            color={DESCENT_COLORS[segment.phase] ?? '#22c55e'}
+          />
+        ))}
 
-      {/* 着地点マーカー（赤） */}
-      <Marker
-        position={[
-          landingPoint.position.x,
-          Math.max(landingPoint.position.z, 0),
-          -landingPoint.position.y,
-        ]}
-        color="#ef4444"
-        size={maxAlt * 0.025}
-      />
+        {/* 切り離した下段の軌道 */}
+        {trajectoryResult.stageLandings.map((stage, i) => (
+          <TrajectoryLine
+            key={`stage-${i}`}
+            points={stage.trajectoryPoints}
+            color={STAGE_COLORS[i % STAGE_COLORS.length]}
+          />
+        ))}
+
+        {/* 頂点マーカー（黄） */}
+        <Marker
+          position={[
+            apogeePoint.position.x,
+            apogeePoint.position.z,
+            -apogeePoint.position.y,
+          ]}
+          color="#f59e0b"
+          size={maxAlt * 0.03}
+        />
+
+        {/* 着地点マーカー（赤） */}
+        <Marker
+          position={[
+            landingPoint.position.x,
+            landingPoint.position.z,
+            -landingPoint.position.y,
+          ]}
+          color="#ef4444"
+          size={maxAlt * 0.025}
+        />
+      </group>
+
+      {/* 発射地点マーカー（青） */}
+      <Marker position={[0, 0, 0]} color="#3b82f6" size={maxAlt * 0.02} />
 
       {/* 軸ラベル */}
       <AxisLabels maxAltitude={maxAlt} />
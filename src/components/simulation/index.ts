@@ -1,2 +1,4 @@
 export { SimulationResults } from './SimulationResults';
 export { FlightChart } from './FlightChart';
+export { DispersionAnalysis } from './DispersionAnalysis';
+export { LaunchWindowAnalysis } from './LaunchWindowAnalysis';
@@ -9,7 +9,14 @@ import {
   calculateTerminalVelocity,
   calculateDynamicPressure,
   calculateReynoldsNumber,
+  calculateSkinFrictionCoefficient,
+  createDragEstimator,
+  createDragCoefficientModel,
+  getDynamicViscosity,
 } from '../aerodynamics';
+import { createStandardAtmosphere } from '../atmosphere';
+import { DEFAULT_ROCKET_GEOMETRY, getGeometryLength } from '../../types/stability';
+import { DEFAULT_ROCKET_PARAMS } from '../../types/rocket';
 
 describe('Aerodynamics', () => {
   describe('calculateDrag', () => {
@@ -35,6 +42,12 @@ describe('Aerodynamics', () => {
       expect(drag2 / drag1).toBeCloseTo(2, 5);
     });
 
+    it('includes the transonic Cd rise', () => {
+      const subsonic = calculateDrag(100, 0.5, 0.01, 0) / 100 ** 2;
+      const transonic = calculateDrag(370, 0.5, 0.01, 0) / 370 ** 2;
+      expect(transonic).toBeGreaterThan(subsonic * 1.2);
+    });
+
     it('drag is proportional to reference area', () => {
       const drag1 = calculateDrag(50, 0.5, 0.01, 0);
       const drag2 = calculateDrag(50, 0.5, 0.02, 0);
@@ -86,6 +99,13 @@ describe('Aerodynamics', () => {
       // At 10km, this velocity is closer to Mach 0.9
       expect(cd10km).toBeGreaterThan(cdSeaLevel);
     });
+
+    it('uses the surface temperature for the speed of sound', () => {
+      // 暑い日は音速が速く、同じ速度でもマッハ数が小さい
+      const cdCold = getEffectiveCd(0.5, 290, 0, -20);
+      const cdHot = getEffectiveCd(0.5, 290, 0, 40);
+      expect(cdHot).toBeLessThan(cdCold);
+    });
   });
 
   describe('calculateTerminalVelocity', () => {
@@ -170,4 +190,83 @@ describe('Aerodynamics', () => {
       expect(re).toBeLessThan(1e6);
     });
   });
+
+  describe('calculateSkinFrictionCoefficient', () => {
+    it('matches the turbulent flat-plate value at high Reynolds number', () => {
+      // 1 / (1.5 ln(1e7) − 5.6)² ≈ 0.00290（長さ10mの粗さ限界 ≈ 0.0023 より大きい）
+      expect(calculateSkinFrictionCoefficient(1e7, 10)).toBeCloseTo(0.00290, 4);
+    });
+
+    it('is limited by surface roughness', () => {
+      const cf = calculateSkinFrictionCoefficient(1e9, 0.3);
+      expect(cf).toBeCloseTo(0.032 * Math.pow(20e-6 / 0.3, 0.2), 10);
+    });
+  });
+
+  describe('createDragEstimator', () => {
+    const estimate = createDragEstimator(DEFAULT_ROCKET_GEOMETRY, 0.025);
+    const re = calculateReynoldsNumber(50, 0.3, 0);
+
+    it('gives a typical model rocket Cd at low speed', () => {
+      const cd = estimate(0.15, re);
+      expect(cd).toBeGreaterThan(0.35);
+      expect(cd).toBeLessThan(0.7);
+    });
+
+    it('rises through the transonic range', () => {
+      expect(estimate(0.9, re * 6)).toBeGreaterThan(estimate(0.3, re * 2));
+    });
+
+    it('launch lug and thicker fins add drag', () => {
+      const noLug = createDragEstimator({ ...DEFAULT_ROCKET_GEOMETRY, launchLug: undefined }, 0.025);
+      const thickFins = createDragEstimator(
+        { ...DEFAULT_ROCKET_GEOMETRY, finSet: { ...DEFAULT_ROCKET_GEOMETRY.finSet, thickness: 0.005 } },
+        0.025
+      );
+      expect(noLug(0.15, re)).toBeLessThan(estimate(0.15, re));
+      expect(thickFins(0.15, re)).toBeGreaterThan(estimate(0.15, re));
+    });
+
+    it('conical nose has more pressure drag than ogive', () => {
+      const conical = createDragEstimator(
+        { ...DEFAULT_ROCKET_GEOMETRY, noseCone: { ...DEFAULT_ROCKET_GEOMETRY.noseCone, shape: 'conical' } },
+        0.025
+      );
+      expect(conical(0.15, re)).toBeGreaterThan(estimate(0.15, re));
+    });
+  });
+
+  describe('createDragCoefficientModel', () => {
+    const atmosphere = createStandardAtmosphere();
+    const speedOfSound = atmosphere.getSpeedOfSound(0);
+
+    it('corrects a constant Cd for the transonic rise', () => {
+      const model = createDragCoefficientModel({ ...DEFAULT_ROCKET_PARAMS, geometry: undefined }, 1, atmosphere);
+
+      expect(model(0.5 * speedOfSound, 0)).toBeCloseTo(0.5, 10);
+      expect(model(0.9 * speedOfSound, 0)).toBeCloseTo(0.5 * 1.03125, 10);
+      expect(model(1.2 * speedOfSound, 0)).toBeCloseTo(0.5 * 1.2, 10);
+    });
+
+    it('uses the estimated Cd on the geometry length without a second transonic correction', () => {
+      // 全長の入力は形状と食い違っていても推算は形状の全長を使う
+      const rocket = { ...DEFAULT_ROCKET_PARAMS, bodyLength: 1, geometry: DEFAULT_ROCKET_GEOMETRY };
+      const model = createDragCoefficientModel(rocket, 1, atmosphere);
+      const estimate = createDragEstimator(DEFAULT_ROCKET_GEOMETRY, rocket.bodyDiameter);
+      // 推算式の値（同じ対気速度から求めたマッハ数・レイノルズ数）
+      const reference = (mach: number) => {
+        const velocity = mach * speedOfSound;
+        return estimate(
+          velocity / speedOfSound,
+          atmosphere.getDensity(0) * velocity * getGeometryLength(DEFAULT_ROCKET_GEOMETRY)
+            / getDynamicViscosity(atmosphere.getTemperature(0))
+        );
+      };
+
+      expect(model(0.9 * speedOfSound, 0)).toBeCloseTo(reference(0.9), 10);
+      expect(model(1.2 * speedOfSound, 0)).toBeCloseTo(reference(1.2), 10);
+      // 低速では表面摩擦がレイノルズ数で変わる
+      expect(model(0.05 * speedOfSound, 0)).toBeCloseTo(reference(0.05), 10);
+    });
+  });
 });
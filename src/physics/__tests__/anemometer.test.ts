@@ -0,0 +1,59 @@
+/**
+ * 風速計の観測ログの読み込みのユニットテスト
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseAnemometerLog } from '../anemometer';
+
+// 時刻のみの記録の基準日（端末の時刻）
+const REFERENCE = new Date(2025, 4, 1);
+
+describe('Anemometer', () => {
+  describe('parseAnemometerLog', () => {
+    it('reads named columns and converts speed units', () => {
+      const records = parseAnemometerLog(
+        [
+          'Time,Speed (km/h),Gust (km/h),Direction',
+          '10:00:00,7.2,10.8,270',
+          '10:00:30,9,14.4,WSW',
+        ].join('\n'),
+        REFERENCE
+      );
+
+      expect(records).toHaveLength(2);
+      expect(records[0].time).toEqual(new Date(2025, 4, 1, 10, 0, 0));
+      expect(records[0].windSpeed).toBeCloseTo(2, 6);
+      expect(records[0].gustSpeed).toBeCloseTo(3, 6);
+      expect(records[1].windSpeed).toBeCloseTo(2.5, 6);
+      expect(records[1].windDirection).toBe(247.5);
+    });
+
+    it('reads headerless logs in time, speed, gust, direction order', () => {
+      const records = parseAnemometerLog(
+        ['2025/05/01 10:01:00,3.1,4.0,北西', '2025-05-01T10:00:00,2.8,3.5,315'].join('\n'),
+        REFERENCE
+      );
+
+      // 時刻順に並べる
+      expect(records.map((record) => record.windSpeed)).toEqual([2.8, 3.1]);
+      expect(records[1].time).toEqual(new Date(2025, 4, 1, 10, 1, 0));
+      expect(records[1].windDirection).toBe(315);
+    });
+
+    it('moves times past midnight to the next day and skips unreadable rows', () => {
+      const records = parseAnemometerLog(
+        ['time,speed,direction', '23:59,2,90', '--,--,--', '00:01,3,100'].join('\n'),
+        REFERENCE
+      );
+
+      expect(records).toHaveLength(2);
+      expect(records[1].time).toEqual(new Date(2025, 4, 2, 0, 1, 0));
+      expect(records[1].gustSpeed).toBeUndefined();
+    });
+
+    it('rejects files without readable rows', () => {
+      expect(() => parseAnemometerLog('time,speed\n10:00,2', REFERENCE)).toThrow('風向');
+      expect(() => parseAnemometerLog('# empty\n', REFERENCE)).toThrow('空');
+    });
+  });
+});
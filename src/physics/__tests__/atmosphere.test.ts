@@ -9,7 +9,13 @@ import {
   getDensity,
   getSpeedOfSound,
   getGravity,
+  getSaturationVaporPressure,
+  getMoistAirDensity,
+  getRelativeHumidity,
+  getDewPoint,
   getAtmosphericConditions,
+  createStandardAtmosphere,
+  createProfileAtmosphere,
   SEA_LEVEL_STANDARD,
   PHYSICAL_CONSTANTS,
 } from '../atmosphere';
@@ -91,6 +97,35 @@ describe('Atmosphere', () => {
       const expectedDensity = P / (PHYSICAL_CONSTANTS.R * T);
       expect(getDensity(altitude)).toBeCloseTo(expectedDensity, 6);
     });
+
+    it('lowers the density in humid air', () => {
+      expect(getDensity(0, 20, 1013.25, 50)).toBeLessThan(getDensity(0, 20, 1013.25));
+      expect(getDensity(0, 20, 1013.25, 0)).toBeCloseTo(getDensity(0, 20, 1013.25), 12);
+    });
+  });
+
+  describe('humidity', () => {
+    it('gives the saturation vapour pressure of water', () => {
+      // 参照値: 0°C 611.2Pa、20°C 2339Pa、30°C 4246Pa
+      expect(getSaturationVaporPressure(273.15)).toBeCloseTo(611, -1);
+      expect(getSaturationVaporPressure(293.15) / 2339).toBeCloseTo(1, 2);
+      expect(getSaturationVaporPressure(303.15) / 4246).toBeCloseTo(1, 2);
+    });
+
+    it('matches reference moist air densities', () => {
+      // 1013.25hPa: 20°C 乾燥 1.204、50% 1.199、30°C 乾燥 1.164、100% 1.146 [kg/m³]
+      expect(getMoistAirDensity(101325, 293.15)).toBeCloseTo(1.204, 3);
+      expect(getMoistAirDensity(101325, 293.15, 50)).toBeCloseTo(1.199, 3);
+      expect(getMoistAirDensity(101325, 303.15)).toBeCloseTo(1.164, 3);
+      expect(getMoistAirDensity(101325, 303.15, 100)).toBeCloseTo(1.146, 3);
+    });
+
+    it('converts between dew point and relative humidity', () => {
+      // 20°C・露点10°C は約53%
+      expect(getRelativeHumidity(20, 10)).toBeCloseTo(52.7, 0);
+      expect(getRelativeHumidity(20, 20)).toBeCloseTo(100, 9);
+      expect(getDewPoint(20, getRelativeHumidity(20, 10))).toBeCloseTo(10, 6);
+    });
   });
 
   describe('getSpeedOfSound', () => {
@@ -146,6 +181,70 @@ describe('Atmosphere', () => {
     });
   });
 
+  describe('createStandardAtmosphere', () => {
+    it('matches the standard atmosphere functions', () => {
+      const atmosphere = createStandardAtmosphere(25, 1000);
+
+      expect(atmosphere.getTemperature(500)).toBe(getTemperature(500, 25));
+      expect(atmosphere.getPressure(500)).toBe(getPressure(500, 1000));
+      expect(atmosphere.getDensity(500)).toBe(getDensity(500, 25, 1000));
+      expect(atmosphere.getSpeedOfSound(500)).toBe(getSpeedOfSound(500, 25));
+    });
+  });
+
+  describe('createProfileAtmosphere', () => {
+    // 地上付近の逆転層（100〜300mで気温が上昇）
+    const inversion = createProfileAtmosphere([
+      { altitude: 300, temperature: 8, pressure: 975 },
+      { altitude: 100, temperature: 2, pressure: 1000 },
+      { altitude: 1000, temperature: 4, pressure: 895 },
+    ]);
+
+    it('passes through the observed levels', () => {
+      expect(inversion.getTemperature(100)).toBeCloseTo(275.15, 9);
+      expect(inversion.getPressure(300)).toBeCloseTo(97500, 6);
+    });
+
+    it('interpolates temperature linearly and pressure logarithmically', () => {
+      expect(inversion.getTemperature(200)).toBeCloseTo(278.15, 9);
+      expect(inversion.getPressure(200)).toBeCloseTo(Math.sqrt(100000 * 97500), 6);
+    });
+
+    it('keeps the inversion that the standard atmosphere cannot represent', () => {
+      expect(inversion.getTemperature(300)).toBeGreaterThan(inversion.getTemperature(100));
+      expect(inversion.getDensity(300)).toBeLessThan(inversion.getDensity(100) * 0.96);
+    });
+
+    it('extends beyond the profile with the standard lapse rate and hydrostatic pressure', () => {
+      expect(inversion.getTemperature(2000)).toBeCloseTo(277.15 - 6.5, 9);
+      expect(inversion.getPressure(2000)).toBeLessThan(89500);
+      expect(inversion.getPressure(0)).toBeGreaterThan(100000);
+      // 1000m上空で約11%の気圧低下
+      expect(inversion.getPressure(2000) / 89500).toBeCloseTo(0.885, 2);
+    });
+
+    it('computes density from the ideal gas law', () => {
+      const expected = 97500 / (PHYSICAL_CONSTANTS.R * 281.15);
+      expect(inversion.getDensity(300)).toBeCloseTo(expected, 9);
+    });
+
+    it('uses the observed humidity for the density', () => {
+      const humid = createProfileAtmosphere([
+        { altitude: 0, temperature: 30, pressure: 1013.25, humidity: 100 },
+        { altitude: 1000, temperature: 24, pressure: 901, humidity: 50 },
+      ]);
+
+      expect(humid.getDensity(0)).toBeCloseTo(1.146, 3);
+      // 中間は湿度も線形に補間
+      const expected = getMoistAirDensity(humid.getPressure(500), humid.getTemperature(500), 75);
+      expect(humid.getDensity(500)).toBeCloseTo(expected, 9);
+    });
+
+    it('requires at least two levels', () => {
+      expect(() => createProfileAtmosphere([{ altitude: 0, temperature: 15, pressure: 1013 }])).toThrow();
+    });
+  });
+
   describe('Constants', () => {
     it('has correct sea level standard values', () => {
       expect(SEA_LEVEL_STANDARD.temperature).toBe(288.15);
@@ -4,7 +4,9 @@
 
 import { describe, it, expect } from 'vitest';
 import { calculateAscent } from '../ballistics';
+import { createLayeredWindProfile } from '../windEffect';
 import type { RocketParameters } from '../../types/rocket';
+import { DEFAULT_ROCKET_GEOMETRY } from '../../types/stability';
 
 // テスト用のロケットパラメータ
 const testRocket: RocketParameters = {
@@ -150,6 +152,26 @@ describe('Ballistics', () => {
       expect(withWindDrift).toBeGreaterThan(noWindDrift);
     });
 
+    it('drifts with the wind at each altitude of the wind profile', () => {
+      const input = {
+        rocket: testRocket,
+        launchAngle: 90,
+        launchAzimuth: 0,
+        launchElevation: 100,
+        windSpeed: 2,
+        windDirection: 270,  // Wind from west
+      };
+      const surfaceOnly = calculateAscent(input);
+      // 上空ほど強い西風（高度は発射地点から）
+      const profiled = calculateAscent({
+        ...input,
+        windProfile: createLayeredWindProfile(2, 270, [{ altitude: 50, windSpeed: 10, windDirection: 270 }]),
+      });
+
+      expect(profiled.apogee.position.x).toBeGreaterThan(surfaceOnly.apogee.position.x);
+      expect(Math.abs(profiled.apogee.position.y)).toBeLessThan(1e-6);
+    });
+
     it('angled launch affects horizontal position', () => {
       const verticalResult = calculateAscent({
         rocket: testRocket,
@@ -256,5 +278,210 @@ describe('Ballistics', () => {
       // Should still produce valid results
       expect(result.apogee.altitude).toBeGreaterThan(0);
     });
+
+    it('apogee converges regardless of initial step size', () => {
+      const base = {
+        rocket: testRocket,
+        launchAngle: 85,
+        launchAzimuth: 0,
+        launchElevation: 0,
+        windSpeed: 3,
+        windDirection: 90,
+      };
+
+      const fine = calculateAscent({ ...base, timeStep: 0.001 });
+      const coarse = calculateAscent({ ...base, timeStep: 0.1 });
+
+      expect(coarse.apogee.altitude).toBeCloseTo(fine.apogee.altitude, 2);
+      expect(coarse.apogee.time).toBeCloseTo(fine.apogee.time, 3);
+    });
+
+    it('ends exactly at apogee', () => {
+      const result = calculateAscent({
+        rocket: testRocket,
+        launchAngle: 90,
+        launchAzimuth: 0,
+        launchElevation: 0,
+        windSpeed: 0,
+        windDirection: 0,
+      });
+
+      const lastPoint = result.trajectoryPoints[result.trajectoryPoints.length - 1];
+      expect(Math.abs(lastPoint.velocity.z)).toBeLessThan(1e-3);
+    });
+
+    it('stops at the cutoff time before apogee', () => {
+      const base = {
+        rocket: testRocket,
+        launchAngle: 90,
+        launchAzimuth: 0,
+        launchElevation: 0,
+        windSpeed: 0,
+        windDirection: 0,
+      };
+      const full = calculateAscent(base);
+      const cut = calculateAscent({ ...base, cutoffTime: 1.5 });
+
+      expect(full.reachedApogee).toBe(true);
+      expect(cut.reachedApogee).toBe(false);
+      expect(cut.apogee.time).toBeCloseTo(1.5, 10);
+      expect(cut.apogee.velocity.z).toBeGreaterThan(0);
+      expect(cut.apogee.altitude).toBeLessThan(full.apogee.altitude);
+    });
+
+    it('records trajectory points at a fixed output interval', () => {
+      const result = calculateAscent({
+        rocket: testRocket,
+        launchAngle: 90,
+        launchAzimuth: 0,
+        launchElevation: 0,
+        windSpeed: 0,
+        windDirection: 0,
+        outputInterval: 0.1,
+      });
+
+      const sampled = result.trajectoryPoints.slice(0, -1);
+      sampled.forEach((point, i) => {
+        expect(point.time).toBeCloseTo(i * 0.1, 10);
+      });
+    });
+  });
+
+  describe('max Mach and dynamic pressure', () => {
+    const result = calculateAscent({
+      rocket: testRocket,
+      launchAngle: 90,
+      launchAzimuth: 0,
+      launchElevation: 0,
+      windSpeed: 0,
+      windDirection: 0,
+      surfaceTemp: 15,
+    });
+
+    it('max Mach follows max velocity without wind', () => {
+      expect(result.maxMach).toBeCloseTo(result.maxVelocity / 340.3, 2);
+    });
+
+    it('max dynamic pressure is about 0.5ρv²', () => {
+      expect(result.maxDynamicPressure).toBeCloseTo(0.5 * 1.225 * result.maxVelocity ** 2, -1);
+    });
+  });
+
+  describe('launch rail', () => {
+    const input = {
+      rocket: testRocket,
+      launchAngle: 80,
+      launchAzimuth: 90,
+      launchElevation: 0,
+      windSpeed: 5,
+      windDirection: 0,
+      railLength: 1,
+    };
+
+    it('reports rail exit time and velocity', () => {
+      const result = calculateAscent(input);
+      expect(result.railExit).toBeDefined();
+      expect(result.railExit!.time).toBeGreaterThan(0);
+      expect(result.railExit!.time).toBeLessThan(testRocket.motorBurnTime);
+      // 平均推力10N・質量約90gで v ≈ √(2 a L)
+      const a = 10 / 0.09 - 9.81 * Math.sin(80 * Math.PI / 180);
+      expect(result.railExit!.velocity).toBeCloseTo(Math.sqrt(2 * a * 1), 0);
+    });
+
+    it('keeps the motion along the rail despite crosswind', () => {
+      const result = calculateAscent(input);
+      const exitTime = result.railExit!.time;
+      const angle = 80 * Math.PI / 180;
+      for (const point of result.trajectoryPoints.filter((p) => p.time <= exitTime)) {
+        // 北向きの風でもレール（東向き80°）から外れない
+        expect(Math.abs(point.position.y)).toBeLessThan(1e-9);
+        expect(point.position.z * Math.cos(angle)).toBeCloseTo(point.position.x * Math.sin(angle), 9);
+      }
+    });
+
+    it('longer rail gives a higher exit velocity', () => {
+      const short = calculateAscent(input);
+      const long = calculateAscent({ ...input, railLength: 2 });
+      expect(long.railExit!.velocity).toBeGreaterThan(short.railExit!.velocity);
+    });
+
+    it('has no rail exit without a rail', () => {
+      const result = calculateAscent({ ...input, railLength: 0 });
+      expect(result.railExit).toBeUndefined();
+    });
+  });
+
+  describe('weathercocking', () => {
+    const input = (rocket: RocketParameters) => ({
+      rocket,
+      launchAngle: 90,
+      launchAzimuth: 0,
+      launchElevation: 0,
+      windSpeed: 5,
+      windDirection: 270,       // 西風
+      railLength: 1,
+    });
+
+    it('stable rocket turns into the wind', () => {
+      const result = calculateAscent(input({ ...testRocket, geometry: DEFAULT_ROCKET_GEOMETRY }));
+      // 風上（西, x < 0）へ傾いて上昇
+      expect(result.apogee.position.x).toBeLessThan(-1);
+    });
+
+    it('drifts downwind without stability information', () => {
+      const result = calculateAscent(input(testRocket));
+      expect(result.apogee.position.x).toBeGreaterThan(0);
+    });
+  });
+
+  describe('estimated drag', () => {
+    // 形状ありは風見安定の状態も積分して刻みが変わるため、積分誤差が比較の桁より小さい許容誤差にする
+    const input = (rocket: RocketParameters) => ({
+      rocket,
+      launchAngle: 90,
+      launchAzimuth: 0,
+      launchElevation: 0,
+      windSpeed: 0,
+      windDirection: 0,
+      relativeTolerance: 1e-10,
+      absoluteTolerance: 1e-10,
+    });
+
+    it('uses the geometry estimate instead of the manual Cd', () => {
+      const low = calculateAscent(input({ ...testRocket, dragCoefficient: 0.1, geometry: DEFAULT_ROCKET_GEOMETRY }));
+      const high = calculateAscent(input({ ...testRocket, dragCoefficient: 1.5, geometry: DEFAULT_ROCKET_GEOMETRY }));
+      expect(low.apogee.altitude).toBeCloseTo(high.apogee.altitude, 6);
+    });
+
+    it('keeps the manual override', () => {
+      const manual = calculateAscent(input({
+        ...testRocket,
+        dragCoefficient: 1.5,
+        geometry: DEFAULT_ROCKET_GEOMETRY,
+        manualDragCoefficient: true,
+      }));
+      const constant = calculateAscent(input({ ...testRocket, dragCoefficient: 1.5 }));
+      expect(manual.apogee.altitude).toBeCloseTo(constant.apogee.altitude, 6);
+    });
+
+    it('climbs straight up with the manual Cd while integrating the weathercock state', () => {
+      const manual = calculateAscent(input({
+        ...testRocket,
+        dragCoefficient: 1.5,
+        geometry: DEFAULT_ROCKET_GEOMETRY,
+        manualDragCoefficient: true,
+      }));
+
+      // 無風の鉛直上昇では機軸は回らない
+      expect(manual.reachedApogee).toBe(true);
+      expect(Math.hypot(manual.apogee.position.x, manual.apogee.position.y)).toBeLessThan(1e-9);
+    });
+
+    it('drag factor scales the drag', () => {
+      const rocket = { ...testRocket, geometry: DEFAULT_ROCKET_GEOMETRY };
+      const nominal = calculateAscent(input(rocket));
+      const draggy = calculateAscent({ ...input(rocket), dragFactor: 1.5 });
+      expect(draggy.apogee.altitude).toBeLessThan(nominal.apogee.altitude);
+    });
   });
 });
@@ -0,0 +1,89 @@
+/**
+ * 数値積分（Dormand–Prince法）のユニットテスト
+ */
+
+import { describe, it, expect } from 'vitest';
+import { integrateDormandPrince } from '../integrator';
+
+describe('Integrator', () => {
+  describe('integrateDormandPrince', () => {
+    it('solves exponential decay accurately', () => {
+      // dy/dt = -y, y(0) = 1 → y(t) = e^-t
+      const result = integrateDormandPrince((_t, y) => [-y[0]], 0, [1], 2);
+      expect(result.t).toBeCloseTo(2, 10);
+      expect(result.y[0]).toBeCloseTo(Math.exp(-2), 6);
+    });
+
+    it('solves harmonic oscillator over several periods', () => {
+      // x'' = -x → x(t) = cos(t)
+      const result = integrateDormandPrince(
+        (_t, y) => [y[1], -y[0]],
+        0,
+        [1, 0],
+        4 * Math.PI,
+        { relativeTolerance: 1e-9, absoluteTolerance: 1e-9 }
+      );
+      expect(result.y[0]).toBeCloseTo(1, 6);
+      expect(result.y[1]).toBeCloseTo(0, 6);
+    });
+
+    it('tighter tolerance takes more steps', () => {
+      const f = (_t: number, y: number[]) => [y[1], -y[0]];
+      const loose = integrateDormandPrince(f, 0, [1, 0], 10, { relativeTolerance: 1e-3, absoluteTolerance: 1e-3 });
+      const tight = integrateDormandPrince(f, 0, [1, 0], 10, { relativeTolerance: 1e-10, absoluteTolerance: 1e-10 });
+      expect(tight.steps).toBeGreaterThan(loose.steps);
+    });
+
+    it('outputs samples at a fixed interval independent of internal step', () => {
+      const result = integrateDormandPrince((_t, y) => [-y[0]], 0, [1], 1, { outputInterval: 0.1 });
+      expect(result.samples).toHaveLength(10);
+      result.samples.forEach((sample, i) => {
+        expect(sample.t).toBeCloseTo(i * 0.1, 10);
+        expect(sample.y[0]).toBeCloseTo(Math.exp(-sample.t), 4);
+      });
+      // 内部刻みは出力間隔と一致しない
+      expect(result.steps).not.toBe(10);
+    });
+
+    it('aligns output samples to the global time grid', () => {
+      const result = integrateDormandPrince((_t, y) => [-y[0]], 0.25, [1], 1, { outputInterval: 0.1 });
+      expect(result.samples[0].t).toBeCloseTo(0.3, 10);
+    });
+
+    it('locates event zero crossings', () => {
+      // 100mからの自由落下 → t = sqrt(2h/g)
+      const g = 9.8;
+      const result = integrateDormandPrince(
+        (_t, y) => [y[1], -g],
+        0,
+        [100, 0],
+        100,
+        { event: { g: (_t, y) => y[0], direction: -1 } }
+      );
+      expect(result.eventTriggered).toBe(true);
+      expect(result.t).toBeCloseTo(Math.sqrt(2 * 100 / g), 6);
+      expect(result.y[0]).toBeCloseTo(0, 6);
+    });
+
+    it('respects event direction', () => {
+      // 上昇中（負→正）の交差は無視して、下降時（正→負）のみ検出
+      const result = integrateDormandPrince(
+        (_t, y) => [y[1], -9.8],
+        0,
+        [-1, 20],
+        100,
+        { event: { g: (_t, y) => y[0], direction: -1 } }
+      );
+      expect(result.eventTriggered).toBe(true);
+      expect(result.y[1]).toBeLessThan(0);
+    });
+
+    it('calls onStep for every accepted step', () => {
+      let calls = 0;
+      const result = integrateDormandPrince((_t, y) => [-y[0]], 0, [1], 1, {
+        onStep: () => { calls++; },
+      });
+      expect(calls).toBe(result.steps);
+    });
+  });
+});
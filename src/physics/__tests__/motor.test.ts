@@ -0,0 +1,211 @@
+/**
+ * モーター推力モデルのユニットテスト
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseEngFile,
+  interpolateThrust,
+  integrateThrustCurve,
+  createMotorModel,
+} from '../motor';
+import { calculateAscent } from '../ballistics';
+import type { RocketParameters } from '../../types/rocket';
+
+// A8相当の推力曲線（RASP形式）
+const A8_ENG = `
+; Estes A8 (test data)
+A8 18 70 3-5 0.00312 0.0163 Estes
+0.041 0.512
+0.084 2.115
+0.127 4.358
+0.166 6.794
+0.192 9.294
+0.206 10.7
+0.226 9.3
+0.236 8.0
+0.247 7.0
+0.261 5.9
+0.277 4.8
+0.295 3.9
+0.324 3.2
+0.346 2.9
+0.375 2.8
+0.5 2.7
+0.6 2.6
+0.7 2.4
+0.73 0.0
+;
+`;
+
+const testRocket: RocketParameters = {
+  dryMass: 0.04,
+  propellantMass: 0.00312,
+  bodyDiameter: 0.025,
+  bodyLength: 0.3,
+  dragCoefficient: 0.5,
+  motorTotalImpulse: 2.5,
+  motorBurnTime: 0.73,
+  motorDelayTime: 3,
+};
+
+describe('Motor', () => {
+  describe('parseEngFile', () => {
+    it('parses header fields', () => {
+      const [motor] = parseEngFile(A8_ENG);
+      expect(motor.designation).toBe('A8');
+      expect(motor.diameter).toBeCloseTo(0.018, 6);
+      expect(motor.length).toBeCloseTo(0.07, 6);
+      expect(motor.delays).toEqual([3, 5]);
+      expect(motor.propellantMass).toBeCloseTo(0.00312, 6);
+      expect(motor.totalMass).toBeCloseTo(0.0163, 6);
+      expect(motor.manufacturer).toBe('Estes');
+    });
+
+    it('adds a zero-thrust point at ignition', () => {
+      const [motor] = parseEngFile(A8_ENG);
+      expect(motor.thrustCurve[0]).toEqual({ time: 0, thrust: 0 });
+      expect(motor.thrustCurve[motor.thrustCurve.length - 1].time).toBeCloseTo(0.73, 6);
+    });
+
+    it('parses multiple motors in one file', () => {
+      const text = `${A8_ENG}\nB6 18 70 0-2-4 0.0056 0.0195 Estes\n0.1 12\n0.8 4\n0.85 0\n`;
+      const motors = parseEngFile(text);
+      expect(motors.map((m) => m.designation)).toEqual(['A8', 'B6']);
+      expect(motors[1].delays).toEqual([0, 2, 4]);
+    });
+
+    it('treats plugged motors as having no delays', () => {
+      const [motor] = parseEngFile('G80 29 124 P 0.0625 0.1235 AT\n0.1 100\n1.5 0\n');
+      expect(motor.delays).toEqual([]);
+    });
+
+    it('throws on data before header', () => {
+      expect(() => parseEngFile('0.1 5\n0.2 0\n')).toThrow();
+    });
+
+    it('throws on empty input', () => {
+      expect(() => parseEngFile('; only a comment\n')).toThrow();
+    });
+  });
+
+  describe('interpolateThrust', () => {
+    const curve = [
+      { time: 0, thrust: 0 },
+      { time: 0.1, thrust: 10 },
+      { time: 0.5, thrust: 2 },
+    ];
+
+    it('interpolates linearly between points', () => {
+      expect(interpolateThrust(curve, 0.05)).toBeCloseTo(5, 6);
+      expect(interpolateThrust(curve, 0.3)).toBeCloseTo(6, 6);
+    });
+
+    it('returns 0 outside the burn', () => {
+      expect(interpolateThrust(curve, -0.1)).toBe(0);
+      expect(interpolateThrust(curve, 0.6)).toBe(0);
+    });
+  });
+
+  describe('integrateThrustCurve', () => {
+    it('integrates a triangular curve', () => {
+      const curve = [
+        { time: 0, thrust: 0 },
+        { time: 1, thrust: 10 },
+        { time: 2, thrust: 0 },
+      ];
+      expect(integrateThrustCurve(curve)).toBeCloseTo(10, 6);
+      expect(integrateThrustCurve(curve, 1)).toBeCloseTo(5, 6);
+      expect(integrateThrustCurve(curve, 0.5)).toBeCloseTo(1.25, 6);
+    });
+
+    it('A8 curve total impulse is in the A class', () => {
+      const [motor] = parseEngFile(A8_ENG);
+      const impulse = integrateThrustCurve(motor.thrustCurve);
+      expect(impulse).toBeGreaterThan(1.25);
+      expect(impulse).toBeLessThanOrEqual(3.0);
+    });
+  });
+
+  describe('createMotorModel', () => {
+    it('falls back to constant thrust without a curve', () => {
+      const motor = createMotorModel({ ...testRocket, motorTotalImpulse: 5, motorBurnTime: 0.5 });
+      expect(motor.burnTime).toBe(0.5);
+      expect(motor.getThrust(0.25)).toBeCloseTo(10, 6);
+      expect(motor.getThrust(0.6)).toBe(0);
+      expect(motor.getPropellantMass(0.25)).toBeCloseTo(testRocket.propellantMass / 2, 8);
+    });
+
+    it('uses the curve when provided', () => {
+      const [eng] = parseEngFile(A8_ENG);
+      const motor = createMotorModel({ ...testRocket, thrustCurve: eng.thrustCurve });
+      expect(motor.burnTime).toBeCloseTo(0.73, 6);
+      expect(motor.getThrust(0.206)).toBeCloseTo(10.7, 3);
+    });
+
+    it('burns propellant in proportion to delivered impulse', () => {
+      const [eng] = parseEngFile(A8_ENG);
+      const motor = createMotorModel({ ...testRocket, thrustCurve: eng.thrustCurve });
+      expect(motor.getPropellantMass(0)).toBeCloseTo(testRocket.propellantMass, 8);
+      expect(motor.getPropellantMass(motor.burnTime)).toBeCloseTo(0, 8);
+      // 推力ピーク付近では質量流量も最大
+      expect(motor.getMassFlowRate(0.206)).toBeGreaterThan(motor.getMassFlowRate(0.6));
+    });
+
+    it('multiplies thrust and propellant for a cluster', () => {
+      const single = createMotorModel(testRocket);
+      const cluster = createMotorModel({ ...testRocket, motorCount: 3 });
+      expect(cluster.burnTime).toBe(single.burnTime);
+      expect(cluster.totalImpulse).toBeCloseTo(single.totalImpulse * 3, 8);
+      expect(cluster.getThrust(0.1)).toBeCloseTo(single.getThrust(0.1) * 3, 8);
+      expect(cluster.getPropellantMass(0)).toBeCloseTo(testRocket.propellantMass * 3, 8);
+    });
+  });
+
+  describe('thrust curve in ascent', () => {
+    it('changes apogee compared to constant thrust', () => {
+      const [eng] = parseEngFile(A8_ENG);
+      const impulse = integrateThrustCurve(eng.thrustCurve);
+      const base = {
+        launchAngle: 90,
+        launchAzimuth: 0,
+        launchElevation: 0,
+        windSpeed: 0,
+        windDirection: 0,
+      };
+
+      const constant = calculateAscent({
+        ...base,
+        rocket: { ...testRocket, motorTotalImpulse: impulse, motorBurnTime: 0.73 },
+      });
+      const curved = calculateAscent({
+        ...base,
+        rocket: { ...testRocket, motorTotalImpulse: impulse, motorBurnTime: 0.73, thrustCurve: eng.thrustCurve },
+      });
+
+      expect(curved.apogee.altitude).toBeGreaterThan(30);
+      expect(Math.abs(curved.apogee.altitude - constant.apogee.altitude)).toBeGreaterThan(0.5);
+    });
+
+    it('stays on the pad until thrust exceeds weight', () => {
+      const curve = [
+        { time: 0, thrust: 0 },
+        { time: 0.2, thrust: 20 },
+        { time: 0.5, thrust: 0 },
+      ];
+      const result = calculateAscent({
+        rocket: { ...testRocket, thrustCurve: curve },
+        launchAngle: 90,
+        launchAzimuth: 0,
+        launchElevation: 0,
+        windSpeed: 0,
+        windDirection: 0,
+      });
+
+      for (const point of result.trajectoryPoints) {
+        expect(point.position.z).toBeGreaterThanOrEqual(0);
+      }
+      expect(result.apogee.altitude).toBeGreaterThan(0);
+    });
+  });
+});
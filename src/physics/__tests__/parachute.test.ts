@@ -6,6 +6,8 @@ import { describe, it, expect } from 'vitest';
 import {
   calculateDescent,
   calculateParachuteTerminalVelocity,
+  calculateFillTime,
+  getInflatedDragArea,
 } from '../parachute';
 import type { RecoveryParameters } from '../../types/recovery';
 
@@ -26,6 +28,14 @@ const freefallRecovery: RecoveryParameters = {
   method: 'freefall',
 };
 
+const dualDeployRecovery: RecoveryParameters = {
+  method: 'dualDeploy',
+  deployments: [
+    { role: 'drogue', trigger: 'apogee', device: 'parachute', parachuteDiameter: 0.3, parachuteCd: 1.5 },
+    { role: 'main', trigger: 'altitude', triggerValue: 150, device: 'parachute', parachuteDiameter: 1.2, parachuteCd: 1.75 },
+  ],
+};
+
 // 風プロファイル（一定風速）
 const noWind = (_altitude: number) => ({ speed: 0, direction: 0 });
 const constantWind = (_altitude: number) => ({ speed: 5, direction: 0 }); // 北から5m/s
@@ -328,6 +338,225 @@ describe('Parachute', () => {
 
       expect(largeResult.descentTime).toBeGreaterThan(smallResult.descentTime);
     });
+
+    it('landing converges regardless of initial step size', () => {
+      const base = {
+        recovery: parachuteRecovery,
+        rocketMass: 0.08,
+        rocketDiameter: 0.025,
+        rocketCd: 0.5,
+        startPosition: { x: 0, y: 0, z: 150 },
+        startVelocity: { x: 2, y: 0, z: 0 },
+        startTime: 0,
+        groundLevel: 0,
+        getWindAtAltitude: constantWind,
+      };
+
+      const fine = calculateDescent({ ...base, timeStep: 0.001 });
+      const coarse = calculateDescent({ ...base, timeStep: 0.5 });
+
+      expect(coarse.landing.time).toBeCloseTo(fine.landing.time, 3);
+      expect(coarse.landing.position.x).toBeCloseTo(fine.landing.position.x, 2);
+      expect(coarse.landing.position.y).toBeCloseTo(fine.landing.position.y, 2);
+    });
+  });
+
+  describe('dual deploy', () => {
+    const base = {
+      rocketMass: 1.5,
+      rocketDiameter: 0.054,
+      rocketCd: 0.5,
+      startPosition: { x: 0, y: 0, z: 800 },
+      startVelocity: { x: 0, y: 0, z: 0 },
+      startTime: 10,
+      groundLevel: 0,
+      getWindAtAltitude: constantWind,
+    };
+
+    it('splits the descent into drogue and main phases', () => {
+      const result = calculateDescent({ ...base, recovery: dualDeployRecovery });
+      const phases = new Set(result.trajectoryPoints.map((p) => p.phase));
+
+      expect(phases).toEqual(new Set(['drogue', 'main']));
+      const firstMain = result.trajectoryPoints.findIndex((p) => p.phase === 'main');
+      expect(result.trajectoryPoints.slice(0, firstMain).every((p) => p.phase === 'drogue')).toBe(true);
+      expect(result.trajectoryPoints.slice(firstMain).every((p) => p.phase === 'main')).toBe(true);
+    });
+
+    it('deploys the main at the set altitude above ground', () => {
+      const result = calculateDescent({ ...base, groundLevel: 100, startPosition: { x: 0, y: 0, z: 900 }, recovery: dualDeployRecovery });
+
+      expect(result.deployments).toHaveLength(2);
+      expect(result.deployments[0].role).toBe('drogue');
+      expect(result.deployments[0].time).toBe(10);
+      expect(result.deployments[1].role).toBe('main');
+      expect(result.deployments[1].altitude).toBeCloseTo(150, 6);
+      expect(result.deployments[1].position.z).toBeCloseTo(250, 6);
+    });
+
+    it('drifts less than a main deployed at apogee', () => {
+      const dual = calculateDescent({ ...base, recovery: dualDeployRecovery });
+      const mainOnly = calculateDescent({
+        ...base,
+        recovery: { method: 'parachute', parachuteDiameter: 1.2, parachuteCd: 1.75 },
+      });
+
+      expect(Math.abs(dual.landing.position.y)).toBeLessThan(Math.abs(mainOnly.landing.position.y));
+      // 着地速度はメイン展開後の終端速度程度
+      expect(dual.landing.velocity).toBeLessThan(mainOnly.landing.velocity * 1.2);
+    });
+
+    it('supports a time-after-apogee trigger', () => {
+      const result = calculateDescent({
+        ...base,
+        recovery: {
+          method: 'dualDeploy',
+          deployments: [
+            { role: 'drogue', trigger: 'apogee', device: 'streamer', streamerArea: 0.05, streamerCd: 1.2 },
+            { role: 'main', trigger: 'timeAfterApogee', triggerValue: 8, device: 'parachute', parachuteDiameter: 1.2 },
+          ],
+        },
+      });
+
+      expect(result.deployments[1].time).toBeCloseTo(18, 6);
+    });
+
+    it('deploys immediately when already below the trigger altitude', () => {
+      const result = calculateDescent({
+        ...base,
+        startPosition: { x: 0, y: 0, z: 100 },
+        recovery: dualDeployRecovery,
+      });
+
+      expect(result.deployments.map((d) => d.time)).toEqual([10, 10]);
+      expect(result.trajectoryPoints.every((p) => p.phase === 'main')).toBe(true);
+    });
+
+    it('single parachute keeps the descent phase', () => {
+      const result = calculateDescent({ ...base, recovery: parachuteRecovery });
+
+      expect(result.deployments).toHaveLength(1);
+      expect(result.deployments[0].role).toBeUndefined();
+      expect(result.trajectoryPoints.every((p) => p.phase === 'descent')).toBe(true);
+    });
+
+    it('freefall has no deployments', () => {
+      const result = calculateDescent({ ...base, recovery: freefallRecovery });
+      expect(result.deployments).toHaveLength(0);
+    });
+  });
+
+  describe('terrain', () => {
+    const base = {
+      rocketMass: 1.5,
+      rocketDiameter: 0.054,
+      rocketCd: 0.5,
+      startPosition: { x: 0, y: 0, z: 800 },
+      startVelocity: { x: 0, y: 0, z: 0 },
+      startTime: 10,
+      groundLevel: 0,
+      getWindAtAltitude: constantWind,
+    };
+
+    it('lands on the terrain below the landing point', () => {
+      // 南（風下）に向かって上る斜面
+      const slope = (_x: number, y: number) => 50 - 0.2 * y;
+      const flat = calculateDescent({ ...base, recovery: parachuteRecovery });
+      const result = calculateDescent({ ...base, recovery: parachuteRecovery, getTerrainElevation: slope });
+
+      expect(result.landing.position.y).toBeLessThan(0);
+      expect(result.landing.position.z).toBeCloseTo(slope(0, result.landing.position.y), 6);
+      expect(result.trajectoryPoints[result.trajectoryPoints.length - 1].position.z).toBe(result.landing.position.z);
+      expect(result.landing.time).toBeLessThan(flat.landing.time);
+    });
+
+    it('keeps the altimeter deployment relative to the launch site', () => {
+      const result = calculateDescent({
+        ...base,
+        recovery: dualDeployRecovery,
+        getTerrainElevation: () => 50,
+      });
+
+      expect(result.deployments[1].position.z).toBeCloseTo(150, 6);
+      expect(result.deployments[1].altitude).toBeCloseTo(100, 6);
+    });
+
+    it('lands before an altitude deployment above higher terrain', () => {
+      const result = calculateDescent({
+        ...base,
+        recovery: dualDeployRecovery,
+        getTerrainElevation: () => 200,
+      });
+
+      expect(result.deployments).toHaveLength(1);
+      expect(result.landing.position.z).toBe(200);
+    });
+  });
+
+  describe('inflation', () => {
+    const base = {
+      recovery: parachuteRecovery,
+      rocketMass: 0.08,
+      rocketDiameter: 0.025,
+      rocketCd: 0.5,
+      startPosition: { x: 0, y: 0, z: 200 },
+      startVelocity: { x: 0, y: 0, z: -20 },
+      startTime: 0,
+      groundLevel: 0,
+      getWindAtAltitude: noWind,
+    };
+
+    it('fill time scales with diameter and inversely with speed', () => {
+      expect(calculateFillTime(0.3, 20, 6)).toBeCloseTo(0.09, 10);
+      expect(calculateFillTime(0.6, 20, 6)).toBeCloseTo(0.18, 10);
+      expect(calculateFillTime(0.3, 40, 6)).toBeCloseTo(0.045, 10);
+    });
+
+    it('drag area grows to full during the fill time', () => {
+      expect(getInflatedDragArea(1, 0, 0.5)).toBe(0);
+      expect(getInflatedDragArea(1, 0.25, 0.5)).toBeCloseTo(0.25, 10);
+      expect(getInflatedDragArea(1, 0.5, 0.5)).toBe(1);
+      expect(getInflatedDragArea(1, 2, 0.5)).toBe(1);
+      // 充填時間0は瞬時展開
+      expect(getInflatedDragArea(1, 0.01, 0)).toBe(1);
+    });
+
+    it('reports the peak opening force', () => {
+      const result = calculateDescent(base);
+      const [deployment] = result.deployments;
+
+      // 展開時の動圧 × 全抗力面積が上限
+      const fullDragArea = 1.75 * Math.PI * 0.15 * 0.15;
+      const upperBound = 0.5 * 1.225 * 20 * 20 * fullDragArea;
+      expect(deployment.peakForce).toBeGreaterThan(0);
+      expect(deployment.peakForce).toBeLessThanOrEqual(upperBound * 1.01);
+      // 終端速度での荷重（≒重量）よりは大きい
+      expect(deployment.peakForce).toBeGreaterThan(0.08 * 9.81);
+    });
+
+    it('samples the opening force at the end of the fill regardless of the step size', () => {
+      // 重い機体は充填中にほとんど減速せず、全抗力面積になった瞬間の荷重が最大
+      const heavy = { ...base, rocketMass: 2, recovery: { ...parachuteRecovery, fillTime: 0.3 } };
+      const fine = calculateDescent(heavy);
+      const coarse = calculateDescent({ ...heavy, relativeTolerance: 1e-4, absoluteTolerance: 1e-4, timeStep: 1 });
+
+      expect(coarse.deployments[0].peakForce).toBeCloseTo(fine.deployments[0].peakForce, 2);
+    });
+
+    it('slower inflation lowers the opening shock', () => {
+      const fast = calculateDescent({ ...base, recovery: { ...parachuteRecovery, fillTime: 0.02 } });
+      const slow = calculateDescent({ ...base, recovery: { ...parachuteRecovery, fillTime: 1.0 } });
+
+      expect(slow.deployments[0].peakForce).toBeLessThan(fast.deployments[0].peakForce);
+      expect(slow.deployments[0].fillTime).toBe(1.0);
+    });
+
+    it('velocity changes smoothly during inflation', () => {
+      const result = calculateDescent({ ...base, outputInterval: 0.01, recovery: { ...parachuteRecovery, fillTime: 0.5 } });
+      const speeds = result.trajectoryPoints.map((p) => Math.hypot(p.velocity.x, p.velocity.y, p.velocity.z));
+      const maxJump = Math.max(...speeds.slice(1).map((v, i) => Math.abs(v - speeds[i])));
+      expect(maxJump).toBeLessThan(2);
+    });
   });
 
   describe('calculateParachuteTerminalVelocity', () => {
@@ -0,0 +1,45 @@
+/**
+ * クォータニオン演算のユニットテスト
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  IDENTITY_QUATERNION,
+  inverseRotateVector,
+  multiplyQuaternions,
+  quaternionFromVectors,
+  rotateVector,
+  type Vector3,
+} from '../quaternion';
+
+const expectVector = (actual: Vector3, expected: Vector3) => {
+  actual.forEach((value, i) => expect(value).toBeCloseTo(expected[i], 12));
+};
+
+describe('Quaternion', () => {
+  it('identity leaves vectors unchanged', () => {
+    expectVector(rotateVector(IDENTITY_QUATERNION, [1, 2, 3]), [1, 2, 3]);
+  });
+
+  it('rotates 90° about z', () => {
+    const q = { w: Math.SQRT1_2, x: 0, y: 0, z: Math.SQRT1_2 };
+    expectVector(rotateVector(q, [1, 0, 0]), [0, 1, 0]);
+  });
+
+  it('inverse rotation undoes the rotation', () => {
+    const q = quaternionFromVectors([0, 0, 1], [0.6, 0, 0.8]);
+    expectVector(inverseRotateVector(q, rotateVector(q, [0.3, -1, 2])), [0.3, -1, 2]);
+  });
+
+  it('composes rotations by multiplication', () => {
+    const qz = { w: Math.SQRT1_2, x: 0, y: 0, z: Math.SQRT1_2 };
+    const qx = { w: Math.SQRT1_2, x: Math.SQRT1_2, y: 0, z: 0 };
+    const v: Vector3 = [0, 1, 0];
+    expectVector(rotateVector(multiplyQuaternions(qz, qx), v), rotateVector(qz, rotateVector(qx, v)));
+  });
+
+  it('maps one vector onto another', () => {
+    expectVector(rotateVector(quaternionFromVectors([0, 0, 1], [0, 1, 0]), [0, 0, 1]), [0, 1, 0]);
+    expectVector(rotateVector(quaternionFromVectors([0, 0, 1], [0, 0, -1]), [0, 0, 1]), [0, 0, -1]);
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * 6自由度弾道計算のユニットテスト
+ */
+
+import { describe, it, expect } from 'vitest';
+import { calculateAscent } from '../ballistics';
+import { calculateAscent6Dof } from '../sixDof';
+import type { AscentInput } from '../ballistics';
+import type { RocketParameters } from '../../types/rocket';
+import { DEFAULT_ROCKET_GEOMETRY } from '../../types/stability';
+
+// テスト用のロケットパラメータ
+const testRocket: RocketParameters = {
+  dryMass: 0.08,           // 80g
+  propellantMass: 0.01,    // 10g
+  bodyDiameter: 0.025,     // 25mm
+  bodyLength: 0.3,         // 30cm
+  dragCoefficient: 0.5,
+  motorTotalImpulse: 5,    // 5 Ns (A8相当)
+  motorBurnTime: 0.5,      // 0.5秒燃焼
+  motorDelayTime: 3,       // 3秒遅延
+  geometry: DEFAULT_ROCKET_GEOMETRY,
+};
+
+const baseInput: AscentInput = {
+  rocket: testRocket,
+  launchAngle: 90,
+  launchAzimuth: 0,
+  launchElevation: 0,
+  windSpeed: 0,
+  windDirection: 0,
+  railLength: 1,
+};
+
+describe('calculateAscent6Dof', () => {
+  it('matches the point-mass apogee for a vertical flight without wind', () => {
+    const sixDof = calculateAscent6Dof(baseInput);
+    const pointMass = calculateAscent(baseInput);
+
+    expect(sixDof.reachedApogee).toBe(true);
+    expect(sixDof.apogee.altitude).toBeCloseTo(pointMass.apogee.altitude, 1);
+    expect(sixDof.railExit?.velocity).toBeCloseTo(pointMass.railExit!.velocity, 3);
+  });
+
+  it('matches the point-mass drag through the transonic range', () => {
+    // 推算 Cd・一定 Cd のどちらも遷音速の補正は1回だけ
+    for (const rocket of [testRocket, { ...testRocket, manualDragCoefficient: true }]) {
+      const input = { ...baseInput, rocket: { ...rocket, motorTotalImpulse: 40, motorBurnTime: 0.4 } };
+      const sixDof = calculateAscent6Dof(input);
+      const pointMass = calculateAscent(input);
+
+      expect(pointMass.maxMach).toBeGreaterThan(0.9);
+      expect(sixDof.maxMach).toBeCloseTo(pointMass.maxMach, 3);
+      expect(sixDof.apogee.altitude).toBeCloseTo(pointMass.apogee.altitude, 0);
+    }
+  });
+
+  it('outputs unit-norm orientation on every point', () => {
+    const result = calculateAscent6Dof({ ...baseInput, windSpeed: 5, windDirection: 270 });
+
+    for (const point of result.trajectoryPoints) {
+      const q = point.orientation!;
+      expect(Math.hypot(q.w, q.x, q.y, q.z)).toBeCloseTo(1, 9);
+    }
+  });
+
+  it('starts aligned with the rail', () => {
+    const result = calculateAscent6Dof({ ...baseInput, launchAngle: 80, launchAzimuth: 90 });
+    const { x, y, z, w } = result.trajectoryPoints[0].orientation!;
+    // 機体z軸（機首）の地上座標
+    const nose = [2 * (x * z + w * y), 2 * (y * z - w * x), 1 - 2 * (x * x + y * y)];
+
+    expect(nose[0]).toBeCloseTo(Math.cos(80 * Math.PI / 180), 9);
+    expect(nose[1]).toBeCloseTo(0, 9);
+    expect(nose[2]).toBeCloseTo(Math.sin(80 * Math.PI / 180), 9);
+  });
+
+  it('stable rocket turns into the wind', () => {
+    const result = calculateAscent6Dof({ ...baseInput, windSpeed: 5, windDirection: 270 });
+    // 風上（西, x < 0）へ傾いて上昇
+    expect(result.apogee.position.x).toBeLessThan(-1);
+  });
+
+  it('fin cant spins the rocket up', () => {
+    const cantAngle = 2;
+    const result = calculateAscent6Dof({
+      ...baseInput,
+      rocket: {
+        ...testRocket,
+        geometry: { ...DEFAULT_ROCKET_GEOMETRY, finSet: { ...DEFAULT_ROCKET_GEOMETRY.finSet, cantAngle } },
+      },
+    });
+    const straight = calculateAscent6Dof(baseInput);
+
+    // 姿勢の回転が生じ、頂点高度への影響は小さい
+    const burnout = result.trajectoryPoints.find((p) => p.time >= testRocket.motorBurnTime)!;
+    const { w } = burnout.orientation!;
+    const straightW = straight.trajectoryPoints.find((p) => p.time >= testRocket.motorBurnTime)!.orientation!.w;
+    expect(Math.abs(w - straightW)).toBeGreaterThan(0.1);
+    expect(result.apogee.altitude).toBeCloseTo(straight.apogee.altitude, -1);
+  });
+
+  it('requires rocket geometry', () => {
+    expect(() => calculateAscent6Dof({ ...baseInput, rocket: { ...testRocket, geometry: undefined } }))
+      .toThrow('機体形状');
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * 高層気象観測の読み込みのユニットテスト
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseSoundingFile, getSoundingWindLayers, withoutSoundingWinds } from '../sounding';
+
+// ワイオミング大学形式（1000hPa は地面より下のため気温なし）
+const WYOMING_TEXT = `
+47778 Shionomisaki Observations at 00Z 15 Jan 2025
+-----------------------------------------------------------------------------
+   PRES   HGHT   TEMP   DWPT   RELH   MIXR   DRCT   SKNT   THTA   THTE   THTV
+    hPa     m      C      C      %    g/kg    deg   knot     K      K      K
+-----------------------------------------------------------------------------
+ 1000.0     71
+ 1013.0     68    8.4    1.4     61   4.14    320     10  280.4  292.1  281.1
+  990.0    257    6.0   -0.1     65   3.82    325     20  280.0  290.8  280.7
+  925.0    820    4.2   -6.8     45   2.39    330     31  283.8  290.9  284.2
+Station information and sounding indices
+                         Station number: 47778
+`;
+
+describe('Sounding', () => {
+  describe('parseSoundingFile', () => {
+    it('reads a CSV with named columns', () => {
+      const sounding = parseSoundingFile(
+        [
+          'altitude,temperature,pressure,humidity,wind_speed,wind_direction',
+          '500,10.5,955,60,6,270',
+          '40,15,1008,70,3,250',
+        ].join('\n'),
+        'sonde.csv'
+      );
+
+      expect(sounding.name).toBe('sonde.csv');
+      expect(sounding.levels).toEqual([
+        { altitude: 40, temperature: 15, pressure: 1008, humidity: 70, windSpeed: 3, windDirection: 250 },
+        { altitude: 500, temperature: 10.5, pressure: 955, humidity: 60, windSpeed: 6, windDirection: 270 },
+      ]);
+    });
+
+    it('converts units given in the column names', () => {
+      const sounding = parseSoundingFile(
+        ['height (m)\ttemp (K)\tpressure [Pa]\tspeed (kt)\tdirection', '0\t288.15\t101325\t10\t90', '100\t287.5\t100129\t12\t95'].join('\n'),
+        'sonde.txt'
+      );
+
+      expect(sounding.levels[0].temperature).toBeCloseTo(15, 9);
+      expect(sounding.levels[0].pressure).toBeCloseTo(1013.25, 9);
+      expect(sounding.levels[0].windSpeed).toBeCloseTo(5.14444, 4);
+    });
+
+    it('reads fixed-width radiosonde text with missing values', () => {
+      const sounding = parseSoundingFile(WYOMING_TEXT, 'wyoming.txt');
+
+      expect(sounding.levels.map((l) => l.altitude)).toEqual([68, 257, 820]);
+      expect(sounding.levels[1]).toMatchObject({ temperature: 6, pressure: 990, humidity: 65, windDirection: 325 });
+      // ノットから m/s
+      expect(sounding.levels[2].windSpeed).toBeCloseTo(31 * 0.514444, 4);
+    });
+
+    it('derives relative humidity from the dew point', () => {
+      const sounding = parseSoundingFile(
+        ['alt,temp,pres,dwpt', '0,20,1013,20', '100,20,1001,10'].join('\n'),
+        'sonde.csv'
+      );
+
+      expect(sounding.levels[0].humidity).toBeCloseTo(100, 6);
+      // 20°C・露点10°C は約53%
+      expect(sounding.levels[1].humidity).toBeCloseTo(52.7, 0);
+    });
+
+    it('rejects files without the required columns or levels', () => {
+      expect(() => parseSoundingFile('altitude,speed\n0,3\n100,5', 'wind.csv')).toThrow('列');
+      expect(() => parseSoundingFile('altitude,temperature,pressure\n0,15,1013', 'one.csv')).toThrow('2層');
+    });
+  });
+
+  describe('getSoundingWindLayers', () => {
+    it('converts winds above the launch site to heights above it', () => {
+      const sounding = parseSoundingFile(WYOMING_TEXT, 'wyoming.txt');
+      const layers = getSoundingWindLayers(sounding, 100);
+
+      expect(layers.map((l) => l.altitude)).toEqual([157, 720]);
+      expect(layers[0].windDirection).toBe(325);
+    });
+  });
+
+  describe('withoutSoundingWinds', () => {
+    it('keeps temperature, pressure and humidity but drops the winds', () => {
+      const sounding = parseSoundingFile(WYOMING_TEXT, 'wyoming.txt');
+      const stripped = withoutSoundingWinds(sounding);
+
+      expect(getSoundingWindLayers(stripped, 0)).toEqual([]);
+      expect(stripped.levels.map((l) => [l.altitude, l.temperature, l.pressure, l.humidity]))
+        .toEqual(sounding.levels.map((l) => [l.altitude, l.temperature, l.pressure, l.humidity]));
+    });
+  });
+});
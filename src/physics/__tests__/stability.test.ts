@@ -0,0 +1,113 @@
+/**
+ * 静安定計算のユニットテスト
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  calculateFinNormalForce,
+  calculateFinCpOffset,
+  calculateCenterOfPressure,
+  calculateStability,
+  calculateWeathercockRate,
+} from '../stability';
+import type { RocketGeometry } from '../../types/stability';
+import { DEFAULT_ROCKET_GEOMETRY } from '../../types/stability';
+
+describe('Stability', () => {
+  const diameter = 0.025;
+
+  describe('fins', () => {
+    it('matches the Barrowman normal force for a reference fin set', () => {
+      // 手計算: (1 + 0.0125/0.0525) × 30.72 / (1 + √(1 + 1.1173²)) ≈ 15.22
+      const cn = calculateFinNormalForce(DEFAULT_ROCKET_GEOMETRY.finSet, diameter);
+      expect(cn).toBeCloseTo(15.22, 1);
+    });
+
+    it('four fins give more normal force than three', () => {
+      const three = calculateFinNormalForce(DEFAULT_ROCKET_GEOMETRY.finSet, diameter);
+      const four = calculateFinNormalForce({ ...DEFAULT_ROCKET_GEOMETRY.finSet, count: 4 }, diameter);
+      expect(four / three).toBeCloseTo(4 / 3, 10);
+    });
+
+    it('rectangular fin CP is at the quarter chord', () => {
+      const offset = calculateFinCpOffset({
+        ...DEFAULT_ROCKET_GEOMETRY.finSet,
+        rootChord: 0.04,
+        tipChord: 0.04,
+        sweepLength: 0,
+      });
+      // (2c − c/2) / 6 = c/4
+      expect(offset).toBeCloseTo(0.01, 10);
+    });
+  });
+
+  describe('calculateCenterOfPressure', () => {
+    it('nose cone alone puts CP at the nose CP', () => {
+      const geometry: RocketGeometry = {
+        ...DEFAULT_ROCKET_GEOMETRY,
+        noseCone: { shape: 'conical', length: 0.09, mass: 0.01 },
+        finSet: { ...DEFAULT_ROCKET_GEOMETRY.finSet, count: 0 },
+      };
+      const { cp, normalForceSlope } = calculateCenterOfPressure(geometry, diameter);
+      expect(normalForceSlope).toBe(2);
+      expect(cp).toBeCloseTo(0.06, 10);
+    });
+
+    it('CP lies between the nose and the fins', () => {
+      const { cp } = calculateCenterOfPressure(DEFAULT_ROCKET_GEOMETRY, diameter);
+      expect(cp).toBeGreaterThan(0.07);
+      expect(cp).toBeLessThan(0.30);
+      expect(cp).toBeCloseTo(0.243, 2);
+    });
+  });
+
+  describe('calculateStability', () => {
+    it('default rocket is stable by more than one caliber', () => {
+      const result = calculateStability(DEFAULT_ROCKET_GEOMETRY, diameter, 0.0062);
+      expect(result.componentMass).toBeCloseTo(0.05, 10);
+      expect(result.staticMarginWet).toBeGreaterThan(1);
+      expect(result.staticMarginDry).toBeGreaterThan(result.staticMarginWet);
+    });
+
+    it('propellant moves the CG aft', () => {
+      const result = calculateStability(DEFAULT_ROCKET_GEOMETRY, diameter, 0.0062);
+      expect(result.cgWet).toBeGreaterThan(result.cgDry);
+    });
+
+    it('nose weight increases the margin', () => {
+      const base = calculateStability(DEFAULT_ROCKET_GEOMETRY, diameter, 0.0062);
+      const weighted = calculateStability(
+        {
+          ...DEFAULT_ROCKET_GEOMETRY,
+          components: [...DEFAULT_ROCKET_GEOMETRY.components, { name: '重り', mass: 0.01, position: 0.05 }],
+        },
+        diameter,
+        0.0062
+      );
+      expect(weighted.staticMarginWet).toBeGreaterThan(base.staticMarginWet);
+    });
+
+    it('throws when no mass is given', () => {
+      const massless: RocketGeometry = {
+        ...DEFAULT_ROCKET_GEOMETRY,
+        noseCone: { ...DEFAULT_ROCKET_GEOMETRY.noseCone, mass: 0 },
+        bodyTubes: [{ length: 0.23, mass: 0 }],
+        finSet: { ...DEFAULT_ROCKET_GEOMETRY.finSet, mass: 0 },
+        components: [],
+      };
+      expect(() => calculateStability(massless, diameter, 0)).toThrow();
+    });
+  });
+
+  describe('calculateWeathercockRate', () => {
+    it('grows with the square root of margin and dynamic pressure', () => {
+      const slow = calculateWeathercockRate(500, 5e-4, 15, 0.05, 0.06, 0.3);
+      expect(calculateWeathercockRate(2000, 5e-4, 15, 0.05, 0.06, 0.3)).toBeCloseTo(slow * 2, 10);
+      expect(calculateWeathercockRate(500, 5e-4, 15, 0.2, 0.06, 0.3)).toBeCloseTo(slow * 2, 10);
+    });
+
+    it('does not restore an unstable rocket', () => {
+      expect(calculateWeathercockRate(500, 5e-4, 15, -0.01, 0.06, 0.3)).toBe(0);
+    });
+  });
+});
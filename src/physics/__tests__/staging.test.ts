@@ -0,0 +1,118 @@
+/**
+ * 多段ロケットの上昇計算のユニットテスト
+ */
+
+import { describe, it, expect } from 'vitest';
+import { calculateAscent, type AscentInput } from '../ballistics';
+import { calculateStagedAscent, combineMotorModels, getStageTimings } from '../staging';
+import { createMotorModel } from '../motor';
+import type { RocketParameters, RocketStage } from '../../types/rocket';
+
+// テスト用のロケットパラメータ（最上段）
+const sustainer: RocketParameters = {
+  dryMass: 0.05,
+  propellantMass: 0.006,
+  bodyDiameter: 0.025,
+  bodyLength: 0.3,
+  dragCoefficient: 0.5,
+  motorTotalImpulse: 2.5,
+  motorBurnTime: 0.5,
+  motorDelayTime: 4,
+};
+
+const booster: RocketStage = {
+  name: 'ブースター',
+  dryMass: 0.03,
+  propellantMass: 0.006,
+  bodyDiameter: 0.025,
+  dragCoefficient: 0.6,
+  motorTotalImpulse: 5,
+  motorBurnTime: 0.8,
+  ignition: { trigger: 'burnout', delay: 0 },
+  separationDelay: 0,
+  recovery: { method: 'freefall' },
+};
+
+const baseInput = (rocket: RocketParameters): AscentInput => ({
+  rocket,
+  launchAngle: 90,
+  launchAzimuth: 0,
+  launchElevation: 0,
+  windSpeed: 0,
+  windDirection: 0,
+  railLength: 1,
+});
+
+describe('Staging', () => {
+  describe('getStageTimings', () => {
+    it('ignites the upper stage at booster burnout', () => {
+      const timings = getStageTimings({ ...sustainer, boosters: [booster] });
+      expect(timings).toHaveLength(2);
+      expect(timings[0].separationTime).toBeCloseTo(0.8, 9);
+      expect(timings[1].ignitionTime).toBeCloseTo(0.8, 9);
+      expect(timings[1].burnoutTime).toBeCloseTo(1.3, 9);
+    });
+
+    it('ignites on a timer and separates before the upper stage lights', () => {
+      const timings = getStageTimings({
+        ...sustainer,
+        boosters: [{ ...booster, separationDelay: 5 }],
+        ignition: { trigger: 'delay', delay: 2 },
+      });
+      expect(timings[1].ignitionTime).toBe(2);
+      expect(timings[0].separationTime).toBe(2);
+    });
+
+    it('has a single stage without boosters', () => {
+      const timings = getStageTimings(sustainer);
+      expect(timings).toHaveLength(1);
+      expect(timings[0].ignitionTime).toBe(0);
+    });
+  });
+
+  describe('combineMotorModels', () => {
+    it('sums motors shifted by their ignition times', () => {
+      const lower = createMotorModel(booster);
+      const upper = createMotorModel(sustainer);
+      const combined = combineMotorModels([
+        { motor: lower, ignitionTime: 0 },
+        { motor: upper, ignitionTime: 0.8 },
+      ]);
+
+      expect(combined.burnTime).toBeCloseTo(1.3, 9);
+      expect(combined.getThrust(0.4)).toBeCloseTo(lower.getThrust(0.4), 9);
+      expect(combined.getThrust(1)).toBeCloseTo(upper.getThrust(0.2), 9);
+      expect(combined.getPropellantMass(0)).toBeCloseTo(0.012, 9);
+    });
+  });
+
+  describe('calculateStagedAscent', () => {
+    it('matches the single-stage ascent without boosters', () => {
+      const staged = calculateStagedAscent(baseInput(sustainer));
+      const single = calculateAscent(baseInput(sustainer));
+      expect(staged.apogee.altitude).toBe(single.apogee.altitude);
+      expect(staged.separations).toEqual([]);
+    });
+
+    it('separates the booster and flies higher', () => {
+      const staged = calculateStagedAscent(baseInput({ ...sustainer, boosters: [booster] }));
+      const single = calculateAscent(baseInput(sustainer));
+
+      expect(staged.separations).toHaveLength(1);
+      expect(staged.separations[0].time).toBeCloseTo(0.8, 6);
+      expect(staged.separations[0].mass).toBeCloseTo(booster.dryMass, 9);
+      expect(staged.apogee.altitude).toBeGreaterThan(single.apogee.altitude * 1.5);
+      // 分離点を挟んで軌道が連続
+      const times = staged.trajectoryPoints.map((p) => p.time);
+      expect(times.every((t, i) => i === 0 || t > times[i - 1])).toBe(true);
+    });
+
+    it('rejects a separation after apogee', () => {
+      expect(() => calculateStagedAscent(baseInput({
+        ...sustainer,
+        boosters: [{ ...booster, separationDelay: 30 }],
+        ignition: { trigger: 'delay', delay: 30 },
+      }))).toThrow('頂点');
+    });
+  });
+});
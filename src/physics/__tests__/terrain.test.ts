@@ -0,0 +1,249 @@
+/**
+ * 地形（数値標高モデル）のユニットテスト
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseHgtFile,
+  parseGeoTiff,
+  parseElevationFile,
+  getElevationAt,
+  createTerrainElevation,
+  resampleElevationModel,
+  calculateHillshade,
+} from '../terrain';
+import type { ElevationModel } from '../../types/terrain';
+
+/**
+ * .hgt のバイト列を作成（ビッグエンディアン16bit）
+ */
+function createHgt(values: number[]): ArrayBuffer {
+  const view = new DataView(new ArrayBuffer(values.length * 2));
+  values.forEach((v, i) => view.setInt16(i * 2, v, false));
+  return view.buffer;
+}
+
+/**
+ * 非圧縮・16bit・1ストリップの GeoTIFF を作成
+ */
+function createGeoTiff({
+  width,
+  height,
+  values,
+  littleEndian = true,
+  pixelIsPoint = false,
+  modelType = 2,
+  compression = 1,
+  noData,
+}: {
+  width: number;
+  height: number;
+  values: number[];
+  littleEndian?: boolean;
+  pixelIsPoint?: boolean;
+  modelType?: number;
+  compression?: number;
+  noData?: string;
+}): ArrayBuffer {
+  const scale = [0.5, 0.5, 0];
+  const tiepoint = [0, 0, 0, 139, 36, 0];
+  const geoKeys = [1, 1, 0, 2, 1024, 0, 1, modelType, 1025, 0, 1, pixelIsPoint ? 2 : 1];
+  const noDataBytes = noData === undefined ? undefined : new TextEncoder().encode(`${noData}\0`);
+
+  const entryCount = noDataBytes ? 12 : 11;
+  const dataStart = 8 + 2 + entryCount * 12 + 4;
+  const scaleOffset = dataStart;
+  const tiepointOffset = scaleOffset + 24;
+  const geoKeyOffset = tiepointOffset + 48;
+  const noDataOffset = geoKeyOffset + geoKeys.length * 2;
+  const pixelOffset = noDataOffset + (noDataBytes?.length ?? 0) + 1;
+  const view = new DataView(new ArrayBuffer(pixelOffset + values.length * 2));
+
+  view.setUint16(0, littleEndian ? 0x4949 : 0x4d4d, false);
+  view.setUint16(2, 42, littleEndian);
+  view.setUint32(4, 8, littleEndian);
+  view.setUint16(8, entryCount, littleEndian);
+
+  const entries: [number, number, number, number][] = [
+    [256, 3, 1, width],
+    [257, 3, 1, height],
+    [258, 3, 1, 16],
+    [259, 3, 1, compression],
+    [273, 4, 1, pixelOffset],
+    [277, 3, 1, 1],
+    [278, 3, 1, height],
+    [339, 3, 1, 2],
+    [33550, 12, 3, scaleOffset],
+    [33922, 12, 6, tiepointOffset],
+    [34735, 3, geoKeys.length, geoKeyOffset],
+  ];
+  if (noDataBytes) entries.push([42113, 2, noDataBytes.length, noDataOffset]);
+  entries.forEach(([tag, type, count, value], i) => {
+    const entry = 10 + i * 12;
+    view.setUint16(entry, tag, littleEndian);
+    view.setUint16(entry + 2, type, littleEndian);
+    view.setUint32(entry + 4, count, littleEndian);
+    if (type === 3 && count === 1) {
+      view.setUint16(entry + 8, value, littleEndian);
+    } else {
+      view.setUint32(entry + 8, value, littleEndian);
+    }
+  });
+
+  scale.forEach((v, i) => view.setFloat64(scaleOffset + i * 8, v, littleEndian));
+  tiepoint.forEach((v, i) => view.setFloat64(tiepointOffset + i * 8, v, littleEndian));
+  geoKeys.forEach((v, i) => view.setUint16(geoKeyOffset + i * 2, v, littleEndian));
+  noDataBytes?.forEach((b, i) => view.setUint8(noDataOffset + i, b));
+  values.forEach((v, i) => view.setInt16(pixelOffset + i * 2, v, littleEndian));
+
+  return view.buffer;
+}
+
+// 2×2 の地形（北西10, 北東20, 南西30, 南東40）
+const square: ElevationModel = {
+  name: 'square',
+  west: 139,
+  east: 139.01,
+  south: 35,
+  north: 35.01,
+  width: 2,
+  height: 2,
+  elevations: new Float32Array([10, 20, 30, 40]),
+};
+
+describe('Terrain', () => {
+  describe('parseHgtFile', () => {
+    it('reads the grid and the south-west corner from the file name', () => {
+      const dem = parseHgtFile(createHgt([1, 2, 3, 4, 5, 6, 7, 8, 9]), 'N35E139.hgt');
+
+      expect(dem).toMatchObject({ west: 139, east: 140, south: 35, north: 36, width: 3, height: 3 });
+      expect(Array.from(dem.elevations)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9]);
+    });
+
+    it('handles the southern and western hemispheres', () => {
+      const dem = parseHgtFile(createHgt([0, 0, 0, 0]), 'S12W077.hgt');
+      expect(dem).toMatchObject({ west: -77, east: -76, south: -12, north: -11 });
+    });
+
+    it('marks voids as missing', () => {
+      const dem = parseHgtFile(createHgt([100, -32768, 100, 100]), 'N35E139.hgt');
+      expect(Number.isNaN(dem.elevations[1])).toBe(true);
+    });
+
+    it('rejects a file name without coordinates or a non-square grid', () => {
+      expect(() => parseHgtFile(createHgt([0, 0, 0, 0]), 'terrain.hgt')).toThrow();
+      expect(() => parseHgtFile(createHgt([0, 0, 0]), 'N35E139.hgt')).toThrow();
+    });
+  });
+
+  describe('parseGeoTiff', () => {
+    const values = [10, 20, 30, 40, 50, 60];
+
+    it('reads a geographic pixel-is-area image', () => {
+      const dem = parseGeoTiff(createGeoTiff({ width: 3, height: 2, values }), 'dem.tif');
+
+      // タイポイントは画素の角なので、格子点は半画素内側
+      expect(dem.west).toBeCloseTo(139.25, 9);
+      expect(dem.north).toBeCloseTo(35.75, 9);
+      expect(dem.east).toBeCloseTo(140.25, 9);
+      expect(dem.south).toBeCloseTo(35.25, 9);
+      expect(Array.from(dem.elevations)).toEqual(values);
+    });
+
+    it('reads big-endian and pixel-is-point images', () => {
+      const dem = parseGeoTiff(
+        createGeoTiff({ width: 3, height: 2, values, littleEndian: false, pixelIsPoint: true }),
+        'dem.tif'
+      );
+
+      expect(dem.west).toBeCloseTo(139, 9);
+      expect(dem.north).toBeCloseTo(36, 9);
+      expect(Array.from(dem.elevations)).toEqual(values);
+    });
+
+    it('marks the no-data value as missing', () => {
+      const dem = parseGeoTiff(
+        createGeoTiff({ width: 3, height: 2, values: [10, -9999, 30, 40, 50, 60], noData: '-9999' }),
+        'dem.tif'
+      );
+      expect(Number.isNaN(dem.elevations[1])).toBe(true);
+      expect(dem.elevations[0]).toBe(10);
+    });
+
+    it('rejects compressed or projected images', () => {
+      expect(() => parseGeoTiff(createGeoTiff({ width: 3, height: 2, values, compression: 5 }), 'dem.tif')).toThrow('圧縮');
+      expect(() => parseGeoTiff(createGeoTiff({ width: 3, height: 2, values, modelType: 1 }), 'dem.tif')).toThrow('投影');
+    });
+  });
+
+  describe('parseElevationFile', () => {
+    it('dispatches by extension', () => {
+      expect(parseElevationFile(createHgt([0, 0, 0, 0]), 'N35E139.HGT').width).toBe(2);
+      expect(() => parseElevationFile(new ArrayBuffer(8), 'dem.asc')).toThrow();
+    });
+  });
+
+  describe('getElevationAt', () => {
+    it('interpolates bilinearly', () => {
+      expect(getElevationAt(square, { latitude: 35.01, longitude: 139 })).toBeCloseTo(10, 6);
+      expect(getElevationAt(square, { latitude: 35, longitude: 139.01 })).toBeCloseTo(40, 6);
+      expect(getElevationAt(square, { latitude: 35.005, longitude: 139.005 })).toBeCloseTo(25, 4);
+    });
+
+    it('returns undefined outside the grid', () => {
+      expect(getElevationAt(square, { latitude: 35.02, longitude: 139.005 })).toBeUndefined();
+    });
+
+    it('skips missing neighbours', () => {
+      const holed = { ...square, elevations: new Float32Array([10, NaN, 30, 40]) };
+      const value = getElevationAt(holed, { latitude: 35.005, longitude: 139.005 });
+      expect(value).toBeCloseTo((10 + 30 + 40) / 3, 4);
+    });
+  });
+
+  describe('createTerrainElevation', () => {
+    it('maps local metres to the grid and falls back outside', () => {
+      const elevationAt = createTerrainElevation(square, { latitude: 35, longitude: 139 }, -1);
+
+      expect(elevationAt(0, 0)).toBeCloseTo(30, 6);
+      expect(elevationAt(0, 0.005 * 111320)).toBeCloseTo(20, 3);
+      expect(elevationAt(-100, 0)).toBe(-1);
+    });
+  });
+
+  describe('resampleElevationModel', () => {
+    it('keeps the extent while reducing the grid', () => {
+      const large = { ...square, width: 101, height: 101, elevations: new Float32Array(101 * 101).fill(5) };
+      const small = resampleElevationModel(large, 20);
+
+      expect(small.width).toBeLessThanOrEqual(21);
+      expect(small.west).toBe(large.west);
+      expect(small.north).toBe(large.north);
+      expect(small.elevations.every((v) => v === 5)).toBe(true);
+      expect(resampleElevationModel(square, 20)).toBe(square);
+    });
+  });
+
+  describe('calculateHillshade', () => {
+    const ramp = (rise: (row: number, column: number) => number): ElevationModel => ({
+      ...square,
+      width: 5,
+      height: 5,
+      elevations: new Float32Array(Array.from({ length: 25 }, (_, i) => rise(Math.floor(i / 5), i % 5))),
+    });
+
+    it('shades flat ground by the sun altitude', () => {
+      const shade = calculateHillshade(ramp(() => 100));
+      expect(shade[12]).toBe(Math.round(255 * Math.sin(Math.PI / 4)));
+    });
+
+    it('lights slopes facing the sun', () => {
+      // 北西向きの斜面（南東が高い）と南東向きの斜面
+      const facingSun = calculateHillshade(ramp((row, column) => (row + column) * 50));
+      const facingAway = calculateHillshade(ramp((row, column) => -(row + column) * 50));
+
+      expect(facingSun[12]).toBeGreaterThan(facingAway[12]);
+      expect(facingSun[12]).toBeGreaterThan(180);
+    });
+  });
+});
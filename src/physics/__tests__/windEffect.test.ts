@@ -6,10 +6,25 @@ import { describe, it, expect } from 'vitest';
 import {
   createLogLawWindProfile,
   createLayeredWindProfile,
+  createWindProfileFromWeather,
+  getFlightMeanWind,
   calculateUncertaintyEllipse,
+  createDrydenGust,
   DEFAULT_WIND_UNCERTAINTY,
   ROUGHNESS_LENGTHS,
 } from '../windEffect';
+import { DEFAULT_WEATHER_DATA, getTurbulenceIntensity } from '../../types/weather';
+
+/**
+ * シードつきの乱数（テスト用の線形合同法）
+ */
+function seededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+}
 
 describe('WindEffect', () => {
   describe('createLogLawWindProfile', () => {
@@ -129,6 +144,147 @@ describe('WindEffect', () => {
     });
   });
 
+  describe('createWindProfileFromWeather', () => {
+    const windLayers = [{ altitude: 100, windSpeed: 4, windDirection: 90 }];
+
+    it('uses the wind layers', () => {
+      const profile = createWindProfileFromWeather({ ...DEFAULT_WEATHER_DATA, windLayers });
+      expect(profile.getWindAtAltitude(100)).toEqual({ speed: 4, direction: 90 });
+    });
+
+    it('prefers sounding winds measured above the launch site', () => {
+      const profile = createWindProfileFromWeather(
+        {
+          ...DEFAULT_WEATHER_DATA,
+          windLayers,
+          sounding: {
+            name: 'sonde.csv',
+            levels: [
+              { altitude: 50, temperature: 15, pressure: 1007, windSpeed: 2, windDirection: 180 },
+              { altitude: 250, temperature: 14, pressure: 984, windSpeed: 8, windDirection: 200 },
+            ],
+          },
+        },
+        50
+      );
+
+      expect(profile.getWindAtAltitude(200)).toEqual({ speed: 8, direction: 200 });
+    });
+
+    it('follows the log law from the reference height when no layers are given', () => {
+      const weather = { ...DEFAULT_WEATHER_DATA, surfaceWindSpeed: 5, surfaceWindDirection: 270 };
+      const profile = createWindProfileFromWeather(weather, 0, ROUGHNESS_LENGTHS.grass_tall);
+      const logLaw = createLogLawWindProfile(5, 270, 10, ROUGHNESS_LENGTHS.grass_tall);
+
+      expect(profile.getWindAtAltitude(10).speed).toBeCloseTo(5, 10);
+      expect(profile.getWindAtAltitude(50).speed).toBeCloseTo(logLaw.getWindAtAltitude(50).speed, 10);
+      // 地表境界層より上はその上端の風
+      expect(profile.getWindAtAltitude(500).speed).toBeCloseTo(logLaw.getWindAtAltitude(100).speed, 10);
+    });
+
+    it('strengthens faster with height over rougher ground', () => {
+      const weather = { ...DEFAULT_WEATHER_DATA, surfaceWindSpeed: 5 };
+      const field = createWindProfileFromWeather(weather, 0, ROUGHNESS_LENGTHS.grass_short);
+      const forest = createWindProfileFromWeather(weather, 0, ROUGHNESS_LENGTHS.forest);
+      expect(forest.getWindAtAltitude(80).speed).toBeGreaterThan(field.getWindAtAltitude(80).speed);
+    });
+
+    it('scales a wind measured at 2 m up to the standard height', () => {
+      const handheld = createWindProfileFromWeather({ ...DEFAULT_WEATHER_DATA, surfaceWindSpeed: 3, windReferenceHeight: 2 });
+      expect(handheld.getWindAtAltitude(2).speed).toBeCloseTo(3, 10);
+      expect(handheld.getWindAtAltitude(10).speed).toBeGreaterThan(3);
+    });
+
+    it('joins the log law continuously to layers inside the surface layer', () => {
+      const profile = createWindProfileFromWeather({
+        ...DEFAULT_WEATHER_DATA,
+        surfaceWindSpeed: 4,
+        surfaceWindDirection: 270,
+        windLayers: [
+          { altitude: 60, windSpeed: 9, windDirection: 290 },
+          { altitude: 300, windSpeed: 12, windDirection: 300 },
+        ],
+      });
+
+      expect(profile.getWindAtAltitude(10).speed).toBeCloseTo(4, 10);
+      expect(profile.getWindAtAltitude(59.999).speed).toBeCloseTo(9, 2);
+      expect(profile.getWindAtAltitude(59.999).direction).toBeCloseTo(290, 1);
+      expect(profile.getWindAtAltitude(180)).toEqual({ speed: 10.5, direction: 295 });
+    });
+  });
+
+  describe('getFlightMeanWind', () => {
+    const profile = createLayeredWindProfile(2, 0, [{ altitude: 100, windSpeed: 2, windDirection: 90 }]);
+    const point = (time: number, z: number) => ({ time, position: { x: 0, y: 0, z } });
+
+    it('weights the wind at each altitude by the time spent there', () => {
+      // 地上（北風）と高度100m（東風）に同じ時間いる
+      const wind = getFlightMeanWind([point(0, 50), point(10, 50), point(10, 150), point(20, 150)], profile, 50);
+      expect(wind.direction).toBeCloseTo(45, 6);
+      expect(wind.speed).toBeCloseTo(Math.SQRT2, 6);
+    });
+
+    it('leans toward the altitude where the flight lasts longer', () => {
+      const wind = getFlightMeanWind([point(0, 0), point(5, 0), point(5, 100), point(50, 100)], profile, 0);
+      expect(wind.direction).toBeGreaterThan(80);
+      expect(wind.direction).toBeLessThan(90);
+    });
+
+    it('falls back to the wind at a single point', () => {
+      expect(getFlightMeanWind([point(0, 100)], profile, 0)).toEqual({ speed: 2, direction: 90 });
+    });
+  });
+
+  describe('createDrydenGust', () => {
+    // 西風 5 m/s、乱流強度 20%（標準偏差 1 m/s）
+    const samples = (seed: number) => {
+      const gust = createDrydenGust(5, 270, 0.2, seededRandom(seed));
+      return Array.from({ length: 4000 }, (_, i) => gust.getGustAt(i * 0.5, 0));
+    };
+    const std = (values: number[]) => {
+      const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+      return Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length);
+    };
+
+    it('has the standard deviation of the turbulence intensity times the mean wind', () => {
+      const gusts = samples(1);
+      // 風下（東）・直交（北）の成分それぞれ
+      expect(std(gusts.map((g) => g.x))).toBeGreaterThan(0.6);
+      expect(std(gusts.map((g) => g.x))).toBeLessThan(1.4);
+      expect(std(gusts.map((g) => g.y))).toBeGreaterThan(0.6);
+      expect(std(gusts.map((g) => g.y))).toBeLessThan(1.4);
+    });
+
+    it('is repeatable for the same random sequence and varies between sequences', () => {
+      expect(samples(7).slice(0, 10)).toEqual(samples(7).slice(0, 10));
+      expect(samples(7)[0]).not.toEqual(samples(8)[0]);
+    });
+
+    it('changes smoothly with time and altitude', () => {
+      const gust = createDrydenGust(5, 270, 0.2, seededRandom(3));
+      const a = gust.getGustAt(10, 0);
+      const b = gust.getGustAt(10.01, 0);
+      expect(Math.abs(a.x - b.x)).toBeLessThan(0.05);
+      expect(gust.getGustAt(10, 300)).not.toEqual(a);
+    });
+
+    it('vanishes without turbulence', () => {
+      const gust = createDrydenGust(5, 270, 0, seededRandom(1));
+      const { x, y } = gust.getGustAt(12, 50);
+      expect(Math.hypot(x, y)).toBe(0);
+    });
+  });
+
+  describe('getTurbulenceIntensity', () => {
+    it('estimates the intensity from the gust factor unless given', () => {
+      // 4 m/s で突風 9 m/s → (9/4 - 1) / 3
+      const gusty = { ...DEFAULT_WEATHER_DATA, surfaceWindSpeed: 4, surfaceGustSpeed: 9 };
+      expect(getTurbulenceIntensity(gusty)).toBeCloseTo(1.25 / 3, 6);
+      expect(getTurbulenceIntensity({ ...gusty, turbulenceIntensity: 0.15 })).toBe(0.15);
+      expect(getTurbulenceIntensity(DEFAULT_WEATHER_DATA)).toBe(0);
+    });
+  });
+
   describe('calculateUncertaintyEllipse', () => {
     it('returns larger semi-major axis for larger drift', () => {
       const ellipse1 = calculateUncertaintyEllipse(100, 180);
@@ -1,22 +1,26 @@
 /**
  * 空気力学計算
  *
- * 抗力、揚力、空気抵抗の計算
+ * 抗力、揚力、空気抵抗の計算、形状からの抗力係数推算
  */
 
-import { getDensity } from './atmosphere';
+import { createStandardAtmosphere, getDensity, getSpeedOfSound, type AtmosphereModel } from './atmosphere';
+import type { RocketGeometry } from '../types/stability';
+import type { RocketParameters } from '../types/rocket';
+import { getGeometryLength } from '../types/stability';
 
 /**
  * 抗力を計算 [N]
  *
- * D = 0.5 * ρ * v² * Cd * A
+ * D = 0.5 * ρ * v² * Cd * A（Cd は遷音速域の増加を補正）
  *
  * @param velocity - 速度 [m/s]
- * @param cd - 抗力係数
+ * @param cd - 抗力係数（低速時）
  * @param referenceArea - 基準面積 [m²]
  * @param altitude - 高度 [m]
  * @param surfaceTemp - 地上気温 [°C]（オプション）
  * @param surfacePressure - 地上気圧 [hPa]（オプション）
+ * @param surfaceHumidity - 地上の相対湿度 [%]（オプション）
  */
 export function calculateDrag(
   velocity: number,
@@ -24,10 +28,12 @@ export function calculateDrag(
   referenceArea: number,
   altitude: number,
   surfaceTemp?: number,
-  surfacePressure?: number
+  surfacePressure?: number,
+  surfaceHumidity?: number
 ): number {
-  const density = getDensity(altitude, surfaceTemp, surfacePressure);
-  return 0.5 * density * velocity * velocity * cd * referenceArea;
+  const density = getDensity(altitude, surfaceTemp, surfacePressure, surfaceHumidity);
+  const effectiveCd = getEffectiveCd(cd, velocity, altitude, surfaceTemp);
+  return 0.5 * density * velocity * velocity * effectiveCd * referenceArea;
 }
 
 /**
@@ -40,13 +46,15 @@ export function getEffectiveCd(
   baseCd: number,
   velocity: number,
   altitude: number,
-  _surfaceTemp?: number
+  surfaceTemp?: number
 ): number {
-  // 音速計算（簡易版）
-  const T = 288.15 + (-0.0065 * altitude);  // 気温 [K]
-  const speedOfSound = Math.sqrt(1.4 * 287 * T);
-  const mach = velocity / speedOfSound;
+  return getTransonicCd(baseCd, velocity / getSpeedOfSound(altitude, surfaceTemp));
+}
 
+/**
+ * マッハ数に応じた抗力係数（遷音速域の増加を補正）
+ */
+export function getTransonicCd(baseCd: number, mach: number): number {
   // マッハ0.8以下は基本Cd
   if (mach < 0.8) {
     return baseCd;
@@ -74,9 +82,10 @@ export function calculateTerminalVelocity(
   referenceArea: number,
   altitude: number,
   surfaceTemp?: number,
-  surfacePressure?: number
+  surfacePressure?: number,
+  surfaceHumidity?: number
 ): number {
-  const density = getDensity(altitude, surfaceTemp, surfacePressure);
+  const density = getDensity(altitude, surfaceTemp, surfacePressure, surfaceHumidity);
   const g = 9.80665;
 
   return Math.sqrt((2 * mass * g) / (density * cd * referenceArea));
@@ -91,9 +100,10 @@ export function calculateDynamicPressure(
   velocity: number,
   altitude: number,
   surfaceTemp?: number,
-  surfacePressure?: number
+  surfacePressure?: number,
+  surfaceHumidity?: number
 ): number {
-  const density = getDensity(altitude, surfaceTemp, surfacePressure);
+  const density = getDensity(altitude, surfaceTemp, surfacePressure, surfaceHumidity);
   return 0.5 * density * velocity * velocity;
 }
 
@@ -109,9 +119,151 @@ export function calculateReynoldsNumber(
   surfaceTemp?: number
 ): number {
   const density = getDensity(altitude, surfaceTemp);
-  // 動粘性係数（簡易推定）
+  // 粘性係数（簡易推定）
   const T = 288.15 + (-0.0065 * altitude);
-  const mu = 1.458e-6 * Math.pow(T, 1.5) / (T + 110.4);  // Sutherland's formula
 
-  return density * velocity * characteristicLength / mu;
+  return density * velocity * characteristicLength / getDynamicViscosity(T);
+}
+
+/**
+ * 空気の粘性係数 [Pa·s]（Sutherland の式）
+ *
+ * @param temperature - 気温 [K]
+ */
+export function getDynamicViscosity(temperature: number): number {
+  return 1.458e-6 * Math.pow(temperature, 1.5) / (temperature + 110.4);
+}
+
+/**
+ * 表面粗さ [m]（塗装仕上げの代表値）
+ */
+const SURFACE_ROUGHNESS = 20e-6;
+
+/**
+ * 表面摩擦係数（圧縮性補正前）
+ *
+ * 乱流平板 Cf = 1 / (1.50 ln Re − 5.6)²、粗さで決まる値を下限とする
+ */
+export function calculateSkinFrictionCoefficient(reynolds: number, length: number): number {
+  const roughnessLimited = 0.032 * Math.pow(SURFACE_ROUGHNESS / length, 0.2);
+  if (reynolds < 1e4) {
+    return Math.max(1.48e-2, roughnessLimited);
+  }
+  const turbulent = 1 / Math.pow(1.5 * Math.log(reynolds) - 5.6, 2);
+  return Math.max(turbulent, roughnessLimited);
+}
+
+/**
+ * よどみ点圧力による抗力係数（前面面積基準）
+ */
+function getStagnationCd(mach: number): number {
+  const pressureRatio = mach < 1
+    ? 1 + mach ** 2 / 4 + mach ** 4 / 40
+    : 1.84 - 0.76 / mach ** 2 + 0.166 / mach ** 4 + 0.035 / mach ** 6;
+  return 0.85 * pressureRatio;
+}
+
+/**
+ * 底面抗力係数（底面面積基準）
+ */
+function getBaseCd(mach: number): number {
+  return mach < 1 ? 0.12 + 0.13 * mach ** 2 : 0.25 / mach;
+}
+
+/**
+ * 丸めた前縁の圧力抗力係数（前縁の前面面積基準）
+ */
+function getRoundedLeadingEdgeCd(mach: number): number {
+  if (mach < 0.9) return Math.pow(1 - mach ** 2, -0.417) - 1;
+  if (mach < 1) return 1 - 1.785 * (mach - 0.9);
+  return 1.214 - 0.502 / mach ** 2 + 0.1095 / mach ** 4;
+}
+
+/**
+ * 形状から抗力係数の推算モデルを作成（部品積み上げ法）
+ *
+ * 表面摩擦（機体・フィン）、ノーズの圧力抗力、底面抗力、フィンの前縁・後縁抗力、ランチラグ抗力の和。
+ * 基準面積は機体断面積、レイノルズ数は機体全長基準
+ *
+ * @returns (マッハ数, レイノルズ数) → Cd
+ */
+export function createDragEstimator(
+  geometry: RocketGeometry,
+  bodyDiameter: number
+): (mach: number, reynolds: number) => number {
+  const { noseCone, finSet, launchLug } = geometry;
+  const radius = bodyDiameter / 2;
+  const referenceArea = Math.PI * radius * radius;
+  const length = getGeometryLength(geometry);
+
+  // 濡れ面積（ノーズは円錐の側面積で近似）
+  const tubeLength = length - noseCone.length;
+  const bodyWetted = Math.PI * bodyDiameter * tubeLength
+    + Math.PI * radius * Math.hypot(radius, noseCone.length);
+  const meanChord = (finSet.rootChord + finSet.tipChord) / 2;
+  const finWetted = 2 * finSet.count * meanChord * finSet.span;
+
+  // 形状係数（機体の細長比、フィンの厚み比）
+  const fineness = length / bodyDiameter;
+  const bodyFormFactor = 1 + 1 / (2 * fineness);
+  const finFormFactor = meanChord > 0 ? 1 + 2 * finSet.thickness / meanChord : 1;
+
+  // ノーズの圧力抗力（円錐のみ、オジャイブ・パラボリックは亜音速でほぼ0）
+  const halfAngle = Math.atan2(radius, noseCone.length);
+  const noseCd = noseCone.shape === 'conical' ? 0.8 * Math.sin(halfAngle) ** 2 : 0;
+
+  // フィン前縁・後縁の前面面積（基準面積比）
+  const finFrontalRatio = (finSet.count * finSet.span * finSet.thickness) / referenceArea;
+
+  // ランチラグ（前面のよどみ圧＋表面摩擦）
+  const lugFrontalRatio = launchLug ? (Math.PI * launchLug.diameter ** 2 / 4) / referenceArea : 0;
+  const lugWetted = launchLug ? Math.PI * launchLug.diameter * launchLug.length : 0;
+
+  return (mach: number, reynolds: number): number => {
+    // 表面摩擦（圧縮性補正）
+    const cf = calculateSkinFrictionCoefficient(reynolds, length);
+    const cfCompressible = mach < 1
+      ? cf * (1 - 0.1 * mach ** 2)
+      : cf / Math.pow(1 + 0.15 * mach ** 2, 0.58);
+    const frictionCd = cfCompressible
+      * (bodyFormFactor * bodyWetted + finFormFactor * finWetted + lugWetted) / referenceArea;
+
+    const baseCd = getBaseCd(mach);
+    const finPressureCd = finFrontalRatio * (getRoundedLeadingEdgeCd(mach) + baseCd);
+    const lugCd = lugFrontalRatio * getStagnationCd(mach);
+
+    return frictionCd + noseCd + baseCd + finPressureCd + lugCd;
+  };
+}
+
+/**
+ * 機体の抗力係数モデルを作成
+ *
+ * 形状があれば Cd(マッハ数, レイノルズ数) を推算（圧縮性の影響は推算に含まれる）、
+ * なければ（または手入力指定時は）dragCoefficient に getTransonicCd で遷音速の増加を補正する
+ *
+ * @param rocket - ロケットパラメータ
+ * @param dragFactor - 抗力係数の倍率（分散解析用）
+ * @param atmosphere - 大気モデル（マッハ数・レイノルズ数の計算用）
+ * @returns (対気速度 [m/s], 高度 [m]) → Cd（マッハ数の影響を含む）
+ */
+export function createDragCoefficientModel(
+  rocket: RocketParameters,
+  dragFactor = 1,
+  atmosphere: AtmosphereModel = createStandardAtmosphere()
+): (velocity: number, altitude: number) => number {
+  if (!rocket.geometry || rocket.manualDragCoefficient) {
+    const cd = rocket.dragCoefficient * dragFactor;
+    return (velocity, altitude) => getTransonicCd(cd, velocity / atmosphere.getSpeedOfSound(altitude));
+  }
+
+  const estimateCd = createDragEstimator(rocket.geometry, rocket.bodyDiameter);
+  // レイノルズ数は推算と同じ形状の全長基準
+  const length = getGeometryLength(rocket.geometry);
+  return (velocity, altitude) => {
+    const mach = velocity / atmosphere.getSpeedOfSound(altitude);
+    const reynolds = atmosphere.getDensity(altitude) * velocity * length
+      / getDynamicViscosity(atmosphere.getTemperature(altitude));
+    return estimateCd(mach, reynolds) * dragFactor;
+  };
 }
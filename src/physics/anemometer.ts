@@ -0,0 +1,137 @@
+/**
+ * 風速計の観測ログの読み込み
+ *
+ * ハンディ風速計が記録する 時刻・風速・瞬間風速・風向 のCSVに対応
+ */
+
+import { getWindDirectionLabel, getWindDirectionLabelJa, type AnemometerRecord } from '../types/weather';
+
+type AnemometerColumn = 'time' | 'windSpeed' | 'gustSpeed' | 'windDirection';
+
+// 列名の別名（小文字、単位を除いたもの）
+const COLUMN_ALIASES: Record<AnemometerColumn, string[]> = {
+  time: ['time', 'timestamp', 'datetime', 'date_time', '時刻', '日時'],
+  windSpeed: ['wind_speed', 'windspeed', 'speed', 'avg', 'average', 'ws', '風速', '平均風速'],
+  gustSpeed: ['gust', 'gust_speed', 'gustspeed', 'max', 'peak', '瞬間風速', '最大瞬間風速'],
+  windDirection: ['wind_direction', 'winddirection', 'direction', 'dir', 'wd', '風向'],
+};
+
+// 列名がないときの列の並び
+const DEFAULT_COLUMNS: AnemometerColumn[] = ['time', 'windSpeed', 'gustSpeed', 'windDirection'];
+
+// 方位の文字（N・北北東など）から風向 [deg]
+const COMPASS_DIRECTIONS = new Map(
+  Array.from({ length: 16 }, (_, i) => i * 22.5).flatMap((degrees) => [
+    [getWindDirectionLabel(degrees).toLowerCase(), degrees] as const,
+    [getWindDirectionLabelJa(degrees), degrees] as const,
+  ])
+);
+
+// 1ノットあたりの速度 [m/s]
+const KNOT = 0.514444;
+
+// 1マイル毎時あたりの速度 [m/s]
+const MPH = 0.44704;
+
+/**
+ * 列見出しを列名と単位に分ける（例: "Speed (km/h)" → speed, km/h）
+ */
+function parseHeader(token: string): { name: string; unit: string } {
+  const unit = /[([]\s*([^)\]]+)/.exec(token)?.[1].trim().toLowerCase() ?? '';
+  const name = token.toLowerCase().replace(/[([].*$/, '').trim().replace(/[\s-]+/g, '_');
+  return { name, unit };
+}
+
+/**
+ * 風速を m/s に揃える
+ */
+function convertSpeed(unit: string, value: number): number {
+  if (unit === 'km/h' || unit === 'kmh' || unit === 'kph') return value / 3.6;
+  if (unit === 'kt' || unit === 'knot' || unit === 'kn') return value * KNOT;
+  if (unit === 'mph') return value * MPH;
+  return value;
+}
+
+/**
+ * 観測時刻を読む（日時、または時刻のみなら基準日のその時刻）
+ */
+function parseTime(cell: string, referenceDate: Date): Date | undefined {
+  const timeOnly = /^(\d{1,2}):(\d{2})(?::(\d{2}))?$/.exec(cell);
+  if (timeOnly) {
+    const date = new Date(referenceDate);
+    date.setHours(Number(timeOnly[1]), Number(timeOnly[2]), Number(timeOnly[3] ?? 0), 0);
+    return date;
+  }
+  // 2025/05/01 10:00:00 のような表記は ISO 形式（端末の時刻）に直す
+  const date = new Date(cell.replace(/^(\d{4})\/(\d{1,2})\/(\d{1,2})/, (_, y, m, d) =>
+    `${y}-${m.padStart(2, '0')}-${d.padStart(2, '0')}`).replace(' ', 'T'));
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * 風向を読む（角度、または16方位の文字）
+ */
+function parseDirection(cell: string): number | undefined {
+  const value = parseFloat(cell);
+  if (Number.isFinite(value)) return ((value % 360) + 360) % 360;
+  return COMPASS_DIRECTIONS.get(cell.toLowerCase());
+}
+
+/**
+ * 風速計の観測ログを解析
+ *
+ * 列名の行があれば列名で、なければ 時刻・風速・瞬間風速・風向 の順に読む（区切りはカンマ・タブ・セミコロン）。
+ * 時刻のみの行は基準日の時刻とし、日付をまたいだら翌日として扱う
+ *
+ * @param referenceDate - 時刻のみの記録に使う日付
+ */
+export function parseAnemometerLog(text: string, referenceDate: Date = new Date()): AnemometerRecord[] {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim() && !line.trim().startsWith('#'));
+  if (lines.length === 0) {
+    throw new Error('風速計のログが空です');
+  }
+
+  const delimiter = lines[0].includes(',') ? /\s*,\s*/ : lines[0].includes('\t') ? /\t/ : /\s*;\s*/;
+  const headers = lines[0].trim().split(delimiter).map(parseHeader);
+  const named = headers.map(({ name }) =>
+    (Object.keys(COLUMN_ALIASES) as AnemometerColumn[]).find((column) => COLUMN_ALIASES[column].includes(name))
+  );
+  const hasHeader = named.includes('time') || named.includes('windSpeed');
+  if (hasHeader && !(named.includes('time') && named.includes('windSpeed') && named.includes('windDirection'))) {
+    throw new Error('時刻・風速・風向の列が見つかりません');
+  }
+  const columns = hasHeader ? named : DEFAULT_COLUMNS;
+  const units = hasHeader ? headers.map(({ unit }) => unit) : [];
+
+  const records: AnemometerRecord[] = [];
+  let dayOffset = 0;
+  for (const line of lines.slice(hasHeader ? 1 : 0)) {
+    const cells = line.trim().split(delimiter);
+    const cell = (column: AnemometerColumn) => cells[columns.indexOf(column)]?.trim() ?? '';
+    const speed = (column: AnemometerColumn) => {
+      const value = parseFloat(cell(column));
+      return Number.isFinite(value) ? convertSpeed(units[columns.indexOf(column)] ?? '', value) : undefined;
+    };
+
+    let time = parseTime(cell('time'), referenceDate);
+    const windSpeed = speed('windSpeed');
+    const windDirection = parseDirection(cell('windDirection'));
+    if (!time || windSpeed === undefined || windDirection === undefined) continue;
+
+    // 時刻のみの記録が前の行より戻ったら日付をまたいだとみなす
+    if (!/\d{4}/.test(cell('time'))) {
+      time = new Date(time.getTime() + dayOffset * 24 * 3600 * 1000);
+      const previous = records[records.length - 1];
+      if (previous && time < previous.time) {
+        dayOffset++;
+        time = new Date(time.getTime() + 24 * 3600 * 1000);
+      }
+    }
+    records.push({ time, windSpeed, gustSpeed: speed('gustSpeed'), windDirection });
+  }
+
+  if (records.length === 0) {
+    throw new Error('風速計のログに読み込める行がありません（時刻・風速・瞬間風速・風向のCSV）');
+  }
+  return records.sort((a, b) => a.time.getTime() - b.time.getTime());
+}
@@ -9,6 +9,7 @@
 export const PHYSICAL_CONSTANTS = {
   g0: 9.80665,                  // 標準重力加速度 [m/s²]
   R: 287.05287,                 // 乾燥空気の気体定数 [J/(kg·K)]
+  Rv: 461.495,                  // 水蒸気の気体定数 [J/(kg·K)]
   M: 0.0289644,                 // 空気のモル質量 [kg/mol]
   Ru: 8.31447,                  // 普遍気体定数 [J/(mol·K)]
 };
@@ -23,6 +24,9 @@ export const SEA_LEVEL_STANDARD = {
 // 対流圏の温度減率
 const LAPSE_RATE = -0.0065;     // [K/m]
 
+// 空気の比熱比
+const GAMMA = 1.4;
+
 /**
  * 高度における気温を計算 [K]
  */
@@ -62,19 +66,71 @@ export function getPressure(altitude: number, surfacePressure?: number): number
   return P11 * Math.exp(-PHYSICAL_CONSTANTS.g0 * (altitude - 11000) / (PHYSICAL_CONSTANTS.R * T11));
 }
 
+/**
+ * 飽和水蒸気圧を計算 [Pa]（Magnus の式、Alduchov & Eskridge の係数）
+ *
+ * @param temperature - 気温 [K]
+ */
+export function getSaturationVaporPressure(temperature: number): number {
+  const t = temperature - 273.15;
+  return 610.94 * Math.exp(17.625 * t / (t + 243.04));
+}
+
+/**
+ * 湿潤空気の密度を計算 [kg/m³]
+ *
+ * 乾燥空気と水蒸気の分圧の和: ρ = (P − e) / (Rd·T) + e / (Rv·T)
+ *
+ * @param pressure - 気圧 [Pa]
+ * @param temperature - 気温 [K]
+ * @param relativeHumidity - 相対湿度 [%]（0 で乾燥空気）
+ */
+export function getMoistAirDensity(pressure: number, temperature: number, relativeHumidity = 0): number {
+  const vaporPressure = Math.min(Math.max(relativeHumidity, 0), 100) / 100 * getSaturationVaporPressure(temperature);
+  return (pressure - vaporPressure) / (PHYSICAL_CONSTANTS.R * temperature)
+    + vaporPressure / (PHYSICAL_CONSTANTS.Rv * temperature);
+}
+
+/**
+ * 露点から相対湿度を計算 [%]
+ *
+ * @param temperature - 気温 [°C]
+ * @param dewPoint - 露点 [°C]
+ */
+export function getRelativeHumidity(temperature: number, dewPoint: number): number {
+  const ratio = getSaturationVaporPressure(dewPoint + 273.15) / getSaturationVaporPressure(temperature + 273.15);
+  return Math.min(100, 100 * ratio);
+}
+
+/**
+ * 相対湿度から露点を計算 [°C]
+ *
+ * @param temperature - 気温 [°C]
+ * @param relativeHumidity - 相対湿度 [%]
+ */
+export function getDewPoint(temperature: number, relativeHumidity: number): number {
+  const gamma = Math.log(Math.max(relativeHumidity, 0.1) / 100) + 17.625 * temperature / (243.04 + temperature);
+  return 243.04 * gamma / (17.625 - gamma);
+}
+
 /**
  * 高度における空気密度を計算 [kg/m³]
+ *
+ * 相対湿度は高度によらず一定とみなす
+ *
+ * @param surfaceHumidity - 地上の相対湿度 [%]（未指定は乾燥空気）
  */
 export function getDensity(
   altitude: number,
   surfaceTemp?: number,
-  surfacePressure?: number
+  surfacePressure?: number,
+  surfaceHumidity?: number
 ): number {
   const T = getTemperature(altitude, surfaceTemp);
   const P = getPressure(altitude, surfacePressure);
 
-  // 理想気体の状態方程式: ρ = P / (R * T)
-  return P / (PHYSICAL_CONSTANTS.R * T);
+  // 理想気体の状態方程式（乾燥空気と水蒸気の分圧ごと）
+  return getMoistAirDensity(P, T, surfaceHumidity);
 }
 
 /**
@@ -82,8 +138,7 @@ export function getDensity(
  */
 export function getSpeedOfSound(altitude: number, surfaceTemp?: number): number {
   const T = getTemperature(altitude, surfaceTemp);
-  const gamma = 1.4;  // 空気の比熱比
-  return Math.sqrt(gamma * PHYSICAL_CONSTANTS.R * T);
+  return Math.sqrt(GAMMA * PHYSICAL_CONSTANTS.R * T);
 }
 
 /**
@@ -95,6 +150,118 @@ export function getGravity(altitude: number): number {
   return PHYSICAL_CONSTANTS.g0 * Math.pow(RE / (RE + altitude), 2);
 }
 
+/**
+ * 大気モデル（高度は海抜 [m]）
+ *
+ * 標準大気または高層気象観測（ゾンデ）のプロファイルから、飛行中の大気特性を与える
+ */
+export interface AtmosphereModel {
+  getTemperature(altitude: number): number;   // 気温 [K]
+  getPressure(altitude: number): number;      // 気圧 [Pa]
+  getDensity(altitude: number): number;       // 空気密度 [kg/m³]
+  getSpeedOfSound(altitude: number): number;  // 音速 [m/s]
+}
+
+/**
+ * 地上気温・気圧・湿度からの標準大気モデル
+ */
+export function createStandardAtmosphere(
+  surfaceTemp?: number,
+  surfacePressure?: number,
+  surfaceHumidity?: number
+): AtmosphereModel {
+  return {
+    getTemperature: (altitude) => getTemperature(altitude, surfaceTemp),
+    getPressure: (altitude) => getPressure(altitude, surfacePressure),
+    getDensity: (altitude) => getDensity(altitude, surfaceTemp, surfacePressure, surfaceHumidity),
+    getSpeedOfSound: (altitude) => getSpeedOfSound(altitude, surfaceTemp),
+  };
+}
+
+/**
+ * 観測プロファイルの1点
+ */
+export interface AtmosphereLevel {
+  altitude: number;             // 海抜高度 [m]
+  temperature: number;          // 気温 [°C]
+  pressure: number;             // 気圧 [hPa]
+  humidity?: number;            // 相対湿度 [%]（未指定の層は前後の観測から補間、全層なしは乾燥空気）
+}
+
+/**
+ * 観測プロファイルからの大気モデル
+ *
+ * 観測点の間は気温と湿度を線形、気圧を対数で補間。範囲外は端の値から
+ * 標準の気温減率で気温を延長し、気圧は静水圧平衡で求める（湿度は端の値のまま）
+ *
+ * @param levels - 観測点（2点以上、高度順でなくてよい）
+ */
+export function createProfileAtmosphere(levels: AtmosphereLevel[]): AtmosphereModel {
+  if (levels.length < 2) {
+    throw new Error('大気プロファイルには2点以上の観測値が必要です');
+  }
+  const sorted = [...levels].sort((a, b) => a.altitude - b.altitude);
+  const bottom = sorted[0];
+  const top = sorted[sorted.length - 1];
+
+  /**
+   * 高度を挟む観測点の番号と補間比（範囲外は undefined）
+   */
+  const locate = (altitude: number): { i: number; ratio: number } | undefined => {
+    if (altitude < bottom.altitude || altitude > top.altitude) return undefined;
+    let i = 0;
+    while (i < sorted.length - 2 && altitude > sorted[i + 1].altitude) i++;
+    const span = sorted[i + 1].altitude - sorted[i].altitude;
+    return { i, ratio: span > 0 ? (altitude - sorted[i].altitude) / span : 0 };
+  };
+
+  const temperatureAt = (altitude: number): number => {
+    const position = locate(altitude);
+    if (!position) {
+      const edge = altitude < bottom.altitude ? bottom : top;
+      return Math.max(edge.temperature + 273.15 + LAPSE_RATE * (altitude - edge.altitude), 216.65);
+    }
+    const { i, ratio } = position;
+    return sorted[i].temperature + 273.15 + ratio * (sorted[i + 1].temperature - sorted[i].temperature);
+  };
+
+  const pressureAt = (altitude: number): number => {
+    const position = locate(altitude);
+    if (!position) {
+      // 端の観測点から平均気温の静水圧平衡で延長
+      const edge = altitude < bottom.altitude ? bottom : top;
+      const meanTemperature = (edge.temperature + 273.15 + temperatureAt(altitude)) / 2;
+      return edge.pressure * 100 * Math.exp(
+        -PHYSICAL_CONSTANTS.g0 * (altitude - edge.altitude) / (PHYSICAL_CONSTANTS.R * meanTemperature)
+      );
+    }
+    const { i, ratio } = position;
+    const lower = Math.log(sorted[i].pressure * 100);
+    const upper = Math.log(sorted[i + 1].pressure * 100);
+    return Math.exp(lower + ratio * (upper - lower));
+  };
+
+  // 湿度のある観測点のみで補間
+  const humid = sorted.filter((level) => level.humidity !== undefined);
+  const humidityAt = (altitude: number): number => {
+    if (humid.length === 0) return 0;
+    if (altitude <= humid[0].altitude) return humid[0].humidity!;
+    const upper = humid.findIndex((level) => level.altitude >= altitude);
+    if (upper < 0) return humid[humid.length - 1].humidity!;
+    const a = humid[upper - 1];
+    const b = humid[upper];
+    const ratio = (altitude - a.altitude) / (b.altitude - a.altitude);
+    return a.humidity! + ratio * (b.humidity! - a.humidity!);
+  };
+
+  return {
+    getTemperature: temperatureAt,
+    getPressure: pressureAt,
+    getDensity: (altitude) => getMoistAirDensity(pressureAt(altitude), temperatureAt(altitude), humidityAt(altitude)),
+    getSpeedOfSound: (altitude) => Math.sqrt(GAMMA * PHYSICAL_CONSTANTS.R * temperatureAt(altitude)),
+  };
+}
+
 /**
  * 大気特性をまとめて取得
  */
@@ -109,12 +276,13 @@ export interface AtmosphericConditions {
 export function getAtmosphericConditions(
   altitude: number,
   surfaceTemp?: number,
-  surfacePressure?: number
+  surfacePressure?: number,
+  surfaceHumidity?: number
 ): AtmosphericConditions {
   return {
     temperature: getTemperature(altitude, surfaceTemp),
     pressure: getPressure(altitude, surfacePressure),
-    density: getDensity(altitude, surfaceTemp, surfacePressure),
+    density: getDensity(altitude, surfaceTemp, surfacePressure, surfaceHumidity),
     speedOfSound: getSpeedOfSound(altitude, surfaceTemp),
     gravity: getGravity(altitude),
   };
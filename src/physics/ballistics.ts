@@ -1,15 +1,32 @@
 /**
  * 弾道計算（上昇フェーズ）
  *
- * 2自由度弾道モデルによる数値積分
- * - 推力フェーズ（燃焼中）
- * - 慣性上昇フェーズ（燃焼後〜頂点）
+ * 2自由度弾道モデルによる数値積分（Dormand–Prince法、適応刻み）
+ * - レールフェーズ（レール方向に拘束、離脱まで）
+ * - 機体形状がある場合は風見安定（機軸が静安定余裕と動圧に応じて対気速度方向へ回る）
+ * - 推力フェーズ（燃焼中、推力曲線または平均推力）
+ * - 慣性上昇フェーズ（燃焼後〜頂点、または頂点前の展開時刻）
  */
 
-import { getGravity } from './atmosphere';
-import { calculateDrag } from './aerodynamics';
+import { createStandardAtmosphere, getGravity, type AtmosphereModel } from './atmosphere';
+import { createDragCoefficientModel } from './aerodynamics';
+import { createMotorModel, type MotorModel } from './motor';
+import { calculateStability, calculateWeathercockRate } from './stability';
+import { integrateDormandPrince, type OdeOptions } from './integrator';
+import { createLayeredWindProfile, type WindGust, type WindProfile } from './windEffect';
 import type { RocketParameters } from '../types/rocket';
-import type { TrajectoryPoint } from '../types/trajectory';
+import { getTotalPropellantMass } from '../types/rocket';
+import type { Quaternion, TrajectoryPoint } from '../types/trajectory';
+
+/**
+ * 途中から上昇計算を始める場合の初期状態（多段の分離後など）
+ */
+export interface AscentInitialState {
+  time: number;                 // 時刻 [s]
+  position: { x: number; y: number; z: number };
+  velocity: { x: number; y: number; z: number };
+  orientation?: Quaternion;     // 姿勢（6自由度計算、未指定は速度方向）
+}
 
 /**
  * 上昇フェーズ計算の入力
@@ -21,9 +38,22 @@ export interface AscentInput {
   launchElevation: number;      // 発射地点標高 [m]
   windSpeed: number;            // 風速 [m/s]
   windDirection: number;        // 風向 [deg]（風が来る方向）
+  windProfile?: WindProfile;    // 発射地点からの高度別の風（未指定は windSpeed・windDirection の一定の風）
+  windGust?: WindGust;          // 平均風に加える突風（未指定は平均風のみ）
   surfaceTemp?: number;         // 地上気温 [°C]
   surfacePressure?: number;     // 地上気圧 [hPa]
-  timeStep?: number;            // 時間刻み [s]
+  surfaceHumidity?: number;     // 地上の相対湿度 [%]（未指定は乾燥空気）
+  atmosphere?: AtmosphereModel; // 大気モデル（未指定は地上気温・気圧・湿度からの標準大気）
+  timeStep?: number;            // 初期時間刻み [s]（以降は誤差制御で自動調整）
+  relativeTolerance?: number;   // 積分の相対許容誤差
+  absoluteTolerance?: number;   // 積分の絶対許容誤差
+  outputInterval?: number;      // 軌道点の出力間隔 [s]
+  maxTime?: number;             // 最大計算時間 [s]
+  cutoffTime?: number;          // 頂点前に計算を打ち切る時刻 [s]（回収装置の早期展開）
+  railLength?: number;          // ランチレール長 [m]（0: レールなし）
+  dragFactor?: number;          // 抗力係数の倍率（分散解析用）
+  motor?: MotorModel;           // 推力モデル（未指定は rocket から作成、多段では結合したモデル）
+  initialState?: AscentInitialState; // 途中から計算する場合の初期状態（レールは使わない）
 }
 
 /**
@@ -31,21 +61,48 @@ export interface AscentInput {
  */
 export interface AscentResult {
   trajectoryPoints: TrajectoryPoint[];
-  apogee: {
+  apogee: {                     // 頂点（打ち切った場合は打ち切り時点）
     time: number;
     altitude: number;
     position: { x: number; y: number; z: number };
+    velocity: { x: number; y: number; z: number };
   };
+  reachedApogee: boolean;       // 頂点まで計算したか（false: cutoffTime で打ち切り）
   maxVelocity: number;
+  maxMach: number;              // 最大マッハ数（対気速度）
+  maxDynamicPressure: number;   // 最大動圧 [Pa]
   burnoutAltitude: number;
   burnoutVelocity: number;
+  railExit?: {                  // レール離脱（レールなし、または離脱前に打ち切った場合は未定義）
+    time: number;
+    velocity: number;
+  };
+}
+
+/**
+ * 上昇中の風（時刻 [s]・海抜高度 [m] ごとのベクトル成分）
+ *
+ * 風プロファイルと突風は発射地点からの高度で評価する
+ */
+export function createAscentWind(
+  windProfile: WindProfile,
+  launchElevation: number,
+  windGust?: WindGust
+): (time: number, z: number) => { wx: number; wy: number } {
+  return (time, z) => {
+    const wind = windProfile.getWindAtAltitude(z - launchElevation);
+    const mean = getWindComponents(wind.speed, wind.direction);
+    if (!windGust) return mean;
+    const gust = windGust.getGustAt(time, z - launchElevation);
+    return { wx: mean.wx + gust.x, wy: mean.wy + gust.y };
+  };
 }
 
 /**
  * 風向から風のベクトル成分を計算
  * 風向は「風が吹いてくる方向」なので、移動方向は逆
  */
-function getWindComponents(windSpeed: number, windDirection: number): { wx: number; wy: number } {
+export function getWindComponents(windSpeed: number, windDirection: number): { wx: number; wy: number } {
   // 風向を「風が吹いていく方向」に変換（+180度）
   const windTo = (windDirection + 180) % 360;
   const windRad = windTo * Math.PI / 180;
@@ -56,6 +113,22 @@ function getWindComponents(windSpeed: number, windDirection: number): { wx: numb
   };
 }
 
+/**
+ * 状態ベクトル [x, y, z, vx, vy, vz] を軌道点に変換
+ */
+function toTrajectoryPoint(
+  time: number,
+  state: number[],
+  phase: TrajectoryPoint['phase']
+): TrajectoryPoint {
+  return {
+    time,
+    position: { x: state[0], y: state[1], z: state[2] },
+    velocity: { x: state[3], y: state[4], z: state[5] },
+    phase,
+  };
+}
+
 /**
  * 上昇フェーズの軌道計算
  */
@@ -67,14 +140,29 @@ export function calculateAscent(input: AscentInput): AscentResult {
     launchElevation,
     windSpeed,
     windDirection,
+    windProfile = createLayeredWindProfile(windSpeed, windDirection),
+    windGust,
     surfaceTemp,
     surfacePressure,
+    surfaceHumidity,
     timeStep = 0.02,
+    relativeTolerance = 1e-8,
+    absoluteTolerance = 1e-8,
+    outputInterval = 0.1,
+    maxTime = 120,
+    cutoffTime = Infinity,
+    dragFactor = 1,
+    railLength = 0,
+    initialState,
   } = input;
 
   // 初期化
   const referenceArea = Math.PI * Math.pow(rocket.bodyDiameter / 2, 2);
-  const averageThrust = rocket.motorTotalImpulse / rocket.motorBurnTime;
+  const motor = input.motor ?? createMotorModel(rocket);
+  const totalPropellantMass = getTotalPropellantMass(rocket);
+
+  const atmosphere = input.atmosphere ?? createStandardAtmosphere(surfaceTemp, surfacePressure, surfaceHumidity);
+  const getDragCoefficient = createDragCoefficientModel(rocket, dragFactor, atmosphere);
 
   // 発射角度をラジアンに変換
   const launchAngleRad = launchAngle * Math.PI / 180;
@@ -85,36 +173,27 @@ export function calculateAscent(input: AscentInput): AscentResult {
   const initialVy = Math.cos(launchAzimuthRad) * Math.cos(launchAngleRad);
   const initialVz = Math.sin(launchAngleRad);
 
-  // 風のベクトル成分
-  const { wx, wy } = getWindComponents(windSpeed, windDirection);
+  // 高度ごとの風のベクトル成分（突風があれば平均風に加える）
+  const getWind = createAscentWind(windProfile, launchElevation, windGust);
 
-  // 状態変数
-  let x = 0;      // 東方向位置 [m]
-  let y = 0;      // 北方向位置 [m]
-  let z = launchElevation;  // 高度 [m]
-  let vx = 0;     // 東方向速度 [m/s]
-  let vy = 0;     // 北方向速度 [m/s]
-  let vz = 0;     // 鉛直速度 [m/s]
-  let t = 0;      // 時刻 [s]
+  // 風見安定（機体形状がある場合のみ、なければ推力は慣性速度の方向）
+  const stability = rocket.geometry
+    ? calculateStability(rocket.geometry, rocket.bodyDiameter, totalPropellantMass)
+    : null;
 
-  // 質量（燃焼中は減少）
-  let mass = rocket.dryMass + rocket.propellantMass;
-  const massFlowRate = rocket.propellantMass / rocket.motorBurnTime;
-
-  // 結果格納
-  const trajectoryPoints: TrajectoryPoint[] = [];
-  let maxVelocity = 0;
-  let burnoutAltitude = 0;
-  let burnoutVelocity = 0;
+  /**
+   * 運動方程式 d/dt [x, y, z, vx, vy, vz]（風見安定ありは機軸の向き [ux, uy, uz] を追加）
+   */
+  const derivatives = (t: number, state: number[]): number[] => {
+    const [, , z, vx, vy, vz, ux, uy, uz] = state;
+    const { wx, wy } = getWind(t, z);
 
-  // 数値積分（4次Runge-Kutta法の簡易版として前進オイラー法を使用）
-  const maxIterations = 10000;
-  let iteration = 0;
+    // 質量（燃焼中は減少）
+    const propellantMass = motor.getPropellantMass(t);
+    const mass = rocket.dryMass + propellantMass;
 
-  while (iteration < maxIterations) {
     // 現在の速度の大きさ
     const velocity = Math.sqrt(vx * vx + vy * vy + vz * vz);
-    maxVelocity = Math.max(maxVelocity, velocity);
 
     // 対気速度（風の影響）
     const vxRel = vx - wx;
@@ -122,63 +201,60 @@ export function calculateAscent(input: AscentInput): AscentResult {
     const vzRel = vz;
     const velocityRel = Math.sqrt(vxRel * vxRel + vyRel * vyRel + vzRel * vzRel);
 
-    // フェーズ判定
-    const isBurning = t < rocket.motorBurnTime;
-    const phase: 'thrust' | 'coast' | 'descent' = isBurning ? 'thrust' : 'coast';
-
-    // 軌道点を記録（0.1秒ごと）
-    if (Math.abs(t % 0.1) < timeStep / 2 || t === 0) {
-      trajectoryPoints.push({
-        time: t,
-        position: { x, y, z },
-        velocity: { x: vx, y: vy, z: vz },
-        phase,
-      });
-    }
-
-    // 頂点到達判定
-    if (vz < 0 && z > launchElevation + 1) {
-      break;
-    }
-
     // 重力
     const g = getGravity(z);
 
-    // 抗力
-    const drag = velocityRel > 0.1
-      ? calculateDrag(velocityRel, rocket.dragCoefficient, referenceArea, z, surfaceTemp, surfacePressure)
-      : 0;
+    // 動圧
+    const dynamicPressure = 0.5 * atmosphere.getDensity(z) * velocityRel * velocityRel;
 
-    // 抗力の方向（対気速度の逆方向）
+    // 抗力（対気速度の逆方向）
     let dragX = 0, dragY = 0, dragZ = 0;
     if (velocityRel > 0.1) {
+      const drag = dynamicPressure * getDragCoefficient(velocityRel, z) * referenceArea;
       dragX = -drag * vxRel / velocityRel;
       dragY = -drag * vyRel / velocityRel;
       dragZ = -drag * vzRel / velocityRel;
     }
 
+    // 機軸の回転（対気速度方向へ、重心は推進剤の減少に合わせて前方へ移動）
+    let dux = 0, duy = 0, duz = 0;
+    if (stability && velocityRel > 0.1) {
+      const propellantFraction = totalPropellantMass > 0 ? propellantMass / totalPropellantMass : 0;
+      const cg = stability.cgDry + (stability.cgWet - stability.cgDry) * propellantFraction;
+      const rate = calculateWeathercockRate(
+        dynamicPressure,
+        referenceArea,
+        stability.normalForceSlope,
+        stability.cp - cg,
+        mass,
+        rocket.bodyLength
+      );
+      const alignment = (vxRel * ux + vyRel * uy + vzRel * uz) / velocityRel;
+      dux = rate * (vxRel / velocityRel - alignment * ux);
+      duy = rate * (vyRel / velocityRel - alignment * uy);
+      duz = rate * (vzRel / velocityRel - alignment * uz);
+    }
+
     // 推力（燃焼中のみ）
     let thrustX = 0, thrustY = 0, thrustZ = 0;
-    if (isBurning) {
-      // 推力方向は速度方向（初期は発射台方向）
-      if (velocity > 0.1) {
-        thrustX = averageThrust * vx / velocity;
-        thrustY = averageThrust * vy / velocity;
-        thrustZ = averageThrust * vz / velocity;
+    const thrust = motor.getThrust(t);
+    if (thrust > 0) {
+      if (stability) {
+        // 推力方向は機軸
+        const axisLength = Math.hypot(ux, uy, uz);
+        thrustX = thrust * ux / axisLength;
+        thrustY = thrust * uy / axisLength;
+        thrustZ = thrust * uz / axisLength;
+      } else if (velocity > 0.1) {
+        // 推力方向は速度方向（初期は発射台方向）
+        thrustX = thrust * vx / velocity;
+        thrustY = thrust * vy / velocity;
+        thrustZ = thrust * vz / velocity;
       } else {
-        // 初期状態は発射台の向き
-        thrustX = averageThrust * initialVx;
-        thrustY = averageThrust * initialVy;
-        thrustZ = averageThrust * initialVz;
+        thrustX = thrust * initialVx;
+        thrustY = thrust * initialVy;
+        thrustZ = thrust * initialVz;
       }
-      // 質量減少
-      mass -= massFlowRate * timeStep;
-    }
-
-    // 燃焼終了時の状態を記録
-    if (!isBurning && burnoutAltitude === 0) {
-      burnoutAltitude = z - launchElevation;
-      burnoutVelocity = velocity;
     }
 
     // 加速度
@@ -186,36 +262,144 @@ export function calculateAscent(input: AscentInput): AscentResult {
     const ay = (thrustY + dragY) / mass;
     const az = (thrustZ + dragZ) / mass - g;
 
-    // 状態更新（前進オイラー法）
-    vx += ax * timeStep;
-    vy += ay * timeStep;
-    vz += az * timeStep;
-    x += vx * timeStep;
-    y += vy * timeStep;
-    z += vz * timeStep;
-    t += timeStep;
+    // 発射台上では推力が重量を上回るまで静止（推力曲線の立ち上がり）
+    if (z <= launchElevation && vz <= 0 && az <= 0) {
+      return new Array<number>(state.length).fill(0);
+    }
+
+    return stability ? [vx, vy, vz, ax, ay, az, dux, duy, duz] : [vx, vy, vz, ax, ay, az];
+  };
+
+  /**
+   * 発射地点からのレール方向の移動距離 [m]
+   */
+  const getRailDistance = (state: number[]): number =>
+    state[0] * initialVx + state[1] * initialVy + (state[2] - launchElevation) * initialVz;
+
+  /**
+   * レール上の運動方程式（加速度のレール方向成分のみ残し、機軸はレール方向のまま）
+   */
+  const railDerivatives = (t: number, state: number[]): number[] => {
+    const [, , , vx, vy, vz] = state;
+    const [, , , ax, ay, az] = derivatives(t, state);
+    const along = ax * initialVx + ay * initialVy + az * initialVz;
+
+    // 推力が重量のレール方向成分を上回るまで静止
+    const speedAlong = vx * initialVx + vy * initialVy + vz * initialVz;
+    if (getRailDistance(state) <= 0 && speedAlong <= 0 && along <= 0) {
+      return new Array<number>(state.length).fill(0);
+    }
+
+    const railDerivative = [vx, vy, vz, along * initialVx, along * initialVy, along * initialVz];
+    return stability ? [...railDerivative, 0, 0, 0] : railDerivative;
+  };
+
+  // 最高速度・最大マッハ数・最大動圧の追跡
+  let maxVelocity = 0;
+  let maxMach = 0;
+  let maxDynamicPressure = 0;
+  const odeOptions: OdeOptions = {
+    relativeTolerance,
+    absoluteTolerance,
+    initialStep: timeStep,
+    outputInterval,
+    // 頂点: 鉛直速度が正から負へ
+    event: { g: (_t, state) => state[5], direction: -1 },
+    onStep: (t, state) => {
+      const [, , z, vx, vy, vz] = state;
+      const { wx, wy } = getWind(t, z);
+      maxVelocity = Math.max(maxVelocity, Math.hypot(vx, vy, vz));
+      const airspeed = Math.hypot(vx - wx, vy - wy, vz);
+      maxMach = Math.max(maxMach, airspeed / atmosphere.getSpeedOfSound(z));
+      maxDynamicPressure = Math.max(maxDynamicPressure, 0.5 * atmosphere.getDensity(z) * airspeed * airspeed);
+    },
+  };
+
+  const endTime = Math.min(maxTime, cutoffTime);
+  const burnEnd = Math.min(motor.burnTime, endTime);
 
-    iteration++;
+  // 初期状態（途中から始める場合、機軸は速度方向）
+  let time = initialState?.time ?? 0;
+  let state = [0, 0, launchElevation, 0, 0, 0];
+  let initialAxis = [initialVx, initialVy, initialVz];
+  if (initialState) {
+    const { position, velocity } = initialState;
+    state = [position.x, position.y, position.z, velocity.x, velocity.y, velocity.z];
+    const speed = Math.hypot(velocity.x, velocity.y, velocity.z);
+    if (speed > 0) {
+      initialAxis = [velocity.x / speed, velocity.y / speed, velocity.z / speed];
+    }
   }
+  if (stability) {
+    state.push(...initialAxis);
+  }
+  const trajectoryPoints: TrajectoryPoint[] = [];
 
-  // 最終点を追加
-  const finalPoint: TrajectoryPoint = {
-    time: t,
-    position: { x, y, z },
-    velocity: { x: vx, y: vy, z: vz },
-    phase: 'coast',
+  /**
+   * 現在の状態から tEnd（またはイベント）まで積分し、軌道点を追加
+   *
+   * @returns イベントで停止したか
+   */
+  const advance = (f: typeof derivatives, tEnd: number, options: OdeOptions): boolean => {
+    const result = integrateDormandPrince(f, time, state, tEnd, options);
+    for (const sample of result.samples) {
+      trajectoryPoints.push(toTrajectoryPoint(sample.t, sample.y, sample.t < motor.burnTime ? 'thrust' : 'coast'));
+    }
+    time = result.t;
+    state = result.y;
+    return result.eventTriggered;
   };
-  trajectoryPoints.push(finalPoint);
+
+  // レール上（燃焼終了で推力が不連続になるため区間を分ける）
+  let railExit: AscentResult['railExit'];
+  let burnoutState: number[] | undefined;
+  if (railLength > 0 && !initialState) {
+    const railOptions: OdeOptions = {
+      ...odeOptions,
+      event: { g: (_t, y) => getRailDistance(y) - railLength, direction: 1 },
+    };
+    let exited = advance(railDerivatives, burnEnd, railOptions);
+    if (!exited) {
+      burnoutState = state;
+      exited = advance(railDerivatives, endTime, railOptions);
+    }
+    if (exited) {
+      railExit = { time, velocity: Math.hypot(state[3], state[4], state[5]) };
+    }
+  }
+
+  // 推力フェーズ（燃焼終了まで）
+  let reachedApogee = advance(derivatives, burnEnd, odeOptions);
+
+  // 燃焼終了時の状態
+  burnoutState ??= state;
+  const burnoutAltitude = burnoutState[2] - launchElevation;
+  const burnoutVelocity = Math.hypot(burnoutState[3], burnoutState[4], burnoutState[5]);
+
+  // 慣性上昇フェーズ（頂点または打ち切り時刻まで）
+  if (!reachedApogee) {
+    reachedApogee = advance(derivatives, endTime, odeOptions);
+  }
+  const apogeeTime = time;
+  const apogeeState = state;
+
+  // 最終点（頂点）を追加
+  trajectoryPoints.push(toTrajectoryPoint(apogeeTime, apogeeState, 'coast'));
 
   return {
     trajectoryPoints,
     apogee: {
-      time: t,
-      altitude: z - launchElevation,
-      position: { x, y, z },
+      time: apogeeTime,
+      altitude: apogeeState[2] - launchElevation,
+      position: { x: apogeeState[0], y: apogeeState[1], z: apogeeState[2] },
+      velocity: { x: apogeeState[3], y: apogeeState[4], z: apogeeState[5] },
     },
+    reachedApogee,
     maxVelocity,
+    maxMach,
+    maxDynamicPressure,
     burnoutAltitude,
     burnoutVelocity,
+    railExit,
   };
 }
@@ -1,6 +1,15 @@
 // 物理計算モジュールのエクスポート
 export * from './atmosphere';
+export * from './integrator';
 export * from './aerodynamics';
 export * from './ballistics';
+export * from './motor';
 export * from './parachute';
 export * from './windEffect';
+export * from './stability';
+export * from './quaternion';
+export * from './sixDof';
+export * from './staging';
+export * from './terrain';
+export * from './sounding';
+export * from './anemometer';
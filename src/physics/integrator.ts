@@ -0,0 +1,252 @@
+/**
+ * 常微分方程式の数値積分
+ *
+ * Dormand–Prince法（RK45）による誤差制御付き適応刻み積分
+ * - 内部刻みは誤差推定に応じて自動調整
+ * - 出力は内部刻みと独立した一定間隔でエルミート補間
+ * - イベント関数のゼロ交差（頂点・着地など）を補間で特定して終了
+ */
+
+/**
+ * 状態ベクトルの微分 dy/dt = f(t, y)
+ */
+export type OdeFunction = (t: number, y: number[]) => number[];
+
+/**
+ * 積分終了イベント
+ */
+export interface OdeEvent {
+  g: (t: number, y: number[]) => number;  // イベント関数（0で発火）
+  direction?: -1 | 0 | 1;                 // -1: 正→負のみ, 1: 負→正のみ, 0: 両方
+}
+
+/**
+ * 積分オプション
+ */
+export interface OdeOptions {
+  relativeTolerance?: number;   // 相対許容誤差
+  absoluteTolerance?: number;   // 絶対許容誤差
+  initialStep?: number;         // 初期刻み [s]
+  maxStep?: number;             // 最大刻み [s]
+  minStep?: number;             // 最小刻み [s]
+  maxSteps?: number;            // 最大ステップ数
+  outputInterval?: number;      // 出力間隔 [s]（時刻0を基準とした格子）
+  event?: OdeEvent;
+  onStep?: (t: number, y: number[]) => void;  // 受理された各ステップで呼ばれる
+}
+
+/**
+ * 出力サンプル
+ */
+export interface OdeSample {
+  t: number;
+  y: number[];
+}
+
+/**
+ * 積分結果
+ */
+export interface OdeResult {
+  t: number;                    // 終了時刻
+  y: number[];                  // 終了時の状態
+  samples: OdeSample[];         // 一定間隔の出力（終了時刻は含まない）
+  eventTriggered: boolean;      // イベントで終了したか
+  steps: number;                // 受理ステップ数
+  rejectedSteps: number;        // 棄却ステップ数
+}
+
+/**
+ * デフォルトの積分設定
+ */
+export const DEFAULT_ODE_OPTIONS = {
+  relativeTolerance: 1e-6,
+  absoluteTolerance: 1e-6,
+  initialStep: 0.01,
+  maxStep: 1.0,
+  minStep: 1e-8,
+  maxSteps: 100000,
+};
+
+// Dormand–Prince 5(4) 係数
+const C = [0, 1 / 5, 3 / 10, 4 / 5, 8 / 9, 1, 1];
+const A = [
+  [],
+  [1 / 5],
+  [3 / 40, 9 / 40],
+  [44 / 45, -56 / 15, 32 / 9],
+  [19372 / 6561, -25360 / 2187, 64448 / 6561, -212 / 729],
+  [9017 / 3168, -355 / 33, 46732 / 5247, 49 / 176, -5103 / 18656],
+  [35 / 384, 0, 500 / 1113, 125 / 192, -2187 / 6784, 11 / 84],
+];
+// 5次解と4次解の差（誤差推定用）
+const E = [
+  71 / 57600, 0, -71 / 16695, 71 / 1920, -17253 / 339200, 22 / 525, -1 / 40,
+];
+
+/**
+ * 3次エルミート補間で区間内の状態を求める
+ */
+function hermite(
+  y0: number[],
+  f0: number[],
+  y1: number[],
+  f1: number[],
+  h: number,
+  s: number
+): number[] {
+  const s2 = s * s;
+  const s3 = s2 * s;
+  const h00 = 2 * s3 - 3 * s2 + 1;
+  const h10 = s3 - 2 * s2 + s;
+  const h01 = -2 * s3 + 3 * s2;
+  const h11 = s3 - s2;
+
+  return y0.map((v, i) => h00 * v + h10 * h * f0[i] + h01 * y1[i] + h11 * h * f1[i]);
+}
+
+/**
+ * イベント関数の符号変化が指定方向に一致するか
+ */
+function isEventCrossing(g0: number, g1: number, direction: -1 | 0 | 1): boolean {
+  const falling = g0 > 0 && g1 <= 0;
+  const rising = g0 < 0 && g1 >= 0;
+  if (direction === -1) return falling;
+  if (direction === 1) return rising;
+  return falling || rising;
+}
+
+/**
+ * Dormand–Prince法で t0 から tEnd まで積分
+ *
+ * @param f - 微分関数
+ * @param t0 - 開始時刻 [s]
+ * @param y0 - 初期状態
+ * @param tEnd - 終了時刻 [s]（イベントが先に発火すればそこで終了）
+ * @param options - 積分オプション
+ */
+export function integrateDormandPrince(
+  f: OdeFunction,
+  t0: number,
+  y0: number[],
+  tEnd: number,
+  options: OdeOptions = {}
+): OdeResult {
+  const relTol = options.relativeTolerance ?? DEFAULT_ODE_OPTIONS.relativeTolerance;
+  const absTol = options.absoluteTolerance ?? DEFAULT_ODE_OPTIONS.absoluteTolerance;
+  const maxStep = options.maxStep ?? DEFAULT_ODE_OPTIONS.maxStep;
+  const minStep = options.minStep ?? DEFAULT_ODE_OPTIONS.minStep;
+  const maxSteps = options.maxSteps ?? DEFAULT_ODE_OPTIONS.maxSteps;
+  const { outputInterval, event, onStep } = options;
+  const direction = event?.direction ?? 0;
+
+  const n = y0.length;
+  let t = t0;
+  let y = [...y0];
+  let fy = f(t, y);
+  let h = Math.min(options.initialStep ?? DEFAULT_ODE_OPTIONS.initialStep, maxStep, tEnd - t0);
+
+  const samples: OdeSample[] = [];
+  // 次の出力時刻（時刻0基準の格子上、誤差の蓄積を避けるため番号で管理）
+  let outputIndex = outputInterval ? Math.ceil(t0 / outputInterval - 1e-9) : 0;
+  const outputTime = (index: number) => (outputInterval ? index * outputInterval : Infinity);
+
+  let g0 = event ? event.g(t, y) : 0;
+  let steps = 0;
+  let rejectedSteps = 0;
+
+  while (tEnd - t > 1e-12 && steps < maxSteps) {
+    h = Math.min(h, tEnd - t);
+
+    // ステージ計算（第7段の評価点は5次解そのもの: FSAL）
+    const k: number[][] = [fy];
+    let yNew = y;
+    for (let s = 1; s < 7; s++) {
+      const ys = new Array<number>(n);
+      for (let i = 0; i < n; i++) {
+        let sum = y[i];
+        for (let j = 0; j < s; j++) {
+          sum += h * A[s][j] * k[j][i];
+        }
+        ys[i] = sum;
+      }
+      k.push(f(t + C[s] * h, ys));
+      if (s === 6) yNew = ys;
+    }
+    const fNew = k[6];
+
+    // 誤差推定（RMSノルム）
+    let errSum = 0;
+    for (let i = 0; i < n; i++) {
+      let e = 0;
+      for (let j = 0; j < 7; j++) {
+        e += E[j] * k[j][i];
+      }
+      e *= h;
+      const scale = absTol + relTol * Math.max(Math.abs(y[i]), Math.abs(yNew[i]));
+      errSum += (e / scale) * (e / scale);
+    }
+    const err = Math.sqrt(errSum / n);
+
+    if (err > 1 && h > minStep) {
+      // 棄却して刻みを縮小
+      h = Math.max(minStep, h * Math.max(0.2, 0.9 * Math.pow(err, -0.2)));
+      rejectedSteps++;
+      continue;
+    }
+
+    // イベント判定
+    let tStop = t + h;
+    let yStop = yNew;
+    let eventTriggered = false;
+    if (event) {
+      const g1 = event.g(t + h, yNew);
+      if (isEventCrossing(g0, g1, direction)) {
+        // 二分法でゼロ交差時刻を特定
+        let lo = 0;
+        let hi = 1;
+        let gLo = g0;
+        for (let iter = 0; iter < 60; iter++) {
+          const mid = 0.5 * (lo + hi);
+          const yMid = hermite(y, fy, yNew, fNew, h, mid);
+          const gMid = event.g(t + mid * h, yMid);
+          if (isEventCrossing(gLo, gMid, direction)) {
+            hi = mid;
+          } else {
+            lo = mid;
+            gLo = gMid;
+          }
+          if ((hi - lo) * h < 1e-10) break;
+        }
+        tStop = t + hi * h;
+        yStop = hermite(y, fy, yNew, fNew, h, hi);
+        eventTriggered = true;
+      }
+      g0 = g1;
+    }
+
+    // 一定間隔の出力
+    while (outputTime(outputIndex) < tStop - 1e-12) {
+      const tOut = outputTime(outputIndex);
+      samples.push({ t: tOut, y: hermite(y, fy, yNew, fNew, h, (tOut - t) / h) });
+      outputIndex++;
+    }
+
+    steps++;
+
+    if (eventTriggered) {
+      onStep?.(tStop, yStop);
+      return { t: tStop, y: yStop, samples, eventTriggered: true, steps, rejectedSteps };
+    }
+
+    t = t + h;
+    y = yNew;
+    fy = fNew;
+    onStep?.(t, y);
+
+    // 次の刻み
+    const factor = err === 0 ? 5 : Math.min(5, Math.max(0.2, 0.9 * Math.pow(err, -0.2)));
+    h = Math.min(maxStep, Math.max(minStep, h * factor));
+  }
+
+  return { t, y, samples, eventTriggered: false, steps, rejectedSteps };
+}
@@ -0,0 +1,216 @@
+/**
+ * モーター推力モデル
+ *
+ * RASP (.eng) 形式の推力曲線の読み込みと、燃焼中の推力・推進剤質量の計算
+ * 推力曲線がない場合は平均推力一定のモデルにフォールバック
+ */
+
+import type { MotorConfiguration, ThrustCurvePoint } from '../types/rocket';
+
+/**
+ * .engファイルから読み込んだモーターデータ
+ */
+export interface EngMotorData {
+  designation: string;          // 型式（例: A8）
+  diameter: number;             // 直径 [m]
+  length: number;               // 全長 [m]
+  delays: number[];             // 選択可能な遅延時間 [s]（プラグ付きは空）
+  propellantMass: number;       // 推進剤質量 [kg]
+  totalMass: number;            // モーター全備質量 [kg]
+  manufacturer: string;         // メーカー
+  thrustCurve: ThrustCurvePoint[];
+}
+
+/**
+ * 推力モデル
+ */
+export interface MotorModel {
+  burnTime: number;             // 燃焼時間 [s]
+  totalImpulse: number;         // 総力積 [Ns]
+  getThrust(time: number): number;            // 推力 [N]
+  getMassFlowRate(time: number): number;      // 質量流量 [kg/s]
+  getPropellantMass(time: number): number;    // 残存推進剤質量 [kg]
+}
+
+/**
+ * RASP (.eng) 形式のテキストを解析
+ *
+ * ヘッダ行: 型式 直径[mm] 全長[mm] 遅延[s](ハイフン区切り) 推進剤質量[kg] 全備質量[kg] メーカー
+ * データ行: 時刻[s] 推力[N]
+ * セミコロン以降はコメント。1ファイルに複数モーターを含む場合がある。
+ */
+export function parseEngFile(text: string): EngMotorData[] {
+  const motors: EngMotorData[] = [];
+  let current: EngMotorData | null = null;
+
+  const lines = text.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].replace(/;.*$/, '').trim();
+    if (line === '') continue;
+
+    const tokens = line.split(/\s+/);
+
+    // ヘッダ行（先頭が数値でない）
+    if (isNaN(Number(tokens[0]))) {
+      if (tokens.length < 7) {
+        throw new Error(`.engファイルのヘッダが不正です（${i + 1}行目）`);
+      }
+      current = {
+        designation: tokens[0],
+        diameter: Number(tokens[1]) / 1000,
+        length: Number(tokens[2]) / 1000,
+        delays: parseDelays(tokens[3]),
+        propellantMass: Number(tokens[4]),
+        totalMass: Number(tokens[5]),
+        manufacturer: tokens.slice(6).join(' '),
+        thrustCurve: [],
+      };
+      motors.push(current);
+      continue;
+    }
+
+    // データ行
+    if (!current) {
+      throw new Error(`.engファイルのヘッダより前にデータがあります（${i + 1}行目）`);
+    }
+    const time = Number(tokens[0]);
+    const thrust = Number(tokens[1]);
+    if (tokens.length < 2 || isNaN(time) || isNaN(thrust)) {
+      throw new Error(`.engファイルのデータ行が不正です（${i + 1}行目）`);
+    }
+    current.thrustCurve.push({ time, thrust });
+  }
+
+  if (motors.length === 0) {
+    throw new Error('.engファイルにモーターデータがありません');
+  }
+
+  for (const motor of motors) {
+    if (motor.thrustCurve.length === 0) {
+      throw new Error(`${motor.designation} の推力データがありません`);
+    }
+    if (isNaN(motor.propellantMass) || motor.propellantMass <= 0) {
+      throw new Error(`${motor.designation} の推進剤質量が不正です`);
+    }
+    // 点火時刻の推力0点を補完
+    if (motor.thrustCurve[0].time > 0) {
+      motor.thrustCurve.unshift({ time: 0, thrust: 0 });
+    }
+  }
+
+  return motors;
+}
+
+/**
+ * 遅延時間フィールドを解析（例: "3-5-7", "P"）
+ */
+function parseDelays(field: string): number[] {
+  return field
+    .split('-')
+    .map((d) => Number(d))
+    .filter((d) => !isNaN(d));
+}
+
+/**
+ * 推力曲線を線形補間して推力を取得 [N]
+ */
+export function interpolateThrust(curve: ThrustCurvePoint[], time: number): number {
+  if (curve.length === 0 || time < curve[0].time) return 0;
+
+  const last = curve[curve.length - 1];
+  if (time >= last.time) return 0;
+
+  for (let i = 0; i < curve.length - 1; i++) {
+    const p0 = curve[i];
+    const p1 = curve[i + 1];
+    if (time >= p0.time && time <= p1.time) {
+      const dt = p1.time - p0.time;
+      if (dt <= 0) return p1.thrust;
+      const ratio = (time - p0.time) / dt;
+      return p0.thrust + ratio * (p1.thrust - p0.thrust);
+    }
+  }
+
+  return 0;
+}
+
+/**
+ * 推力曲線の時刻0から指定時刻までの力積を計算 [Ns]（台形積分）
+ */
+export function integrateThrustCurve(curve: ThrustCurvePoint[], untilTime: number = Infinity): number {
+  let impulse = 0;
+
+  for (let i = 0; i < curve.length - 1; i++) {
+    const p0 = curve[i];
+    const p1 = curve[i + 1];
+    if (untilTime <= p0.time) break;
+
+    if (untilTime >= p1.time) {
+      impulse += 0.5 * (p0.thrust + p1.thrust) * (p1.time - p0.time);
+    } else {
+      const thrustAtEnd = interpolateThrust(curve, untilTime);
+      impulse += 0.5 * (p0.thrust + thrustAtEnd) * (untilTime - p0.time);
+      break;
+    }
+  }
+
+  return impulse;
+}
+
+/**
+ * ロケットパラメータから推力モデルを作成
+ *
+ * 推力曲線がある場合は曲線を補間し、推進剤は力積に比例して消費されるものとする。
+ * ない場合は総力積と燃焼時間から平均推力一定・線形な質量減少とする。
+ * クラスターは同じモーターが同時に点火するものとして本数倍する。
+ */
+export function createMotorModel(rocket: MotorConfiguration): MotorModel {
+  const count = rocket.motorCount ?? 1;
+  const single = createSingleMotorModel(rocket);
+  if (count === 1) return single;
+
+  return {
+    burnTime: single.burnTime,
+    totalImpulse: single.totalImpulse * count,
+    getThrust: (time) => single.getThrust(time) * count,
+    getMassFlowRate: (time) => single.getMassFlowRate(time) * count,
+    getPropellantMass: (time) => single.getPropellantMass(time) * count,
+  };
+}
+
+/**
+ * モーター1本の推力モデルを作成
+ */
+function createSingleMotorModel(rocket: MotorConfiguration): MotorModel {
+  const curve = rocket.thrustCurve;
+
+  if (!curve || curve.length < 2) {
+    const burnTime = rocket.motorBurnTime;
+    const averageThrust = rocket.motorTotalImpulse / burnTime;
+    const massFlowRate = rocket.propellantMass / burnTime;
+
+    return {
+      burnTime,
+      totalImpulse: rocket.motorTotalImpulse,
+      getThrust: (time) => (time >= 0 && time < burnTime ? averageThrust : 0),
+      getMassFlowRate: (time) => (time >= 0 && time < burnTime ? massFlowRate : 0),
+      getPropellantMass: (time) =>
+        rocket.propellantMass * (1 - Math.min(Math.max(time, 0), burnTime) / burnTime),
+    };
+  }
+
+  const burnTime = curve[curve.length - 1].time;
+  const totalImpulse = integrateThrustCurve(curve);
+
+  return {
+    burnTime,
+    totalImpulse,
+    getThrust: (time) => interpolateThrust(curve, time),
+    getMassFlowRate: (time) =>
+      totalImpulse > 0 ? rocket.propellantMass * interpolateThrust(curve, time) / totalImpulse : 0,
+    getPropellantMass: (time) =>
+      totalImpulse > 0
+        ? rocket.propellantMass * (1 - integrateThrustCurve(curve, time) / totalImpulse)
+        : rocket.propellantMass,
+  };
+}
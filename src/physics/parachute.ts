@@ -1,16 +1,21 @@
 /**
  * パラシュート・降下計算
  *
- * 頂点から地上までの降下フェーズを計算
+ * 頂点（または頂点前の展開時点）から地上までの降下フェーズを計算
  * - パラシュート降下
  * - ストリーマー降下
  * - 自由落下
+ * - デュアルデプロイ（展開イベントごとに抗力を切り替え）
+ * - 開傘: 充填時間をかけて抗力面積が増加し、その間の最大荷重を開傘衝撃とする
  */
 
-import { getDensity, getGravity } from './atmosphere';
+import { createStandardAtmosphere, getGravity, type AtmosphereModel } from './atmosphere';
 import { calculateTerminalVelocity } from './aerodynamics';
-import type { RecoveryParameters } from '../types/recovery';
-import type { TrajectoryPoint } from '../types/trajectory';
+import { integrateDormandPrince, type OdeEvent, type OdeOptions } from './integrator';
+import { getDeploymentEvents, DEFAULT_FILL_DISTANCE } from '../types/recovery';
+import type { RecoveryParameters, DeploymentEvent, DeploymentRole, DeploymentTrigger } from '../types/recovery';
+import type { TrajectoryPoint, FlightPhase } from '../types/trajectory';
+import type { WindGust } from './windEffect';
 
 /**
  * 降下計算の入力
@@ -23,11 +28,35 @@ export interface DescentInput {
   startPosition: { x: number; y: number; z: number };
   startVelocity: { x: number; y: number; z: number };
   startTime: number;
-  groundLevel: number;          // 地表高度 [m]
+  deploymentDelay?: number;     // 頂点トリガーの展開の遅れ [s]（その間は機体のみで落下）
+  ejectionTime?: number;        // モーターの放出時刻 [s]（燃焼終了＋遅延、未指定時は頂点トリガーと同じ）
+  groundLevel: number;          // 地表高度 [m]（発射地点、高度トリガーの基準）
+  getTerrainElevation?: (x: number, y: number) => number; // 地点ごとの地表高度 [m]（未指定は groundLevel で平坦）
   getWindAtAltitude: (altitude: number) => { speed: number; direction: number };
+  windGust?: WindGust;          // 平均風に加える突風（未指定は平均風のみ）
   surfaceTemp?: number;
   surfacePressure?: number;
-  timeStep?: number;
+  surfaceHumidity?: number;     // 地上の相対湿度 [%]（未指定は乾燥空気）
+  atmosphere?: AtmosphereModel; // 大気モデル（未指定は地上気温・気圧・湿度からの標準大気）
+  timeStep?: number;            // 初期時間刻み [s]（以降は誤差制御で自動調整）
+  relativeTolerance?: number;   // 積分の相対許容誤差
+  absoluteTolerance?: number;   // 積分の絶対許容誤差
+  outputInterval?: number;      // 軌道点の出力間隔 [s]
+  maxTime?: number;             // 最大降下時間 [s]
+}
+
+/**
+ * 回収装置の展開記録
+ */
+export interface DeploymentRecord {
+  role?: DeploymentRole;
+  trigger: DeploymentTrigger;   // 展開のきっかけ
+  time: number;                 // 展開時刻 [s]
+  position: { x: number; y: number; z: number };
+  altitude: number;             // 地表からの高度 [m]
+  velocity: number;             // 展開時の速度 [m/s]
+  fillTime: number;             // 充填時間 [s]
+  peakForce: number;            // 最大開傘衝撃（ショックコード張力）[N]
 }
 
 /**
@@ -35,6 +64,7 @@ export interface DescentInput {
  */
 export interface DescentResult {
   trajectoryPoints: TrajectoryPoint[];
+  deployments: DeploymentRecord[];
   landing: {
     time: number;
     position: { x: number; y: number; z: number };
@@ -44,33 +74,39 @@ export interface DescentResult {
   averageDescentRate: number;
 }
 
+// 充填中の抗力面積の増え方（経過時間比の指数）
+const INFLATION_EXPONENT = 2;
+
 /**
- * 回収方式に応じた抗力係数と面積を取得
+ * 展開した回収装置の抗力係数・面積と代表長さ（充填距離の基準）を取得
  */
-function getRecoveryDragParams(
-  recovery: RecoveryParameters,
-  _rocketMass: number,
-  rocketDiameter: number,
-  rocketCd: number
-): { cd: number; area: number } {
-  switch (recovery.method) {
-    case 'parachute': {
-      const diameter = recovery.parachuteDiameter ?? 0.3;
-      const cd = recovery.parachuteCd ?? 1.75;
-      const area = Math.PI * Math.pow(diameter / 2, 2);
-      return { cd, area };
-    }
-    case 'streamer': {
-      const area = recovery.streamerArea ?? 0.01;
-      const cd = recovery.streamerCd ?? 1.2;
-      return { cd, area };
-    }
-    case 'freefall':
-    default: {
-      const area = Math.PI * Math.pow(rocketDiameter / 2, 2);
-      return { cd: rocketCd, area };
-    }
+function getDeviceDragParams(event: DeploymentEvent): { cd: number; area: number; length: number } {
+  if (event.device === 'streamer') {
+    const area = event.streamerArea ?? 0.01;
+    return { cd: event.streamerCd ?? 1.2, area, length: Math.sqrt(area) };
   }
+  const diameter = event.parachuteDiameter ?? 0.3;
+  return { cd: event.parachuteCd ?? 1.75, area: Math.PI * Math.pow(diameter / 2, 2), length: diameter };
+}
+
+/**
+ * 充填時間を計算 [s]
+ *
+ * @param length - キャノピー直径などの代表長さ [m]
+ * @param airspeed - 展開時の対気速度 [m/s]
+ * @param fillDistance - 充填距離係数 n
+ */
+export function calculateFillTime(length: number, airspeed: number, fillDistance: number = DEFAULT_FILL_DISTANCE): number {
+  return fillDistance * length / Math.max(airspeed, 1);
+}
+
+/**
+ * 充填中の抗力面積 [m²]（展開からの経過時間比の INFLATION_EXPONENT 乗で増加）
+ */
+export function getInflatedDragArea(fullDragArea: number, elapsed: number, fillTime: number): number {
+  if (elapsed <= 0) return 0;
+  if (fillTime <= 0 || elapsed >= fillTime) return fullDragArea;
+  return fullDragArea * Math.pow(elapsed / fillTime, INFLATION_EXPONENT);
 }
 
 /**
@@ -97,54 +133,35 @@ export function calculateDescent(input: DescentInput): DescentResult {
     startPosition,
     startVelocity,
     startTime,
+    deploymentDelay = 0,
+    ejectionTime,
     groundLevel,
+    getTerrainElevation = () => groundLevel,
     getWindAtAltitude,
+    windGust,
     surfaceTemp,
     surfacePressure,
+    surfaceHumidity,
     timeStep = 0.05,
+    relativeTolerance = 1e-8,
+    absoluteTolerance = 1e-8,
+    outputInterval = 0.2,
+    maxTime = 600,
   } = input;
+  const atmosphere = input.atmosphere ?? createStandardAtmosphere(surfaceTemp, surfacePressure, surfaceHumidity);
 
-  // 回収方式に応じた抗力パラメータ
-  const { cd, area } = getRecoveryDragParams(recovery, rocketMass, rocketDiameter, rocketCd);
-
-  // 状態変数
-  let x = startPosition.x;
-  let y = startPosition.y;
-  let z = startPosition.z;
-  let vx = startVelocity.x;
-  let vy = startVelocity.y;
-  let vz = startVelocity.z;
-  let t = startTime;
-
-  // 結果格納
-  const trajectoryPoints: TrajectoryPoint[] = [];
-  let totalDescentRate = 0;
-  let descentSamples = 0;
+  /**
+   * 時刻と状態から対気速度ベクトルと動圧を計算
+   */
+  const getAirflow = (t: number, state: number[]) => {
+    const [, , z, vx, vy, vz] = state;
 
-  const maxIterations = 10000;
-  let iteration = 0;
-
-  while (z > groundLevel && iteration < maxIterations) {
-    // 高度における風
+    // 高度における風（突風があれば平均風に加える）
     const wind = getWindAtAltitude(z - groundLevel);
-    const { wx, wy } = getWindComponents(wind.speed, wind.direction);
-
-    // 現在の降下速度
-    const descentRate = -vz;
-    if (descentRate > 0) {
-      totalDescentRate += descentRate;
-      descentSamples++;
-    }
-
-    // 軌道点を記録（0.2秒ごと）
-    if (Math.abs(t % 0.2) < timeStep / 2) {
-      trajectoryPoints.push({
-        time: t,
-        position: { x, y, z },
-        velocity: { x: vx, y: vy, z: vz },
-        phase: 'descent',
-      });
-    }
+    const mean = getWindComponents(wind.speed, wind.direction);
+    const gust = windGust?.getGustAt(t, z - groundLevel) ?? { x: 0, y: 0 };
+    const wx = mean.wx + gust.x;
+    const wy = mean.wy + gust.y;
 
     // 対気速度
     const vxRel = vx - wx;
@@ -152,14 +169,25 @@ export function calculateDescent(input: DescentInput): DescentResult {
     const vzRel = vz;
     const velocityRel = Math.sqrt(vxRel * vxRel + vyRel * vyRel + vzRel * vzRel);
 
+    // 空気密度と動圧
+    const density = atmosphere.getDensity(z);
+    const dynamicPressure = 0.5 * density * velocityRel * velocityRel;
+
+    return { vxRel, vyRel, vzRel, velocityRel, dynamicPressure };
+  };
+
+  /**
+   * 抗力面積 CdA(t) [m²] に対する運動方程式 d/dt [x, y, z, vx, vy, vz]
+   */
+  const createDerivatives = (dragArea: (t: number) => number) => (t: number, state: number[]): number[] => {
+    const [, , z, vx, vy, vz] = state;
+    const { vxRel, vyRel, vzRel, velocityRel, dynamicPressure } = getAirflow(t, state);
+
     // 重力
     const g = getGravity(z);
 
-    // 空気密度
-    const density = getDensity(z, surfaceTemp, surfacePressure);
-
     // 抗力
-    const drag = 0.5 * density * velocityRel * velocityRel * cd * area;
+    const drag = dynamicPressure * dragArea(t);
 
     // 抗力の方向成分
     let dragX = 0, dragY = 0, dragZ = 0;
@@ -174,35 +202,164 @@ export function calculateDescent(input: DescentInput): DescentResult {
     const ay = -dragY / rocketMass;
     const az = -dragZ / rocketMass - g;
 
-    // 状態更新
-    vx += ax * timeStep;
-    vy += ay * timeStep;
-    vz += az * timeStep;
-    x += vx * timeStep;
-    y += vy * timeStep;
-    z += vz * timeStep;
-    t += timeStep;
+    return [vx, vy, vz, ax, ay, az];
+  };
+
+  const initialState = [
+    startPosition.x, startPosition.y, startPosition.z,
+    startVelocity.x, startVelocity.y, startVelocity.z,
+  ];
+
+  // 着地: その地点の地表高度を上から下へ横切る
+  const heightAboveTerrain = (state: number[]) => state[2] - getTerrainElevation(state[0], state[1]);
+  const groundEvent: OdeEvent = { g: (_t, state) => heightAboveTerrain(state), direction: -1 };
+  const endTime = startTime + maxTime;
+
+  const trajectoryPoints: TrajectoryPoint[] = [];
+  const deployments: DeploymentRecord[] = [];
+  let solution: { t: number; y: number[] } = { t: startTime, y: initialState };
+  let landed = startPosition.z <= getTerrainElevation(startPosition.x, startPosition.y);
+
+  // 展開済みの回収装置（抗力面積は充填中に増加）。展開までは機体のみの抗力
+  const bodyDragArea = rocketCd * Math.PI * Math.pow(rocketDiameter / 2, 2);
+  const devices: { record: DeploymentRecord; dragArea: (t: number) => number }[] = [];
+  const getDragArea = (t: number) => {
+    if (devices.length === 0) return bodyDragArea;
+    // 先に展開した装置は付いたまま抗力面積を加算し、充填初期は機体の抗力を下限とする
+    const total = devices.reduce((sum, device) => sum + device.dragArea(t), 0);
+    return Math.max(bodyDragArea, total);
+  };
+  const derivatives = createDerivatives(getDragArea);
+  let phase: FlightPhase = 'descent';
+
+  /**
+   * 現在の抗力で tEnd またはイベント発火まで積分
+   */
+  const integrate = (tEnd: number, event: OdeEvent) => {
+    if (landed || tEnd <= solution.t) return false;
 
-    iteration++;
+    const options: OdeOptions = {
+      relativeTolerance,
+      absoluteTolerance,
+      initialStep: timeStep,
+      outputInterval,
+      event,
+      // 各装置の荷重（動圧 × その装置の抗力面積）の最大値を開傘衝撃として記録
+      onStep: (t, state) => {
+        if (devices.length === 0) return;
+        const { dynamicPressure } = getAirflow(t, state);
+        for (const device of devices) {
+          device.record.peakForce = Math.max(device.record.peakForce, dynamicPressure * device.dragArea(t));
+        }
+      },
+    };
+    const result = integrateDormandPrince(derivatives, solution.t, solution.y, tEnd, options);
+    for (const sample of result.samples) {
+      trajectoryPoints.push({
+        time: sample.t,
+        position: { x: sample.y[0], y: sample.y[1], z: sample.y[2] },
+        velocity: { x: sample.y[3], y: sample.y[4], z: sample.y[5] },
+        phase,
+      });
+    }
+    solution = result;
+    return result.eventTriggered;
+  };
+
+  /**
+   * tEnd またはイベント発火まで積分（充填完了の時刻で区間を分ける）
+   *
+   * 開傘衝撃は充填完了の直前後で最大になりやすいため、その時刻を必ずステップの境界にする
+   */
+  const advance = (tEnd: number, event: OdeEvent) => {
+    const fillEnds = devices
+      .map(({ record }) => record.time + record.fillTime)
+      .filter((t) => t > solution.t && t < tEnd)
+      .sort((a, b) => a - b);
+    for (const t of [...fillEnds, tEnd]) {
+      if (integrate(t, event)) return true;
+    }
+    return false;
+  };
+
+  for (const event of getDeploymentEvents(recovery)) {
+    // 展開条件まで進める
+    switch (event.trigger) {
+      case 'apogee':
+        landed = advance(startTime + Math.max(0, deploymentDelay), groundEvent);
+        break;
+      case 'motorEjection':
+        // 頂点前の放出なら開始時点で展開、頂点後なら放出まで機体のみで落下
+        landed = advance(ejectionTime ?? startTime + Math.max(0, deploymentDelay), groundEvent);
+        break;
+      case 'timeAfterApogee':
+        landed = advance(startTime + Math.max(0, event.triggerValue ?? 0), groundEvent);
+        break;
+      case 'altitude': {
+        // 高度計の基準は発射地点。展開高度より先に地面に着けばそこで着地
+        const deployAltitude = groundLevel + Math.max(0, event.triggerValue ?? 0);
+        if (solution.y[2] > deployAltitude) {
+          advance(endTime, {
+            g: (_t, state) => Math.min(state[2] - deployAltitude, heightAboveTerrain(state)),
+            direction: -1,
+          });
+        }
+        landed = heightAboveTerrain(solution.y) <= 0;
+        break;
+      }
+    }
+    if (landed) break;
+
+    // 展開: 充填時間をかけて抗力面積が増加
+    const { cd, area, length } = getDeviceDragParams(event);
+    const deployTime = solution.t;
+    const fillTime = event.fillTime ?? calculateFillTime(length, getAirflow(solution.t, solution.y).velocityRel, event.fillDistance);
+    phase = event.role ?? 'descent';
+
+    const [dx, dy, dz, dvx, dvy, dvz] = solution.y;
+    const record: DeploymentRecord = {
+      role: event.role,
+      trigger: event.trigger,
+      time: deployTime,
+      position: { x: dx, y: dy, z: dz },
+      altitude: dz - getTerrainElevation(dx, dy),
+      velocity: Math.sqrt(dvx * dvx + dvy * dvy + dvz * dvz),
+      fillTime,
+      peakForce: 0,
+    };
+    deployments.push(record);
+    devices.push({
+      record,
+      dragArea: (t) => getInflatedDragArea(cd * area, t - deployTime, fillTime),
+    });
   }
 
+  // 最後の構成で着地まで
+  advance(endTime, groundEvent);
+
   // 最終点を追加
+  const t = solution.t;
+  const [x, y, , vx, vy, vz] = solution.y;
+  const landingElevation = getTerrainElevation(x, y);
   const landingVelocity = Math.sqrt(vx * vx + vy * vy + vz * vz);
   trajectoryPoints.push({
     time: t,
-    position: { x, y, z: groundLevel },
+    position: { x, y, z: landingElevation },
     velocity: { x: vx, y: vy, z: vz },
-    phase: 'descent',
+    phase,
   });
 
   const descentTime = t - startTime;
-  const averageDescentRate = descentSamples > 0 ? totalDescentRate / descentSamples : 0;
+  const averageDescentRate = descentTime > 0
+    ? Math.max(0, startPosition.z - landingElevation) / descentTime
+    : 0;
 
   return {
     trajectoryPoints,
+    deployments,
     landing: {
       time: t,
-      position: { x, y, z: groundLevel },
+      position: { x, y, z: landingElevation },
       velocity: landingVelocity,
     },
     descentTime,
@@ -219,8 +376,9 @@ export function calculateParachuteTerminalVelocity(
   parachuteCd: number = 1.75,
   altitude: number = 0,
   surfaceTemp?: number,
-  surfacePressure?: number
+  surfacePressure?: number,
+  surfaceHumidity?: number
 ): number {
   const area = Math.PI * Math.pow(parachuteDiameter / 2, 2);
-  return calculateTerminalVelocity(mass, parachuteCd, area, altitude, surfaceTemp, surfacePressure);
+  return calculateTerminalVelocity(mass, parachuteCd, area, altitude, surfaceTemp, surfacePressure, surfaceHumidity);
 }
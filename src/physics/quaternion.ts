@@ -0,0 +1,83 @@
+/**
+ * クォータニオン演算
+ *
+ * 姿勢表現（機体座標 → 地上座標の回転）に使用
+ */
+
+import type { Quaternion } from '../types/trajectory';
+
+/**
+ * 3次元ベクトル
+ */
+export type Vector3 = [number, number, number];
+
+/**
+ * 恒等回転
+ */
+export const IDENTITY_QUATERNION: Quaternion = { w: 1, x: 0, y: 0, z: 0 };
+
+/**
+ * クォータニオンの積 a ⊗ b
+ */
+export function multiplyQuaternions(a: Quaternion, b: Quaternion): Quaternion {
+  return {
+    w: a.w * b.w - a.x * b.x - a.y * b.y - a.z * b.z,
+    x: a.w * b.x + a.x * b.w + a.y * b.z - a.z * b.y,
+    y: a.w * b.y - a.x * b.z + a.y * b.w + a.z * b.x,
+    z: a.w * b.z + a.x * b.y - a.y * b.x + a.z * b.w,
+  };
+}
+
+/**
+ * 単位クォータニオンに正規化
+ */
+export function normalizeQuaternion(q: Quaternion): Quaternion {
+  const norm = Math.hypot(q.w, q.x, q.y, q.z);
+  if (norm === 0) return IDENTITY_QUATERNION;
+  return { w: q.w / norm, x: q.x / norm, y: q.y / norm, z: q.z / norm };
+}
+
+/**
+ * ベクトルを回転（機体座標 → 地上座標）
+ */
+export function rotateVector(q: Quaternion, v: Vector3): Vector3 {
+  const { w, x, y, z } = q;
+  // t = 2 (q_v × v)
+  const tx = 2 * (y * v[2] - z * v[1]);
+  const ty = 2 * (z * v[0] - x * v[2]);
+  const tz = 2 * (x * v[1] - y * v[0]);
+  // v' = v + w t + q_v × t
+  return [
+    v[0] + w * tx + (y * tz - z * ty),
+    v[1] + w * ty + (z * tx - x * tz),
+    v[2] + w * tz + (x * ty - y * tx),
+  ];
+}
+
+/**
+ * ベクトルを逆回転（地上座標 → 機体座標）
+ */
+export function inverseRotateVector(q: Quaternion, v: Vector3): Vector3 {
+  return rotateVector({ w: q.w, x: -q.x, y: -q.y, z: -q.z }, v);
+}
+
+/**
+ * 単位ベクトル from を to に重ねる最小回転
+ */
+export function quaternionFromVectors(from: Vector3, to: Vector3): Quaternion {
+  const dot = from[0] * to[0] + from[1] * to[1] + from[2] * to[2];
+  if (dot < -1 + 1e-12) {
+    // 逆向き: from に垂直な任意の軸まわりに180°
+    const axis: Vector3 = Math.abs(from[0]) < 0.9 ? [1, 0, 0] : [0, 1, 0];
+    const cx = from[1] * axis[2] - from[2] * axis[1];
+    const cy = from[2] * axis[0] - from[0] * axis[2];
+    const cz = from[0] * axis[1] - from[1] * axis[0];
+    return normalizeQuaternion({ w: 0, x: cx, y: cy, z: cz });
+  }
+  const cross: Vector3 = [
+    from[1] * to[2] - from[2] * to[1],
+    from[2] * to[0] - from[0] * to[2],
+    from[0] * to[1] - from[1] * to[0],
+  ];
+  return normalizeQuaternion({ w: 1 + dot, x: cross[0], y: cross[1], z: cross[2] });
+}
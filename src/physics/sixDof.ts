@@ -0,0 +1,345 @@
+/**
+ * 6自由度弾道計算（上昇フェーズ）
+ *
+ * 並進3自由度＋回転3自由度（姿勢はクォータニオン）の剛体モデル
+ * - 推力は機軸方向、抗力は対気速度の逆方向
+ * - 法線力（ノーズ・フィン、Barrowman）による復元モーメントとピッチ減衰
+ * - フィンのカント角によるロールと、その減衰
+ * - 慣性モーメントは一様な棒（縦: mL²/12）と薄肉円筒（ロール: mr²）で近似
+ *
+ * 入力・結果は質点モデル（calculateAscent）と共通
+ */
+
+import { createStandardAtmosphere, getGravity } from './atmosphere';
+import { createDragCoefficientModel } from './aerodynamics';
+import { createAscentWind, type AscentInput, type AscentResult } from './ballistics';
+import { createMotorModel } from './motor';
+import { integrateDormandPrince, type OdeOptions } from './integrator';
+import { createLayeredWindProfile } from './windEffect';
+import { calculateFinNormalForce, calculateStability, getNormalForceComponents } from './stability';
+import {
+  inverseRotateVector,
+  multiplyQuaternions,
+  normalizeQuaternion,
+  quaternionFromVectors,
+  rotateVector,
+  type Vector3,
+} from './quaternion';
+import { getTotalPropellantMass } from '../types/rocket';
+import type { Quaternion, TrajectoryPoint } from '../types/trajectory';
+
+/**
+ * 状態ベクトル [x, y, z, vx, vy, vz, qw, qx, qy, qz, p, q, r] の姿勢部分
+ */
+function getAttitude(state: number[]): Quaternion {
+  return normalizeQuaternion({ w: state[6], x: state[7], y: state[8], z: state[9] });
+}
+
+/**
+ * 状態ベクトルを軌道点に変換
+ */
+function toTrajectoryPoint(
+  time: number,
+  state: number[],
+  phase: TrajectoryPoint['phase']
+): TrajectoryPoint {
+  return {
+    time,
+    position: { x: state[0], y: state[1], z: state[2] },
+    velocity: { x: state[3], y: state[4], z: state[5] },
+    phase,
+    orientation: getAttitude(state),
+  };
+}
+
+/**
+ * 6自由度モデルによる上昇フェーズの軌道計算
+ */
+export function calculateAscent6Dof(input: AscentInput): AscentResult {
+  const {
+    rocket,
+    launchAngle,
+    launchAzimuth,
+    launchElevation,
+    windSpeed,
+    windDirection,
+    windProfile = createLayeredWindProfile(windSpeed, windDirection),
+    windGust,
+    surfaceTemp,
+    surfacePressure,
+    surfaceHumidity,
+    timeStep = 0.02,
+    relativeTolerance = 1e-8,
+    absoluteTolerance = 1e-8,
+    outputInterval = 0.1,
+    maxTime = 120,
+    cutoffTime = Infinity,
+    dragFactor = 1,
+    railLength = 0,
+    initialState,
+  } = input;
+
+  const geometry = rocket.geometry;
+  if (!geometry) {
+    throw new Error('6自由度計算には機体形状の設定が必要です');
+  }
+
+  // 初期化
+  const radius = rocket.bodyDiameter / 2;
+  const referenceArea = Math.PI * radius * radius;
+  const motor = input.motor ?? createMotorModel(rocket);
+  const totalPropellantMass = getTotalPropellantMass(rocket);
+  const atmosphere = input.atmosphere ?? createStandardAtmosphere(surfaceTemp, surfacePressure, surfaceHumidity);
+  const getDragCoefficient = createDragCoefficientModel(rocket, dragFactor, atmosphere);
+
+  // 法線力・重心
+  const stability = calculateStability(geometry, rocket.bodyDiameter, totalPropellantMass);
+  const normalForces = getNormalForceComponents(geometry, rocket.bodyDiameter);
+
+  // フィンのロール（1枚あたりの CNα と、空力中心のスパン方向位置）
+  const { finSet } = geometry;
+  const cantAngle = (finSet.cantAngle ?? 0) * Math.PI / 180;
+  const finCnSingle = finSet.count > 0 ? calculateFinNormalForce(finSet, rocket.bodyDiameter) / finSet.count : 0;
+  const chordSum = finSet.rootChord + finSet.tipChord;
+  const rollArm = radius + (chordSum > 0
+    ? finSet.span * (finSet.rootChord + 2 * finSet.tipChord) / (3 * chordSum)
+    : 0);
+
+  // 発射台の向き
+  const launchAngleRad = launchAngle * Math.PI / 180;
+  const launchAzimuthRad = launchAzimuth * Math.PI / 180;
+  const railDirection: Vector3 = [
+    Math.sin(launchAzimuthRad) * Math.cos(launchAngleRad),
+    Math.cos(launchAzimuthRad) * Math.cos(launchAngleRad),
+    Math.sin(launchAngleRad),
+  ];
+
+  // 高度ごとの風のベクトル成分（突風があれば平均風に加える）
+  const getWind = createAscentWind(windProfile, launchElevation, windGust);
+
+  /**
+   * 運動方程式 d/dt [x, y, z, vx, vy, vz, qw, qx, qy, qz, p, q, r]（角速度は機体座標）
+   */
+  const derivatives = (t: number, state: number[]): number[] => {
+    const [, , z, vx, vy, vz, , , , , p, q, r] = state;
+    const attitude = getAttitude(state);
+    const { wx, wy } = getWind(t, z);
+
+    // 質量・重心・慣性モーメント（燃焼中は変化）
+    const propellantMass = motor.getPropellantMass(t);
+    const mass = rocket.dryMass + propellantMass;
+    const propellantFraction = totalPropellantMass > 0 ? propellantMass / totalPropellantMass : 0;
+    const cg = stability.cgDry + (stability.cgWet - stability.cgDry) * propellantFraction;
+    const longitudinalInertia = mass * rocket.bodyLength * rocket.bodyLength / 12;
+    const rollInertia = mass * radius * radius;
+
+    // 対気速度（地上座標・機体座標）
+    const airVelocity: Vector3 = [vx - wx, vy - wy, vz];
+    const airspeed = Math.hypot(...airVelocity);
+    const [bx, by] = inverseRotateVector(attitude, airVelocity);
+
+    // 機体座標の力とモーメント（推力は機軸方向）
+    const bodyForce: Vector3 = [0, 0, motor.getThrust(t)];
+    const moment: Vector3 = [0, 0, 0];
+    let drag: Vector3 = [0, 0, 0];
+
+    if (airspeed > 0.1) {
+      const density = atmosphere.getDensity(z);
+      const dynamicPressure = 0.5 * density * airspeed * airspeed;
+
+      // 抗力（対気速度の逆方向）
+      const dragForce = dynamicPressure * getDragCoefficient(airspeed, z) * referenceArea;
+      drag = [
+        -dragForce * airVelocity[0] / airspeed,
+        -dragForce * airVelocity[1] / airspeed,
+        -dragForce * airVelocity[2] / airspeed,
+      ];
+
+      // 法線力: 横向きの対気速度の逆方向、各部品の作用位置で重心まわりのモーメント
+      const lateralSpeed = Math.hypot(bx, by);
+      const dampingScale = 0.5 * density * airspeed * referenceArea;
+      for (const component of normalForces) {
+        const arm = cg - component.position; // 機体z座標（後方が負）
+        if (lateralSpeed > 1e-9) {
+          const force = dynamicPressure * referenceArea * component.normalForceSlope * (lateralSpeed / airspeed);
+          const fx = -force * bx / lateralSpeed;
+          const fy = -force * by / lateralSpeed;
+          bodyForce[0] += fx;
+          bodyForce[1] += fy;
+          moment[0] += -arm * fy;
+          moment[1] += arm * fx;
+        }
+        // ピッチ・ヨー減衰
+        const damping = dampingScale * component.normalForceSlope * arm * arm;
+        moment[0] -= damping * p;
+        moment[1] -= damping * q;
+      }
+
+      // ロール（カント角による駆動と、回転で生じる迎角による減衰）
+      moment[2] += finSet.count * dynamicPressure * referenceArea * finCnSingle * rollArm
+        * (cantAngle - r * rollArm / airspeed);
+    }
+
+    // 地上座標の加速度
+    const [fx, fy, fz] = rotateVector(attitude, bodyForce);
+    const g = getGravity(z);
+    const ax = (fx + drag[0]) / mass;
+    const ay = (fy + drag[1]) / mass;
+    const az = (fz + drag[2]) / mass - g;
+
+    // 発射台上では推力が重量を上回るまで静止（推力曲線の立ち上がり）
+    if (z <= launchElevation && vz <= 0 && az <= 0) {
+      return new Array<number>(state.length).fill(0);
+    }
+
+    // 姿勢の変化 dq/dt = q ⊗ (0, ω) / 2
+    const dq = multiplyQuaternions(attitude, { w: 0, x: p, y: q, z: r });
+
+    // オイラーの運動方程式（Ix = Iy = 縦、Iz = ロール）
+    const dp = (moment[0] - (rollInertia - longitudinalInertia) * q * r) / longitudinalInertia;
+    const dqRate = (moment[1] - (longitudinalInertia - rollInertia) * r * p) / longitudinalInertia;
+    const dr = moment[2] / rollInertia;
+
+    return [vx, vy, vz, ax, ay, az, dq.w / 2, dq.x / 2, dq.y / 2, dq.z / 2, dp, dqRate, dr];
+  };
+
+  /**
+   * 発射地点からのレール方向の移動距離 [m]
+   */
+  const getRailDistance = (state: number[]): number =>
+    state[0] * railDirection[0] + state[1] * railDirection[1] + (state[2] - launchElevation) * railDirection[2];
+
+  /**
+   * レール上の運動方程式（加速度のレール方向成分のみ残し、姿勢は固定）
+   */
+  const railDerivatives = (t: number, state: number[]): number[] => {
+    const [, , , vx, vy, vz] = state;
+    const [, , , ax, ay, az] = derivatives(t, state);
+    const along = ax * railDirection[0] + ay * railDirection[1] + az * railDirection[2];
+
+    // 推力が重量のレール方向成分を上回るまで静止
+    const speedAlong = vx * railDirection[0] + vy * railDirection[1] + vz * railDirection[2];
+    if (getRailDistance(state) <= 0 && speedAlong <= 0 && along <= 0) {
+      return new Array<number>(state.length).fill(0);
+    }
+
+    return [
+      vx, vy, vz,
+      along * railDirection[0], along * railDirection[1], along * railDirection[2],
+      0, 0, 0, 0,
+      0, 0, 0,
+    ];
+  };
+
+  // 最高速度・最大マッハ数・最大動圧の追跡
+  let maxVelocity = 0;
+  let maxMach = 0;
+  let maxDynamicPressure = 0;
+  const odeOptions: OdeOptions = {
+    relativeTolerance,
+    absoluteTolerance,
+    initialStep: timeStep,
+    outputInterval,
+    // 頂点: 鉛直速度が正から負へ
+    event: { g: (_t, state) => state[5], direction: -1 },
+    onStep: (t, state) => {
+      const [, , z, vx, vy, vz] = state;
+      const { wx, wy } = getWind(t, z);
+      maxVelocity = Math.max(maxVelocity, Math.hypot(vx, vy, vz));
+      const airspeed = Math.hypot(vx - wx, vy - wy, vz);
+      maxMach = Math.max(maxMach, airspeed / atmosphere.getSpeedOfSound(z));
+      maxDynamicPressure = Math.max(maxDynamicPressure, 0.5 * atmosphere.getDensity(z) * airspeed * airspeed);
+    },
+  };
+
+  const endTime = Math.min(maxTime, cutoffTime);
+  const burnEnd = Math.min(motor.burnTime, endTime);
+
+  // 初期状態（途中から始める場合は角速度0、姿勢の指定がなければ速度方向）
+  let time = initialState?.time ?? 0;
+  let position: Vector3 = [0, 0, launchElevation];
+  let velocity: Vector3 = [0, 0, 0];
+  let initialAttitude = quaternionFromVectors([0, 0, 1], railDirection);
+  if (initialState) {
+    position = [initialState.position.x, initialState.position.y, initialState.position.z];
+    velocity = [initialState.velocity.x, initialState.velocity.y, initialState.velocity.z];
+    const speed = Math.hypot(...velocity);
+    initialAttitude = initialState.orientation
+      ?? (speed > 0 ? quaternionFromVectors([0, 0, 1], [velocity[0] / speed, velocity[1] / speed, velocity[2] / speed]) : initialAttitude);
+  }
+  let state = [
+    ...position,
+    ...velocity,
+    initialAttitude.w, initialAttitude.x, initialAttitude.y, initialAttitude.z,
+    0, 0, 0,
+  ];
+  const trajectoryPoints: TrajectoryPoint[] = [];
+
+  /**
+   * 現在の状態から tEnd（またはイベント）まで積分し、軌道点を追加
+   *
+   * @returns イベントで停止したか
+   */
+  const advance = (f: typeof derivatives, tEnd: number, options: OdeOptions): boolean => {
+    const result = integrateDormandPrince(f, time, state, tEnd, options);
+    for (const sample of result.samples) {
+      trajectoryPoints.push(toTrajectoryPoint(sample.t, sample.y, sample.t < motor.burnTime ? 'thrust' : 'coast'));
+    }
+    time = result.t;
+    state = result.y;
+    return result.eventTriggered;
+  };
+
+  // レール上（燃焼終了で推力が不連続になるため区間を分ける）
+  let railExit: AscentResult['railExit'];
+  let burnoutState: number[] | undefined;
+  if (railLength > 0 && !initialState) {
+    const railOptions: OdeOptions = {
+      ...odeOptions,
+      event: { g: (_t, y) => getRailDistance(y) - railLength, direction: 1 },
+    };
+    let exited = advance(railDerivatives, burnEnd, railOptions);
+    if (!exited) {
+      burnoutState = state;
+      exited = advance(railDerivatives, endTime, railOptions);
+    }
+    if (exited) {
+      railExit = { time, velocity: Math.hypot(state[3], state[4], state[5]) };
+    }
+  }
+
+  // 推力フェーズ（燃焼終了まで）
+  let reachedApogee = advance(derivatives, burnEnd, odeOptions);
+
+  // 燃焼終了時の状態
+  burnoutState ??= state;
+  const burnoutAltitude = burnoutState[2] - launchElevation;
+  const burnoutVelocity = Math.hypot(burnoutState[3], burnoutState[4], burnoutState[5]);
+
+  // 慣性上昇フェーズ（頂点または打ち切り時刻まで）
+  if (!reachedApogee) {
+    reachedApogee = advance(derivatives, endTime, odeOptions);
+  }
+  const apogeeTime = time;
+  const apogeeState = state;
+
+  // 最終点（頂点）を追加
+  trajectoryPoints.push(toTrajectoryPoint(apogeeTime, apogeeState, 'coast'));
+
+  return {
+    trajectoryPoints,
+    apogee: {
+      time: apogeeTime,
+      altitude: apogeeState[2] - launchElevation,
+      position: { x: apogeeState[0], y: apogeeState[1], z: apogeeState[2] },
+      velocity: { x: apogeeState[3], y: apogeeState[4], z: apogeeState[5] },
+    },
+    reachedApogee,
+    maxVelocity,
+    maxMach,
+    maxDynamicPressure,
+    burnoutAltitude,
+    burnoutVelocity,
+    railExit,
+  };
+}
@@ -0,0 +1,163 @@
+/**
+ * 高層気象観測（ゾンデ）の読み込み
+ *
+ * CSV（列名つき）と、ワイオミング大学形式などの固定幅テキストに対応
+ * 気温・気圧・風は大気モデルと風プロファイルで高度ごとに補間して使う
+ */
+
+import type { AtmosphericSounding, SoundingLevel, WindLayer } from '../types/weather';
+import { getRelativeHumidity } from './atmosphere';
+
+type SoundingColumn =
+  | 'altitude'
+  | 'pressure'
+  | 'temperature'
+  | 'humidity'
+  | 'dewPoint'
+  | 'windSpeed'
+  | 'windDirection';
+
+// 列名の別名（小文字、単位を除いたもの）
+const COLUMN_ALIASES: Record<SoundingColumn, string[]> = {
+  altitude: ['altitude', 'height', 'hght', 'alt', 'geopotential_height', 'z', '高度'],
+  pressure: ['pressure', 'pres', 'p', '気圧'],
+  temperature: ['temperature', 'temp', 't', '気温'],
+  humidity: ['humidity', 'relative_humidity', 'rh', 'relh', '湿度'],
+  dewPoint: ['dewpoint', 'dew_point', 'dwpt', 'td', '露点'],
+  windSpeed: ['wind_speed', 'windspeed', 'speed', 'wspd', 'ws', 'sknt', '風速'],
+  windDirection: ['wind_direction', 'winddirection', 'direction', 'drct', 'wdir', 'wd', '風向'],
+};
+
+// 1ノットあたりの速度 [m/s]
+const KNOT = 0.514444;
+
+/**
+ * 列見出しを列名と単位に分ける（例: "Temp (C)" → temp, c）
+ */
+function parseHeader(token: string): { name: string; unit: string } {
+  const unit = /[([]\s*([^)\]]+)/.exec(token)?.[1].trim().toLowerCase() ?? '';
+  const name = token.toLowerCase().replace(/[([].*$/, '').trim().replace(/[\s-]+/g, '_');
+  return { name, unit };
+}
+
+/**
+ * 単位を揃える（気温 °C、気圧 hPa、風速 m/s）
+ */
+function convertUnit(column: SoundingColumn, name: string, unit: string, value: number): number {
+  switch (column) {
+    case 'temperature':
+    case 'dewPoint':
+      return unit === 'k' ? value - 273.15 : value;
+    case 'pressure':
+      return unit === 'pa' ? value / 100 : value;
+    case 'windSpeed':
+      if (name === 'sknt' || unit === 'kt' || unit === 'knot' || unit === 'kn') return value * KNOT;
+      if (unit === 'km/h') return value / 3.6;
+      return value;
+    default:
+      return value;
+  }
+}
+
+/**
+ * 高層気象観測のテキストを解析
+ *
+ * 列名の行（高度・気温・気圧は必須、湿度または露点・風速・風向は任意）の後の数値行を読む。
+ * 区切りはカンマ・タブ・空白。空白区切りで欠測がある行は、列名の右端にそろえた固定幅として読む
+ */
+export function parseSoundingFile(text: string, fileName: string): AtmosphericSounding {
+  const lines = text.split(/\r?\n/).filter((line) => !line.trim().startsWith('#'));
+
+  // 列名の行を探す
+  let headerIndex = -1;
+  let delimiter: RegExp = /\s+/;
+  let columns: (SoundingColumn | undefined)[] = [];
+  let headers: { name: string; unit: string }[] = [];
+  for (let i = 0; i < lines.length && headerIndex < 0; i++) {
+    const line = lines[i];
+    delimiter = line.includes(',') ? /\s*,\s*/ : line.includes('\t') ? /\t/ : /\s+/;
+    headers = line.trim().split(delimiter).map(parseHeader);
+    columns = headers.map(({ name }) =>
+      (Object.keys(COLUMN_ALIASES) as SoundingColumn[]).find((column) => COLUMN_ALIASES[column].includes(name))
+    );
+    if (columns.includes('altitude') && columns.includes('temperature') && columns.includes('pressure')) {
+      headerIndex = i;
+    }
+  }
+  if (headerIndex < 0) {
+    throw new Error('高度・気温・気圧の列が見つかりません（列名つきのCSVまたは高層気象観測のテキスト）');
+  }
+
+  // 固定幅の列の右端（空白区切りのみ）
+  const headerLine = lines[headerIndex];
+  const columnEnds = [...headerLine.matchAll(/\S+/g)].map((m) => m.index + m[0].length);
+  const isWhitespace = delimiter.source === '\\s+';
+
+  const levels: SoundingLevel[] = [];
+  for (const line of lines.slice(headerIndex + 1)) {
+    let cells = line.trim().split(delimiter);
+    if (isNaN(parseFloat(cells[0]))) continue;   // 単位の行・区切り線・末尾の説明
+    if (isWhitespace && cells.length !== columns.length) {
+      cells = columnEnds.map((end, i) =>
+        line.slice(i === 0 ? 0 : columnEnds[i - 1], i === columnEnds.length - 1 ? undefined : end).trim()
+      );
+    }
+
+    const values: Partial<Record<SoundingColumn, number>> = {};
+    columns.forEach((column, i) => {
+      const value = parseFloat(cells[i] ?? '');
+      if (column && values[column] === undefined && Number.isFinite(value)) {
+        values[column] = convertUnit(column, headers[i].name, headers[i].unit, value);
+      }
+    });
+
+    const { altitude, temperature, pressure, humidity, dewPoint, windSpeed, windDirection } = values;
+    if (altitude === undefined || temperature === undefined || pressure === undefined) continue;
+    levels.push({
+      altitude,
+      temperature,
+      pressure,
+      humidity: humidity ?? (dewPoint !== undefined ? getRelativeHumidity(temperature, dewPoint) : undefined),
+      windSpeed,
+      windDirection: windSpeed !== undefined ? windDirection : undefined,
+    });
+  }
+
+  // 高度順、同じ高度は先の行を使う
+  const sorted = levels
+    .sort((a, b) => a.altitude - b.altitude)
+    .filter((level, i, all) => i === 0 || level.altitude > all[i - 1].altitude);
+  if (sorted.length < 2) {
+    throw new Error('高層気象観測のデータが2層以上必要です');
+  }
+
+  return { name: fileName, levels: sorted };
+}
+
+/**
+ * 観測の風を発射地点からの高度の風レイヤーに変換（発射地点より上の層のみ）
+ *
+ * @param launchElevation - 発射地点の標高 [m]
+ */
+export function getSoundingWindLayers(sounding: AtmosphericSounding, launchElevation: number): WindLayer[] {
+  return sounding.levels
+    .filter((level) => level.altitude > launchElevation
+      && level.windSpeed !== undefined && level.windDirection !== undefined)
+    .map((level) => ({
+      altitude: level.altitude - launchElevation,
+      windSpeed: level.windSpeed!,
+      windDirection: level.windDirection!,
+    }));
+}
+
+/**
+ * 風を除いた観測（気温・気圧・湿度のみ）
+ *
+ * 時刻ごとの予報の風と組み合わせる場合に使う（観測の風は予報の風より優先されるため）
+ */
+export function withoutSoundingWinds(sounding: AtmosphericSounding): AtmosphericSounding {
+  return {
+    ...sounding,
+    levels: sounding.levels.map(({ windSpeed: _windSpeed, windDirection: _windDirection, ...level }) => level),
+  };
+}
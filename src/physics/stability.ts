@@ -0,0 +1,202 @@
+/**
+ * 静安定計算
+ *
+ * Barrowman の方法による圧力中心と、部品配置からの重心・静安定余裕
+ */
+
+import type { RocketGeometry, NoseConeShape, FinSet, StabilityResult } from '../types/stability';
+import { getGeometryLength } from '../types/stability';
+
+/**
+ * ノーズコーンの圧力中心位置（ノーズ長に対する比）
+ */
+const NOSE_CONE_CP_RATIO: Record<NoseConeShape, number> = {
+  conical: 2 / 3,
+  ogive: 0.466,
+  parabolic: 0.5,
+};
+
+/**
+ * ノーズコーンの重心位置（ノーズ長に対する比、薄肉シェルの概算）
+ */
+const NOSE_CONE_CG_RATIO: Record<NoseConeShape, number> = {
+  conical: 2 / 3,
+  ogive: 0.58,
+  parabolic: 0.6,
+};
+
+/**
+ * フィンの法線力係数傾斜 CNα（機体との干渉を含む） [1/rad]
+ *
+ * CNf = (1 + R / (s + R)) × 4N(s/d)² / (1 + √(1 + (2Lf / (Cr + Ct))²))
+ */
+export function calculateFinNormalForce(fins: FinSet, bodyDiameter: number): number {
+  const { count, rootChord, tipChord, span, sweepLength } = fins;
+  if (count === 0 || span <= 0 || rootChord + tipChord <= 0) return 0;
+
+  const radius = bodyDiameter / 2;
+  // 翼弦中点を結ぶ線の長さ
+  const midChordLength = Math.sqrt(span ** 2 + (sweepLength + tipChord / 2 - rootChord / 2) ** 2);
+  const finOnly = (4 * count * (span / bodyDiameter) ** 2)
+    / (1 + Math.sqrt(1 + (2 * midChordLength / (rootChord + tipChord)) ** 2));
+  const interference = 1 + radius / (span + radius);
+
+  return interference * finOnly;
+}
+
+/**
+ * フィンの圧力中心（根元前縁から） [m]
+ */
+export function calculateFinCpOffset(fins: FinSet): number {
+  const { rootChord: cr, tipChord: ct, sweepLength } = fins;
+  const sum = cr + ct;
+  if (sum <= 0) return 0;
+
+  return (sweepLength * (cr + 2 * ct)) / (3 * sum) + (sum - (cr * ct) / sum) / 6;
+}
+
+/**
+ * フィン根元前縁のノーズ先端からの位置 [m]
+ */
+function getFinLeadingEdge(geometry: RocketGeometry): number {
+  return getGeometryLength(geometry) - geometry.finSet.offsetFromTail - geometry.finSet.rootChord;
+}
+
+/**
+ * 法線力を持つ部品ごとの CNα と作用位置（ノーズ先端から） [m]
+ *
+ * ボディチューブは直径一定のため法線力を持たない（ノーズとフィンのみ）
+ */
+export function getNormalForceComponents(
+  geometry: RocketGeometry,
+  bodyDiameter: number
+): { normalForceSlope: number; position: number }[] {
+  const { noseCone, finSet } = geometry;
+
+  return [
+    // ノーズコーン: CNα = 2
+    { normalForceSlope: 2, position: NOSE_CONE_CP_RATIO[noseCone.shape] * noseCone.length },
+    {
+      normalForceSlope: calculateFinNormalForce(finSet, bodyDiameter),
+      position: getFinLeadingEdge(geometry) + calculateFinCpOffset(finSet),
+    },
+  ];
+}
+
+/**
+ * 圧力中心を計算（ノーズ先端から） [m]
+ */
+export function calculateCenterOfPressure(
+  geometry: RocketGeometry,
+  bodyDiameter: number
+): { cp: number; normalForceSlope: number } {
+  const components = getNormalForceComponents(geometry, bodyDiameter);
+  const normalForceSlope = components.reduce((sum, c) => sum + c.normalForceSlope, 0);
+
+  return {
+    cp: components.reduce((sum, c) => sum + c.normalForceSlope * c.position, 0) / normalForceSlope,
+    normalForceSlope,
+  };
+}
+
+/**
+ * 推進剤を除く質量と重心モーメントを集計
+ */
+function sumStructureMass(geometry: RocketGeometry): { mass: number; moment: number } {
+  const { noseCone, bodyTubes, finSet, components } = geometry;
+  let mass = 0;
+  let moment = 0;
+  const add = (m: number, position: number) => {
+    mass += m;
+    moment += m * position;
+  };
+
+  add(noseCone.mass, NOSE_CONE_CG_RATIO[noseCone.shape] * noseCone.length);
+
+  // ボディチューブは中央に質量が集中
+  let tubeStart = noseCone.length;
+  for (const tube of bodyTubes) {
+    add(tube.mass, tubeStart + tube.length / 2);
+    tubeStart += tube.length;
+  }
+
+  // フィンは台形の図心
+  const { rootChord: cr, tipChord: ct, sweepLength } = finSet;
+  const finCentroid = cr + ct > 0
+    ? (cr ** 2 + cr * ct + ct ** 2 + sweepLength * (cr + 2 * ct)) / (3 * (cr + ct))
+    : 0;
+  add(finSet.mass, getFinLeadingEdge(geometry) + finCentroid);
+
+  for (const component of components) {
+    add(component.mass, component.position);
+  }
+
+  return { mass, moment };
+}
+
+/**
+ * 静安定を計算
+ *
+ * 静安定余裕 = (CP − CG) / 機体直径 [cal]。推進剤はモーターの中央（機体後端から半分）に置く
+ *
+ * @param geometry - 機体形状・部品配置
+ * @param bodyDiameter - 機体直径 [m]
+ * @param propellantMass - 推進剤質量 [kg]
+ */
+export function calculateStability(
+  geometry: RocketGeometry,
+  bodyDiameter: number,
+  propellantMass: number
+): StabilityResult {
+  if (bodyDiameter <= 0) {
+    throw new Error('機体直径が正しくありません');
+  }
+
+  const { mass, moment } = sumStructureMass(geometry);
+  if (mass <= 0) {
+    throw new Error('部品の質量が設定されていません');
+  }
+
+  const { cp, normalForceSlope } = calculateCenterOfPressure(geometry, bodyDiameter);
+
+  const propellantPosition = getGeometryLength(geometry) - geometry.motorLength / 2;
+  const cgDry = moment / mass;
+  const cgWet = (moment + propellantMass * propellantPosition) / (mass + propellantMass);
+
+  return {
+    cp,
+    cgWet,
+    cgDry,
+    normalForceSlope,
+    staticMarginWet: (cp - cgWet) / bodyDiameter,
+    staticMarginDry: (cp - cgDry) / bodyDiameter,
+    componentMass: mass,
+  };
+}
+
+/**
+ * 風見安定による機軸の回転率 [rad/s]
+ *
+ * 復元モーメント q·A·CNα·(CP−CG) と慣性モーメント（一様な棒 mL²/12）から求めた固有角振動数。
+ * 臨界減衰の1次遅れとみなし、機軸は迎角 α に対して ω·sin α で対気速度方向へ回る
+ *
+ * @param dynamicPressure - 動圧 [Pa]
+ * @param referenceArea - 基準面積 [m²]
+ * @param normalForceSlope - 法線力係数傾斜 CNα [1/rad]
+ * @param marginLength - CP と CG の距離 [m]（0以下は不安定で復元しない）
+ * @param mass - 質量 [kg]
+ * @param length - 機体全長 [m]
+ */
+export function calculateWeathercockRate(
+  dynamicPressure: number,
+  referenceArea: number,
+  normalForceSlope: number,
+  marginLength: number,
+  mass: number,
+  length: number
+): number {
+  if (marginLength <= 0) return 0;
+
+  const momentOfInertia = mass * length * length / 12;
+  return Math.sqrt(dynamicPressure * referenceArea * normalForceSlope * marginLength / momentOfInertia);
+}
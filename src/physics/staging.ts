@@ -0,0 +1,204 @@
+/**
+ * 多段ロケットの上昇計算
+ *
+ * 分離のたびに機体の構成（質量・推力）が変わるため、分離時刻で区切って上昇計算をつなぐ
+ * - 分離前の下段は上の段と一体で飛行（空力は最上段の値で近似）
+ * - 推力は取り付いている全段のモーターを点火時刻に合わせて合計
+ */
+
+import { calculateAscent, type AscentInput, type AscentResult } from './ballistics';
+import { createMotorModel, type MotorModel } from './motor';
+import type { RocketParameters, StageIgnition } from '../types/rocket';
+import { getTotalPropellantMass } from '../types/rocket';
+
+/**
+ * 段の点火・燃焼終了・分離時刻（発射から） [s]
+ */
+export interface StageTiming {
+  ignitionTime: number;
+  burnoutTime: number;
+  separationTime: number;       // 最上段は Infinity
+}
+
+/**
+ * 下段の分離
+ */
+export interface StageSeparation {
+  stageIndex: number;           // 下段の番号（下から0）
+  time: number;                 // 分離時刻 [s]
+  position: { x: number; y: number; z: number };
+  velocity: { x: number; y: number; z: number };
+  mass: number;                 // 分離した下段の質量 [kg]（燃え残りの推進剤を含む）
+}
+
+/**
+ * 多段の上昇計算の結果（軌道は最上段）
+ */
+export interface StagedAscentResult extends AscentResult {
+  separations: StageSeparation[];
+}
+
+/**
+ * 点火時刻を求める（下の段の点火・燃焼終了から）
+ */
+function getIgnitionTime(ignition: StageIgnition | undefined, previous: StageTiming): number {
+  if (ignition?.trigger === 'delay') {
+    return Math.max(previous.ignitionTime, ignition.delay);
+  }
+  return previous.burnoutTime;
+}
+
+/**
+ * 各段の点火・分離時刻を計算（下段から順、最後が最上段）
+ */
+export function getStageTimings(rocket: RocketParameters): StageTiming[] {
+  const boosters = rocket.boosters ?? [];
+  const timings: StageTiming[] = [];
+
+  boosters.forEach((stage, i) => {
+    const ignitionTime = i === 0 ? 0 : getIgnitionTime(stage.ignition, timings[i - 1]);
+    timings.push({
+      ignitionTime,
+      burnoutTime: ignitionTime + createMotorModel(stage).burnTime,
+      separationTime: Infinity,
+    });
+  });
+
+  const sustainerIgnition = boosters.length === 0 ? 0 : getIgnitionTime(rocket.ignition, timings[timings.length - 1]);
+  timings.push({
+    ignitionTime: sustainerIgnition,
+    burnoutTime: sustainerIgnition + createMotorModel(rocket).burnTime,
+    separationTime: Infinity,
+  });
+
+  // 分離: 燃焼終了＋遅れ、ただし上の段の点火より後にはならず、下の段より先にはならない
+  boosters.forEach((stage, i) => {
+    const separation = Math.min(timings[i].burnoutTime + stage.separationDelay, timings[i + 1].ignitionTime);
+    timings[i].separationTime = Math.max(separation, i > 0 ? timings[i - 1].separationTime : 0);
+  });
+
+  return timings;
+}
+
+/**
+ * 点火時刻をずらした推力モデルを合計（時刻は発射から）
+ */
+export function combineMotorModels(parts: { motor: MotorModel; ignitionTime: number }[]): MotorModel {
+  return {
+    burnTime: Math.max(0, ...parts.map((p) => p.ignitionTime + p.motor.burnTime)),
+    totalImpulse: parts.reduce((sum, p) => sum + p.motor.totalImpulse, 0),
+    getThrust: (time) => parts.reduce((sum, p) => sum + p.motor.getThrust(time - p.ignitionTime), 0),
+    getMassFlowRate: (time) => parts.reduce((sum, p) => sum + p.motor.getMassFlowRate(time - p.ignitionTime), 0),
+    getPropellantMass: (time) =>
+      parts.reduce((sum, p) => sum + p.motor.getPropellantMass(time - p.ignitionTime), 0),
+  };
+}
+
+/**
+ * 多段ロケットの上昇計算
+ *
+ * 下段がなければ通常の上昇計算と同じ。下段の分離ごとに区間を分け、分離時の状態から次の区間を計算する
+ *
+ * @param input - 上昇計算の入力（rocket は最上段、cutoffTime は最上段の回収装置の展開）
+ * @param ascend - 各区間の上昇計算（質点または6自由度）
+ */
+export function calculateStagedAscent(
+  input: AscentInput,
+  ascend: (input: AscentInput) => AscentResult = calculateAscent
+): StagedAscentResult {
+  const { rocket } = input;
+  const boosters = rocket.boosters ?? [];
+  if (boosters.length === 0) {
+    return { ...ascend(input), separations: [] };
+  }
+
+  const timings = getStageTimings(rocket);
+  const stages = [
+    ...boosters.map((stage, i) => ({
+      dryMass: stage.dryMass,
+      propellantMass: getTotalPropellantMass(stage),
+      bodyDiameter: stage.bodyDiameter,
+      motor: createMotorModel(stage),
+      ignitionTime: timings[i].ignitionTime,
+    })),
+    {
+      dryMass: rocket.dryMass,
+      propellantMass: getTotalPropellantMass(rocket),
+      bodyDiameter: rocket.bodyDiameter,
+      motor: createMotorModel(rocket),
+      ignitionTime: timings[boosters.length].ignitionTime,
+    },
+  ];
+
+  const trajectoryPoints: AscentResult['trajectoryPoints'] = [];
+  const separations: StageSeparation[] = [];
+  let maxVelocity = 0;
+  let maxMach = 0;
+  let maxDynamicPressure = 0;
+  let railExit: AscentResult['railExit'];
+  let result: AscentResult | undefined;
+
+  for (let k = 0; k < stages.length; k++) {
+    const attached = stages.slice(k);
+    const isLast = k === stages.length - 1;
+    const separationTime = timings[k].separationTime;
+    if (!isLast && (input.cutoffTime ?? Infinity) < separationTime) {
+      throw new Error('下段の分離前に回収装置が展開します。遅延時間と分離のタイミングを見直してください');
+    }
+
+    // この区間の機体（最上段＋取り付いている下段）
+    const stack: RocketParameters = {
+      ...rocket,
+      dryMass: attached.reduce((sum, s) => sum + s.dryMass, 0),
+      propellantMass: attached.reduce((sum, s) => sum + s.propellantMass, 0),
+      motorCount: 1,
+      bodyDiameter: Math.max(...attached.map((s) => s.bodyDiameter)),
+    };
+
+    // 前の区間の最終点（分離時刻）から再開
+    const last = trajectoryPoints[trajectoryPoints.length - 1];
+    result = ascend({
+      ...input,
+      rocket: stack,
+      motor: combineMotorModels(attached),
+      initialState: last && {
+        time: last.time,
+        position: last.position,
+        velocity: last.velocity,
+        orientation: last.orientation,
+      },
+      cutoffTime: isLast ? input.cutoffTime : separationTime,
+      railLength: k === 0 ? input.railLength : 0,
+    });
+
+    trajectoryPoints.push(...result.trajectoryPoints.filter((p) => !last || p.time > last.time));
+    maxVelocity = Math.max(maxVelocity, result.maxVelocity);
+    maxMach = Math.max(maxMach, result.maxMach);
+    maxDynamicPressure = Math.max(maxDynamicPressure, result.maxDynamicPressure);
+    railExit ??= result.railExit;
+
+    if (!isLast) {
+      if (result.reachedApogee) {
+        throw new Error('下段の分離前に頂点に達します。点火・分離のタイミングを見直してください');
+      }
+      const stage = stages[k];
+      separations.push({
+        stageIndex: k,
+        time: result.apogee.time,
+        position: result.apogee.position,
+        velocity: result.apogee.velocity,
+        mass: stage.dryMass + stage.motor.getPropellantMass(result.apogee.time - stage.ignitionTime),
+      });
+    }
+  }
+
+  return {
+    ...result!,
+    trajectoryPoints,
+    maxVelocity,
+    maxMach,
+    maxDynamicPressure,
+    railExit,
+    separations,
+  };
+}
@@ -0,0 +1,384 @@
+/**
+ * 地形（数値標高モデル）
+ *
+ * SRTM (.hgt)・GeoTIFF の読み込みと、任意地点の標高・陰影の計算
+ * GeoTIFF は緯度経度座標・非圧縮の単バンドのみ対応
+ */
+
+import type { ElevationModel } from '../types/terrain';
+import type { Coordinates } from '../types/mission';
+
+// 緯度1度あたりの距離 [m]
+const METERS_PER_DEGREE = 111320;
+
+// SRTM の欠測値
+const HGT_VOID = -32768;
+
+/**
+ * SRTM (.hgt) を解析
+ *
+ * ファイル名（例: N35E139.hgt）が南西端の緯度経度を表す。
+ * 中身はビッグエンディアンの16bit整数で、1度四方の正方格子（1201² または 3601²）
+ */
+export function parseHgtFile(buffer: ArrayBuffer, fileName: string): ElevationModel {
+  const match = /([NS])(\d{1,2})([EW])(\d{1,3})/i.exec(fileName);
+  if (!match) {
+    throw new Error('.hgtファイル名から緯度経度を読み取れません（例: N35E139.hgt）');
+  }
+  const south = Number(match[2]) * (match[1].toUpperCase() === 'S' ? -1 : 1);
+  const west = Number(match[4]) * (match[3].toUpperCase() === 'W' ? -1 : 1);
+
+  const size = Math.round(Math.sqrt(buffer.byteLength / 2));
+  if (size < 2 || size * size * 2 !== buffer.byteLength) {
+    throw new Error('.hgtファイルのサイズが正しくありません');
+  }
+
+  const view = new DataView(buffer);
+  const elevations = new Float32Array(size * size);
+  for (let i = 0; i < elevations.length; i++) {
+    const value = view.getInt16(i * 2, false);
+    elevations[i] = value === HGT_VOID ? NaN : value;
+  }
+
+  return {
+    name: fileName,
+    west,
+    east: west + 1,
+    south,
+    north: south + 1,
+    width: size,
+    height: size,
+    elevations,
+  };
+}
+
+// TIFF のデータ型ごとのバイト数
+const TIFF_TYPE_SIZES: Record<number, number> = {
+  1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8,
+};
+
+// 使用する TIFF タグ
+const TAG = {
+  imageWidth: 256,
+  imageLength: 257,
+  bitsPerSample: 258,
+  compression: 259,
+  stripOffsets: 273,
+  samplesPerPixel: 277,
+  rowsPerStrip: 278,
+  tileWidth: 322,
+  tileLength: 323,
+  tileOffsets: 324,
+  sampleFormat: 339,
+  modelPixelScale: 33550,
+  modelTiepoint: 33922,
+  geoKeyDirectory: 34735,
+  gdalNoData: 42113,
+} as const;
+
+// GeoKey
+const GT_MODEL_TYPE_KEY = 1024;     // 1: 投影座標系, 2: 地理座標系
+const GT_RASTER_TYPE_KEY = 1025;    // 1: PixelIsArea, 2: PixelIsPoint
+
+/**
+ * TIFF の IFD（先頭の画像のみ）からタグを読み取る
+ */
+function readTiffTags(view: DataView, littleEndian: boolean, ifdOffset: number): Map<number, number[] | string> {
+  const readValue = (type: number, offset: number): number => {
+    switch (type) {
+      case 1: case 7: return view.getUint8(offset);
+      case 6: return view.getInt8(offset);
+      case 3: return view.getUint16(offset, littleEndian);
+      case 8: return view.getInt16(offset, littleEndian);
+      case 4: return view.getUint32(offset, littleEndian);
+      case 9: return view.getInt32(offset, littleEndian);
+      case 5: return view.getUint32(offset, littleEndian) / view.getUint32(offset + 4, littleEndian);
+      case 10: return view.getInt32(offset, littleEndian) / view.getInt32(offset + 4, littleEndian);
+      case 11: return view.getFloat32(offset, littleEndian);
+      case 12: return view.getFloat64(offset, littleEndian);
+      default: return NaN;
+    }
+  };
+
+  const tags = new Map<number, number[] | string>();
+  const count = view.getUint16(ifdOffset, littleEndian);
+  for (let i = 0; i < count; i++) {
+    const entry = ifdOffset + 2 + i * 12;
+    const tag = view.getUint16(entry, littleEndian);
+    const type = view.getUint16(entry + 2, littleEndian);
+    const valueCount = view.getUint32(entry + 4, littleEndian);
+    const size = TIFF_TYPE_SIZES[type];
+    if (!size) continue;
+
+    // 4バイト以下は値そのもの、それより大きければ値の位置
+    const dataOffset = size * valueCount <= 4 ? entry + 8 : view.getUint32(entry + 8, littleEndian);
+    if (type === 2) {
+      const bytes = new Uint8Array(view.buffer, view.byteOffset + dataOffset, valueCount);
+      tags.set(tag, new TextDecoder().decode(bytes).replace(/\0+$/, ''));
+    } else {
+      tags.set(tag, Array.from({ length: valueCount }, (_, j) => readValue(type, dataOffset + j * size)));
+    }
+  }
+
+  return tags;
+}
+
+/**
+ * GeoTIFF を解析（緯度経度座標・非圧縮・1バンド目のみ）
+ */
+export function parseGeoTiff(buffer: ArrayBuffer, fileName: string): ElevationModel {
+  const view = new DataView(buffer);
+  const byteOrder = buffer.byteLength >= 8 ? view.getUint16(0, false) : 0;
+  if (byteOrder !== 0x4949 && byteOrder !== 0x4d4d) {
+    throw new Error('TIFFファイルではありません');
+  }
+  const littleEndian = byteOrder === 0x4949;
+  const version = view.getUint16(2, littleEndian);
+  if (version === 43) {
+    throw new Error('BigTIFFには対応していません');
+  }
+  if (version !== 42) {
+    throw new Error('TIFFファイルではありません');
+  }
+
+  const tags = readTiffTags(view, littleEndian, view.getUint32(4, littleEndian));
+  const numbers = (tag: number): number[] | undefined => {
+    const value = tags.get(tag);
+    return Array.isArray(value) ? value : undefined;
+  };
+  const first = (tag: number, fallback: number): number => numbers(tag)?.[0] ?? fallback;
+
+  const width = first(TAG.imageWidth, 0);
+  const height = first(TAG.imageLength, 0);
+  if (width < 2 || height < 2) {
+    throw new Error('GeoTIFFの画像サイズが正しくありません');
+  }
+
+  const compression = first(TAG.compression, 1);
+  if (compression !== 1) {
+    throw new Error(`GeoTIFFの圧縮形式（${compression}）には対応していません。非圧縮で出力してください`);
+  }
+
+  // 位置情報（緯度経度のみ）
+  const scale = numbers(TAG.modelPixelScale);
+  const tiepoint = numbers(TAG.modelTiepoint);
+  if (!scale || !tiepoint || scale.length < 2 || tiepoint.length < 6) {
+    throw new Error('GeoTIFFに位置情報（ModelTiepoint・ModelPixelScale）がありません');
+  }
+  const geoKeys = new Map<number, number>();
+  const directory = numbers(TAG.geoKeyDirectory) ?? [];
+  for (let i = 4; i + 3 < directory.length; i += 4) {
+    // 値が直接入っているキー（TIFFTagLocation = 0）のみ
+    if (directory[i + 1] === 0) geoKeys.set(directory[i], directory[i + 3]);
+  }
+  if (geoKeys.get(GT_MODEL_TYPE_KEY) === 1) {
+    throw new Error('投影座標系のGeoTIFFには対応していません。緯度経度（WGS84）で出力してください');
+  }
+  // PixelIsArea ではタイポイントが画素の角、PixelIsPoint では画素の中心
+  const halfPixel = geoKeys.get(GT_RASTER_TYPE_KEY) === 2 ? 0 : 0.5;
+  const [scaleX, scaleY] = scale;
+  const [tieI, tieJ, , tieX, tieY] = tiepoint;
+  const west = tieX + (halfPixel - tieI) * scaleX;
+  const north = tieY - (halfPixel - tieJ) * scaleY;
+
+  // 画素の読み取り
+  const bits = first(TAG.bitsPerSample, 8);
+  const format = first(TAG.sampleFormat, 1);
+  const samplesPerPixel = first(TAG.samplesPerPixel, 1);
+  const readSample = getSampleReader(view, bits, format, littleEndian);
+  const stride = (bits / 8) * samplesPerPixel;
+
+  let getOffset: (row: number, column: number) => number;
+  const tileOffsets = numbers(TAG.tileOffsets);
+  if (tileOffsets) {
+    const tileWidth = first(TAG.tileWidth, width);
+    const tileLength = first(TAG.tileLength, height);
+    const tilesAcross = Math.ceil(width / tileWidth);
+    getOffset = (row, column) => {
+      const tile = Math.floor(row / tileLength) * tilesAcross + Math.floor(column / tileWidth);
+      return tileOffsets[tile] + ((row % tileLength) * tileWidth + (column % tileWidth)) * stride;
+    };
+  } else {
+    const stripOffsets = numbers(TAG.stripOffsets);
+    if (!stripOffsets) {
+      throw new Error('GeoTIFFに画像データがありません');
+    }
+    const rowsPerStrip = Math.min(first(TAG.rowsPerStrip, height), height);
+    getOffset = (row, column) =>
+      stripOffsets[Math.floor(row / rowsPerStrip)] + ((row % rowsPerStrip) * width + column) * stride;
+  }
+
+  const noDataTag = tags.get(TAG.gdalNoData);
+  const noData = typeof noDataTag === 'string' && noDataTag.trim() !== '' ? Number(noDataTag) : undefined;
+
+  const elevations = new Float32Array(width * height);
+  for (let row = 0; row < height; row++) {
+    for (let column = 0; column < width; column++) {
+      const offset = getOffset(row, column);
+      if (offset + stride > buffer.byteLength) {
+        throw new Error('GeoTIFFの画像データが途中で切れています');
+      }
+      const value = readSample(offset);
+      elevations[row * width + column] = value === noData ? NaN : value;
+    }
+  }
+
+  return {
+    name: fileName,
+    west,
+    east: west + (width - 1) * scaleX,
+    south: north - (height - 1) * scaleY,
+    north,
+    width,
+    height,
+    elevations,
+  };
+}
+
+/**
+ * 画素の型に応じた読み取り関数
+ */
+function getSampleReader(
+  view: DataView,
+  bits: number,
+  format: number,
+  littleEndian: boolean
+): (offset: number) => number {
+  switch (`${bits}:${format}`) {
+    case '8:1': return (o) => view.getUint8(o);
+    case '8:2': return (o) => view.getInt8(o);
+    case '16:1': return (o) => view.getUint16(o, littleEndian);
+    case '16:2': return (o) => view.getInt16(o, littleEndian);
+    case '32:1': return (o) => view.getUint32(o, littleEndian);
+    case '32:2': return (o) => view.getInt32(o, littleEndian);
+    case '32:3': return (o) => view.getFloat32(o, littleEndian);
+    case '64:3': return (o) => view.getFloat64(o, littleEndian);
+    default:
+      throw new Error(`GeoTIFFの画素形式（${bits}bit）には対応していません`);
+  }
+}
+
+/**
+ * 拡張子に応じて地形データを解析
+ */
+export function parseElevationFile(buffer: ArrayBuffer, fileName: string): ElevationModel {
+  const lower = fileName.toLowerCase();
+  if (lower.endsWith('.hgt')) return parseHgtFile(buffer, fileName);
+  if (lower.endsWith('.tif') || lower.endsWith('.tiff')) return parseGeoTiff(buffer, fileName);
+  throw new Error('対応していない地形データです（.hgt, .tif）');
+}
+
+/**
+ * 指定地点の標高を双線形補間 [m]（範囲外・欠測は undefined）
+ */
+export function getElevationAt(dem: ElevationModel, coords: Coordinates): number | undefined {
+  const { west, east, south, north, width, height, elevations } = dem;
+  const fx = (coords.longitude - west) / (east - west) * (width - 1);
+  const fy = (north - coords.latitude) / (north - south) * (height - 1);
+  if (!(fx >= 0 && fx <= width - 1 && fy >= 0 && fy <= height - 1)) return undefined;
+
+  const x0 = Math.min(Math.floor(fx), width - 2);
+  const y0 = Math.min(Math.floor(fy), height - 2);
+  const tx = fx - x0;
+  const ty = fy - y0;
+
+  // 欠測の格子点は除いて重みを正規化
+  let sum = 0;
+  let weightSum = 0;
+  for (const [dx, dy, weight] of [
+    [0, 0, (1 - tx) * (1 - ty)],
+    [1, 0, tx * (1 - ty)],
+    [0, 1, (1 - tx) * ty],
+    [1, 1, tx * ty],
+  ]) {
+    const value = elevations[(y0 + dy) * width + x0 + dx];
+    if (!Number.isNaN(value) && weight > 0) {
+      sum += value * weight;
+      weightSum += weight;
+    }
+  }
+
+  return weightSum > 0 ? sum / weightSum : undefined;
+}
+
+/**
+ * 発射地点を原点とするローカル座標（x: 東, y: 北）で標高を返す関数を作成
+ *
+ * @param fallback - 範囲外・欠測での標高 [m]（通常は発射地点の標高）
+ */
+export function createTerrainElevation(
+  dem: ElevationModel,
+  origin: Coordinates,
+  fallback: number
+): (x: number, y: number) => number {
+  const metersPerDegreeLon = METERS_PER_DEGREE * Math.cos(origin.latitude * Math.PI / 180);
+
+  return (x, y) =>
+    getElevationAt(dem, {
+      latitude: origin.latitude + y / METERS_PER_DEGREE,
+      longitude: origin.longitude + x / metersPerDegreeLon,
+    }) ?? fallback;
+}
+
+/**
+ * 表示用に格子点数を間引く（最近傍）
+ */
+export function resampleElevationModel(dem: ElevationModel, maxSize: number): ElevationModel {
+  const factor = Math.max(dem.width, dem.height) / maxSize;
+  if (factor <= 1) return dem;
+
+  const width = Math.max(2, Math.round(dem.width / factor));
+  const height = Math.max(2, Math.round(dem.height / factor));
+  const elevations = new Float32Array(width * height);
+  for (let row = 0; row < height; row++) {
+    const sourceRow = Math.round(row * (dem.height - 1) / (height - 1));
+    for (let column = 0; column < width; column++) {
+      const sourceColumn = Math.round(column * (dem.width - 1) / (width - 1));
+      elevations[row * width + column] = dem.elevations[sourceRow * dem.width + sourceColumn];
+    }
+  }
+
+  return { ...dem, width, height, elevations };
+}
+
+/**
+ * 陰影起伏（Horn の方法）を計算
+ *
+ * 各格子点の明るさ 0〜255（欠測は0）。平坦地は 255·sin(光源高度)
+ *
+ * @param azimuth - 光源の方位 [deg]（北=0、既定は北西）
+ * @param altitude - 光源の高度角 [deg]
+ */
+export function calculateHillshade(dem: ElevationModel, azimuth = 315, altitude = 45): Uint8ClampedArray {
+  const { width, height, elevations } = dem;
+  const latitude = (dem.north + dem.south) / 2;
+  const cellX = (dem.east - dem.west) / (width - 1) * METERS_PER_DEGREE * Math.cos(latitude * Math.PI / 180);
+  const cellY = (dem.north - dem.south) / (height - 1) * METERS_PER_DEGREE;
+
+  const zenith = (90 - altitude) * Math.PI / 180;
+  const azimuthRad = ((360 - azimuth + 90) % 360) * Math.PI / 180;
+
+  // 端は内側の値で補う
+  const at = (row: number, column: number) =>
+    elevations[Math.min(Math.max(row, 0), height - 1) * width + Math.min(Math.max(column, 0), width - 1)];
+
+  const shade = new Uint8ClampedArray(width * height);
+  for (let row = 0; row < height; row++) {
+    for (let column = 0; column < width; column++) {
+      const a = at(row - 1, column - 1), b = at(row - 1, column), c = at(row - 1, column + 1);
+      const d = at(row, column - 1), f = at(row, column + 1);
+      const g = at(row + 1, column - 1), h = at(row + 1, column), i = at(row + 1, column + 1);
+      const dzdx = ((c + 2 * f + i) - (a + 2 * d + g)) / (8 * cellX);
+      const dzdy = ((g + 2 * h + i) - (a + 2 * b + c)) / (8 * cellY);
+      if (Number.isNaN(dzdx) || Number.isNaN(dzdy)) continue;
+
+      const slope = Math.atan(Math.hypot(dzdx, dzdy));
+      const aspect = Math.atan2(dzdy, -dzdx);
+      shade[row * width + column] = 255 * (
+        Math.cos(zenith) * Math.cos(slope) + Math.sin(zenith) * Math.sin(slope) * Math.cos(azimuthRad - aspect)
+      );
+    }
+  }
+
+  return shade;
+}
@@ -5,6 +5,12 @@
  */
 
 import type { WeatherData, WindLayer } from '../types/weather';
+import type { SurfaceType } from '../types/mission';
+import type { TrajectoryPoint } from '../types/trajectory';
+import { getSoundingWindLayers } from './sounding';
+
+// 対数則を使う地表境界層の上端 [m]（これより上は高度別の風、なければこの高さの風が続く）
+export const SURFACE_LAYER_HEIGHT = 100;
 
 /**
  * 高度別風データのインターフェース
@@ -122,13 +128,199 @@ export function createLayeredWindProfile(
 
 /**
  * WeatherDataから風プロファイルを作成
+ *
+ * 地表付近は地上風（windReferenceHeight で測った風）からの対数則、その上は高度別の風を線形補間する。
+ * 高度別の風は高層気象観測に風があればそれを、なければ windLayers を使う。
+ * 対数則は SURFACE_LAYER_HEIGHT と最下層の低い方までで、最下層がそれより低い場合は
+ * 測定高度から最下層にかけて最下層の風に近づけてつなぐ
+ *
+ * @param launchElevation - 発射地点の標高 [m]（観測の海抜高度の換算用）
+ * @param roughnessLength - 発射地点周辺の粗度長 [m]
  */
-export function createWindProfileFromWeather(weather: WeatherData): WindProfile {
-  return createLayeredWindProfile(
+export function createWindProfileFromWeather(
+  weather: WeatherData,
+  launchElevation = 0,
+  roughnessLength: number = ROUGHNESS_LENGTHS.grass_tall
+): WindProfile {
+  const referenceHeight = weather.windReferenceHeight;
+  const logLaw = createLogLawWindProfile(
     weather.surfaceWindSpeed,
     weather.surfaceWindDirection,
-    weather.windLayers
+    referenceHeight,
+    roughnessLength
   );
+  const layers = [...(getWeatherWindLayers(weather, launchElevation) ?? [])]
+    .sort((a, b) => a.altitude - b.altitude);
+
+  // 対数則の上端とそこでの風（最下層が地表境界層の中にあれば最下層の風）
+  const lowest = layers[0];
+  const top = Math.min(SURFACE_LAYER_HEIGHT, lowest?.altitude ?? Infinity);
+  const topWind = lowest && lowest.altitude <= SURFACE_LAYER_HEIGHT
+    ? { speed: lowest.windSpeed, direction: lowest.windDirection }
+    : logLaw.getWindAtAltitude(top);
+
+  // 上端での対数則とのずれ（測定高度から上端にかけて線形に加える）
+  const logTop = logLaw.getWindAtAltitude(top);
+  const speedOffset = topWind.speed - logTop.speed;
+  const directionOffset = getDirectionDifference(logTop.direction, topWind.direction);
+
+  const upper = createLayeredWindProfile(topWind.speed, topWind.direction, [
+    { altitude: top, windSpeed: topWind.speed, windDirection: topWind.direction },
+    ...layers.filter((layer) => layer.altitude > top),
+  ]);
+
+  return {
+    getWindAtAltitude(altitude: number): { speed: number; direction: number } {
+      if (altitude >= top) return upper.getWindAtAltitude(altitude);
+
+      const wind = logLaw.getWindAtAltitude(altitude);
+      const weight = top > referenceHeight
+        ? Math.min(Math.max((altitude - referenceHeight) / (top - referenceHeight), 0), 1)
+        : 1;
+      return {
+        speed: Math.max(0, wind.speed + weight * speedOffset),
+        direction: (wind.direction + weight * directionOffset + 360) % 360,
+      };
+    },
+  };
+}
+
+/**
+ * 風向の差 [deg]（-180〜180）
+ */
+function getDirectionDifference(from: number, to: number): number {
+  return ((to - from + 540) % 360) - 180;
+}
+
+/**
+ * 風プロファイルに使う高度別の風（高層気象観測の風を優先）
+ */
+function getWeatherWindLayers(weather: WeatherData, launchElevation: number): WindLayer[] | undefined {
+  const soundingLayers = weather.sounding ? getSoundingWindLayers(weather.sounding, launchElevation) : [];
+  return soundingLayers.length > 0 ? soundingLayers : weather.windLayers;
+}
+
+/**
+ * 風のデータがある最高高度 [m]（発射地点から、地上風のみは 0）
+ *
+ * これより上は最上層の風が続くとみなして計算する
+ */
+export function getWindDataCeiling(weather: WeatherData, launchElevation = 0): number {
+  const layers = getWeatherWindLayers(weather, launchElevation) ?? [];
+  return Math.max(0, ...layers.map((layer) => layer.altitude));
+}
+
+/**
+ * 突風（平均風からのずれ）
+ */
+export interface WindGust {
+  getGustAt(time: number, altitude: number): { x: number; y: number }; // 東・北成分 [m/s]
+}
+
+// 突風の乱流スケール [m]（Dryden モデルの低高度の値の目安）
+export const GUST_LENGTH_SCALE = 200;
+
+// 突風を合成する正弦波の数（1成分あたり）
+const GUST_MODES = 32;
+
+/**
+ * Dryden スペクトルにしたがう1成分の乱れ（距離 [m] の関数）
+ *
+ * Φ(κ) = σ²·(2L/π) / (1 + (Lκ)²) を対数間隔の波数帯に分け、帯ごとに波数と位相をランダムに選んだ正弦波を重ねる。
+ * 分散がちょうど σ² になるよう振幅を揃える
+ */
+function createDrydenComponent(sigma: number, lengthScale: number, random: () => number): (distance: number) => number {
+  const minWavenumber = 0.02 / lengthScale;
+  const ratio = Math.pow(1000, 1 / GUST_MODES); // 0.02/L から 20/L まで
+  const modes = Array.from({ length: GUST_MODES }, (_, k) => {
+    const lower = minWavenumber * Math.pow(ratio, k);
+    const upper = lower * ratio;
+    const wavenumber = lower + (upper - lower) * random();
+    const psd = (2 * lengthScale / Math.PI) / (1 + Math.pow(lengthScale * wavenumber, 2));
+    return { wavenumber, amplitude: Math.sqrt(2 * psd * (upper - lower)), phase: 2 * Math.PI * random() };
+  });
+  const variance = modes.reduce((sum, mode) => sum + mode.amplitude * mode.amplitude / 2, 0);
+  const scale = variance > 0 ? sigma / Math.sqrt(variance) : 0;
+
+  return (distance) =>
+    scale * modes.reduce((sum, mode) => sum + mode.amplitude * Math.cos(mode.wavenumber * distance + mode.phase), 0);
+}
+
+/**
+ * Dryden 型の確率的な突風
+ *
+ * 平均風に沿う成分と直交する成分を独立に作り、標準偏差はともに 乱流強度 × 平均風速。
+ * 乱れが平均風で流れる（凍結乱流）とみなし、時刻と高度は 平均風速 × 時刻 + 高度 の距離に直して評価する。
+ * 任意の時刻で同じ値を返すため、積分の刻みによらない
+ *
+ * @param turbulenceIntensity - 乱流強度（風速の標準偏差 / 平均風速）
+ * @param random - 0〜1 の乱数（試行ごとの突風の生成用）
+ */
+export function createDrydenGust(
+  meanWindSpeed: number,
+  meanWindDirection: number,
+  turbulenceIntensity: number,
+  random: () => number,
+  lengthScale: number = GUST_LENGTH_SCALE
+): WindGust {
+  const sigma = Math.max(0, turbulenceIntensity * meanWindSpeed);
+  const along = createDrydenComponent(sigma, lengthScale, random);
+  const across = createDrydenComponent(sigma, lengthScale, random);
+
+  // 風下方向の単位ベクトル（東・北）
+  const windTo = (meanWindDirection + 180) * Math.PI / 180;
+  const ux = Math.sin(windTo);
+  const uy = Math.cos(windTo);
+  const advection = Math.max(meanWindSpeed, 1);
+
+  return {
+    getGustAt(time: number, altitude: number) {
+      const distance = advection * time + Math.max(altitude, 0);
+      const u = along(distance);
+      const v = across(distance);
+      return { x: u * ux + v * uy, y: u * uy - v * ux };
+    },
+  };
+}
+
+/**
+ * 飛行中に受けた平均の風
+ *
+ * 軌道点の高度の風を滞在時間で重み付けしてベクトル平均する（台形則）。
+ * 落下点を流すのは地上風ではなく飛行中の風の積み重ねのため、不確実性楕円の向きに使う
+ *
+ * @param groundLevel - 風プロファイルの高度の基準（発射地点の標高）[m]
+ */
+export function getFlightMeanWind(
+  points: Pick<TrajectoryPoint, 'time' | 'position'>[],
+  windProfile: WindProfile,
+  groundLevel: number
+): { speed: number; direction: number } {
+  // 風が来る方向の東・北成分
+  const winds = points.map((point) => {
+    const wind = windProfile.getWindAtAltitude(point.position.z - groundLevel);
+    const rad = wind.direction * Math.PI / 180;
+    return { x: wind.speed * Math.sin(rad), y: wind.speed * Math.cos(rad) };
+  });
+
+  let x = 0;
+  let y = 0;
+  let duration = 0;
+  for (let i = 1; i < points.length; i++) {
+    const dt = points[i].time - points[i - 1].time;
+    x += (winds[i].x + winds[i - 1].x) / 2 * dt;
+    y += (winds[i].y + winds[i - 1].y) / 2 * dt;
+    duration += dt;
+  }
+
+  // 軌道点が1つしかない場合はその高度の風
+  if (duration <= 0) {
+    return windProfile.getWindAtAltitude((points[0]?.position.z ?? groundLevel) - groundLevel);
+  }
+  return {
+    speed: Math.hypot(x, y) / duration,
+    direction: ((Math.atan2(x, y) * 180 / Math.PI) + 360) % 360,
+  };
 }
 
 /**
@@ -181,7 +373,7 @@ export function calculateUncertaintyEllipse(
 /**
  * 粗度長の目安
  */
-export const ROUGHNESS_LENGTHS: Record<string, number> = {
+export const ROUGHNESS_LENGTHS: Record<SurfaceType, number> = {
   water: 0.0002,           // 水面
   sand: 0.0003,            // 砂地
   snow: 0.001,             // 雪面
@@ -0,0 +1,219 @@
+/**
+ * モーターカタログ
+ *
+ * オフラインで利用できる代表的なモデルロケットモーター（A〜Gクラス）のデータ
+ * 推力曲線は各社公表値をもとにした代表値。飛行前には認定データで確認すること。
+ */
+
+import { parseEngFile, integrateThrustCurve } from '../../physics/motor';
+import { getImpulseClass, type MotorSpec } from '../../types/motor';
+
+/**
+ * 同梱モーターデータ（RASP .eng形式）
+ */
+const CATALOG_ENG = `
+1/2A6 18 70 2 0.0015 0.0152 Estes
+0.02 0.5
+0.06 3.2
+0.1 6.2
+0.13 4.8
+0.16 3.6
+0.2 3.0
+0.27 1.6
+0.32 0.0
+A8 18 70 3-5 0.00312 0.0163 Estes
+0.041 0.512
+0.084 2.115
+0.127 4.358
+0.166 6.794
+0.192 9.294
+0.206 10.7
+0.226 9.3
+0.236 8.0
+0.247 7.0
+0.261 5.9
+0.277 4.8
+0.295 3.9
+0.324 3.2
+0.346 2.9
+0.375 2.8
+0.5 2.6
+0.6 2.4
+0.7 2.2
+0.73 0.0
+B4 18 70 2-4-6 0.00833 0.0199 Estes
+0.05 2.0
+0.12 8.0
+0.19 12.5
+0.25 7.0
+0.33 4.2
+0.5 3.5
+0.8 3.3
+1.05 3.1
+1.15 1.5
+1.2 0.0
+B6 18 70 0-2-4-6 0.0056 0.0194 Estes
+0.04 1.0
+0.1 6.0
+0.18 12.0
+0.21 10.0
+0.26 6.5
+0.33 5.0
+0.5 4.5
+0.7 4.3
+0.8 3.5
+0.86 0.0
+C6 18 70 0-3-5-7 0.0108 0.0243 Estes
+0.05 1.5
+0.12 7.0
+0.2 14.1
+0.24 11.5
+0.3 7.0
+0.4 5.2
+0.6 4.6
+1.0 4.5
+1.5 4.4
+1.7 4.0
+1.8 2.0
+1.86 0.0
+C11 24 70 0-3-5-7 0.0123 0.0336 Estes
+0.04 3.0
+0.1 12.0
+0.16 21.0
+0.2 18.0
+0.28 12.0
+0.4 10.5
+0.6 10.0
+0.75 9.5
+0.82 5.0
+0.88 0.0
+D12 24 70 0-3-5-7 0.0211 0.0442 Estes
+0.05 4.0
+0.12 16.0
+0.22 29.7
+0.3 20.0
+0.4 13.0
+0.6 10.6
+1.0 10.0
+1.4 9.8
+1.55 6.0
+1.65 0.0
+E12 24 95 0-4-6-8 0.0358 0.0577 Estes
+0.05 4.0
+0.15 18.0
+0.3 32.0
+0.4 22.0
+0.55 13.0
+0.8 11.0
+1.5 10.5
+2.2 10.2
+2.35 5.0
+2.45 0.0
+E15 24 70 4-7 0.0201 0.0502 AeroTech
+0.02 12.0
+0.05 22.0
+0.15 20.5
+0.5 18.5
+1.0 16.5
+1.4 14.5
+1.55 8.0
+1.65 0.0
+F39 24 124 6-9 0.0227 0.0588 AeroTech
+0.02 30.0
+0.06 52.0
+0.2 50.0
+0.5 46.0
+0.8 41.0
+1.1 33.0
+1.25 18.0
+1.35 0.0
+F50 29 98 4-6-9 0.0379 0.0846 AeroTech
+0.02 40.0
+0.05 70.0
+0.2 65.0
+0.6 56.0
+1.0 48.0
+1.3 40.0
+1.45 20.0
+1.55 0.0
+G40 29 124 4-7-10 0.0624 0.1233 AeroTech
+0.05 30.0
+0.1 60.0
+0.3 55.0
+1.0 46.0
+2.0 39.0
+2.8 33.0
+3.1 18.0
+3.3 0.0
+G80 29 124 4-7-10 0.0625 0.1234 AeroTech
+0.02 60.0
+0.05 110.0
+0.2 100.0
+0.6 88.0
+1.0 78.0
+1.4 66.0
+1.6 40.0
+1.75 0.0
+`;
+
+/**
+ * モーターIDを生成（例: Estes A8 → estes-a8）
+ */
+function createMotorId(manufacturer: string, designation: string): string {
+  return `${manufacturer}-${designation}`.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+}
+
+/**
+ * 同梱モーターカタログ（総力積の昇順）
+ */
+export const MOTOR_CATALOG: MotorSpec[] = parseEngFile(CATALOG_ENG)
+  .map((motor) => {
+    const totalImpulse = integrateThrustCurve(motor.thrustCurve);
+    return {
+      id: createMotorId(motor.manufacturer, motor.designation),
+      designation: motor.designation,
+      manufacturer: motor.manufacturer,
+      impulseClass: getImpulseClass(totalImpulse),
+      diameter: motor.diameter,
+      totalImpulse,
+      burnTime: motor.thrustCurve[motor.thrustCurve.length - 1].time,
+      propellantMass: motor.propellantMass,
+      totalMass: motor.totalMass,
+      delays: motor.delays,
+      thrustCurve: motor.thrustCurve,
+    };
+  })
+  .sort((a, b) => a.totalImpulse - b.totalImpulse);
+
+/**
+ * IDからモーターを取得
+ */
+export function getMotorById(id: string): MotorSpec | undefined {
+  return MOTOR_CATALOG.find((motor) => motor.id === id);
+}
+
+/**
+ * モーターを検索
+ *
+ * 型式・メーカー・力積クラスに対する部分一致（大文字小文字を区別しない）
+ *
+ * @param query - 検索文字列（空文字で全件）
+ * @param impulseClass - 力積クラスで絞り込み（オプション）
+ */
+export function searchMotors(query: string, impulseClass?: string): MotorSpec[] {
+  const terms = query.trim().toLowerCase().split(/\s+/).filter((t) => t !== '');
+
+  return MOTOR_CATALOG.filter((motor) => {
+    if (impulseClass && motor.impulseClass !== impulseClass) return false;
+
+    const haystack = `${motor.manufacturer} ${motor.designation} ${motor.impulseClass}`.toLowerCase();
+    return terms.every((term) => haystack.includes(term));
+  });
+}
+
+/**
+ * カタログに含まれる力積クラスの一覧
+ */
+export function getCatalogImpulseClasses(): string[] {
+  return [...new Set(MOTOR_CATALOG.map((motor) => motor.impulseClass))];
+}
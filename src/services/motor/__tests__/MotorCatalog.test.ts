@@ -0,0 +1,94 @@
+/**
+ * モーターカタログのユニットテスト
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  MOTOR_CATALOG,
+  getMotorById,
+  searchMotors,
+  getCatalogImpulseClasses,
+} from '../MotorCatalog';
+import { getImpulseClass } from '../../../types/motor';
+
+describe('MotorCatalog', () => {
+  it('covers the A through G classes', () => {
+    const classes = getCatalogImpulseClasses();
+    for (const c of ['A', 'B', 'C', 'D', 'E', 'F', 'G']) {
+      expect(classes).toContain(c);
+    }
+  });
+
+  it('has unique IDs', () => {
+    const ids = MOTOR_CATALOG.map((m) => m.id);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it('impulse class matches the designation letter', () => {
+    for (const motor of MOTOR_CATALOG) {
+      expect(motor.designation.startsWith(motor.impulseClass)).toBe(true);
+    }
+  });
+
+  it('every motor has a thrust curve ending at burnout', () => {
+    for (const motor of MOTOR_CATALOG) {
+      const last = motor.thrustCurve[motor.thrustCurve.length - 1];
+      expect(motor.thrustCurve.length).toBeGreaterThan(2);
+      expect(last.time).toBe(motor.burnTime);
+      expect(motor.propellantMass).toBeLessThan(motor.totalMass);
+    }
+  });
+
+  it('is sorted by total impulse', () => {
+    for (let i = 1; i < MOTOR_CATALOG.length; i++) {
+      expect(MOTOR_CATALOG[i].totalImpulse).toBeGreaterThanOrEqual(MOTOR_CATALOG[i - 1].totalImpulse);
+    }
+  });
+
+  describe('getMotorById', () => {
+    it('finds a motor by ID', () => {
+      const motor = getMotorById('estes-a8');
+      expect(motor?.designation).toBe('A8');
+      expect(motor?.delays).toEqual([3, 5]);
+    });
+
+    it('returns undefined for unknown ID', () => {
+      expect(getMotorById('unknown')).toBeUndefined();
+    });
+  });
+
+  describe('searchMotors', () => {
+    it('returns all motors for empty query', () => {
+      expect(searchMotors('')).toHaveLength(MOTOR_CATALOG.length);
+    });
+
+    it('matches designation case-insensitively', () => {
+      const results = searchMotors('a8');
+      expect(results.map((m) => m.id)).toContain('estes-a8');
+    });
+
+    it('matches all terms', () => {
+      const results = searchMotors('aerotech g');
+      expect(results.length).toBeGreaterThan(0);
+      for (const motor of results) {
+        expect(motor.manufacturer).toBe('AeroTech');
+        expect(motor.impulseClass).toBe('G');
+      }
+    });
+
+    it('filters by impulse class', () => {
+      const results = searchMotors('', 'C');
+      expect(results.length).toBeGreaterThan(0);
+      expect(results.every((m) => m.impulseClass === 'C')).toBe(true);
+    });
+  });
+
+  describe('getImpulseClass', () => {
+    it('classifies by total impulse', () => {
+      expect(getImpulseClass(1.0)).toBe('1/2A');
+      expect(getImpulseClass(2.5)).toBe('A');
+      expect(getImpulseClass(2.51)).toBe('B');
+      expect(getImpulseClass(120)).toBe('G');
+    });
+  });
+});
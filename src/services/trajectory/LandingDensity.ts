@@ -0,0 +1,190 @@
+/**
+ * 着地点の密度分布（六角形ビン）
+ *
+ * 多数の着地候補点を六角形格子に集計し、確率の高いビンから順に
+ * 50/90/99%に達するまでの最高密度領域とその境界線を求める
+ */
+
+import type { Coordinates } from '../../types/mission';
+import type { HexBin, LandingDensity, ProbabilityContour } from '../../types/dispersion';
+import { DISPERSION_CONFIDENCE_LEVELS } from '../../types/dispersion';
+import { coordinatesToPosition, positionToCoordinates } from './TrajectoryService';
+
+/**
+ * 密度計算オプション
+ */
+export interface LandingDensityOptions {
+  cellSize?: number;            // 六角形の外接円半径 [m]（未指定時は散布から自動決定）
+  origin?: Coordinates;         // 格子の原点（未指定時は散布の重心）
+  levels?: number[];            // 確率等高線の確率
+}
+
+// 自動決定するセルサイズの下限 [m]
+const MIN_CELL_SIZE = 5;
+
+// 隣接ビンの軸座標オフセット（辺番号 i の辺を共有する隣）
+const NEIGHBOR_OFFSETS: [number, number][] = [
+  [1, 0], [0, 1], [-1, 1], [-1, 0], [0, -1], [1, -1],
+];
+
+/**
+ * 頂点 i の方向 [rad]（ポインティトップ、東から反時計回り）
+ */
+function vertexAngle(i: number): number {
+  return Math.PI / 180 * (60 * i - 30);
+}
+
+/**
+ * ローカル座標を六角形の軸座標に変換（キューブ座標で丸め）
+ */
+function toAxial(x: number, y: number, size: number): { q: number; r: number } {
+  const qf = (Math.sqrt(3) / 3 * x - y / 3) / size;
+  const rf = (2 / 3 * y) / size;
+  const sf = -qf - rf;
+
+  let q = Math.round(qf);
+  let r = Math.round(rf);
+  const s = Math.round(sf);
+
+  const dq = Math.abs(q - qf);
+  const dr = Math.abs(r - rf);
+  const ds = Math.abs(s - sf);
+  if (dq > dr && dq > ds) {
+    q = -r - s;
+  } else if (dr > ds) {
+    r = -q - s;
+  }
+
+  return { q, r };
+}
+
+/**
+ * 軸座標から六角形中心のローカル座標
+ */
+function axialCenter(q: number, r: number, size: number): { x: number; y: number } {
+  return {
+    x: size * Math.sqrt(3) * (q + r / 2),
+    y: size * 1.5 * r,
+  };
+}
+
+/**
+ * 散布の広がりからセルサイズを決定 [m]
+ */
+function estimateCellSize(positions: { x: number; y: number }[]): number {
+  const n = positions.length;
+  const meanX = positions.reduce((sum, p) => sum + p.x, 0) / n;
+  const meanY = positions.reduce((sum, p) => sum + p.y, 0) / n;
+  const variance = positions.reduce(
+    (sum, p) => sum + (p.x - meanX) ** 2 + (p.y - meanY) ** 2,
+    0
+  ) / (2 * n);
+
+  // 標準偏差の半分程度で、±3σの範囲がおよそ12セルに分かれる
+  return Math.max(MIN_CELL_SIZE, Math.sqrt(variance) / 2);
+}
+
+/**
+ * 着地点の密度分布を計算
+ *
+ * @param points - 着地点の集合
+ * @param options - セルサイズ・等高線の確率
+ */
+export function calculateLandingDensity(
+  points: Coordinates[],
+  options: LandingDensityOptions = {}
+): LandingDensity {
+  const levels = [...(options.levels ?? DISPERSION_CONFIDENCE_LEVELS)].sort((a, b) => a - b);
+
+  if (points.length === 0) {
+    return { cellSize: options.cellSize ?? MIN_CELL_SIZE, totalPoints: 0, maxProbability: 0, bins: [], contours: [] };
+  }
+
+  // 格子原点からのローカル座標
+  const origin: Coordinates = options.origin ?? {
+    latitude: points.reduce((sum, p) => sum + p.latitude, 0) / points.length,
+    longitude: points.reduce((sum, p) => sum + p.longitude, 0) / points.length,
+  };
+  const positions = points.map((p) => coordinatesToPosition(origin, p));
+  const size = options.cellSize ?? estimateCellSize(positions);
+
+  // 集計
+  const counts = new Map<string, { q: number; r: number; count: number }>();
+  for (const p of positions) {
+    const { q, r } = toAxial(p.x, p.y, size);
+    const key = `${q},${r}`;
+    const bin = counts.get(key);
+    if (bin) {
+      bin.count++;
+    } else {
+      counts.set(key, { q, r, count: 1 });
+    }
+  }
+
+  const total = positions.length;
+  const cells = [...counts.values()].sort((a, b) => b.count - a.count);
+
+  // 確率の高いビンから累積し、各確率領域に含まれるビンを決定
+  const levelOf = new Map<string, number | null>();
+  let cumulative = 0;
+  let levelIndex = 0;
+  for (const cell of cells) {
+    const key = `${cell.q},${cell.r}`;
+    while (levelIndex < levels.length && cumulative >= levels[levelIndex] - 1e-12) {
+      levelIndex++;
+    }
+    levelOf.set(key, levelIndex < levels.length ? levels[levelIndex] : null);
+    cumulative += cell.count / total;
+  }
+
+  const toCoordinates = (x: number, y: number) => positionToCoordinates(origin, x, y);
+
+  const bins: HexBin[] = cells.map((cell) => {
+    const c = axialCenter(cell.q, cell.r, size);
+    return {
+      q: cell.q,
+      r: cell.r,
+      center: toCoordinates(c.x, c.y),
+      vertices: Array.from({ length: 6 }, (_, i) =>
+        toCoordinates(c.x + size * Math.cos(vertexAngle(i)), c.y + size * Math.sin(vertexAngle(i)))
+      ),
+      count: cell.count,
+      probability: cell.count / total,
+      level: levelOf.get(`${cell.q},${cell.r}`) ?? null,
+    };
+  });
+
+  // 等高線: 領域内のビンの辺のうち、隣が領域外のもの
+  const hexArea = 1.5 * Math.sqrt(3) * size * size;
+  const contours: ProbabilityContour[] = levels.map((probability) => {
+    const inside = new Set(
+      bins.filter((b) => b.level !== null && b.level <= probability).map((b) => `${b.q},${b.r}`)
+    );
+    const segments: [Coordinates, Coordinates][] = [];
+
+    for (const key of inside) {
+      const [q, r] = key.split(',').map(Number);
+      const c = axialCenter(q, r, size);
+      NEIGHBOR_OFFSETS.forEach(([dq, dr], i) => {
+        if (inside.has(`${q + dq},${r + dr}`)) return;
+        // 辺 i は頂点 i と i+1 を結ぶ
+        const a0 = vertexAngle(i);
+        const a1 = vertexAngle(i + 1);
+        segments.push([
+          toCoordinates(c.x + size * Math.cos(a0), c.y + size * Math.sin(a0)),
+          toCoordinates(c.x + size * Math.cos(a1), c.y + size * Math.sin(a1)),
+        ]);
+      });
+    }
+
+    return { probability, area: inside.size * hexArea, segments };
+  });
+
+  return {
+    cellSize: size,
+    totalPoints: total,
+    maxProbability: bins[0].probability,
+    bins,
+    contours,
+  };
+}
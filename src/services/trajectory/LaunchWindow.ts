@@ -0,0 +1,45 @@
+/**
+ * ローンチウィンドウ解析
+ *
+ * 予報の各時刻に発射した場合の軌道を計算し、着地点と着地距離の
+ * 時間変化から発射に適した時刻を選ぶ
+ */
+
+import type { WeatherData } from '../../types/weather';
+import { isFlightSafe, type LaunchWindowSlot } from '../../types/trajectory';
+import { calculateTrajectory, type TrajectoryInput } from './TrajectoryService';
+
+/**
+ * 予報の各時刻について軌道を計算
+ *
+ * @param input - 気象データ以外の計算条件（weather は各時刻の予報で置き換える）
+ * @param hours - 各時刻の予報（timestamp が発射時刻）
+ */
+export function calculateLaunchWindow(input: TrajectoryInput, hours: WeatherData[]): LaunchWindowSlot[] {
+  return hours
+    .filter((weather) => weather.timestamp)
+    .map((weather) => {
+      const result = calculateTrajectory({ ...input, weather });
+      return {
+        time: weather.timestamp!,
+        weather,
+        predictedLanding: result.predictedLanding,
+        horizontalDistance: result.stats.horizontalDistance,
+        landingBearing: result.stats.landingBearing,
+        maxAltitude: result.stats.maxAltitude,
+        safe: isFlightSafe(result),
+      };
+    });
+}
+
+/**
+ * 最適な発射時刻（警告のない時刻のうち着地距離が最短）
+ */
+export function getBestLaunchSlot(slots: LaunchWindowSlot[]): LaunchWindowSlot | undefined {
+  return slots
+    .filter((slot) => slot.safe)
+    .reduce<LaunchWindowSlot | undefined>(
+      (best, slot) => (!best || slot.horizontalDistance < best.horizontalDistance ? slot : best),
+      undefined
+    );
+}
@@ -0,0 +1,68 @@
+/**
+ * モンテカルロ分散解析のワーカー呼び出し
+ */
+
+import type { TrajectoryInput } from './TrajectoryService';
+import type { MonteCarloRequest, MonteCarloResponse } from './monteCarlo.worker';
+import type { DispersionSettings, DispersionResult } from '../../types/dispersion';
+
+/**
+ * 実行中の分散解析
+ */
+export interface MonteCarloJob {
+  promise: Promise<DispersionResult>;
+  cancel: () => void;
+}
+
+/**
+ * Web Workerで分散解析を実行
+ *
+ * @param input - 基準となる軌道計算の入力
+ * @param settings - 分散解析の設定
+ * @param onProgress - 進捗通知（完了数, 総数）
+ */
+export function runMonteCarloInWorker(
+  input: TrajectoryInput,
+  settings: DispersionSettings,
+  onProgress?: (completed: number, total: number) => void
+): MonteCarloJob {
+  const worker = new Worker(new URL('./monteCarlo.worker.ts', import.meta.url), { type: 'module' });
+  let rejectJob: ((reason: Error) => void) | null = null;
+
+  const promise = new Promise<DispersionResult>((resolve, reject) => {
+    rejectJob = reject;
+
+    worker.onmessage = (event: MessageEvent<MonteCarloResponse>) => {
+      const message = event.data;
+      switch (message.type) {
+        case 'progress':
+          onProgress?.(message.completed, message.total);
+          break;
+        case 'result':
+          worker.terminate();
+          resolve(message.result);
+          break;
+        case 'error':
+          worker.terminate();
+          reject(new Error(message.message));
+          break;
+      }
+    };
+
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || '分散解析ワーカーでエラーが発生しました'));
+    };
+
+    const request: MonteCarloRequest = { input, settings };
+    worker.postMessage(request);
+  });
+
+  return {
+    promise,
+    cancel: () => {
+      worker.terminate();
+      rejectJob?.(new Error('分散解析を中止しました'));
+    },
+  };
+}
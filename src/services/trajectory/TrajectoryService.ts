@@ -6,22 +6,54 @@
 
 import { calculateAscent, type AscentInput } from '../../physics/ballistics';
 import { calculateDescent, type DescentInput } from '../../physics/parachute';
+import { calculateAscent6Dof } from '../../physics/sixDof';
+import { calculateStagedAscent, getStageTimings } from '../../physics/staging';
+import { createMotorModel } from '../../physics/motor';
+import { calculateStability } from '../../physics/stability';
+import { createTerrainElevation } from '../../physics/terrain';
+import { createProfileAtmosphere } from '../../physics/atmosphere';
 import {
   createWindProfileFromWeather,
+  getFlightMeanWind,
+  getWindDataCeiling,
   calculateUncertaintyEllipse,
+  createDrydenGust,
+  ROUGHNESS_LENGTHS,
+  type WindGust,
   type WindUncertainty,
   DEFAULT_WIND_UNCERTAINTY,
 } from '../../physics/windEffect';
 import type { RocketParameters } from '../../types/rocket';
+import { getTotalPropellantMass } from '../../types/rocket';
 import type { RecoveryParameters } from '../../types/recovery';
+import { getDeploymentEvents, MAX_SAFE_DEPLOYMENT_VELOCITY } from '../../types/recovery';
+import { MIN_STATIC_MARGIN } from '../../types/stability';
 import type { WeatherData } from '../../types/weather';
+import {
+  formatWeatherAge,
+  getPeakWindSpeed,
+  getTurbulenceIntensity,
+  isWeatherStale,
+  SAFETY_CODE_MAX_WIND_SPEED,
+} from '../../types/weather';
+import type {
+  Distribution,
+  DispersionSettings,
+  DispersionResult,
+} from '../../types/dispersion';
+import { DISPERSION_CONFIDENCE_LEVELS } from '../../types/dispersion';
 import type { LaunchSite, Coordinates } from '../../types/mission';
+import type { ElevationModel } from '../../types/terrain';
 import type {
   TrajectoryResult,
   TrajectoryPoint,
   FlightStats,
+  FlightWarning,
   UncertaintyEllipse,
+  TrajectoryConfig,
+  StageLanding,
 } from '../../types/trajectory';
+import { DEFAULT_TRAJECTORY_CONFIG } from '../../types/trajectory';
 
 /**
  * 軌道計算の入力
@@ -32,6 +64,12 @@ export interface TrajectoryInput {
   launchSite: LaunchSite;
   weather: WeatherData;
   windUncertainty?: WindUncertainty;
+  windGust?: WindGust;          // 平均風に加える突風（分散解析の試行ごとに作成、未指定は平均風のみ）
+  deploymentDelay?: number;     // 展開タイミングのずれ [s]（頂点展開は遅れのみ、モーター放出は前後とも）
+  dragFactor?: number;          // 抗力係数の倍率（分散解析用、推算値・手入力値の両方に適用）
+  terrain?: ElevationModel;     // 地形データ（未指定は発射地点の標高で平坦）
+  maxWeatherAgeHours?: number;  // 取得からこの時間 [h] を過ぎた気象データで計算したら警告（未指定は判定しない）
+  config?: Partial<TrajectoryConfig>;
 }
 
 /**
@@ -45,9 +83,33 @@ export function calculateTrajectory(input: TrajectoryInput): TrajectoryResult {
     weather,
     windUncertainty = DEFAULT_WIND_UNCERTAINTY,
   } = input;
+  const config: TrajectoryConfig = { ...DEFAULT_TRAJECTORY_CONFIG, ...input.config };
+
+  // 数値積分の設定（上昇・降下共通）
+  const integration = {
+    timeStep: config.timeStep,
+    relativeTolerance: config.relativeTolerance,
+    absoluteTolerance: config.absoluteTolerance,
+    outputInterval: config.outputInterval,
+    maxTime: config.maxTime,
+  };
 
-  // 風プロファイルを作成
-  const windProfile = createWindProfileFromWeather(weather);
+  // 風プロファイル・大気モデルを作成（地表付近は地表の種類に応じた対数則、高層気象観測があれば観測値を補間）
+  const windProfile = createWindProfileFromWeather(
+    weather,
+    launchSite.elevation,
+    ROUGHNESS_LENGTHS[launchSite.surfaceType]
+  );
+  const atmosphere = weather.sounding ? createProfileAtmosphere(weather.sounding.levels) : undefined;
+
+  // モーターの放出時刻（最上段の燃焼終了＋遅延）。頂点前に放出される場合はそこで上昇計算を打ち切る
+  const timings = getStageTimings(rocket);
+  const ignitionTime = timings[timings.length - 1].ignitionTime;
+  const burnTime = createMotorModel(rocket).burnTime;
+  const ejectionTime = ignitionTime
+    + Math.max(burnTime, burnTime + rocket.motorDelayTime + (input.deploymentDelay ?? 0));
+  const firstEvent = getDeploymentEvents(recovery)[0];
+  const cutoffTime = firstEvent?.trigger === 'motorEjection' ? ejectionTime : undefined;
 
   // 上昇フェーズ計算
   const ascentInput: AscentInput = {
@@ -57,29 +119,100 @@ export function calculateTrajectory(input: TrajectoryInput): TrajectoryResult {
     launchElevation: launchSite.elevation,
     windSpeed: weather.surfaceWindSpeed,
     windDirection: weather.surfaceWindDirection,
+    windProfile,
+    windGust: input.windGust,
     surfaceTemp: weather.surfaceTemperature,
     surfacePressure: weather.surfacePressure,
+    surfaceHumidity: weather.surfaceHumidity,
+    atmosphere,
+    ...integration,
+    cutoffTime,
+    railLength: launchSite.railLength,
+    dragFactor: input.dragFactor,
   };
 
-  const ascentResult = calculateAscent(ascentInput);
+  const ascentResult = calculateStagedAscent(
+    ascentInput,
+    config.engine === 'sixDof' ? calculateAscent6Dof : calculateAscent
+  );
 
   // 降下フェーズ計算
   const descentInput: DescentInput = {
     recovery,
     rocketMass: rocket.dryMass,
     rocketDiameter: rocket.bodyDiameter,
-    rocketCd: rocket.dragCoefficient,
+    rocketCd: rocket.dragCoefficient * (input.dragFactor ?? 1),
     startPosition: ascentResult.apogee.position,
-    startVelocity: { x: 0, y: 0, z: -0.1 }, // 頂点では鉛直速度ほぼ0
+    startVelocity: ascentResult.apogee.velocity,
     startTime: ascentResult.apogee.time,
+    deploymentDelay: input.deploymentDelay,
+    ejectionTime,
     groundLevel: launchSite.elevation,
+    getTerrainElevation: input.terrain
+      ? createTerrainElevation(input.terrain, launchSite, launchSite.elevation)
+      : undefined,
     getWindAtAltitude: (altitude) => windProfile.getWindAtAltitude(altitude),
+    windGust: input.windGust,
     surfaceTemp: weather.surfaceTemperature,
     surfacePressure: weather.surfacePressure,
+    surfaceHumidity: weather.surfaceHumidity,
+    atmosphere,
+    ...integration,
   };
 
   const descentResult = calculateDescent(descentInput);
 
+  // 切り離した下段の降下（回収装置は分離時に展開）
+  const stageLandings: StageLanding[] = ascentResult.separations.map((separation) => {
+    const stage = rocket.boosters![separation.stageIndex];
+    const stageDescent = calculateDescent({
+      ...descentInput,
+      recovery: stage.recovery,
+      rocketMass: separation.mass,
+      rocketDiameter: stage.bodyDiameter,
+      rocketCd: stage.dragCoefficient * (input.dragFactor ?? 1),
+      startPosition: separation.position,
+      startVelocity: separation.velocity,
+      startTime: separation.time,
+      deploymentDelay: undefined,
+      ejectionTime: separation.time,
+    });
+    const { position } = stageDescent.landing;
+    const stageLanding = positionToCoordinates(launchSite, position.x, position.y);
+    // 分離までの上昇と下段の降下で受けた平均の風の向きに楕円を向ける
+    const stageWind = getFlightMeanWind(
+      [
+        ...ascentResult.trajectoryPoints.filter((point) => point.time < separation.time),
+        ...stageDescent.trajectoryPoints,
+      ],
+      windProfile,
+      launchSite.elevation
+    );
+    const ellipse = calculateUncertaintyEllipse(
+      Math.hypot(position.x, position.y),
+      stageWind.direction,
+      windUncertainty
+    );
+
+    return {
+      name: stage.name,
+      separationTime: separation.time,
+      separationAltitude: separation.position.z - launchSite.elevation,
+      trajectoryPoints: stageDescent.trajectoryPoints,
+      predictedLanding: stageLanding,
+      uncertaintyEllipse: {
+        center: stageLanding,
+        semiMajorAxis: ellipse.semiMajor,
+        semiMinorAxis: ellipse.semiMinor,
+        rotation: ellipse.rotation,
+        confidence: 0.95,
+      },
+      landingTime: stageDescent.landing.time,
+      landingVelocity: stageDescent.landing.velocity,
+      landingElevation: position.z,
+    };
+  });
+
   // 軌道点を結合
   const trajectoryPoints: TrajectoryPoint[] = [
     ...ascentResult.trajectoryPoints,
@@ -104,10 +237,11 @@ export function calculateTrajectory(input: TrajectoryInput): TrajectoryResult {
   const landingBearing = Math.atan2(landingPosition.x, landingPosition.y) * 180 / Math.PI;
   const normalizedBearing = (landingBearing + 360) % 360;
 
-  // 不確実性楕円を計算
+  // 不確実性楕円を計算（飛行全体で受けた平均の風の向き）
+  const flightWind = getFlightMeanWind(trajectoryPoints, windProfile, launchSite.elevation);
   const ellipseParams = calculateUncertaintyEllipse(
     horizontalDistance,
-    weather.surfaceWindDirection,
+    flightWind.direction,
     windUncertainty
   );
 
@@ -119,17 +253,90 @@ export function calculateTrajectory(input: TrajectoryInput): TrajectoryResult {
     confidence: 0.95,
   };
 
+  // 頂点（頂点前に展開した場合は展開後も上昇を続けるため全軌道から探す）
+  const highestPoint = trajectoryPoints.reduce((max, p) => (p.position.z > max.position.z ? p : max));
+  const deployment = descentResult.deployments[0];
+
+  // 静安定（機体形状が設定されている場合のみ）
+  const stability = rocket.geometry
+    ? calculateStability(rocket.geometry, rocket.bodyDiameter, getTotalPropellantMass(rocket))
+    : undefined;
+
   // 飛行統計
   const stats: FlightStats = {
-    maxAltitude: ascentResult.apogee.altitude,
-    apogeeTime: ascentResult.apogee.time,
+    maxAltitude: highestPoint.position.z - launchSite.elevation,
+    apogeeTime: highestPoint.time,
     totalFlightTime: descentResult.landing.time,
     maxVelocity: ascentResult.maxVelocity,
+    maxMach: ascentResult.maxMach,
+    maxDynamicPressure: ascentResult.maxDynamicPressure,
+    railExitTime: ascentResult.railExit?.time,
+    railExitVelocity: ascentResult.railExit?.velocity,
     landingVelocity: descentResult.landing.velocity,
+    landingElevation: landingPosition.z,
     horizontalDistance,
     landingBearing: normalizedBearing,
+    deploymentTime: deployment?.time,
+    deploymentAltitude: deployment?.altitude,
+    deploymentVelocity: deployment?.velocity,
+    peakOpeningForce: deployment
+      ? Math.max(...descentResult.deployments.map((record) => record.peakForce))
+      : undefined,
+    staticMargin: stability
+      ? Math.min(stability.staticMarginWet, stability.staticMarginDry)
+      : undefined,
   };
 
+  // 警告
+  const warnings: FlightWarning[] = [];
+  if (firstEvent && descentResult.deployments.length === 0) {
+    warnings.push({
+      code: 'landedBeforeDeployment',
+      message: '回収装置が展開する前に着地します。遅延時間を見直してください',
+    });
+  }
+  if (stats.railExitVelocity !== undefined && stats.railExitVelocity < launchSite.minRailExitVelocity) {
+    warnings.push({
+      code: 'railExitVelocity',
+      message: `レール離脱速度が${stats.railExitVelocity.toFixed(1)} m/sで下限（${launchSite.minRailExitVelocity} m/s）を下回っています。レールを長くするか推力の大きいモーターを検討してください`,
+    });
+  }
+  if (stats.staticMargin !== undefined && stats.staticMargin < MIN_STATIC_MARGIN) {
+    warnings.push({
+      code: 'lowStabilityMargin',
+      message: `静安定余裕が${stats.staticMargin.toFixed(2)} calで下限（${MIN_STATIC_MARGIN} cal）を下回っています。フィンの拡大や機首側への重り追加を検討してください`,
+    });
+  }
+  const windCeiling = getWindDataCeiling(weather, launchSite.elevation);
+  if (weather.source === 'api' && windCeiling < stats.maxAltitude) {
+    warnings.push({
+      code: 'windForecastBelowApogee',
+      message: `予報の風は発射地点から${windCeiling.toFixed(0)} mまでで、最高高度${stats.maxAltitude.toFixed(0)} mに届きません。それより上は最上層の風で計算しています`,
+    });
+  }
+  if (input.maxWeatherAgeHours !== undefined && isWeatherStale(weather, input.maxWeatherAgeHours)) {
+    warnings.push({
+      code: 'staleWeather',
+      message: `${formatWeatherAge(weather.fetchedAt!)}の古い${weather.source === 'file' ? '観測' : '予報'}に基づく予測です（${input.maxWeatherAgeHours}時間を超過）。気象データを取り直してください`,
+    });
+  }
+  const peakWind = getPeakWindSpeed(weather);
+  if (peakWind > SAFETY_CODE_MAX_WIND_SPEED) {
+    warnings.push({
+      code: 'windSpeedLimit',
+      message: `${weather.surfaceGustSpeed !== undefined ? '最大瞬間風速' : '風速'}が${peakWind.toFixed(1)} m/sで安全規定の上限（${SAFETY_CODE_MAX_WIND_SPEED} m/s）を超えています。風が弱まるまで打ち上げを見合わせてください`,
+    });
+  }
+  // 高度計で開く展開（デュアルデプロイのメイン）はドローグ降下中のため、遅延で決まる展開だけを見る
+  for (const record of descentResult.deployments) {
+    if (record.trigger !== 'altitude' && record.velocity > MAX_SAFE_DEPLOYMENT_VELOCITY) {
+      warnings.push({
+        code: 'deploymentVelocity',
+        message: `展開時の速度が${record.velocity.toFixed(1)} m/sで安全上限（${MAX_SAFE_DEPLOYMENT_VELOCITY} m/s）を超えています。遅延時間を見直してください`,
+      });
+    }
+  }
+
   return {
     trajectoryPoints,
     predictedLanding,
@@ -139,14 +346,17 @@ export function calculateTrajectory(input: TrajectoryInput): TrajectoryResult {
       latitude: launchSite.latitude,
       longitude: launchSite.longitude,
     },
+    motorId: rocket.motorId,
+    warnings,
+    stageLandings,
   };
 }
 
 /**
  * ローカル座標（x: 東, y: 北）を地理座標に変換
  */
-function positionToCoordinates(
-  origin: LaunchSite,
+export function positionToCoordinates(
+  origin: Coordinates,
   x: number,
   y: number
 ): Coordinates {
@@ -165,7 +375,7 @@ function positionToCoordinates(
  * 地理座標をローカル座標に変換
  */
 export function coordinatesToPosition(
-  origin: LaunchSite,
+  origin: Coordinates,
   coords: Coordinates
 ): { x: number; y: number } {
   const metersPerDegreeLat = 111320;
@@ -176,3 +386,232 @@ export function coordinatesToPosition(
     y: (coords.latitude - origin.latitude) * metersPerDegreeLat,
   };
 }
+
+/**
+ * 乱数生成器（mulberry32、シードが同じなら同じ系列）
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * 分布から誤差をサンプリング（平均0）
+ */
+function sampleDistribution(distribution: Distribution, random: () => number): number {
+  switch (distribution.type) {
+    case 'normal': {
+      // Box–Muller法
+      const u1 = Math.max(random(), Number.EPSILON);
+      const u2 = random();
+      return distribution.spread * Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+    }
+    case 'uniform':
+      return distribution.spread * (2 * random() - 1);
+    case 'none':
+    default:
+      return 0;
+  }
+}
+
+/**
+ * 入力に誤差を加えた1試行分の入力を作成
+ */
+function perturbTrajectoryInput(
+  input: TrajectoryInput,
+  settings: DispersionSettings,
+  random: () => number
+): TrajectoryInput {
+  const { rocket, launchSite, weather } = input;
+
+  // 風: 全高度で同じ倍率・同じ向きのずれ
+  const windFactor = Math.max(0, 1 + sampleDistribution(settings.windSpeed, random));
+  const windShift = sampleDistribution(settings.windDirection, random);
+  const perturbedWeather: WeatherData = {
+    ...weather,
+    surfaceWindSpeed: weather.surfaceWindSpeed * windFactor,
+    surfaceWindDirection: (weather.surfaceWindDirection + windShift + 360) % 360,
+    windLayers: weather.windLayers?.map((layer) => ({
+      ...layer,
+      windSpeed: layer.windSpeed * windFactor,
+      windDirection: (layer.windDirection + windShift + 360) % 360,
+    })),
+    sounding: weather.sounding && {
+      ...weather.sounding,
+      levels: weather.sounding.levels.map((level) => ({
+        ...level,
+        windSpeed: level.windSpeed !== undefined ? level.windSpeed * windFactor : undefined,
+        windDirection: level.windDirection !== undefined
+          ? (level.windDirection + windShift + 360) % 360
+          : undefined,
+      })),
+    },
+  };
+
+  // 突風: 乱流強度があれば試行ごとに別の突風を平均風に加える
+  const turbulenceIntensity = getTurbulenceIntensity(weather);
+  const windGust = turbulenceIntensity > 0
+    ? createDrydenGust(
+      perturbedWeather.surfaceWindSpeed,
+      perturbedWeather.surfaceWindDirection,
+      turbulenceIntensity,
+      random
+    )
+    : undefined;
+
+  // 発射角度: 鉛直を越えた場合は反対方位に傾ける
+  let launchAngle = launchSite.launchAngle + sampleDistribution(settings.launchAngle, random);
+  let launchAzimuth = launchSite.launchAzimuth + sampleDistribution(settings.launchAzimuth, random);
+  if (launchAngle > 90) {
+    launchAngle = 180 - launchAngle;
+    launchAzimuth += 180;
+  }
+
+  // 機体・モーター
+  const cdFactor = Math.max(0.1, 1 + sampleDistribution(settings.dragCoefficient, random));
+  const impulseFactor = Math.max(0.1, 1 + sampleDistribution(settings.motorImpulse, random));
+  const perturbedRocket: RocketParameters = {
+    ...rocket,
+    motorTotalImpulse: rocket.motorTotalImpulse * impulseFactor,
+    thrustCurve: rocket.thrustCurve?.map((p) => ({ time: p.time, thrust: p.thrust * impulseFactor })),
+    boosters: rocket.boosters?.map((stage) => ({
+      ...stage,
+      motorTotalImpulse: stage.motorTotalImpulse * impulseFactor,
+      thrustCurve: stage.thrustCurve?.map((p) => ({ time: p.time, thrust: p.thrust * impulseFactor })),
+    })),
+  };
+
+  // 展開タイミング（頂点展開では負の値は頂点で展開とみなす）
+  const deploymentDelay = (input.deploymentDelay ?? 0) + sampleDistribution(settings.deploymentDelay, random);
+
+  return {
+    ...input,
+    rocket: perturbedRocket,
+    launchSite: {
+      ...launchSite,
+      launchAngle,
+      launchAzimuth: (launchAzimuth + 360) % 360,
+    },
+    weather: perturbedWeather,
+    windGust,
+    deploymentDelay,
+    dragFactor: (input.dragFactor ?? 1) * cdFactor,
+  };
+}
+
+/**
+ * 共分散行列から指定信頼度の楕円を計算
+ *
+ * 2次元正規分布を仮定し、χ²(2自由度)分位点 k² = -2 ln(1 - p) で主軸を拡大
+ */
+export function calculateCovarianceEllipse(
+  covariance: { xx: number; xy: number; yy: number },
+  center: Coordinates,
+  confidence: number
+): UncertaintyEllipse {
+  const { xx, xy, yy } = covariance;
+
+  // 固有値
+  const halfTrace = (xx + yy) / 2;
+  const discriminant = Math.sqrt(Math.max(0, halfTrace * halfTrace - (xx * yy - xy * xy)));
+  const majorVariance = halfTrace + discriminant;
+  const minorVariance = Math.max(0, halfTrace - discriminant);
+
+  // 長軸方向の固有ベクトル（x: 東, y: 北）
+  let east: number;
+  let north: number;
+  if (Math.abs(xy) > 1e-12) {
+    east = majorVariance - yy;
+    north = xy;
+  } else if (xx >= yy) {
+    east = 1;
+    north = 0;
+  } else {
+    east = 0;
+    north = 1;
+  }
+  const rotation = ((Math.atan2(east, north) * 180 / Math.PI) + 360) % 180;
+
+  const k = Math.sqrt(-2 * Math.log(1 - confidence));
+
+  return {
+    center,
+    semiMajorAxis: k * Math.sqrt(majorVariance),
+    semiMinorAxis: k * Math.sqrt(minorVariance),
+    rotation,
+    confidence,
+  };
+}
+
+/**
+ * モンテカルロ分散解析
+ *
+ * 各入力に誤差を与えた軌道計算をN回行い、着地点の散布と共分散楕円を求める
+ *
+ * @param input - 基準となる軌道計算の入力
+ * @param settings - 試行回数と各入力の誤差分布
+ * @param onProgress - 進捗通知（完了数, 総数）
+ */
+export function runMonteCarloDispersion(
+  input: TrajectoryInput,
+  settings: DispersionSettings,
+  onProgress?: (completed: number, total: number) => void
+): DispersionResult {
+  const random = createRandom(settings.seed);
+  const positions: { x: number; y: number }[] = [];
+  const landingPoints: Coordinates[] = [];
+  let failedRuns = 0;
+  let firstError: unknown;
+
+  for (let i = 0; i < settings.runs; i++) {
+    const trial = perturbTrajectoryInput(input, settings, random);
+    try {
+      const result = calculateTrajectory(trial);
+      landingPoints.push(result.predictedLanding);
+      positions.push(coordinatesToPosition(input.launchSite, result.predictedLanding));
+    } catch (error) {
+      // 計算できなかった試行は除外（最初の原因は結果が足りないときに伝える）
+      failedRuns++;
+      firstError ??= error;
+    }
+    onProgress?.(i + 1, settings.runs);
+  }
+
+  if (positions.length < 2) {
+    const cause = firstError instanceof Error ? `: ${firstError.message}` : '';
+    throw new Error(`分散解析に必要な試行結果が得られませんでした（${failedRuns}回失敗）${cause}`);
+  }
+
+  // 平均と標本共分散
+  const n = positions.length;
+  const meanX = positions.reduce((sum, p) => sum + p.x, 0) / n;
+  const meanY = positions.reduce((sum, p) => sum + p.y, 0) / n;
+  let xx = 0, xy = 0, yy = 0;
+  for (const p of positions) {
+    const dx = p.x - meanX;
+    const dy = p.y - meanY;
+    xx += dx * dx;
+    xy += dx * dy;
+    yy += dy * dy;
+  }
+  const covariance = { xx: xx / (n - 1), xy: xy / (n - 1), yy: yy / (n - 1) };
+
+  const meanLanding = positionToCoordinates(input.launchSite, meanX, meanY);
+
+  return {
+    runs: n,
+    failedRuns,
+    landingPoints,
+    meanLanding,
+    covariance,
+    ellipses: DISPERSION_CONFIDENCE_LEVELS.map((confidence) =>
+      calculateCovarianceEllipse(covariance, meanLanding, confidence)
+    ),
+  };
+}
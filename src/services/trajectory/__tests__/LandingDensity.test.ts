@@ -0,0 +1,101 @@
+/**
+ * 着地点密度分布のユニットテスト
+ */
+
+import { describe, it, expect } from 'vitest';
+import { calculateLandingDensity } from '../LandingDensity';
+import { positionToCoordinates } from '../TrajectoryService';
+import type { Coordinates } from '../../../types/mission';
+
+const origin: Coordinates = { latitude: 35.6762, longitude: 139.6503 };
+
+// 決定的な擬似正規乱数（テスト用）
+function gaussianPoints(count: number, sigmaX: number, sigmaY: number): Coordinates[] {
+  let seed = 12345;
+  const random = () => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return (seed + 1) / 2147483649;
+  };
+  return Array.from({ length: count }, () => {
+    const u1 = random();
+    const u2 = random();
+    const radius = Math.sqrt(-2 * Math.log(u1));
+    return positionToCoordinates(
+      origin,
+      sigmaX * radius * Math.cos(2 * Math.PI * u2),
+      sigmaY * radius * Math.sin(2 * Math.PI * u2)
+    );
+  });
+}
+
+describe('LandingDensity', () => {
+  it('returns an empty density for no points', () => {
+    const density = calculateLandingDensity([]);
+    expect(density.bins).toHaveLength(0);
+    expect(density.contours).toHaveLength(0);
+  });
+
+  it('puts coincident points into a single bin', () => {
+    const density = calculateLandingDensity([origin, origin, origin], { cellSize: 10 });
+    expect(density.bins).toHaveLength(1);
+    expect(density.bins[0].count).toBe(3);
+    expect(density.bins[0].probability).toBe(1);
+    expect(density.bins[0].vertices).toHaveLength(6);
+  });
+
+  it('bin probabilities sum to one', () => {
+    const density = calculateLandingDensity(gaussianPoints(500, 50, 50));
+    const total = density.bins.reduce((sum, b) => sum + b.probability, 0);
+    expect(total).toBeCloseTo(1, 10);
+    expect(density.totalPoints).toBe(500);
+  });
+
+  it('separates points in neighbouring cells', () => {
+    const points = [
+      origin,
+      positionToCoordinates(origin, 30, 0),
+      positionToCoordinates(origin, 0, 30),
+    ];
+    const density = calculateLandingDensity(points, { cellSize: 10, origin });
+    expect(density.bins).toHaveLength(3);
+  });
+
+  it('probability regions are nested and cover at least their probability', () => {
+    const density = calculateLandingDensity(gaussianPoints(1000, 80, 40));
+    const [c50, c90, c99] = density.contours;
+
+    expect(c50.area).toBeLessThan(c90.area);
+    expect(c90.area).toBeLessThan(c99.area);
+
+    for (const contour of density.contours) {
+      const covered = density.bins
+        .filter((b) => b.level !== null && b.level <= contour.probability)
+        .reduce((sum, b) => sum + b.probability, 0);
+      expect(covered).toBeGreaterThanOrEqual(contour.probability - 1e-9);
+      expect(contour.segments.length).toBeGreaterThan(0);
+    }
+  });
+
+  it('a single cell region is outlined by six edges', () => {
+    const density = calculateLandingDensity([origin, origin], { cellSize: 10, levels: [0.5] });
+    expect(density.contours[0].segments).toHaveLength(6);
+    expect(density.contours[0].area).toBeCloseTo(1.5 * Math.sqrt(3) * 100, 6);
+  });
+
+  it('interior edges between adjacent cells are not part of the contour', () => {
+    // 東隣の2セルで1つの領域
+    const points = [origin, positionToCoordinates(origin, 10 * Math.sqrt(3), 0)];
+    const density = calculateLandingDensity(points, { cellSize: 10, origin, levels: [0.99] });
+    expect(density.bins).toHaveLength(2);
+    expect(density.contours[0].segments).toHaveLength(10);
+  });
+
+  it('50% region is near the centre of the scatter', () => {
+    const density = calculateLandingDensity(gaussianPoints(1000, 60, 60));
+    const core = density.bins.filter((b) => b.level === 0.5);
+    for (const bin of core) {
+      const dLat = (bin.center.latitude - origin.latitude) * 111320;
+      expect(Math.abs(dLat)).toBeLessThan(150);
+    }
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * ローンチウィンドウ解析のユニットテスト
+ */
+
+import { describe, it, expect } from 'vitest';
+import { calculateLaunchWindow, getBestLaunchSlot } from '../LaunchWindow';
+import { calculateTrajectory, type TrajectoryInput } from '../TrajectoryService';
+import { DEFAULT_ROCKET_PARAMS } from '../../../types/rocket';
+import { DEFAULT_RECOVERY_PARAMS } from '../../../types/recovery';
+import { DEFAULT_LAUNCH_SITE } from '../../../types/mission';
+import { DEFAULT_WEATHER_DATA, type WeatherData } from '../../../types/weather';
+import type { LaunchWindowSlot } from '../../../types/trajectory';
+
+const baseInput: TrajectoryInput = {
+  rocket: DEFAULT_ROCKET_PARAMS,
+  recovery: DEFAULT_RECOVERY_PARAMS,
+  launchSite: DEFAULT_LAUNCH_SITE,
+  weather: DEFAULT_WEATHER_DATA,
+};
+
+// 9時から1時間ごとに西風が強まる予報
+const forecastHour = (hour: number, windSpeed: number): WeatherData => ({
+  ...DEFAULT_WEATHER_DATA,
+  surfaceWindSpeed: windSpeed,
+  surfaceWindDirection: 270,
+  source: 'api',
+  timestamp: new Date(Date.UTC(2025, 4, 1, hour)),
+});
+
+describe('LaunchWindow', () => {
+  describe('calculateLaunchWindow', () => {
+    const hours = [forecastHour(9, 1), forecastHour(10, 4), forecastHour(11, 8)];
+
+    it('simulates each forecast hour with its own weather', () => {
+      const slots = calculateLaunchWindow(baseInput, hours);
+
+      expect(slots.map((s) => s.time)).toEqual(hours.map((h) => h.timestamp));
+      const single = calculateTrajectory({ ...baseInput, weather: hours[1] });
+      expect(slots[1].predictedLanding.longitude).toBeCloseTo(single.predictedLanding.longitude, 9);
+      expect(slots[1].horizontalDistance).toBeCloseTo(single.stats.horizontalDistance, 6);
+    });
+
+    it('drifts further downwind as the wind picks up', () => {
+      const slots = calculateLaunchWindow(baseInput, hours);
+
+      expect(slots[2].horizontalDistance).toBeGreaterThan(slots[1].horizontalDistance);
+      expect(slots[2].predictedLanding.longitude).toBeGreaterThan(slots[0].predictedLanding.longitude);
+    });
+
+    it('skips hours without a time', () => {
+      expect(calculateLaunchWindow(baseInput, [DEFAULT_WEATHER_DATA])).toHaveLength(0);
+    });
+  });
+
+  describe('getBestLaunchSlot', () => {
+    const slot = (horizontalDistance: number, safe: boolean): LaunchWindowSlot => ({
+      time: new Date(0),
+      weather: DEFAULT_WEATHER_DATA,
+      predictedLanding: { latitude: 35, longitude: 139 },
+      horizontalDistance,
+      landingBearing: 0,
+      maxAltitude: 100,
+      safe,
+    });
+
+    it('picks the shortest drift among safe hours', () => {
+      const slots = [slot(120, true), slot(40, false), slot(80, true)];
+      expect(getBestLaunchSlot(slots)).toBe(slots[2]);
+    });
+
+    it('returns undefined when no hour is safe', () => {
+      expect(getBestLaunchSlot([slot(40, false)])).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * モンテカルロ分散解析のユニットテスト
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  calculateTrajectory,
+  calculateCovarianceEllipse,
+  runMonteCarloDispersion,
+  coordinatesToPosition,
+  type TrajectoryInput,
+} from '../TrajectoryService';
+import { DEFAULT_ROCKET_PARAMS } from '../../../types/rocket';
+import { DEFAULT_RECOVERY_PARAMS } from '../../../types/recovery';
+import { DEFAULT_LAUNCH_SITE } from '../../../types/mission';
+import { DEFAULT_DISPERSION_SETTINGS, type DispersionSettings } from '../../../types/dispersion';
+
+const baseInput: TrajectoryInput = {
+  rocket: DEFAULT_ROCKET_PARAMS,
+  recovery: DEFAULT_RECOVERY_PARAMS,
+  launchSite: DEFAULT_LAUNCH_SITE,
+  weather: {
+    surfaceWindSpeed: 4,
+    surfaceWindDirection: 270,
+    windReferenceHeight: 10,
+    surfaceTemperature: 15,
+    surfacePressure: 1013.25,
+    source: 'manual',
+  },
+};
+
+const noDispersion: DispersionSettings = {
+  runs: 20,
+  seed: 1,
+  windSpeed: { type: 'none', spread: 0 },
+  windDirection: { type: 'none', spread: 0 },
+  launchAngle: { type: 'none', spread: 0 },
+  launchAzimuth: { type: 'none', spread: 0 },
+  dragCoefficient: { type: 'none', spread: 0 },
+  motorImpulse: { type: 'none', spread: 0 },
+  deploymentDelay: { type: 'none', spread: 0 },
+};
+
+describe('MonteCarlo', () => {
+  describe('calculateCovarianceEllipse', () => {
+    const center = { latitude: 35, longitude: 139 };
+
+    it('aligns the major axis with the larger variance', () => {
+      const eastWest = calculateCovarianceEllipse({ xx: 100, xy: 0, yy: 25 }, center, 0.9);
+      expect(eastWest.rotation).toBeCloseTo(90, 6);
+      expect(eastWest.semiMajorAxis).toBeGreaterThan(eastWest.semiMinorAxis);
+
+      const northSouth = calculateCovarianceEllipse({ xx: 25, xy: 0, yy: 100 }, center, 0.9);
+      expect(northSouth.rotation).toBeCloseTo(0, 6);
+    });
+
+    it('handles correlated axes', () => {
+      // 北東-南西方向に伸びた分布
+      const ellipse = calculateCovarianceEllipse({ xx: 50, xy: 40, yy: 50 }, center, 0.5);
+      expect(ellipse.rotation).toBeCloseTo(45, 6);
+      expect(ellipse.semiMajorAxis / ellipse.semiMinorAxis).toBeCloseTo(3, 6);
+    });
+
+    it('scales with the chi-square quantile', () => {
+      const cov = { xx: 100, xy: 0, yy: 100 };
+      const e50 = calculateCovarianceEllipse(cov, center, 0.5);
+      const e99 = calculateCovarianceEllipse(cov, center, 0.99);
+      // k = sqrt(-2 ln(1-p))
+      expect(e50.semiMajorAxis).toBeCloseTo(10 * Math.sqrt(-2 * Math.log(0.5)), 6);
+      expect(e99.semiMajorAxis).toBeCloseTo(10 * Math.sqrt(-2 * Math.log(0.01)), 6);
+    });
+  });
+
+  describe('runMonteCarloDispersion', () => {
+    it('collapses to the nominal landing without dispersion', () => {
+      const nominal = calculateTrajectory(baseInput);
+      const result = runMonteCarloDispersion(baseInput, noDispersion);
+
+      expect(result.runs).toBe(20);
+      expect(result.meanLanding.latitude).toBeCloseTo(nominal.predictedLanding.latitude, 8);
+      expect(result.meanLanding.longitude).toBeCloseTo(nominal.predictedLanding.longitude, 8);
+      expect(result.ellipses[0].semiMajorAxis).toBeCloseTo(0, 6);
+    });
+
+    it('counts no failed trials when every run succeeds', () => {
+      const result = runMonteCarloDispersion(baseInput, noDispersion);
+      expect(result.failedRuns).toBe(0);
+    });
+
+    it('surfaces the cause when too few trials succeed', () => {
+      // 形状なしの6自由度計算は全試行で失敗する
+      const input: TrajectoryInput = { ...baseInput, config: { engine: 'sixDof' } };
+      expect(() => runMonteCarloDispersion(input, noDispersion)).toThrow(
+        /20回失敗.*6自由度計算には機体形状の設定が必要です/,
+      );
+    });
+
+    it('spreads the landings with gusts even without input dispersion', () => {
+      const gusty = runMonteCarloDispersion(
+        { ...baseInput, weather: { ...baseInput.weather, surfaceGustSpeed: 9 } },
+        noDispersion
+      );
+      expect(gusty.ellipses[1].semiMajorAxis).toBeGreaterThan(1);
+    });
+
+    it('returns landing scatter and 50/90/99% ellipses', () => {
+      const result = runMonteCarloDispersion(baseInput, { ...DEFAULT_DISPERSION_SETTINGS, runs: 50 });
+
+      expect(result.landingPoints).toHaveLength(50);
+      expect(result.ellipses.map((e) => e.confidence)).toEqual([0.5, 0.9, 0.99]);
+      expect(result.ellipses[1].semiMajorAxis).toBeGreaterThan(result.ellipses[0].semiMajorAxis);
+      expect(result.ellipses[2].semiMajorAxis).toBeGreaterThan(result.ellipses[1].semiMajorAxis);
+    });
+
+    it('90% ellipse contains roughly 90% of the landings', () => {
+      const result = runMonteCarloDispersion(baseInput, { ...DEFAULT_DISPERSION_SETTINGS, runs: 300 });
+      const ellipse = result.ellipses[1];
+      const center = coordinatesToPosition(DEFAULT_LAUNCH_SITE, result.meanLanding);
+      const rot = ellipse.rotation * Math.PI / 180;
+
+      const inside = result.landingPoints.filter((point) => {
+        const p = coordinatesToPosition(DEFAULT_LAUNCH_SITE, point);
+        const dx = p.x - center.x;
+        const dy = p.y - center.y;
+        // 長軸方向（方位rot）と短軸方向に射影
+        const major = dx * Math.sin(rot) + dy * Math.cos(rot);
+        const minor = dx * Math.cos(rot) - dy * Math.sin(rot);
+        return (major / ellipse.semiMajorAxis) ** 2 + (minor / ellipse.semiMinorAxis) ** 2 <= 1;
+      }).length;
+
+      const ratio = inside / result.landingPoints.length;
+      expect(ratio).toBeGreaterThan(0.8);
+      expect(ratio).toBeLessThan(0.97);
+    });
+
+    it('is reproducible with the same seed', () => {
+      const settings = { ...DEFAULT_DISPERSION_SETTINGS, runs: 10 };
+      const a = runMonteCarloDispersion(baseInput, settings);
+      const b = runMonteCarloDispersion(baseInput, settings);
+      expect(a.landingPoints).toEqual(b.landingPoints);
+    });
+
+    it('reports progress', () => {
+      const progress: number[] = [];
+      runMonteCarloDispersion(baseInput, { ...noDispersion, runs: 5 }, (completed) => progress.push(completed));
+      expect(progress).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it('deployment delay spreads landings further downwind', () => {
+      const delayed = runMonteCarloDispersion(baseInput, {
+        ...noDispersion,
+        runs: 30,
+        deploymentDelay: { type: 'uniform', spread: 3 },
+      });
+      const { xx, yy } = delayed.covariance;
+      expect(xx + yy).toBeGreaterThan(0);
+    });
+  });
+});
@@ -0,0 +1,375 @@
+/**
+ * 軌道計算サービスのユニットテスト
+ */
+
+import { describe, it, expect } from 'vitest';
+import { calculateTrajectory, type TrajectoryInput } from '../TrajectoryService';
+import { DEFAULT_ROCKET_PARAMS, DEFAULT_ROCKET_STAGE } from '../../../types/rocket';
+import { DEFAULT_RECOVERY_PARAMS, DEFAULT_DUAL_DEPLOY_EVENTS } from '../../../types/recovery';
+import { DEFAULT_LAUNCH_SITE } from '../../../types/mission';
+import { DEFAULT_WEATHER_DATA } from '../../../types/weather';
+import { DEFAULT_ROCKET_GEOMETRY } from '../../../types/stability';
+import { isFlightSafe, getRecoveryTargets } from '../../../types/trajectory';
+import type { ElevationModel } from '../../../types/terrain';
+import type { AtmosphericSounding } from '../../../types/weather';
+
+const baseInput: TrajectoryInput = {
+  rocket: DEFAULT_ROCKET_PARAMS,
+  recovery: DEFAULT_RECOVERY_PARAMS,
+  launchSite: DEFAULT_LAUNCH_SITE,
+  weather: DEFAULT_WEATHER_DATA,
+};
+
+// 形状を入力した機体（安定性・推算 Cd・6自由度計算用）
+const withGeometry: TrajectoryInput = {
+  ...baseInput,
+  rocket: { ...DEFAULT_ROCKET_PARAMS, geometry: DEFAULT_ROCKET_GEOMETRY },
+};
+
+const withDelay = (motorDelayTime: number): TrajectoryInput => ({
+  ...baseInput,
+  rocket: { ...DEFAULT_ROCKET_PARAMS, motorDelayTime },
+});
+
+describe('TrajectoryService', () => {
+  describe('motor ejection delay', () => {
+    it('deploys at burnout plus delay', () => {
+      const result = calculateTrajectory(withDelay(3));
+      expect(result.stats.deploymentTime).toBeCloseTo(DEFAULT_ROCKET_PARAMS.motorBurnTime + 3, 6);
+    });
+
+    it('early ejection deploys while still climbing', () => {
+      const early = calculateTrajectory(withDelay(1));
+      const nominal = calculateTrajectory(withDelay(4));
+
+      expect(early.stats.deploymentTime!).toBeLessThan(early.stats.apogeeTime);
+      expect(early.stats.deploymentAltitude!).toBeLessThan(early.stats.maxAltitude);
+      expect(early.stats.maxAltitude).toBeLessThan(nominal.stats.maxAltitude);
+      expect(early.stats.deploymentVelocity!).toBeGreaterThan(nominal.stats.deploymentVelocity!);
+    });
+
+    it('late ejection falls ballistically before deployment', () => {
+      const late = calculateTrajectory(withDelay(6));
+      const nominal = calculateTrajectory(withDelay(4));
+
+      expect(late.stats.deploymentTime!).toBeGreaterThan(late.stats.apogeeTime);
+      expect(late.stats.deploymentAltitude!).toBeLessThan(nominal.stats.deploymentAltitude!);
+      expect(late.stats.deploymentVelocity!).toBeGreaterThan(nominal.stats.deploymentVelocity!);
+    });
+
+    it('warns when deployment speed is excessive', () => {
+      expect(calculateTrajectory(withDelay(4)).warnings).toHaveLength(0);
+
+      const warnings = calculateTrajectory(withDelay(0)).warnings;
+      expect(warnings.map((w) => w.code)).toContain('deploymentVelocity');
+    });
+
+    it('warns when the rocket lands before ejection', () => {
+      const result = calculateTrajectory(withDelay(30));
+      expect(result.stats.deploymentTime).toBeUndefined();
+      expect(result.warnings.map((w) => w.code)).toContain('landedBeforeDeployment');
+    });
+
+    it('altimeter-triggered dual deploy ignores the motor delay', () => {
+      const input = (motorDelayTime: number): TrajectoryInput => ({
+        ...withDelay(motorDelayTime),
+        recovery: { method: 'dualDeploy', deployments: DEFAULT_DUAL_DEPLOY_EVENTS },
+      });
+      const a = calculateTrajectory(input(1));
+      const b = calculateTrajectory(input(8));
+
+      expect(a.stats.deploymentTime).toBeCloseTo(a.stats.apogeeTime, 6);
+      expect(a.predictedLanding.latitude).toBeCloseTo(b.predictedLanding.latitude, 9);
+    });
+
+    it('does not flag the altitude-triggered main opening under the drogue', () => {
+      const result = calculateTrajectory({
+        ...baseInput,
+        rocket: {
+          ...DEFAULT_ROCKET_PARAMS,
+          dryMass: 4,
+          propellantMass: 0.3,
+          motorTotalImpulse: 600,
+          motorBurnTime: 2,
+          bodyDiameter: 0.1,
+        },
+        recovery: { method: 'dualDeploy', deployments: DEFAULT_DUAL_DEPLOY_EVENTS },
+      });
+      const main = result.trajectoryPoints.find((p) => p.phase === 'main');
+
+      expect(main).toBeDefined();
+      expect(Math.hypot(main!.velocity.x, main!.velocity.y, main!.velocity.z)).toBeGreaterThan(20);
+      expect(result.warnings.map((w) => w.code)).not.toContain('deploymentVelocity');
+    });
+
+    it('freefall reports no deployment', () => {
+      const result = calculateTrajectory({ ...baseInput, recovery: { method: 'freefall' } });
+      expect(result.stats.deploymentAltitude).toBeUndefined();
+      expect(result.warnings).toHaveLength(0);
+    });
+  });
+
+  describe('stability', () => {
+    it('reports the static margin and stays safe for the default geometry', () => {
+      const result = calculateTrajectory(withGeometry);
+      expect(result.stats.staticMargin).toBeGreaterThan(1);
+      expect(isFlightSafe(result)).toBe(true);
+    });
+
+    it('blocks the safe flag when the margin is under one caliber', () => {
+      const result = calculateTrajectory({
+        ...baseInput,
+        rocket: {
+          ...DEFAULT_ROCKET_PARAMS,
+          geometry: { ...DEFAULT_ROCKET_GEOMETRY, finSet: { ...DEFAULT_ROCKET_GEOMETRY.finSet, span: 0.01 } },
+        },
+      });
+      expect(result.stats.staticMargin).toBeLessThan(1);
+      expect(result.warnings.map((w) => w.code)).toContain('lowStabilityMargin');
+      expect(isFlightSafe(result)).toBe(false);
+    });
+
+    it('skips stability without geometry', () => {
+      const result = calculateTrajectory(baseInput);
+      expect(result.stats.staticMargin).toBeUndefined();
+    });
+  });
+
+  describe('launch rail', () => {
+    it('reports rail exit in the flight stats', () => {
+      const result = calculateTrajectory(baseInput);
+      expect(result.stats.railExitTime).toBeGreaterThan(0);
+      expect(result.stats.railExitVelocity).toBeGreaterThan(DEFAULT_LAUNCH_SITE.minRailExitVelocity);
+    });
+
+    it('warns when rail exit velocity is below the minimum', () => {
+      const result = calculateTrajectory({
+        ...baseInput,
+        launchSite: { ...DEFAULT_LAUNCH_SITE, railLength: 0.5 },
+      });
+      expect(result.warnings.map((w) => w.code)).toContain('railExitVelocity');
+      expect(isFlightSafe(result)).toBe(false);
+    });
+  });
+
+  describe('flight engine', () => {
+    it('uses the point-mass model by default', () => {
+      const result = calculateTrajectory(baseInput);
+      expect(result.trajectoryPoints[0].orientation).toBeUndefined();
+    });
+
+    it('outputs attitude with the 6-DOF model', () => {
+      const result = calculateTrajectory({ ...withGeometry, config: { engine: 'sixDof' } });
+      const ascent = result.trajectoryPoints.filter((p) => p.phase === 'thrust' || p.phase === 'coast');
+
+      expect(ascent.every((p) => p.orientation)).toBe(true);
+      expect(result.stats.maxAltitude).toBeCloseTo(calculateTrajectory(withGeometry).stats.maxAltitude, -1);
+    });
+  });
+
+  describe('multi-stage', () => {
+    const staged: TrajectoryInput = {
+      ...baseInput,
+      rocket: { ...DEFAULT_ROCKET_PARAMS, boosters: [DEFAULT_ROCKET_STAGE] },
+    };
+
+    it('predicts a separate landing for the spent booster', () => {
+      const result = calculateTrajectory(staged);
+      const [booster] = result.stageLandings;
+
+      expect(result.stageLandings).toHaveLength(1);
+      expect(booster.name).toBe(DEFAULT_ROCKET_STAGE.name);
+      expect(booster.separationAltitude).toBeGreaterThan(0);
+      expect(booster.landingTime).toBeLessThan(result.stats.totalFlightTime);
+      expect(booster.trajectoryPoints[0].time).toBeGreaterThanOrEqual(booster.separationTime);
+    });
+
+    it('delays the ejection by the upper stage ignition', () => {
+      const result = calculateTrajectory(staged);
+      const ignition = DEFAULT_ROCKET_STAGE.motorBurnTime;
+      expect(result.stats.deploymentTime).toBeCloseTo(
+        ignition + DEFAULT_ROCKET_PARAMS.motorBurnTime + DEFAULT_ROCKET_PARAMS.motorDelayTime,
+        6
+      );
+    });
+
+    it('lists every piece as a recovery target', () => {
+      const targets = getRecoveryTargets(calculateTrajectory(staged));
+      expect(targets.map((t) => t.name)).toEqual(['最上段', DEFAULT_ROCKET_STAGE.name]);
+      expect(getRecoveryTargets(calculateTrajectory(baseInput))).toHaveLength(1);
+    });
+  });
+
+  describe('terrain', () => {
+    // 発射地点を囲む一様な高さ60mの地形
+    const plateau: ElevationModel = {
+      name: 'plateau',
+      west: DEFAULT_LAUNCH_SITE.longitude - 0.1,
+      east: DEFAULT_LAUNCH_SITE.longitude + 0.1,
+      south: DEFAULT_LAUNCH_SITE.latitude - 0.1,
+      north: DEFAULT_LAUNCH_SITE.latitude + 0.1,
+      width: 3,
+      height: 3,
+      elevations: new Float32Array(9).fill(60),
+    };
+
+    it('lands at the launch elevation without terrain', () => {
+      const result = calculateTrajectory(baseInput);
+      expect(result.stats.landingElevation).toBe(DEFAULT_LAUNCH_SITE.elevation);
+    });
+
+    it('lands on the terrain elevation', () => {
+      const flat = calculateTrajectory(baseInput);
+      const result = calculateTrajectory({ ...baseInput, terrain: plateau });
+
+      expect(result.stats.landingElevation).toBeCloseTo(60, 6);
+      expect(result.stats.totalFlightTime).toBeLessThan(flat.stats.totalFlightTime);
+    });
+  });
+
+  describe('atmospheric sounding', () => {
+    const sounding = (temperatureOffset: number, windSpeed?: number): AtmosphericSounding => ({
+      name: 'sonde.csv',
+      levels: [
+        { altitude: 0, temperature: 15 + temperatureOffset, pressure: 1013.25 },
+        { altitude: 100, temperature: 14.35 + temperatureOffset, pressure: 1001.3, windSpeed, windDirection: 0 },
+        { altitude: 1000, temperature: 8.5 + temperatureOffset, pressure: 898.7, windSpeed, windDirection: 0 },
+      ],
+    });
+    const withSounding = (s: AtmosphericSounding): TrajectoryInput => ({
+      ...baseInput,
+      weather: { ...DEFAULT_WEATHER_DATA, sounding: s },
+    });
+
+    it('flies higher in warmer, thinner air', () => {
+      const cold = calculateTrajectory(withSounding(sounding(-15)));
+      const warm = calculateTrajectory(withSounding(sounding(15)));
+      expect(warm.stats.maxAltitude).toBeGreaterThan(cold.stats.maxAltitude);
+    });
+
+    it('drifts with the observed winds above the launch site', () => {
+      const calm = calculateTrajectory(withSounding(sounding(0)));
+      const windy = calculateTrajectory(withSounding(sounding(0, 5)));
+
+      // 北風で南へ流される（無風は北向きの発射角の分だけ北に落ちる）
+      expect(windy.predictedLanding.latitude).toBeLessThan(calm.predictedLanding.latitude);
+      expect(windy.stats.landingBearing).toBeGreaterThan(90);
+      expect(windy.stats.landingBearing).toBeLessThan(270);
+    });
+  });
+
+  describe('forecast winds', () => {
+    const forecast = (topAltitude: number): TrajectoryInput => ({
+      ...baseInput,
+      weather: {
+        ...DEFAULT_WEATHER_DATA,
+        source: 'api',
+        windLayers: [
+          { altitude: 20, windSpeed: 2, windDirection: 270 },
+          { altitude: topAltitude, windSpeed: 6, windDirection: 270 },
+        ],
+      },
+    });
+
+    it('warns when the forecast winds stop below apogee', () => {
+      const result = calculateTrajectory(forecast(40));
+      const warning = result.warnings.find((w) => w.code === 'windForecastBelowApogee');
+
+      expect(result.stats.maxAltitude).toBeGreaterThan(40);
+      expect(warning?.message).toContain('40 m');
+    });
+
+    it('accepts forecasts that reach apogee', () => {
+      const result = calculateTrajectory(forecast(700));
+      expect(result.warnings.map((w) => w.code)).not.toContain('windForecastBelowApogee');
+    });
+
+    it('climbs through the forecast winds instead of the surface wind', () => {
+      // 地上は無風、上空は西風
+      const calm = calculateTrajectory({ ...baseInput, weather: DEFAULT_WEATHER_DATA });
+      const result = calculateTrajectory(forecast(700));
+      const apogee = (points: typeof result.trajectoryPoints) =>
+        points.reduce((max, p) => (p.position.z > max.position.z ? p : max));
+
+      // 地上風だけなら無風と同じ上昇になる
+      const shift = apogee(result.trajectoryPoints).position.x - apogee(calm.trajectoryPoints).position.x;
+      expect(Math.abs(shift)).toBeGreaterThan(0.5);
+    });
+
+    it('orients the uncertainty ellipse along the winds aloft', () => {
+      // 地上は北風、上空は西風
+      const result = calculateTrajectory({
+        ...baseInput,
+        weather: {
+          ...DEFAULT_WEATHER_DATA,
+          surfaceWindSpeed: 1,
+          surfaceWindDirection: 0,
+          windLayers: [
+            { altitude: 20, windSpeed: 8, windDirection: 270 },
+            { altitude: 700, windSpeed: 8, windDirection: 270 },
+          ],
+        },
+      });
+
+      // 西風で東へ流される（地上風の向きなら180°）
+      expect(result.uncertaintyEllipse.rotation).toBeGreaterThan(60);
+      expect(result.uncertaintyEllipse.rotation).toBeLessThan(100);
+    });
+  });
+
+  describe('stale weather', () => {
+    const fetched = (hoursAgo: number): TrajectoryInput => ({
+      ...baseInput,
+      weather: { ...DEFAULT_WEATHER_DATA, source: 'api', fetchedAt: new Date(Date.now() - hoursAgo * 3600 * 1000) },
+      maxWeatherAgeHours: 6,
+    });
+
+    it('warns and blocks the safe flag when the forecast is older than the limit', () => {
+      const result = calculateTrajectory(fetched(8));
+      const warning = result.warnings.find((w) => w.code === 'staleWeather');
+
+      expect(warning?.message).toContain('8時間前の古い予報');
+      expect(isFlightSafe(result)).toBe(false);
+    });
+
+    it('accepts fresh forecasts and skips the check without a limit', () => {
+      expect(calculateTrajectory(fetched(2)).warnings.map((w) => w.code)).not.toContain('staleWeather');
+      expect(calculateTrajectory({ ...fetched(8), maxWeatherAgeHours: undefined }).warnings.map((w) => w.code))
+        .not.toContain('staleWeather');
+    });
+  });
+
+  describe('gusts', () => {
+    it('warns when gusts exceed the safety code wind limit', () => {
+      const gusty = calculateTrajectory({
+        ...baseInput,
+        weather: { ...DEFAULT_WEATHER_DATA, surfaceWindSpeed: 4, surfaceGustSpeed: 10 },
+      });
+      expect(gusty.warnings.find((w) => w.code === 'windSpeedLimit')?.message).toContain('10.0 m/s');
+
+      const calm = calculateTrajectory({
+        ...baseInput,
+        weather: { ...DEFAULT_WEATHER_DATA, surfaceWindSpeed: 4, surfaceGustSpeed: 8 },
+      });
+      expect(calm.warnings.map((w) => w.code)).not.toContain('windSpeedLimit');
+    });
+  });
+
+  describe('humidity', () => {
+    it('flies higher and descends faster in humid, less dense air', () => {
+      const dry = calculateTrajectory(baseInput);
+      const humid = calculateTrajectory({
+        ...baseInput,
+        weather: { ...DEFAULT_WEATHER_DATA, surfaceTemperature: 30, surfaceHumidity: 100 },
+      });
+      const warmDry = calculateTrajectory({
+        ...baseInput,
+        weather: { ...DEFAULT_WEATHER_DATA, surfaceTemperature: 30 },
+      });
+
+      expect(humid.stats.maxAltitude).toBeGreaterThan(warmDry.stats.maxAltitude);
+      expect(humid.stats.totalFlightTime).toBeLessThan(warmDry.stats.totalFlightTime);
+      expect(warmDry.stats.maxAltitude).toBeGreaterThan(dry.stats.maxAltitude);
+    });
+  });
+});
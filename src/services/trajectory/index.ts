@@ -1 +1,4 @@
 export * from './TrajectoryService';
+export * from './MonteCarloClient';
+export * from './LandingDensity';
+export * from './LaunchWindow';
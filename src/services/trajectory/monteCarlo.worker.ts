@@ -0,0 +1,46 @@
+/**
+ * モンテカルロ分散解析ワーカー
+ *
+ * 多数の軌道計算をWeb Worker内で実行し、UIスレッドを止めない
+ */
+
+import { runMonteCarloDispersion, type TrajectoryInput } from './TrajectoryService';
+import type { DispersionSettings, DispersionResult } from '../../types/dispersion';
+
+/**
+ * ワーカーへの要求
+ */
+export interface MonteCarloRequest {
+  input: TrajectoryInput;
+  settings: DispersionSettings;
+}
+
+/**
+ * ワーカーからの応答
+ */
+export type MonteCarloResponse =
+  | { type: 'progress'; completed: number; total: number }
+  | { type: 'result'; result: DispersionResult }
+  | { type: 'error'; message: string };
+
+// 進捗通知の間隔（試行数）
+const PROGRESS_INTERVAL = 10;
+
+self.onmessage = (event: MessageEvent<MonteCarloRequest>) => {
+  const { input, settings } = event.data;
+  const post = (response: MonteCarloResponse) => self.postMessage(response);
+
+  try {
+    const result = runMonteCarloDispersion(input, settings, (completed, total) => {
+      if (completed % PROGRESS_INTERVAL === 0 || completed === total) {
+        post({ type: 'progress', completed, total });
+      }
+    });
+    post({ type: 'result', result });
+  } catch (error) {
+    post({
+      type: 'error',
+      message: error instanceof Error ? error.message : '分散解析エラー',
+    });
+  }
+};
@@ -0,0 +1,75 @@
+/**
+ * 風速計の観測ログを使う気象データの提供元
+ *
+ * クラブのハンディ風速計のログを読み込み、直近の観測を平均して地上風にする
+ */
+
+import {
+  DEFAULT_ANEMOMETER_AVERAGING_MINUTES,
+  type AnemometerRecord,
+  type WeatherData,
+} from '../../types/weather';
+import { parseAnemometerLog } from '../../physics/anemometer';
+import type { WeatherProvider } from './WeatherProvider';
+
+// ハンディ風速計で測る高さ [m]（手に持った目の高さ、設定画面で変更できる）
+const HANDHELD_WIND_HEIGHT = 2;
+
+/**
+ * 観測ログの最後の時刻までの指定時間を平均した地上風
+ *
+ * 風速は平均、風向は単位ベクトルの平均、瞬間風速は最大値（瞬間風速の列がなければ風速の最大値）、
+ * 乱流強度は風速の標準偏差 / 平均（2件以上のとき）。高度別の風は観測していないため消す
+ *
+ * @param windowMinutes - 平均する時間 [分]
+ */
+export function averageAnemometerLog(records: AnemometerRecord[], windowMinutes: number): Partial<WeatherData> {
+  if (records.length === 0) {
+    throw new Error('風速計の観測がありません');
+  }
+
+  const end = records[records.length - 1].time;
+  const start = end.getTime() - windowMinutes * 60 * 1000;
+  const window = records.filter((record) => record.time.getTime() >= start);
+
+  const meanSpeed = window.reduce((sum, record) => sum + record.windSpeed, 0) / window.length;
+  const east = window.reduce((sum, record) => sum + Math.sin(record.windDirection * Math.PI / 180), 0);
+  const north = window.reduce((sum, record) => sum + Math.cos(record.windDirection * Math.PI / 180), 0);
+  const direction = ((Math.atan2(east, north) * 180 / Math.PI) + 360) % 360;
+  const gust = Math.max(...window.map((record) => record.gustSpeed ?? record.windSpeed));
+  const variance = window.length > 1
+    ? window.reduce((sum, record) => sum + Math.pow(record.windSpeed - meanSpeed, 2), 0) / (window.length - 1)
+    : undefined;
+
+  return {
+    surfaceWindSpeed: Math.round(meanSpeed * 10) / 10,
+    surfaceWindDirection: Math.round(direction) % 360,
+    windReferenceHeight: HANDHELD_WIND_HEIGHT,
+    surfaceGustSpeed: Math.round(gust * 10) / 10,
+    turbulenceIntensity: variance !== undefined && meanSpeed > 0
+      ? Math.round(Math.sqrt(variance) / meanSpeed * 1000) / 1000
+      : undefined,
+    windLayers: undefined,
+    source: 'file',
+    timestamp: end,
+    fetchedAt: end,
+  };
+}
+
+/**
+ * 風速計の観測ログ（CSV）の提供元
+ */
+export const anemometerProvider: WeatherProvider = {
+  id: 'anemometer',
+  name: '風速計ログ',
+  description: 'ハンディ風速計のログ（時刻・風速・瞬間風速・風向のCSV）を読み込み、最後の観測までを平均します',
+  input: 'file',
+  fileAccept: '.csv,.txt',
+  cacheable: false,
+  async getWeather({ file, time, averagingMinutes = DEFAULT_ANEMOMETER_AVERAGING_MINUTES }) {
+    if (!file) {
+      throw new Error('風速計のログファイルを選んでください');
+    }
+    return { weather: averageAnemometerLog(parseAnemometerLog(file.text, time), averagingMinutes) };
+  },
+};
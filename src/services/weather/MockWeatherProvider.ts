@@ -0,0 +1,76 @@
+/**
+ * テスト用の気象データの提供元
+ *
+ * ネットワークを使わずに決まった予報を返す（ユニットテスト・E2Eテスト・開発用）
+ */
+
+import { STANDARD_WIND_HEIGHT, type WeatherData, type WeatherForecast } from '../../types/weather';
+import { getForecastAt } from './WeatherAPI';
+import type { WeatherProvider } from './WeatherProvider';
+
+// 予報を作る時間数（発射予定日の0時から）
+const MOCK_FORECAST_HOURS = 48;
+
+/**
+ * 発射予定日の0時から1時間ごとの決まった予報
+ *
+ * 地上風は昼に強く夜に弱い西寄りの風（瞬間風速は平均の1.6倍）、上空ほど強く右に回る
+ */
+export function createMockForecast(
+  site: { latitude: number; longitude: number; elevation: number },
+  time: Date,
+  fetchedAt: Date = new Date()
+): WeatherForecast {
+  const start = new Date(time);
+  start.setHours(0, 0, 0, 0);
+
+  const hours = Array.from({ length: MOCK_FORECAST_HOURS }, (_, i): WeatherData => {
+    const timestamp = new Date(start.getTime() + i * 3600 * 1000);
+    // 14時に最大、2時に最小
+    const daily = Math.cos((timestamp.getHours() - 14) * Math.PI / 12);
+    const windSpeed = Math.round((3 + 1.5 * daily) * 10) / 10;
+    return {
+      surfaceWindSpeed: windSpeed,
+      surfaceWindDirection: 270,
+      windReferenceHeight: STANDARD_WIND_HEIGHT,
+      surfaceGustSpeed: Math.round(windSpeed * 16) / 10,
+      surfaceTemperature: Math.round((18 + 4 * daily) * 10) / 10,
+      surfacePressure: 1012,
+      surfaceHumidity: 60,
+      windLayers: [
+        { altitude: 80, windSpeed: Math.round(windSpeed * 13) / 10, windDirection: 275 },
+        { altitude: 120, windSpeed: Math.round(windSpeed * 14) / 10, windDirection: 278 },
+        { altitude: 500, windSpeed: Math.round(windSpeed * 20) / 10, windDirection: 285 },
+        { altitude: 1500, windSpeed: Math.round(windSpeed * 30) / 10, windDirection: 295 },
+      ],
+      source: 'api',
+      timestamp,
+      fetchedAt,
+    };
+  });
+
+  return {
+    latitude: site.latitude,
+    longitude: site.longitude,
+    launchElevation: site.elevation,
+    fetchedAt,
+    // 端末の時刻の0時から作るため、1日の区切りも端末の時刻
+    utcOffsetSeconds: -start.getTimezoneOffset() * 60,
+    hours,
+  };
+}
+
+/**
+ * テスト用の予報の提供元
+ */
+export const mockWeatherProvider: WeatherProvider = {
+  id: 'mock',
+  name: 'テスト用',
+  description: 'ネットワークを使わない決まった予報です（開発・テスト用）',
+  input: 'fetch',
+  cacheable: false,
+  async getWeather({ site, time }) {
+    const forecast = createMockForecast(site, time);
+    return { weather: getForecastAt(forecast, time), forecast };
+  },
+};
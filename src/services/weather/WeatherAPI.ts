@@ -1,49 +1,92 @@
 /**
  * Open-Meteo API連携
  *
- * 無料の天気APIから現在の気象データを取得
+ * 無料の天気APIから1時間ごとの気象予報を取得
  * https://open-meteo.com/
  */
 
-import type { WeatherData, WindLayer } from '../../types/weather';
+import {
+  FORECAST_DAYS,
+  STANDARD_WIND_HEIGHT,
+  type WeatherData,
+  type WeatherForecast,
+  type WindLayer,
+} from '../../types/weather';
+import type { WeatherProvider } from './WeatherProvider';
+
+// 1時間 [ms]
+const HOUR = 3600 * 1000;
+
+// 1日 [ms]
+const DAY = 24 * HOUR;
+
+// 高層の風を取得する気圧面 [hPa]（1000hPa から 850hPa でおよそ海抜 0〜1500m）
+export const PRESSURE_LEVELS = [1000, 975, 950, 925, 900, 850];
+
+// 地上からの高度で取得する風 [m]
+const HEIGHT_LEVELS = [80, 120];
 
 /**
- * Open-Meteo APIのレスポンス型
+ * Open-Meteo APIのレスポンス型（timeformat=unixtime）
+ *
+ * 気圧面の値は wind_speed_850hPa・geopotential_height_850hPa のような名前で返る
  */
 interface OpenMeteoResponse {
-  current: {
-    temperature_2m: number;
-    surface_pressure: number;
-    wind_speed_10m: number;
-    wind_direction_10m: number;
-  };
-  hourly?: {
-    time: string[];
-    wind_speed_80m?: number[];
-    wind_speed_120m?: number[];
-    wind_direction_80m?: number[];
-    wind_direction_120m?: number[];
+  elevation?: number;           // 予報格子の標高 [m]
+  utc_offset_seconds?: number;  // 予報地点の時刻のUTCからのずれ [s]（timezone=auto）
+  hourly: {
+    [variable: string]: (number | null)[] | undefined;
+    time: number[];             // UNIX時刻 [s]
+    temperature_2m: number[];
+    relative_humidity_2m?: (number | null)[];
+    surface_pressure: number[];
+    wind_speed_10m: number[];
+    wind_direction_10m: number[];
+    wind_gusts_10m?: (number | null)[];
   };
 }
 
 /**
- * Open-Meteo APIから気象データを取得
+ * Open-Meteo APIから気象予報を取得
+ *
+ * 時刻は UNIX 時刻で受け取るため、端末や発射地点のタイムゾーンによらない。
+ * 1日の区切りに使う発射地点の時刻のずれは timezone=auto で受け取る。
+ * 今日より前の時刻を選べるよう、前日分から取得する。
+ * 高度別の風は 80m・120m の風と気圧面の風を、発射地点からの高度に揃えて並べる
  *
  * @param latitude - 緯度
  * @param longitude - 経度
- * @returns WeatherData
+ * @param launchElevation - 発射地点の標高 [m]（気圧面のジオポテンシャル高度の換算用）
+ * @param forecastDays - 取得する日数（今日を含む）
  */
-export async function fetchWeatherData(
+export async function fetchWeatherForecast(
   latitude: number,
-  longitude: number
-): Promise<WeatherData> {
+  longitude: number,
+  launchElevation: number = 0,
+  forecastDays: number = FORECAST_DAYS
+): Promise<WeatherForecast> {
   const params = new URLSearchParams({
     latitude: latitude.toString(),
     longitude: longitude.toString(),
-    current: 'temperature_2m,surface_pressure,wind_speed_10m,wind_direction_10m',
-    hourly: 'wind_speed_80m,wind_speed_120m,wind_direction_80m,wind_direction_120m',
+    hourly: [
+      'temperature_2m',
+      'relative_humidity_2m',
+      'surface_pressure',
+      'wind_speed_10m',
+      'wind_direction_10m',
+      'wind_gusts_10m',
+      ...HEIGHT_LEVELS.flatMap((height) => [`wind_speed_${height}m`, `wind_direction_${height}m`]),
+      ...PRESSURE_LEVELS.flatMap((level) => [
+        `wind_speed_${level}hPa`,
+        `wind_direction_${level}hPa`,
+        `geopotential_height_${level}hPa`,
+      ]),
+    ].join(','),
+    wind_speed_unit: 'ms',
+    timeformat: 'unixtime',
     timezone: 'auto',
-    forecast_days: '1',
+    past_days: '1',
+    forecast_days: forecastDays.toString(),
   });
 
   const url = `https://api.open-meteo.com/v1/forecast?${params}`;
@@ -55,42 +98,121 @@ export async function fetchWeatherData(
   }
 
   const data: OpenMeteoResponse = await response.json();
+  const { hourly } = data;
+  if (!hourly?.time?.length) {
+    throw new Error('天気予報のデータがありません');
+  }
 
-  // 高度別風データを構築（現在時刻のデータを使用）
-  const windLayers: WindLayer[] = [];
-
-  if (data.hourly) {
-    // 現在時刻に最も近いインデックスを取得
-    const now = new Date();
-    const currentHour = now.getHours();
-    const hourIndex = Math.min(currentHour, (data.hourly.time?.length ?? 1) - 1);
-
-    // 80mの風データ
-    if (data.hourly.wind_speed_80m && data.hourly.wind_direction_80m) {
-      windLayers.push({
-        altitude: 80,
-        windSpeed: data.hourly.wind_speed_80m[hourIndex] ?? 0,
-        windDirection: data.hourly.wind_direction_80m[hourIndex] ?? 0,
-      });
-    }
+  const fetchedAt = new Date();
+
+  // 地上からの高度は予報格子の地面から（格子の標高がなければ発射地点の標高とみなす）
+  const groundOffset = (data.elevation ?? launchElevation) - launchElevation;
+
+  const hours = hourly.time.map((time, i): WeatherData => {
+    const windLayers: WindLayer[] = [];
+    const addLayer = (altitude: number | null | undefined, prefix: string) => {
+      const windSpeed = hourly[`wind_speed_${prefix}`]?.[i];
+      const windDirection = hourly[`wind_direction_${prefix}`]?.[i];
+      if (altitude != null && altitude > 0 && windSpeed != null && windDirection != null) {
+        windLayers.push({ altitude, windSpeed, windDirection });
+      }
+    };
 
-    // 120mの風データ
-    if (data.hourly.wind_speed_120m && data.hourly.wind_direction_120m) {
-      windLayers.push({
-        altitude: 120,
-        windSpeed: data.hourly.wind_speed_120m[hourIndex] ?? 0,
-        windDirection: data.hourly.wind_direction_120m[hourIndex] ?? 0,
-      });
+    // 地上高度の風と、気圧面の風（ジオポテンシャル高度は海抜。発射地点より下の面は除く）
+    for (const height of HEIGHT_LEVELS) {
+      addLayer(height + groundOffset, `${height}m`);
     }
+    for (const level of PRESSURE_LEVELS) {
+      const geopotentialHeight = hourly[`geopotential_height_${level}hPa`]?.[i];
+      addLayer(geopotentialHeight != null ? geopotentialHeight - launchElevation : undefined, `${level}hPa`);
+    }
+
+    // 高度順、間隔が10m未満の層は下の層のみ残す（同じ高度での補間を避ける）
+    const sorted = windLayers
+      .sort((a, b) => a.altitude - b.altitude)
+      .filter((layer, j, all) => j === 0 || layer.altitude - all[j - 1].altitude >= 10);
+
+    return {
+      surfaceWindSpeed: hourly.wind_speed_10m[i],
+      surfaceWindDirection: hourly.wind_direction_10m[i],
+      windReferenceHeight: STANDARD_WIND_HEIGHT,
+      surfaceGustSpeed: hourly.wind_gusts_10m?.[i] ?? undefined,
+      surfaceTemperature: hourly.temperature_2m[i],
+      surfacePressure: hourly.surface_pressure[i],
+      surfaceHumidity: hourly.relative_humidity_2m?.[i] ?? undefined,
+      windLayers: sorted.length > 0 ? sorted : undefined,
+      source: 'api',
+      timestamp: new Date(time * 1000),
+      fetchedAt,
+    };
+  });
+
+  return { latitude, longitude, launchElevation, fetchedAt, utcOffsetSeconds: data.utc_offset_seconds, hours };
+}
+
+/**
+ * 指定時刻に最も近い予報を取得
+ *
+ * @throws 予報の範囲から1時間以上外れている場合
+ */
+export function getForecastAt(forecast: WeatherForecast, time: Date): WeatherData {
+  const distance = (hour: WeatherData) => Math.abs(hour.timestamp!.getTime() - time.getTime());
+  const nearest = forecast.hours.reduce<WeatherData | undefined>(
+    (best, hour) => (!best || distance(hour) < distance(best) ? hour : best),
+    undefined
+  );
+  if (!nearest || distance(nearest) > HOUR) {
+    throw new Error('指定した時刻の予報がありません（予報は今日から数日先まで）');
   }
+  return nearest;
+}
 
-  return {
-    surfaceWindSpeed: data.current.wind_speed_10m,
-    surfaceWindDirection: data.current.wind_direction_10m,
-    surfaceTemperature: data.current.temperature_2m,
-    surfacePressure: data.current.surface_pressure,
-    windLayers: windLayers.length > 0 ? windLayers : undefined,
-    source: 'api',
-    timestamp: new Date(),
-  };
+/**
+ * 指定時刻を含む1日（予報地点の時刻で0時から24時間、時刻のずれがなければ端末の時刻）の予報
+ */
+export function getForecastDay(forecast: WeatherForecast, time: Date): WeatherData[] {
+  let start: Date;
+  if (forecast.utcOffsetSeconds !== undefined) {
+    const offset = forecast.utcOffsetSeconds * 1000;
+    start = new Date(Math.floor((time.getTime() + offset) / DAY) * DAY - offset);
+  } else {
+    start = new Date(time);
+    start.setHours(0, 0, 0, 0);
+  }
+  const end = new Date(start.getTime() + DAY);
+  return forecast.hours.filter((hour) => hour.timestamp! >= start && hour.timestamp! < end);
 }
+
+/**
+ * Open-Meteo APIから指定時刻の気象データを取得
+ *
+ * @param latitude - 緯度
+ * @param longitude - 経度
+ * @param launchElevation - 発射地点の標高 [m]
+ * @param time - 発射予定時刻（省略時は現在）
+ * @returns WeatherData
+ */
+export async function fetchWeatherData(
+  latitude: number,
+  longitude: number,
+  launchElevation: number = 0,
+  time: Date = new Date()
+): Promise<WeatherData> {
+  const forecast = await fetchWeatherForecast(latitude, longitude, launchElevation);
+  return getForecastAt(forecast, time);
+}
+
+/**
+ * Open-Meteo の予報を使う提供元
+ */
+export const openMeteoProvider: WeatherProvider = {
+  id: 'openMeteo',
+  name: 'Open-Meteo',
+  description: '1時間ごとの予報（高度別の風を含む）。取得した予報はオフラインでも使えるよう保存します',
+  input: 'fetch',
+  cacheable: true,
+  async getWeather({ site, time }) {
+    const forecast = await fetchWeatherForecast(site.latitude, site.longitude, site.elevation);
+    return { weather: getForecastAt(forecast, time), forecast };
+  },
+};
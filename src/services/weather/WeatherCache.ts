@@ -0,0 +1,142 @@
+/**
+ * 気象予報のオフラインキャッシュ（IndexedDB）
+ *
+ * 取得した1時間ごとの予報を地点・取得時刻ごとに保存し、
+ * 電波のない発射場では条件に合う最新の予報を読み出す
+ */
+
+import { STANDARD_WIND_HEIGHT, type WeatherData, type WeatherForecast } from '../../types/weather';
+import { calculateDistance, type Coordinates } from '../../types/mission';
+
+const DB_NAME = 'rocket-recovery';
+const DB_VERSION = 1;
+const STORE_NAME = 'weatherForecasts';
+
+// 保存しておく予報の最大件数（古いものから削除）
+const MAX_CACHED_FORECASTS = 20;
+
+// 同じ発射地点とみなす距離 [m]
+export const CACHE_MATCH_DISTANCE = 5000;
+
+// 予報の時刻の許容ずれ [ms]
+const HOUR = 3600 * 1000;
+
+/**
+ * 保存した予報（id は IndexedDB のキー）
+ *
+ * 風の測定高度を保存する前の記録には windReferenceHeight がない
+ */
+interface CachedForecast extends Omit<WeatherForecast, 'hours'> {
+  id?: number;
+  hours: (Omit<WeatherData, 'windReferenceHeight'> & Partial<Pick<WeatherData, 'windReferenceHeight'>>)[];
+}
+
+/**
+ * データベースを開く（IndexedDB が使えない環境では undefined）
+ */
+function openDatabase(): Promise<IDBDatabase | undefined> {
+  if (typeof indexedDB === 'undefined') return Promise.resolve(undefined);
+
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * IndexedDB の要求を Promise にする
+ */
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * 保存した予報を現在の形式にそろえる（測定高度のない記録は標準の高さとみなす）
+ */
+export function normalizeCachedForecast({ id: _id, ...forecast }: CachedForecast): WeatherForecast {
+  return {
+    ...forecast,
+    hours: forecast.hours.map((hour) => ({
+      ...hour,
+      windReferenceHeight: hour.windReferenceHeight ?? STANDARD_WIND_HEIGHT,
+    })),
+    fromCache: true,
+  };
+}
+
+/**
+ * 保存した予報をすべて読み出す（取得時刻の新しい順）
+ */
+export async function loadCachedForecasts(): Promise<WeatherForecast[]> {
+  const db = await openDatabase();
+  if (!db) return [];
+
+  try {
+    const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+    const records = await promisify(store.getAll() as IDBRequest<CachedForecast[]>);
+    return records
+      .map(normalizeCachedForecast)
+      .sort((a, b) => b.fetchedAt.getTime() - a.fetchedAt.getTime());
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * 予報を保存し、件数の上限を超えた古い予報を削除
+ */
+export async function saveForecastToCache(forecast: WeatherForecast): Promise<void> {
+  const db = await openDatabase();
+  if (!db) return;
+
+  try {
+    const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+    await promisify(store.add({ ...forecast, fromCache: undefined }));
+
+    const records = await promisify(store.getAll() as IDBRequest<CachedForecast[]>);
+    const expired = records
+      .sort((a, b) => b.fetchedAt.getTime() - a.fetchedAt.getTime())
+      .slice(MAX_CACHED_FORECASTS);
+    await Promise.all(expired.map((record) => promisify(store.delete(record.id!))));
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * 発射地点と発射予定時刻に合う予報を選ぶ
+ *
+ * 発射地点から CACHE_MATCH_DISTANCE 以内で、発射予定時刻を予報の範囲に含むもののうち
+ * 最も新しく取得した予報。標高が異なる予報は、高度別の風の基準が違うため後回しにする
+ */
+export function findBestCachedForecast(
+  forecasts: WeatherForecast[],
+  site: Coordinates & { elevation: number },
+  time: Date
+): WeatherForecast | undefined {
+  const candidates = forecasts.filter((forecast) =>
+    calculateDistance(site, forecast) <= CACHE_MATCH_DISTANCE
+    && forecast.hours.some((hour) => Math.abs(hour.timestamp!.getTime() - time.getTime()) <= HOUR)
+  );
+  const elevationMismatch = (forecast: WeatherForecast) => Number(forecast.launchElevation !== site.elevation);
+  return candidates.sort((a, b) =>
+    elevationMismatch(a) - elevationMismatch(b) || b.fetchedAt.getTime() - a.fetchedAt.getTime()
+  )[0];
+}
+
+/**
+ * キャッシュから発射地点・発射予定時刻に合う予報を読み出す
+ */
+export async function loadCachedForecast(
+  site: Coordinates & { elevation: number },
+  time: Date
+): Promise<WeatherForecast | undefined> {
+  return findBestCachedForecast(await loadCachedForecasts(), site, time);
+}
@@ -0,0 +1,65 @@
+/**
+ * 気象データの提供元
+ *
+ * 予報API・観測ログのファイルなど、気象データの取得方法を共通の形で扱う
+ */
+
+import type { Coordinates } from '../../types/mission';
+import type { WeatherData, WeatherForecast } from '../../types/weather';
+import { getForecastAt } from './WeatherAPI';
+import { loadCachedForecast, saveForecastToCache } from './WeatherCache';
+
+/**
+ * 気象データの要求
+ */
+export interface WeatherRequest {
+  site: Coordinates & { elevation: number }; // 発射地点
+  time: Date;                   // 発射予定時刻
+  file?: { name: string; text: string }; // 読み込んだファイル（ファイルを使う提供元のみ）
+  averagingMinutes?: number;    // 観測を平均する時間 [分]（観測ログの提供元のみ）
+}
+
+/**
+ * 提供元から得た気象データ
+ */
+export interface WeatherProviderResult {
+  weather: Partial<WeatherData>; // 現在の気象データに上書きする値
+  forecast?: WeatherForecast;   // 1時間ごとの予報（予報の提供元のみ）
+}
+
+/**
+ * 気象データの提供元
+ */
+export interface WeatherProvider {
+  id: string;
+  name: string;                 // 表示名
+  description: string;          // 説明（設定画面に表示）
+  input: 'fetch' | 'file';      // 取得ボタンで取得するか、ファイルを読み込むか
+  fileAccept?: string;          // 読み込むファイルの拡張子（input が file のとき）
+  cacheable: boolean;           // 予報をオフラインキャッシュに保存・利用するか
+  getWeather(request: WeatherRequest): Promise<WeatherProviderResult>;
+}
+
+/**
+ * 提供元から気象データを取得
+ *
+ * 予報をキャッシュする提供元では、取得した予報を保存し、
+ * 取得に失敗したとき（電波のない発射場など）は保存した予報を使う
+ */
+export async function requestWeather(
+  provider: WeatherProvider,
+  request: WeatherRequest
+): Promise<WeatherProviderResult> {
+  if (!provider.cacheable) return provider.getWeather(request);
+
+  try {
+    const result = await provider.getWeather(request);
+    // 保存の失敗は取得に影響させない
+    if (result.forecast) saveForecastToCache(result.forecast).catch(() => undefined);
+    return result;
+  } catch (err) {
+    const cached = await loadCachedForecast(request.site, request.time).catch(() => undefined);
+    if (!cached) throw err;
+    return { weather: getForecastAt(cached, request.time), forecast: cached };
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * 気象データの提供元の登録
+ *
+ * 設定画面は登録された提供元から選ぶ。テスト用の提供元は開発時のみ登録する
+ */
+
+import type { WeatherProvider } from './WeatherProvider';
+import { openMeteoProvider } from './WeatherAPI';
+import { anemometerProvider } from './AnemometerProvider';
+import { mockWeatherProvider } from './MockWeatherProvider';
+
+// 初期状態で使う提供元
+export const DEFAULT_WEATHER_PROVIDER_ID = openMeteoProvider.id;
+
+const providers = new Map<string, WeatherProvider>();
+
+/**
+ * 提供元を登録（同じ id は置き換え）
+ */
+export function registerWeatherProvider(provider: WeatherProvider): void {
+  providers.set(provider.id, provider);
+}
+
+/**
+ * 登録された提供元（登録順）
+ */
+export function getWeatherProviders(): WeatherProvider[] {
+  return [...providers.values()];
+}
+
+/**
+ * id から提供元を取得
+ */
+export function getWeatherProvider(id: string): WeatherProvider {
+  const provider = providers.get(id);
+  if (!provider) {
+    throw new Error(`気象データの提供元「${id}」は登録されていません`);
+  }
+  return provider;
+}
+
+registerWeatherProvider(openMeteoProvider);
+registerWeatherProvider(anemometerProvider);
+if (import.meta.env.DEV) {
+  registerWeatherProvider(mockWeatherProvider);
+}
@@ -0,0 +1,172 @@
+/**
+ * Open-Meteo API連携のユニットテスト
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { fetchWeatherForecast, fetchWeatherData, getForecastAt, getForecastDay } from '../WeatherAPI';
+
+// 2025-05-01 00:00 UTC から3時間分の予報
+const START = Date.UTC(2025, 4, 1) / 1000;
+const RESPONSE = {
+  hourly: {
+    time: [START, START + 3600, START + 7200],
+    temperature_2m: [12, 13, 14],
+    relative_humidity_2m: [80, 75, null],
+    surface_pressure: [1010, 1011, 1012],
+    wind_speed_10m: [2, 3, 4],
+    wind_direction_10m: [90, 100, 110],
+    wind_gusts_10m: [4, 6, null],
+    wind_speed_80m: [4, 5, null],
+    wind_direction_80m: [95, 105, null],
+    wind_speed_120m: [5, 6, 7],
+    wind_direction_120m: [96, 106, 116],
+  },
+};
+
+/**
+ * fetch を固定のレスポンスに置き換え
+ */
+function stubFetch(body: unknown, status = 200) {
+  const fetchMock = vi.fn(async () => new Response(JSON.stringify(body), { status }));
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+describe('WeatherAPI', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('fetchWeatherForecast', () => {
+    it('requests hourly data in m/s with UNIX times', async () => {
+      const fetchMock = stubFetch(RESPONSE);
+      await fetchWeatherForecast(35, 139, 0, 3);
+
+      const url = new URL(String((fetchMock.mock.calls[0] as unknown[])[0]));
+      expect(url.searchParams.get('wind_speed_unit')).toBe('ms');
+      expect(url.searchParams.get('timeformat')).toBe('unixtime');
+      expect(url.searchParams.get('timezone')).toBe('auto');
+      expect(url.searchParams.get('forecast_days')).toBe('3');
+      expect(url.searchParams.get('hourly')).toContain('geopotential_height_850hPa');
+    });
+
+    it('builds one weather entry per forecast hour', async () => {
+      stubFetch(RESPONSE);
+      const forecast = await fetchWeatherForecast(35, 139);
+
+      expect(forecast.hours).toHaveLength(3);
+      expect(forecast.hours[1]).toMatchObject({
+        surfaceWindSpeed: 3,
+        surfaceWindDirection: 100,
+        surfaceTemperature: 13,
+        surfacePressure: 1011,
+        surfaceHumidity: 75,
+        surfaceGustSpeed: 6,
+        source: 'api',
+      });
+      expect(forecast.hours[1].timestamp!.toISOString()).toBe('2025-05-01T01:00:00.000Z');
+      expect(forecast.hours[1].fetchedAt).toBe(forecast.fetchedAt);
+      expect(forecast.hours[1].windLayers).toEqual([
+        { altitude: 80, windSpeed: 5, windDirection: 105 },
+        { altitude: 120, windSpeed: 6, windDirection: 106 },
+      ]);
+      // 欠測の高度・湿度は除く
+      expect(forecast.hours[2].windLayers).toEqual([{ altitude: 120, windSpeed: 7, windDirection: 116 }]);
+      expect(forecast.hours[2].surfaceHumidity).toBeUndefined();
+    });
+
+    it('adds pressure-level winds at their heights above the launch site', async () => {
+      stubFetch({
+        elevation: 40,
+        hourly: {
+          ...RESPONSE.hourly,
+          wind_speed_1000hPa: [3, 3, 3],
+          wind_direction_1000hPa: [90, 90, 90],
+          geopotential_height_1000hPa: [90, 90, 90],
+          wind_speed_925hPa: [9, 9, 9],
+          wind_direction_925hPa: [250, 250, 250],
+          geopotential_height_925hPa: [800, 800, 800],
+          wind_speed_850hPa: [12, 12, 12],
+          wind_direction_850hPa: [260, 260, 260],
+          geopotential_height_850hPa: [1500, 1500, 1500],
+        },
+      });
+      // 発射地点は標高100m（予報格子は40m）
+      const forecast = await fetchWeatherForecast(35, 139, 100);
+
+      expect(forecast.hours[0].windLayers).toEqual([
+        // 地上80m・120m の風は格子の地面から
+        { altitude: 20, windSpeed: 4, windDirection: 95 },
+        { altitude: 60, windSpeed: 5, windDirection: 96 },
+        { altitude: 700, windSpeed: 9, windDirection: 250 },
+        { altitude: 1400, windSpeed: 12, windDirection: 260 },
+      ]);
+    });
+
+    it('reports HTTP errors', async () => {
+      stubFetch({}, 500);
+      await expect(fetchWeatherForecast(35, 139)).rejects.toThrow('500');
+    });
+  });
+
+  describe('fetchWeatherData', () => {
+    it('returns the forecast for the requested time', async () => {
+      stubFetch(RESPONSE);
+      const weather = await fetchWeatherData(35, 139, 0, new Date('2025-05-01T02:10:00Z'));
+      expect(weather.surfaceTemperature).toBe(14);
+    });
+  });
+
+  describe('getForecastAt', () => {
+    it('picks the nearest hour regardless of the local time zone', async () => {
+      stubFetch(RESPONSE);
+      const forecast = await fetchWeatherForecast(35, 139);
+
+      // 日本時間 10:40 は UTC 01:40
+      expect(getForecastAt(forecast, new Date('2025-05-01T10:40:00+09:00')).surfaceTemperature).toBe(14);
+      expect(getForecastAt(forecast, new Date('2025-05-01T01:20:00Z')).surfaceTemperature).toBe(13);
+    });
+
+    it('rejects times outside the forecast', async () => {
+      stubFetch(RESPONSE);
+      const forecast = await fetchWeatherForecast(35, 139);
+      expect(() => getForecastAt(forecast, new Date('2025-05-03T00:00:00Z'))).toThrow('予報');
+    });
+  });
+
+  describe('getForecastDay', () => {
+    it('keeps the hours of the same local day', async () => {
+      stubFetch(RESPONSE);
+      const forecast = await fetchWeatherForecast(35, 139);
+      const day = getForecastDay(forecast, forecast.hours[1].timestamp!);
+
+      const sameDay = forecast.hours.filter(
+        (hour) => hour.timestamp!.toDateString() === forecast.hours[1].timestamp!.toDateString()
+      );
+      expect(day).toEqual(sameDay);
+    });
+
+    it('splits the days at midnight in the forecast site timezone', async () => {
+      // 2025-05-01 20:00 UTC から 8 時間分（UTC-5 の地点では 15:00〜22:00、5/1 のみ）
+      const start = Date.UTC(2025, 4, 1, 20) / 1000;
+      const time = Array.from({ length: 8 }, (_, i) => start + i * 3600);
+      const fill = (value: number) => time.map(() => value);
+      stubFetch({
+        utc_offset_seconds: -5 * 3600,
+        hourly: {
+          time,
+          temperature_2m: fill(15),
+          surface_pressure: fill(1013),
+          wind_speed_10m: fill(3),
+          wind_direction_10m: fill(270),
+        },
+      });
+      const forecast = await fetchWeatherForecast(40, -75);
+
+      expect(forecast.utcOffsetSeconds).toBe(-5 * 3600);
+      // 地点の 5/1 23:00 は UTC では 5/2 04:00
+      expect(getForecastDay(forecast, new Date(Date.UTC(2025, 4, 2, 2)))).toHaveLength(8);
+      expect(getForecastDay(forecast, new Date(Date.UTC(2025, 4, 2, 6)))).toHaveLength(0);
+    });
+  });
+});
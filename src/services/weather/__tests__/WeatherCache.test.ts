@@ -0,0 +1,117 @@
+/**
+ * 気象予報のオフラインキャッシュのユニットテスト
+ */
+
+import { describe, it, expect } from 'vitest';
+import { findBestCachedForecast, loadCachedForecasts, normalizeCachedForecast } from '../WeatherCache';
+import {
+  DEFAULT_WEATHER_DATA,
+  STANDARD_WIND_HEIGHT,
+  formatWeatherAge,
+  isWeatherStale,
+  type WeatherForecast,
+} from '../../../types/weather';
+
+const site = { latitude: 35.6762, longitude: 139.6503, elevation: 40 };
+
+/**
+ * 指定時刻から1時間ごとの予報（取得時刻つき）
+ */
+function createForecast(options: {
+  fetchedAt: string;
+  start: string;
+  hours?: number;
+  latitude?: number;
+  launchElevation?: number;
+}): WeatherForecast {
+  const fetchedAt = new Date(options.fetchedAt);
+  const start = new Date(options.start).getTime();
+  return {
+    latitude: options.latitude ?? site.latitude,
+    longitude: site.longitude,
+    launchElevation: options.launchElevation ?? site.elevation,
+    fetchedAt,
+    hours: Array.from({ length: options.hours ?? 24 }, (_, i) => ({
+      ...DEFAULT_WEATHER_DATA,
+      source: 'api' as const,
+      timestamp: new Date(start + i * 3600 * 1000),
+      fetchedAt,
+    })),
+  };
+}
+
+describe('WeatherCache', () => {
+  describe('findBestCachedForecast', () => {
+    const launch = new Date('2025-05-02T03:00:00Z');
+
+    it('prefers the most recent forecast covering the launch time', () => {
+      const older = createForecast({ fetchedAt: '2025-05-01T00:00:00Z', start: '2025-05-02T00:00:00Z' });
+      const newer = createForecast({ fetchedAt: '2025-05-01T12:00:00Z', start: '2025-05-02T00:00:00Z' });
+      expect(findBestCachedForecast([older, newer], site, launch)).toBe(newer);
+    });
+
+    it('skips forecasts for other sites or other times', () => {
+      const elsewhere = createForecast({
+        fetchedAt: '2025-05-01T12:00:00Z',
+        start: '2025-05-02T00:00:00Z',
+        latitude: 36.2,
+      });
+      const tooEarly = createForecast({ fetchedAt: '2025-05-01T12:00:00Z', start: '2025-05-01T00:00:00Z' });
+      const matching = createForecast({ fetchedAt: '2025-04-30T00:00:00Z', start: '2025-05-02T00:00:00Z' });
+
+      expect(findBestCachedForecast([elsewhere, tooEarly, matching], site, launch)).toBe(matching);
+      expect(findBestCachedForecast([elsewhere, tooEarly], site, launch)).toBeUndefined();
+    });
+
+    it('prefers a forecast made for the same launch elevation', () => {
+      const otherElevation = createForecast({
+        fetchedAt: '2025-05-01T12:00:00Z',
+        start: '2025-05-02T00:00:00Z',
+        launchElevation: 300,
+      });
+      const sameElevation = createForecast({ fetchedAt: '2025-05-01T00:00:00Z', start: '2025-05-02T00:00:00Z' });
+      expect(findBestCachedForecast([otherElevation, sameElevation], site, launch)).toBe(sameElevation);
+    });
+  });
+
+  describe('loadCachedForecasts', () => {
+    it('returns nothing without IndexedDB', async () => {
+      expect(await loadCachedForecasts()).toEqual([]);
+    });
+
+    it('fills the standard wind height into records saved without one', () => {
+      const forecast = createForecast({ fetchedAt: '2025-05-01T00:00:00Z', start: '2025-05-02T00:00:00Z', hours: 2 });
+      const legacy = {
+        ...forecast,
+        id: 3,
+        hours: forecast.hours.map(({ windReferenceHeight: _omitted, ...hour }) => hour),
+      };
+      const handheld = { ...forecast, hours: forecast.hours.map((hour) => ({ ...hour, windReferenceHeight: 2 })) };
+
+      const restored = normalizeCachedForecast(legacy);
+      expect(restored.hours.map((hour) => hour.windReferenceHeight)).toEqual([STANDARD_WIND_HEIGHT, STANDARD_WIND_HEIGHT]);
+      expect(restored.fromCache).toBe(true);
+      expect(restored).not.toHaveProperty('id');
+      expect(normalizeCachedForecast(handheld).hours[0].windReferenceHeight).toBe(2);
+    });
+  });
+
+  describe('staleness', () => {
+    const now = new Date('2025-05-01T12:00:00Z');
+
+    it('marks fetched weather older than the limit as stale', () => {
+      const fetched = (iso: string) => ({ ...DEFAULT_WEATHER_DATA, source: 'api' as const, fetchedAt: new Date(iso) });
+
+      expect(isWeatherStale(fetched('2025-05-01T08:00:00Z'), 6, now)).toBe(false);
+      expect(isWeatherStale(fetched('2025-05-01T05:00:00Z'), 6, now)).toBe(true);
+      // 手入力は対象外
+      expect(isWeatherStale(DEFAULT_WEATHER_DATA, 6, now)).toBe(false);
+    });
+
+    it('formats the age of a snapshot', () => {
+      expect(formatWeatherAge(new Date('2025-05-01T11:25:00Z'), now)).toBe('35分前');
+      expect(formatWeatherAge(new Date('2025-05-01T09:00:00Z'), now)).toBe('3時間前');
+      expect(formatWeatherAge(new Date('2025-04-28T12:00:00Z'), now)).toBe('3日前');
+    });
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * 気象データの提供元のユニットテスト
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { requestWeather, type WeatherProvider } from '../WeatherProvider';
+import { getWeatherProvider, getWeatherProviders, registerWeatherProvider } from '../WeatherProviderRegistry';
+import { anemometerProvider, averageAnemometerLog } from '../AnemometerProvider';
+import { createMockForecast, mockWeatherProvider } from '../MockWeatherProvider';
+import { openMeteoProvider } from '../WeatherAPI';
+
+const site = { latitude: 35.6762, longitude: 139.6503, elevation: 40 };
+
+/**
+ * 10:00 から1分ごとの観測
+ */
+function createRecords(speeds: number[], directions: number[]) {
+  return speeds.map((windSpeed, i) => ({
+    time: new Date(Date.UTC(2025, 4, 1, 1, i)),
+    windSpeed,
+    gustSpeed: windSpeed + 1,
+    windDirection: directions[i],
+  }));
+}
+
+describe('WeatherProvider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('registry', () => {
+    it('lists the built-in providers', () => {
+      expect(getWeatherProviders().map((provider) => provider.id)).toEqual(['openMeteo', 'anemometer', 'mock']);
+      expect(getWeatherProvider('anemometer')).toBe(anemometerProvider);
+      expect(() => getWeatherProvider('unknown')).toThrow('unknown');
+    });
+
+    it('registers additional providers', () => {
+      const custom: WeatherProvider = { ...mockWeatherProvider, id: 'custom', name: 'Custom' };
+      registerWeatherProvider(custom);
+      expect(getWeatherProvider('custom')).toBe(custom);
+    });
+  });
+
+  describe('averageAnemometerLog', () => {
+    it('averages the window before the last record', () => {
+      // 最初の2件は5分の平均の外
+      const records = createRecords([10, 10, 2, 3, 4, 3, 2, 4], [90, 90, 350, 10, 350, 10, 350, 10]);
+      const weather = averageAnemometerLog(records, 5);
+
+      expect(weather.surfaceWindSpeed).toBe(3);
+      // 350° と 10° の平均は北
+      expect(weather.surfaceWindDirection).toBe(0);
+      expect(weather.surfaceGustSpeed).toBe(5);
+      // 風速 2,3,4,3,2,4 の標準偏差 / 平均
+      expect(weather.turbulenceIntensity).toBeCloseTo(Math.sqrt(0.8) / 3, 3);
+      expect(weather.source).toBe('file');
+      // ハンディ風速計は目の高さで測る
+      expect(weather.windReferenceHeight).toBe(2);
+      expect(weather.timestamp).toEqual(records[7].time);
+      expect(weather.windLayers).toBeUndefined();
+    });
+
+    it('requires a log file', async () => {
+      await expect(anemometerProvider.getWeather({ site, time: new Date() })).rejects.toThrow('ログファイル');
+    });
+  });
+
+  describe('mockWeatherProvider', () => {
+    it('returns a deterministic forecast for the launch time', async () => {
+      const time = new Date(2025, 4, 1, 14, 20);
+      const { weather, forecast } = await mockWeatherProvider.getWeather({ site, time });
+
+      expect(weather.timestamp).toEqual(new Date(2025, 4, 1, 14));
+      expect(weather.surfaceWindSpeed).toBe(4.5);
+      expect(forecast!.hours).toEqual(createMockForecast(site, time, forecast!.fetchedAt).hours);
+      expect(forecast!.launchElevation).toBe(40);
+    });
+  });
+
+  describe('requestWeather', () => {
+    it('uses the provider result when it succeeds', async () => {
+      const result = await requestWeather(mockWeatherProvider, { site, time: new Date() });
+      expect(result.forecast).toBeDefined();
+    });
+
+    it('reports failures when no cached forecast is available', async () => {
+      vi.stubGlobal('fetch', vi.fn(async () => {
+        throw new Error('offline');
+      }));
+      await expect(requestWeather(openMeteoProvider, { site, time: new Date() })).rejects.toThrow('offline');
+    });
+  });
+});
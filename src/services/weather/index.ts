@@ -0,0 +1,6 @@
+export * from './WeatherAPI';
+export * from './WeatherCache';
+export * from './WeatherProvider';
+export * from './WeatherProviderRegistry';
+export * from './AnemometerProvider';
+export * from './MockWeatherProvider';
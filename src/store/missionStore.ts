@@ -5,18 +5,28 @@
 import { create } from 'zustand';
 import type { RocketParameters } from '../types/rocket';
 import type { RecoveryParameters } from '../types/recovery';
-import type { WeatherData } from '../types/weather';
+import type { WeatherData, WeatherForecast } from '../types/weather';
+import { DEFAULT_MAX_WEATHER_AGE_HOURS } from '../types/weather';
 import type { LaunchSite, Coordinates } from '../types/mission';
-import type { TrajectoryResult } from '../types/trajectory';
+import type { ElevationModel } from '../types/terrain';
+import type { TrajectoryResult, FlightEngine, LaunchWindowSlot } from '../types/trajectory';
 import type { TelemetryData, TelemetryMode } from '../types/telemetry';
 import type { TelemetryServiceStatus } from '../services/telemetry';
+import type { DispersionSettings, DispersionResult } from '../types/dispersion';
 import { calculateTrajectory } from '../services/trajectory/TrajectoryService';
+import { calculateLaunchWindow } from '../services/trajectory/LaunchWindow';
+import { getForecastDay } from '../services/weather/WeatherAPI';
+import { DEFAULT_WEATHER_PROVIDER_ID } from '../services/weather/WeatherProviderRegistry';
+import { runMonteCarloInWorker, type MonteCarloJob } from '../services/trajectory/MonteCarloClient';
+import { getMotorById } from '../services/motor/MotorCatalog';
+import { withoutSoundingWinds } from '../physics/sounding';
 
 // デフォルト値をインポート
 import { DEFAULT_ROCKET_PARAMS as defaultRocket } from '../types/rocket';
 import { DEFAULT_RECOVERY_PARAMS as defaultRecovery } from '../types/recovery';
 import { DEFAULT_WEATHER_DATA as defaultWeather } from '../types/weather';
 import { DEFAULT_LAUNCH_SITE as defaultLaunchSite } from '../types/mission';
+import { DEFAULT_DISPERSION_SETTINGS as defaultDispersion } from '../types/dispersion';
 
 /**
  * アプリのビューモード
@@ -28,6 +38,17 @@ export type ViewMode = 'setup' | 'simulation' | 'recovery';
  */
 type ScrollPositions = Record<ViewMode, number>;
 
+// 実行中の分散解析（ワーカーはシリアライズできないためストア外で保持）
+let dispersionJob: MonteCarloJob | null = null;
+
+/**
+ * 分散解析を中止
+ */
+function cancelDispersionJob() {
+  dispersionJob?.cancel();
+  dispersionJob = null;
+}
+
 /**
  * ミッションストアの状態
  */
@@ -42,6 +63,13 @@ interface MissionState {
 
   // 気象データ
   weatherData: WeatherData;
+  weatherProviderId: string;    // 気象データの提供元
+  weatherForecast: WeatherForecast | null; // 取得した1時間ごとの予報（発射地点の移動で破棄）
+  launchTime: Date | null;      // 発射予定時刻（未指定は現在）
+  maxWeatherAgeHours: number;   // 取得からこの時間 [h] を過ぎた予報は古いとみなす
+
+  // 地形データ（未読み込みは発射地点の標高で平坦）
+  terrain: ElevationModel | null;
 
   // テレメトリ
   telemetryMode: TelemetryMode;
@@ -49,11 +77,28 @@ interface MissionState {
   telemetryHistory: TelemetryData[];
   telemetryStatus: TelemetryServiceStatus;
 
+  // 計算モデル
+  flightEngine: FlightEngine;
+
   // 計算結果
   trajectoryResult: TrajectoryResult | null;
   isCalculating: boolean;
   calculationError: string | null;
 
+  // 分散解析
+  dispersionSettings: DispersionSettings;
+  dispersionResult: DispersionResult | null;
+  isDispersionRunning: boolean;
+  dispersionProgress: number;   // 0〜1
+  dispersionError: string | null;
+
+  // ローンチウィンドウ（発射予定日の各時刻の予測）
+  launchWindow: LaunchWindowSlot[] | null;
+  launchWindowError: string | null;
+
+  // 繰り返し実行したシミュレーションの着地点（風の条件を変えた比較用）
+  landingHistory: Coordinates[];
+
   // ユーザー位置（回収モード用）
   userLocation: Coordinates | null;
 
@@ -64,8 +109,15 @@ interface MissionState {
   setViewMode: (mode: ViewMode) => void;
   setLaunchSite: (site: Partial<LaunchSite>) => void;
   setRocketParams: (params: Partial<RocketParameters>) => void;
+  selectMotor: (motorId: string, delay: number) => void;
   setRecoveryParams: (params: Partial<RecoveryParameters>) => void;
   setWeatherData: (data: Partial<WeatherData>) => void;
+  setWeatherProviderId: (id: string) => void;
+  setWeatherForecast: (forecast: WeatherForecast | null) => void;
+  setLaunchTime: (time: Date | null) => void;
+  setMaxWeatherAgeHours: (hours: number) => void;
+  setTerrain: (terrain: ElevationModel | null) => void;
+  setFlightEngine: (engine: FlightEngine) => void;
   setTelemetryMode: (mode: TelemetryMode) => void;
   updateTelemetry: (data: TelemetryData) => void;
   addTelemetryToHistory: (data: TelemetryData) => void;
@@ -74,6 +126,12 @@ interface MissionState {
   setUserLocation: (coords: Coordinates | null) => void;
   setScrollPosition: (mode: ViewMode, position: number) => void;
   runSimulation: () => void;
+  setDispersionSettings: (settings: Partial<DispersionSettings>) => void;
+  runDispersionAnalysis: () => void;
+  cancelDispersionAnalysis: () => void;
+  runLaunchWindow: () => void;
+  selectLaunchSlot: (slot: LaunchWindowSlot) => void;
+  clearLandingHistory: () => void;
   resetToDefaults: () => void;
 }
 
@@ -87,42 +145,151 @@ export const useMissionStore = create<MissionState>((set, get) => ({
   rocketParams: defaultRocket,
   recoveryParams: defaultRecovery,
   weatherData: defaultWeather,
+  weatherProviderId: DEFAULT_WEATHER_PROVIDER_ID,
+  weatherForecast: null,
+  launchTime: null,
+  maxWeatherAgeHours: DEFAULT_MAX_WEATHER_AGE_HOURS,
+  terrain: null,
   telemetryMode: 'none',
   currentTelemetry: null,
   telemetryHistory: [],
   telemetryStatus: 'idle',
+  flightEngine: 'pointMass',
   trajectoryResult: null,
   isCalculating: false,
   calculationError: null,
+  dispersionSettings: defaultDispersion,
+  dispersionResult: null,
+  isDispersionRunning: false,
+  dispersionProgress: 0,
+  dispersionError: null,
+  launchWindow: null,
+  launchWindowError: null,
+  landingHistory: [],
   userLocation: null,
   scrollPositions: { setup: 0, simulation: 0, recovery: 0 },
 
   // アクション
   setViewMode: (mode) => set({ viewMode: mode }),
 
-  setLaunchSite: (site) =>
-    set((state) => ({
-      launchSite: { ...state.launchSite, ...site },
-      trajectoryResult: null, // パラメータ変更時は結果をクリア
-    })),
+  setLaunchSite: (site) => {
+    // 実行中の分散解析は変更前のパラメータで計算しているため中止（以下の設定変更も同じ）
+    cancelDispersionJob();
+    set((state) => {
+      // 発射地点が動いたら別の地点の予報は使わない（高度別の風は標高からの高度のため標高も見る）
+      const moved = (site.latitude ?? state.launchSite.latitude) !== state.launchSite.latitude
+        || (site.longitude ?? state.launchSite.longitude) !== state.launchSite.longitude
+        || (site.elevation ?? state.launchSite.elevation) !== state.launchSite.elevation;
+      return {
+        launchSite: { ...state.launchSite, ...site },
+        weatherForecast: moved ? null : state.weatherForecast,
+        trajectoryResult: null, // パラメータ変更時は結果をクリア
+        dispersionResult: null,
+        isDispersionRunning: false,
+        dispersionProgress: 0,
+        launchWindow: null,
+        landingHistory: [],
+      };
+    });
+  },
+
+  setRocketParams: (params) => {
+    cancelDispersionJob();
+    set((state) => {
+      const rocketParams = { ...state.rocketParams, ...params };
+      return {
+        rocketParams,
+        // 形状を外したら6自由度は計算できないので質点モデルに戻す
+        flightEngine: rocketParams.geometry ? state.flightEngine : 'pointMass',
+        trajectoryResult: null,
+        dispersionResult: null,
+        isDispersionRunning: false,
+        dispersionProgress: 0,
+        launchWindow: null,
+        landingHistory: [],
+      };
+    });
+  },
+
+  selectMotor: (motorId, delay) => {
+    const motor = getMotorById(motorId);
+    if (!motor) return;
 
-  setRocketParams: (params) =>
+    cancelDispersionJob();
     set((state) => ({
-      rocketParams: { ...state.rocketParams, ...params },
+      rocketParams: {
+        ...state.rocketParams,
+        motorId: motor.id,
+        motorTotalImpulse: motor.totalImpulse,
+        motorBurnTime: motor.burnTime,
+        propellantMass: motor.propellantMass,
+        motorDelayTime: delay,
+        thrustCurve: motor.thrustCurve,
+      },
       trajectoryResult: null,
-    })),
+      dispersionResult: null,
+      isDispersionRunning: false,
+      dispersionProgress: 0,
+      launchWindow: null,
+      landingHistory: [],
+    }));
+  },
 
-  setRecoveryParams: (params) =>
+  setRecoveryParams: (params) => {
+    cancelDispersionJob();
     set((state) => ({
       recoveryParams: { ...state.recoveryParams, ...params },
       trajectoryResult: null,
-    })),
+      dispersionResult: null,
+      isDispersionRunning: false,
+      dispersionProgress: 0,
+      launchWindow: null,
+      landingHistory: [],
+    }));
+  },
 
-  setWeatherData: (data) =>
+  setWeatherData: (data) => {
+    cancelDispersionJob();
     set((state) => ({
       weatherData: { ...state.weatherData, ...data },
       trajectoryResult: null,
-    })),
+      dispersionResult: null,
+      isDispersionRunning: false,
+      dispersionProgress: 0,
+    }));
+  },
+
+  setWeatherProviderId: (id) => set({ weatherProviderId: id }),
+
+  setWeatherForecast: (forecast) => set({ weatherForecast: forecast, launchWindow: null }),
+
+  setLaunchTime: (time) => set({ launchTime: time, launchWindow: null }),
+
+  setMaxWeatherAgeHours: (hours) => set({ maxWeatherAgeHours: hours }),
+
+  setTerrain: (terrain) => {
+    cancelDispersionJob();
+    set({
+      terrain,
+      trajectoryResult: null,
+      dispersionResult: null,
+      isDispersionRunning: false,
+      dispersionProgress: 0,
+      launchWindow: null,
+    });
+  },
+
+  setFlightEngine: (engine) => {
+    cancelDispersionJob();
+    set({
+      flightEngine: engine,
+      trajectoryResult: null,
+      dispersionResult: null,
+      isDispersionRunning: false,
+      dispersionProgress: 0,
+      launchWindow: null,
+    });
+  },
 
   setTelemetryMode: (mode) => set({ telemetryMode: mode }),
 
@@ -160,10 +327,15 @@ export const useMissionStore = create<MissionState>((set, get) => ({
         recovery: state.recoveryParams,
         launchSite: state.launchSite,
         weather: state.weatherData,
+        terrain: state.terrain ?? undefined,
+        maxWeatherAgeHours: state.maxWeatherAgeHours,
+        config: { engine: state.flightEngine },
       });
 
       set({
         trajectoryResult: result,
+        dispersionResult: null,
+        landingHistory: [...state.landingHistory, result.predictedLanding],
         isCalculating: false,
         viewMode: 'simulation',
       });
@@ -175,13 +347,120 @@ export const useMissionStore = create<MissionState>((set, get) => ({
     }
   },
 
-  resetToDefaults: () =>
+  setDispersionSettings: (settings) =>
+    set((state) => ({
+      dispersionSettings: { ...state.dispersionSettings, ...settings },
+    })),
+
+  runDispersionAnalysis: () => {
+    const state = get();
+    cancelDispersionJob();
+    set({ isDispersionRunning: true, dispersionProgress: 0, dispersionError: null });
+
+    const job = runMonteCarloInWorker(
+      {
+        rocket: state.rocketParams,
+        recovery: state.recoveryParams,
+        launchSite: state.launchSite,
+        weather: state.weatherData,
+        terrain: state.terrain ?? undefined,
+        config: { engine: state.flightEngine },
+      },
+      state.dispersionSettings,
+      (completed, total) => set({ dispersionProgress: completed / total })
+    );
+    dispersionJob = job;
+
+    job.promise
+      .then((result) => {
+        if (dispersionJob !== job) return;
+        dispersionJob = null;
+        set({ dispersionResult: result, isDispersionRunning: false, dispersionProgress: 1 });
+      })
+      .catch((error) => {
+        if (dispersionJob !== job) return;
+        dispersionJob = null;
+        set({
+          isDispersionRunning: false,
+          dispersionError: error instanceof Error ? error.message : '分散解析エラー',
+        });
+      });
+  },
+
+  cancelDispersionAnalysis: () => {
+    cancelDispersionJob();
+    set({ isDispersionRunning: false, dispersionProgress: 0 });
+  },
+
+  runLaunchWindow: () => {
+    const state = get();
+    if (!state.weatherForecast) return;
+
+    try {
+      const hours = getForecastDay(state.weatherForecast, state.launchTime ?? new Date());
+      if (hours.length === 0) {
+        throw new Error('発射予定日の予報がありません');
+      }
+      const launchWindow = calculateLaunchWindow(
+        {
+          rocket: state.rocketParams,
+          recovery: state.recoveryParams,
+          launchSite: state.launchSite,
+          weather: state.weatherData,
+          terrain: state.terrain ?? undefined,
+          config: { engine: state.flightEngine },
+        },
+        // 読み込んだ高層気象観測の気温・気圧・湿度は各時刻にも使う（風は時刻ごとの予報）
+        hours.map((hour) => ({
+          ...hour,
+          sounding: state.weatherData.sounding && withoutSoundingWinds(state.weatherData.sounding),
+        }))
+      );
+      set({ launchWindow, launchWindowError: null });
+    } catch (error) {
+      set({
+        launchWindow: null,
+        launchWindowError: error instanceof Error ? error.message : 'ローンチウィンドウの計算エラー',
+      });
+    }
+  },
+
+  selectLaunchSlot: (slot) => {
+    cancelDispersionJob();
+    set((state) => ({
+      launchTime: slot.time,
+      weatherData: { ...state.weatherData, ...slot.weather },
+      isDispersionRunning: false,
+      dispersionProgress: 0,
+    }));
+    get().runSimulation();
+  },
+
+  clearLandingHistory: () => set({ landingHistory: [] }),
+
+  resetToDefaults: () => {
+    cancelDispersionJob();
     set({
       launchSite: defaultLaunchSite,
       rocketParams: defaultRocket,
       recoveryParams: defaultRecovery,
       weatherData: defaultWeather,
+      weatherProviderId: DEFAULT_WEATHER_PROVIDER_ID,
+      weatherForecast: null,
+      launchTime: null,
+      maxWeatherAgeHours: DEFAULT_MAX_WEATHER_AGE_HOURS,
+      terrain: null,
+      flightEngine: 'pointMass',
       trajectoryResult: null,
       calculationError: null,
-    }),
+      dispersionSettings: defaultDispersion,
+      dispersionResult: null,
+      isDispersionRunning: false,
+      dispersionProgress: 0,
+      dispersionError: null,
+      launchWindow: null,
+      launchWindowError: null,
+      landingHistory: [],
+    });
+  },
 }));
@@ -0,0 +1,126 @@
+import type { Coordinates } from './mission';
+import type { UncertaintyEllipse } from './trajectory';
+
+/**
+ * 誤差分布の種類
+ */
+export type DistributionType = 'none' | 'normal' | 'uniform';
+
+/**
+ * 入力誤差の分布（平均0）
+ */
+export interface Distribution {
+  type: DistributionType;
+  spread: number;               // 正規分布: 標準偏差, 一様分布: 半幅
+}
+
+/**
+ * モンテカルロ分散解析の設定
+ */
+export interface DispersionSettings {
+  runs: number;                 // 試行回数
+  seed: number;                 // 乱数シード（同じ値なら同じ結果）
+  windSpeed: Distribution;      // 風速の相対誤差（例: 0.25 = 25%）
+  windDirection: Distribution;  // 風向誤差 [deg]
+  launchAngle: Distribution;    // 発射角度誤差 [deg]
+  launchAzimuth: Distribution;  // 発射方位誤差 [deg]
+  dragCoefficient: Distribution; // 抗力係数の相対誤差
+  motorImpulse: Distribution;   // 総力積の相対誤差
+  deploymentDelay: Distribution; // 展開タイミングのずれ [s]（頂点展開では負の値は頂点で展開）
+}
+
+/**
+ * 誤差を与える入力項目
+ */
+export type DispersionParameter = Exclude<keyof DispersionSettings, 'runs' | 'seed'>;
+
+/**
+ * デフォルトの分散解析設定
+ */
+export const DEFAULT_DISPERSION_SETTINGS: DispersionSettings = {
+  runs: 200,
+  seed: 1,
+  windSpeed: { type: 'normal', spread: 0.25 },
+  windDirection: { type: 'normal', spread: 15 },
+  launchAngle: { type: 'normal', spread: 1 },
+  launchAzimuth: { type: 'normal', spread: 3 },
+  dragCoefficient: { type: 'normal', spread: 0.1 },
+  motorImpulse: { type: 'normal', spread: 0.05 },
+  deploymentDelay: { type: 'normal', spread: 0.5 },
+};
+
+/**
+ * 分散楕円の信頼度
+ */
+export const DISPERSION_CONFIDENCE_LEVELS = [0.5, 0.9, 0.99];
+
+/**
+ * モンテカルロ分散解析の結果
+ */
+export interface DispersionResult {
+  runs: number;                 // 成功した試行回数
+  failedRuns: number;           // 計算できずに除外した試行回数
+  landingPoints: Coordinates[]; // 各試行の着地点
+  meanLanding: Coordinates;     // 着地点の平均
+  covariance: {                 // 着地点の共分散 [m²]（x: 東, y: 北）
+    xx: number;
+    xy: number;
+    yy: number;
+  };
+  ellipses: UncertaintyEllipse[]; // 50/90/99%楕円
+}
+
+/**
+ * 入力項目の表示名と単位
+ */
+export const DISPERSION_PARAMETER_LABELS: Record<DispersionParameter, { label: string; unit: string; relative: boolean }> = {
+  windSpeed: { label: '風速', unit: '%', relative: true },
+  windDirection: { label: '風向', unit: '°', relative: false },
+  launchAngle: { label: '発射角度', unit: '°', relative: false },
+  launchAzimuth: { label: '発射方位', unit: '°', relative: false },
+  dragCoefficient: { label: '抗力係数', unit: '%', relative: true },
+  motorImpulse: { label: '総力積', unit: '%', relative: true },
+  deploymentDelay: { label: '展開タイミング', unit: 's', relative: false },
+};
+
+/**
+ * 分布の種類の表示名
+ */
+export const DISTRIBUTION_TYPE_LABELS: Record<DistributionType, string> = {
+  none: 'なし',
+  normal: '正規',
+  uniform: '一様',
+};
+
+/**
+ * 着地点密度の六角形ビン
+ */
+export interface HexBin {
+  q: number;                    // 軸座標（列）
+  r: number;                    // 軸座標（行）
+  center: Coordinates;
+  vertices: Coordinates[];      // 6頂点
+  count: number;                // ビン内の着地点数
+  probability: number;          // ビンに着地する確率
+  level: number | null;         // ビンを含む最小の確率領域（0.5等）、どれにも含まれなければnull
+}
+
+/**
+ * 確率等高線（最高密度領域の境界）
+ */
+export interface ProbabilityContour {
+  probability: number;          // 領域に着地する確率
+  area: number;                 // 領域の面積 [m²]
+  segments: [Coordinates, Coordinates][]; // 境界線分
+}
+
+/**
+ * 着地点の密度分布
+ */
+export interface LandingDensity {
+  cellSize: number;             // 六角形の外接円半径 [m]
+  totalPoints: number;
+  maxProbability: number;       // ビン確率の最大値（色の正規化用）
+  bins: HexBin[];
+  contours: ProbabilityContour[];
+}
@@ -1,7 +1,11 @@
 // 型定義のエクスポート
 export * from './rocket';
+export * from './motor';
 export * from './recovery';
 export * from './weather';
 export * from './mission';
 export * from './trajectory';
 export * from './telemetry';
+export * from './dispersion';
+export * from './stability';
+export * from './terrain';
@@ -6,6 +6,35 @@ export interface Coordinates {
   longitude: number;            // 経度 [deg]
 }
 
+/**
+ * 発射地点の地表の種類（風の対数則の粗度長を決める）
+ */
+export type SurfaceType =
+  | 'water'
+  | 'sand'
+  | 'snow'
+  | 'grass_short'
+  | 'grass_tall'
+  | 'farmland'
+  | 'suburbs'
+  | 'urban'
+  | 'forest';
+
+/**
+ * 地表の種類の表示名
+ */
+export const SURFACE_TYPE_LABELS: Record<SurfaceType, string> = {
+  water: '水面',
+  sand: '砂地',
+  snow: '雪面',
+  grass_short: '短い草地',
+  grass_tall: '長い草地',
+  farmland: '農地',
+  suburbs: '郊外',
+  urban: '市街地',
+  forest: '森林',
+};
+
 /**
  * 発射地点
  */
@@ -15,6 +44,9 @@ export interface LaunchSite {
   elevation: number;            // 標高 [m]
   launchAngle: number;          // 発射角度 [deg]（鉛直=90）
   launchAzimuth: number;        // 発射方位 [deg]（北=0, 時計回り）
+  railLength: number;           // ランチレール（ロッド）長 [m]
+  minRailExitVelocity: number;  // レール離脱速度の下限 [m/s]（下回ると警告）
+  surfaceType: SurfaceType;     // 周囲の地表の種類（地表付近の風速の高度変化）
 }
 
 /**
@@ -26,6 +58,9 @@ export const DEFAULT_LAUNCH_SITE: LaunchSite = {
   elevation: 40,
   launchAngle: 85,              // 85度（少し傾いた発射）
   launchAzimuth: 0,             // 北向き
+  railLength: 1.5,              // 1.5m
+  minRailExitVelocity: 15,
+  surfaceType: 'grass_tall',    // 開けた草地
 };
 
 /**
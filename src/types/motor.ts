@@ -0,0 +1,42 @@
+import type { ThrustCurvePoint } from './rocket';
+
+/**
+ * モーターカタログの1件
+ */
+export interface MotorSpec {
+  id: string;                   // モーターID（例: estes-a8）
+  designation: string;          // 型式（例: A8）
+  manufacturer: string;         // メーカー
+  impulseClass: string;         // 力積クラス（1/2A, A〜G）
+  diameter: number;             // 直径 [m]
+  totalImpulse: number;         // 総力積 [Ns]
+  burnTime: number;             // 燃焼時間 [s]
+  propellantMass: number;       // 推進剤質量 [kg]
+  totalMass: number;            // 全備質量 [kg]
+  delays: number[];             // 選択可能な遅延時間 [s]（プラグ付きは空）
+  thrustCurve: ThrustCurvePoint[];
+}
+
+/**
+ * 力積クラスの上限 [Ns]
+ */
+const IMPULSE_CLASS_LIMITS: { impulseClass: string; maxImpulse: number }[] = [
+  { impulseClass: '1/4A', maxImpulse: 0.625 },
+  { impulseClass: '1/2A', maxImpulse: 1.25 },
+  { impulseClass: 'A', maxImpulse: 2.5 },
+  { impulseClass: 'B', maxImpulse: 5 },
+  { impulseClass: 'C', maxImpulse: 10 },
+  { impulseClass: 'D', maxImpulse: 20 },
+  { impulseClass: 'E', maxImpulse: 40 },
+  { impulseClass: 'F', maxImpulse: 80 },
+  { impulseClass: 'G', maxImpulse: 160 },
+  { impulseClass: 'H', maxImpulse: 320 },
+];
+
+/**
+ * 総力積から力積クラスを判定
+ */
+export function getImpulseClass(totalImpulse: number): string {
+  const limit = IMPULSE_CLASS_LIMITS.find((l) => totalImpulse <= l.maxImpulse);
+  return limit ? limit.impulseClass : 'I+';
+}
@@ -1,7 +1,39 @@
 /**
  * 回収方式
  */
-export type RecoveryMethod = 'parachute' | 'streamer' | 'freefall';
+export type RecoveryMethod = 'parachute' | 'streamer' | 'freefall' | 'dualDeploy';
+
+/**
+ * 展開のきっかけ
+ */
+export type DeploymentTrigger = 'apogee' | 'motorEjection' | 'altitude' | 'timeAfterApogee';
+
+/**
+ * 展開する回収装置の役割（デュアルデプロイ）
+ */
+export type DeploymentRole = 'drogue' | 'main';
+
+/**
+ * 展開イベント
+ */
+export interface DeploymentEvent {
+  role?: DeploymentRole;        // 未指定は単一展開（フェーズは 'descent'）
+  trigger: DeploymentTrigger;
+  triggerValue?: number;        // altitude: 地表からの高度 [m], timeAfterApogee: 頂点からの時間 [s]
+  device: 'parachute' | 'streamer';
+
+  // パラシュート用
+  parachuteDiameter?: number;   // パラシュート直径 [m]
+  parachuteCd?: number;         // パラシュートCd
+
+  // ストリーマー用
+  streamerArea?: number;        // ストリーマー面積 [m²]
+  streamerCd?: number;          // ストリーマーCd
+
+  // 開傘（充填）
+  fillTime?: number;            // 充填時間 [s]（指定時は充填距離より優先）
+  fillDistance?: number;        // 充填距離係数 n（充填時間 = n × 直径 / 展開時の対気速度）
+}
 
 /**
  * 回収パラメータ
@@ -16,8 +48,23 @@ export interface RecoveryParameters {
   // ストリーマー用
   streamerArea?: number;        // ストリーマー面積 [m²]
   streamerCd?: number;          // ストリーマーCd
+
+  // 開傘（充填）
+  fillTime?: number;            // 充填時間 [s]（指定時は充填距離より優先）
+  fillDistance?: number;        // 充填距離係数 n（充填時間 = n × 直径 / 展開時の対気速度）
+
+  // デュアルデプロイ用（展開順）
+  deployments?: DeploymentEvent[];
 }
 
+/**
+ * デフォルトのデュアルデプロイ構成（頂点でドローグ、地表150mでメイン）
+ */
+export const DEFAULT_DUAL_DEPLOY_EVENTS: DeploymentEvent[] = [
+  { role: 'drogue', trigger: 'apogee', device: 'parachute', parachuteDiameter: 0.3, parachuteCd: 1.5 },
+  { role: 'main', trigger: 'altitude', triggerValue: 150, device: 'parachute', parachuteDiameter: 0.9, parachuteCd: 1.75 },
+];
+
 /**
  * デフォルトの回収パラメータ（パラシュート）
  */
@@ -34,6 +81,50 @@ export function getParachuteArea(diameter: number): number {
   return Math.PI * Math.pow(diameter / 2, 2);
 }
 
+/**
+ * デフォルトの充填距離係数（平面円形キャノピーの代表値）
+ */
+export const DEFAULT_FILL_DISTANCE = 6;
+
+/**
+ * 安全に展開できる速度の上限 [m/s]（これを超えると破損・絡まりの危険）
+ */
+export const MAX_SAFE_DEPLOYMENT_VELOCITY = 20;
+
+/**
+ * 回収パラメータを展開イベントの列に変換
+ *
+ * 単一のパラシュート・ストリーマーはモーターの放出（燃焼終了＋遅延）での1イベント、
+ * 自由落下はイベントなし
+ */
+export function getDeploymentEvents(recovery: RecoveryParameters): DeploymentEvent[] {
+  switch (recovery.method) {
+    case 'parachute':
+      return [{
+        trigger: 'motorEjection',
+        device: 'parachute',
+        parachuteDiameter: recovery.parachuteDiameter,
+        parachuteCd: recovery.parachuteCd,
+        fillTime: recovery.fillTime,
+        fillDistance: recovery.fillDistance,
+      }];
+    case 'streamer':
+      return [{
+        trigger: 'motorEjection',
+        device: 'streamer',
+        streamerArea: recovery.streamerArea,
+        streamerCd: recovery.streamerCd,
+        fillTime: recovery.fillTime,
+        fillDistance: recovery.fillDistance,
+      }];
+    case 'dualDeploy':
+      return recovery.deployments ?? DEFAULT_DUAL_DEPLOY_EVENTS;
+    case 'freefall':
+    default:
+      return [];
+  }
+}
+
 /**
  * 回収方式の表示名
  */
@@ -41,4 +132,23 @@ export const RECOVERY_METHOD_LABELS: Record<RecoveryMethod, string> = {
   parachute: 'パラシュート',
   streamer: 'ストリーマー',
   freefall: '自由落下',
+  dualDeploy: 'デュアルデプロイ',
+};
+
+/**
+ * 展開のきっかけの表示名
+ */
+export const DEPLOYMENT_TRIGGER_LABELS: Record<DeploymentTrigger, string> = {
+  apogee: '頂点',
+  motorEjection: 'モーター放出',
+  altitude: '高度（AGL）',
+  timeAfterApogee: '頂点から経過時間',
+};
+
+/**
+ * 回収装置の役割の表示名
+ */
+export const DEPLOYMENT_ROLE_LABELS: Record<DeploymentRole, string> = {
+  drogue: 'ドローグ',
+  main: 'メイン',
 };
@@ -1,3 +1,14 @@
+import type { RocketGeometry } from './stability';
+import type { RecoveryParameters } from './recovery';
+
+/**
+ * 推力曲線の1点
+ */
+export interface ThrustCurvePoint {
+  time: number;                 // 点火からの時刻 [s]
+  thrust: number;               // 推力 [N]
+}
+
 /**
  * ロケットパラメータの型定義
  */
@@ -9,12 +20,100 @@ export interface RocketParameters {
   // 形状・空力
   bodyDiameter: number;         // 機体直径 [m]
   bodyLength: number;           // 機体全長 [m]
-  dragCoefficient: number;      // 抗力係数 Cd（通常0.4-0.6）
+  dragCoefficient: number;      // 抗力係数 Cd（通常0.4-0.6、形状から推算する場合は未使用）
+  manualDragCoefficient?: boolean; // true: 形状があっても推算せず dragCoefficient を使う
 
   // モーター
   motorTotalImpulse: number;    // 総力積 [Ns]
   motorBurnTime: number;        // 燃焼時間 [s]
   motorDelayTime: number;       // 遅延時間 [s]（パラシュート展開まで）
+  thrustCurve?: ThrustCurvePoint[]; // 推力曲線（未指定時は平均推力で一定）
+  motorId?: string;             // カタログから選択したモーターのID
+  motorCount?: number;          // クラスター本数（未指定は1、モーター関係の値は1本あたり）
+
+  // 安定性
+  geometry?: RocketGeometry;    // 機体形状・部品配置（未指定時は安定性を計算しない）
+
+  // 多段（この機体が最上段）
+  boosters?: RocketStage[];     // 下段（下から順、未指定は単段）
+  ignition?: StageIgnition;     // 最上段の点火（下段がある場合のみ）
+}
+
+/**
+ * 推力モデルの作成に使うモーター関係の値（1本あたり）
+ */
+export type MotorConfiguration = Pick<
+  RocketParameters,
+  'propellantMass' | 'motorTotalImpulse' | 'motorBurnTime' | 'thrustCurve' | 'motorCount'
+>;
+
+/**
+ * 段の点火のきっかけ
+ */
+export type StageIgnitionTrigger = 'burnout' | 'delay';
+
+/**
+ * 段の点火
+ */
+export interface StageIgnition {
+  trigger: StageIgnitionTrigger;
+  delay: number;                // delay: 発射からの時刻 [s]（burnout では未使用）
+}
+
+/**
+ * 下段（ブースター）
+ *
+ * 分離までは上の段と一体で飛行し、分離後は単独で降下する
+ */
+export interface RocketStage {
+  name: string;
+  dryMass: number;              // 空虚質量（モーターケースを含む） [kg]
+  propellantMass: number;       // 推進剤質量（1本あたり） [kg]
+  bodyDiameter: number;         // 機体直径 [m]
+  dragCoefficient: number;      // 抗力係数 Cd（分離後の降下に使用）
+  motorTotalImpulse: number;    // 総力積（1本あたり） [Ns]
+  motorBurnTime: number;        // 燃焼時間 [s]
+  thrustCurve?: ThrustCurvePoint[]; // 推力曲線（1本あたり）
+  motorCount?: number;          // クラスター本数（未指定は1）
+  ignition: StageIgnition;      // 点火（最下段は発射時のため未使用）
+  separationDelay: number;      // 燃焼終了から分離までの時間 [s]（上の段の点火が先ならその時点）
+  recovery: RecoveryParameters; // 分離後の回収方式（展開は分離時）
+}
+
+/**
+ * 段の点火のデフォルト（下段の燃焼終了で点火）
+ */
+export const DEFAULT_STAGE_IGNITION: StageIgnition = { trigger: 'burnout', delay: 0 };
+
+/**
+ * 追加する下段のデフォルト（Bクラスのブースター、分離後はストリーマー）
+ */
+export const DEFAULT_ROCKET_STAGE: RocketStage = {
+  name: 'ブースター',
+  dryMass: 0.03,
+  propellantMass: 0.0062,
+  bodyDiameter: 0.025,
+  dragCoefficient: 0.6,
+  motorTotalImpulse: 5,
+  motorBurnTime: 0.8,
+  ignition: DEFAULT_STAGE_IGNITION,
+  separationDelay: 0,
+  recovery: { method: 'streamer', streamerArea: 0.02, streamerCd: 1.2 },
+};
+
+/**
+ * 段の点火のきっかけの表示名
+ */
+export const STAGE_IGNITION_TRIGGER_LABELS: Record<StageIgnitionTrigger, string> = {
+  burnout: '下段の燃焼終了',
+  delay: '発射からの時刻',
+};
+
+/**
+ * 推進剤の合計質量を取得 [kg]（クラスターは本数倍）
+ */
+export function getTotalPropellantMass(spec: MotorConfiguration): number {
+  return spec.propellantMass * (spec.motorCount ?? 1);
 }
 
 /**
@@ -0,0 +1,123 @@
+/**
+ * ノーズコーン形状
+ */
+export type NoseConeShape = 'conical' | 'ogive' | 'parabolic';
+
+/**
+ * ノーズコーン
+ */
+export interface NoseCone {
+  shape: NoseConeShape;
+  length: number;               // 長さ [m]
+  mass: number;                 // 質量 [kg]
+}
+
+/**
+ * ボディチューブ（ノーズ側から順に接続、直径は機体直径）
+ */
+export interface BodyTube {
+  length: number;               // 長さ [m]
+  mass: number;                 // 質量 [kg]
+}
+
+/**
+ * フィンセット（台形フィン）
+ */
+export interface FinSet {
+  count: number;                // 枚数
+  rootChord: number;            // 根元翼弦長 [m]
+  tipChord: number;             // 翼端翼弦長 [m]
+  span: number;                 // スパン（半翼幅） [m]
+  sweepLength: number;          // 後退距離（根元前縁から翼端前縁まで） [m]
+  offsetFromTail: number;       // 機体後端から根元後縁までの距離 [m]
+  thickness: number;            // 板厚 [m]
+  cantAngle?: number;           // カント角 [deg]（6自由度計算のロール、未指定は0）
+  mass: number;                 // フィンセット全体の質量 [kg]
+}
+
+/**
+ * ランチラグ
+ */
+export interface LaunchLug {
+  length: number;               // 長さ [m]
+  diameter: number;             // 外径 [m]
+}
+
+/**
+ * 搭載部品（質量と位置）
+ */
+export interface MassComponent {
+  name: string;
+  mass: number;                 // 質量 [kg]
+  position: number;             // ノーズ先端から重心までの距離 [m]
+}
+
+/**
+ * 安定性計算・抗力推算用の機体形状
+ */
+export interface RocketGeometry {
+  noseCone: NoseCone;
+  bodyTubes: BodyTube[];
+  finSet: FinSet;
+  launchLug?: LaunchLug;        // 未指定はレールボタン等（抗力は無視）
+  components: MassComponent[];  // 搭載部品（回収装置・空のモーターケースなど）
+  motorLength: number;          // モーター長 [m]（機体後端に装着、推進剤の重心位置に使用）
+}
+
+/**
+ * 安定性の計算結果（位置はすべてノーズ先端から）
+ */
+export interface StabilityResult {
+  cp: number;                   // 圧力中心 [m]
+  cgWet: number;                // 重心（推進剤あり） [m]
+  cgDry: number;                // 重心（燃焼後） [m]
+  normalForceSlope: number;     // 法線力係数傾斜 CNα [1/rad]
+  staticMarginWet: number;      // 静安定余裕（推進剤あり） [cal]
+  staticMarginDry: number;      // 静安定余裕（燃焼後） [cal]
+  componentMass: number;        // 部品質量の合計（推進剤を除く） [kg]
+}
+
+/**
+ * 安全とみなす静安定余裕の下限 [cal]
+ */
+export const MIN_STATIC_MARGIN = 1;
+
+/**
+ * デフォルトの機体形状（デフォルトのロケットパラメータに対応）
+ */
+export const DEFAULT_ROCKET_GEOMETRY: RocketGeometry = {
+  noseCone: { shape: 'ogive', length: 0.07, mass: 0.010 },
+  bodyTubes: [{ length: 0.23, mass: 0.015 }],
+  finSet: {
+    count: 3,
+    rootChord: 0.05,
+    tipChord: 0.025,
+    span: 0.04,
+    sweepLength: 0.025,
+    offsetFromTail: 0,
+    thickness: 0.002,
+    mass: 0.006,
+  },
+  launchLug: { length: 0.038, diameter: 0.005 },
+  components: [
+    { name: '回収装置', mass: 0.008, position: 0.12 },
+    { name: 'モーターケース', mass: 0.011, position: 0.265 },
+  ],
+  motorLength: 0.07,
+};
+
+/**
+ * 機体全長を取得 [m]
+ */
+export function getGeometryLength(geometry: RocketGeometry): number {
+  return geometry.noseCone.length + geometry.bodyTubes.reduce((sum, tube) => sum + tube.length, 0);
+}
+
+/**
+ * ノーズコーン形状の表示名
+ */
+export const NOSE_CONE_SHAPE_LABELS: Record<NoseConeShape, string> = {
+  conical: 'コニカル',
+  ogive: 'オジャイブ',
+  parabolic: 'パラボリック',
+};
@@ -0,0 +1,20 @@
+/**
+ * 数値標高モデル（緯度経度の等間隔格子）
+ *
+ * 範囲は両端の格子点の位置（セルの縁ではない）
+ */
+export interface ElevationModel {
+  name: string;                 // 読み込んだファイル名
+  west: number;                 // 西端の格子点の経度 [deg]
+  east: number;                 // 東端の格子点の経度 [deg]
+  south: number;                // 南端の格子点の緯度 [deg]
+  north: number;                // 北端の格子点の緯度 [deg]
+  width: number;                // 東西方向の格子点数
+  height: number;               // 南北方向の格子点数
+  elevations: Float32Array;     // 標高 [m]（北西から東へ1行ずつ、欠測は NaN）
+}
+
+/**
+ * 地形データのファイル拡張子
+ */
+export const ELEVATION_FILE_EXTENSIONS = ['.hgt', '.tif', '.tiff'];
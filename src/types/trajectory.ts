@@ -1,4 +1,5 @@
 import type { Coordinates } from './mission';
+import type { WeatherData } from './weather';
 
 /**
  * 軌道上の1点
@@ -15,13 +16,67 @@ export interface TrajectoryPoint {
     y: number;                  // 北方向速度 [m/s]
     z: number;                  // 鉛直速度 [m/s]
   };
-  phase: 'thrust' | 'coast' | 'descent';
+  phase: FlightPhase;
+  orientation?: Quaternion;     // 姿勢（6自由度計算の上昇中のみ、機体座標 → 地上座標）
 }
 
 /**
- * 飛行フェーズ
+ * 姿勢クォータニオン
+ *
+ * 機体座標（z: 機首方向）から地上座標（x: 東, y: 北, z: 上）への回転
  */
-export type FlightPhase = 'thrust' | 'coast' | 'descent';
+export interface Quaternion {
+  w: number;
+  x: number;
+  y: number;
+  z: number;
+}
+
+/**
+ * 飛行フェーズ（drogue/main はデュアルデプロイの各区間）
+ */
+export type FlightPhase = 'thrust' | 'coast' | 'descent' | 'drogue' | 'main';
+
+/**
+ * 降下中のフェーズか
+ */
+export function isDescentPhase(phase: FlightPhase): boolean {
+  return phase === 'descent' || phase === 'drogue' || phase === 'main';
+}
+
+/**
+ * 軌道点を連続する同一フェーズの区間に分割
+ *
+ * 線が途切れないよう、各区間の先頭に前区間の最終点を含める
+ */
+export function splitTrajectoryByPhase(
+  points: TrajectoryPoint[]
+): { phase: FlightPhase; points: TrajectoryPoint[] }[] {
+  const segments: { phase: FlightPhase; points: TrajectoryPoint[] }[] = [];
+
+  for (const point of points) {
+    const current = segments[segments.length - 1];
+    if (current && current.phase === point.phase) {
+      current.points.push(point);
+    } else {
+      const previous = current?.points[current.points.length - 1];
+      segments.push({ phase: point.phase, points: previous ? [previous, point] : [point] });
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * 飛行フェーズの表示名
+ */
+export const FLIGHT_PHASE_LABELS: Record<FlightPhase, string> = {
+  thrust: '推力',
+  coast: '慣性',
+  descent: '降下',
+  drogue: 'ドローグ',
+  main: 'メイン',
+};
 
 /**
  * 予測の不確実性楕円
@@ -42,13 +97,65 @@ export interface FlightStats {
   apogeeTime: number;           // 頂点到達時間 [s]
   totalFlightTime: number;      // 総飛行時間 [s]
   maxVelocity: number;          // 最高速度 [m/s]
+  maxMach: number;              // 最大マッハ数（対気速度）
+  maxDynamicPressure: number;   // 最大動圧 [Pa]
   landingVelocity: number;      // 着地速度 [m/s]
+  landingElevation: number;     // 着地点の標高 [m]（地形データがなければ発射地点の標高）
   horizontalDistance: number;   // 水平飛行距離 [m]
   landingBearing: number;       // 着地方位 [deg]
+  deploymentTime?: number;      // 最初の回収装置の展開時刻 [s]（自由落下では未定義）
+  deploymentAltitude?: number;  // 展開高度 [m]（地表から）
+  deploymentVelocity?: number;  // 展開時の速度 [m/s]
+  peakOpeningForce?: number;    // 最大開傘衝撃 [N]（全展開イベント中の最大）
+  railExitTime?: number;        // レール離脱時刻 [s]（レールなしでは未定義）
+  railExitVelocity?: number;    // レール離脱速度 [m/s]
+  staticMargin?: number;        // 静安定余裕 [cal]（推進剤あり・燃焼後の小さい方、形状未設定では未定義）
 }
 
 /**
- * 軌道計算結果
+ * 飛行上の警告の種類
+ */
+export type FlightWarningCode =
+  | 'deploymentVelocity'
+  | 'landedBeforeDeployment'
+  | 'lowStabilityMargin'
+  | 'railExitVelocity'
+  | 'staleWeather'
+  | 'windForecastBelowApogee'
+  | 'windSpeedLimit';
+
+/**
+ * 飛行上の警告
+ */
+export interface FlightWarning {
+  code: FlightWarningCode;
+  message: string;
+}
+
+/**
+ * 警告がなく安全とみなせる飛行か
+ */
+export function isFlightSafe(result: TrajectoryResult): boolean {
+  return result.warnings.length === 0;
+}
+
+/**
+ * 切り離した下段の降下・着地予測
+ */
+export interface StageLanding {
+  name: string;
+  separationTime: number;       // 分離時刻 [s]
+  separationAltitude: number;   // 分離高度 [m]（地表から）
+  trajectoryPoints: TrajectoryPoint[]; // 分離後の軌道
+  predictedLanding: Coordinates;
+  uncertaintyEllipse: UncertaintyEllipse;
+  landingTime: number;          // 着地時刻 [s]
+  landingVelocity: number;      // 着地速度 [m/s]
+  landingElevation: number;     // 着地点の標高 [m]
+}
+
+/**
+ * 軌道計算結果（軌道・統計は最上段）
  */
 export interface TrajectoryResult {
   trajectoryPoints: TrajectoryPoint[];
@@ -56,22 +163,86 @@ export interface TrajectoryResult {
   uncertaintyEllipse: UncertaintyEllipse;
   stats: FlightStats;
   launchSite: Coordinates;
+  motorId?: string;             // 計算に使用したモーターのID（カタログ選択時）
+  warnings: FlightWarning[];
+  stageLandings: StageLanding[]; // 切り離した下段（下から順、単段では空）
 }
 
+/**
+ * ローンチウィンドウの1時刻分の予測（予報の各時刻に発射した場合）
+ */
+export interface LaunchWindowSlot {
+  time: Date;                   // 発射時刻
+  weather: WeatherData;         // その時刻の予報
+  predictedLanding: Coordinates;
+  horizontalDistance: number;   // 発射地点からの着地距離 [m]
+  landingBearing: number;       // 着地方位 [deg]
+  maxAltitude: number;          // 最高高度 [m]
+  safe: boolean;                // 飛行上の警告がないか
+}
+
+/**
+ * 回収対象（最上段と切り離した下段）
+ */
+export interface RecoveryTarget {
+  name: string;
+  landing: Coordinates;
+  uncertaintyEllipse: UncertaintyEllipse;
+}
+
+/**
+ * 回収対象の一覧（最上段が先頭）
+ */
+export function getRecoveryTargets(result: TrajectoryResult): RecoveryTarget[] {
+  return [
+    {
+      name: result.stageLandings.length > 0 ? '最上段' : '機体',
+      landing: result.predictedLanding,
+      uncertaintyEllipse: result.uncertaintyEllipse,
+    },
+    ...result.stageLandings.map((stage) => ({
+      name: stage.name,
+      landing: stage.predictedLanding,
+      uncertaintyEllipse: stage.uncertaintyEllipse,
+    })),
+  ];
+}
+
+/**
+ * 上昇計算のモデル
+ */
+export type FlightEngine = 'pointMass' | 'sixDof';
+
+/**
+ * 上昇計算モデルの表示名
+ */
+export const FLIGHT_ENGINE_LABELS: Record<FlightEngine, string> = {
+  pointMass: '質点（標準）',
+  sixDof: '6自由度',
+};
+
 /**
  * 軌道計算の設定
  */
 export interface TrajectoryConfig {
-  timeStep: number;             // 計算時間刻み [s]
-  maxTime: number;              // 最大計算時間 [s]
+  engine: FlightEngine;         // 上昇計算のモデル（6自由度は機体形状が必要）
+  timeStep: number;             // 初期時間刻み [s]（以降は誤差制御で自動調整）
+  maxTime: number;              // 最大計算時間 [s]（上昇・降下それぞれ）
   windUncertainty: number;      // 風速不確実性 [%]（例: 0.2 = 20%）
+  relativeTolerance: number;    // 積分の相対許容誤差
+  absoluteTolerance: number;    // 積分の絶対許容誤差
+  outputInterval: number;       // 軌道点の出力間隔 [s]
 }
 
 /**
  * デフォルトの計算設定
  */
 export const DEFAULT_TRAJECTORY_CONFIG: TrajectoryConfig = {
-  timeStep: 0.05,               // 50ms
-  maxTime: 120,                 // 2分
+  engine: 'pointMass',
+  timeStep: 0.01,               // 10ms
+  maxTime: 600,                 // 10分
   windUncertainty: 0.25,        // 25%
+  relativeTolerance: 1e-8,
+  absoluteTolerance: 1e-8,
+  outputInterval: 0.1,          // 100ms
 };
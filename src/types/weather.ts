@@ -7,6 +7,36 @@ export interface WindLayer {
   windDirection: number;        // 風向 [deg]（北=0, 時計回り）
 }
 
+/**
+ * 高層気象観測（ゾンデ）の1層
+ */
+export interface SoundingLevel {
+  altitude: number;             // 海抜高度 [m]
+  temperature: number;          // 気温 [°C]
+  pressure: number;             // 気圧 [hPa]
+  humidity?: number;            // 相対湿度 [%]
+  windSpeed?: number;           // 風速 [m/s]
+  windDirection?: number;       // 風向 [deg]
+}
+
+/**
+ * 高層気象観測のプロファイル
+ */
+export interface AtmosphericSounding {
+  name: string;                 // 読み込んだファイル名
+  levels: SoundingLevel[];      // 高度順
+}
+
+/**
+ * 風速計の観測記録（1行分）
+ */
+export interface AnemometerRecord {
+  time: Date;                   // 観測時刻
+  windSpeed: number;            // 風速 [m/s]
+  gustSpeed?: number;           // 瞬間風速 [m/s]
+  windDirection: number;        // 風向 [deg]
+}
+
 /**
  * 気象データ
  */
@@ -14,15 +44,101 @@ export interface WeatherData {
   // 地上データ
   surfaceWindSpeed: number;     // 地上風速 [m/s]
   surfaceWindDirection: number; // 風向 [deg]
+  windReferenceHeight: number;  // 地上風を測った高さ [m]（気象観測の標準は10m）
+  surfaceGustSpeed?: number;    // 最大瞬間風速 [m/s]
+  turbulenceIntensity?: number; // 乱流強度（風速の標準偏差 / 平均風速、未指定は瞬間風速から推定）
   surfaceTemperature: number;   // 気温 [°C]
   surfacePressure: number;      // 気圧 [hPa]
+  surfaceHumidity?: number;     // 相対湿度 [%]（未指定は乾燥空気）
 
   // 高度別データ（オプション）
   windLayers?: WindLayer[];
+  sounding?: AtmosphericSounding; // 高層気象観測（気温・気圧・風を高度で補間、風は windLayers より優先）
 
   // メタデータ
-  source: 'manual' | 'api';
-  timestamp?: Date;
+  source: 'manual' | 'api' | 'file';
+  timestamp?: Date;             // 観測・予報の対象時刻（API取得・ファイル読み込み時）
+  fetchedAt?: Date;             // 予報を取得した時刻・観測の最終時刻（古さの判定用）
+}
+
+/**
+ * 1時間ごとの気象予報
+ */
+export interface WeatherForecast {
+  latitude: number;             // 予報地点の緯度
+  longitude: number;            // 予報地点の経度
+  launchElevation: number;      // 高度別の風の基準にした発射地点の標高 [m]
+  fetchedAt: Date;              // 取得した時刻
+  fromCache?: boolean;          // オフラインキャッシュから読み出した予報か
+  utcOffsetSeconds?: number;    // 予報地点の時刻のUTCからのずれ [s]（未指定は端末の時刻）
+  hours: WeatherData[];         // 時刻順（timestamp は各予報の対象時刻）
+}
+
+/**
+ * 予報地点の時刻での月・日・時（UTCからのずれがなければ端末の時刻）
+ */
+export function getSiteTimeParts(time: Date, utcOffsetSeconds?: number): { month: number; date: number; hours: number } {
+  if (utcOffsetSeconds === undefined) {
+    return { month: time.getMonth() + 1, date: time.getDate(), hours: time.getHours() };
+  }
+  const site = new Date(time.getTime() + utcOffsetSeconds * 1000);
+  return { month: site.getUTCMonth() + 1, date: site.getUTCDate(), hours: site.getUTCHours() };
+}
+
+// 予報を取得する日数（今日を含む）
+export const FORECAST_DAYS = 7;
+
+// 古い気象データとみなすまでの時間の初期値 [h]
+export const DEFAULT_MAX_WEATHER_AGE_HOURS = 6;
+
+// 風速計の観測を平均する時間の初期値 [分]（地上気象観測の10分間平均風速に合わせる）
+export const DEFAULT_ANEMOMETER_AVERAGING_MINUTES = 10;
+
+/**
+ * 取得から指定時間を過ぎた古い気象データか（手入力は対象外）
+ *
+ * @param maxAgeHours - 古いとみなすまでの時間 [h]
+ */
+export function isWeatherStale(weather: WeatherData, maxAgeHours: number, now: Date = new Date()): boolean {
+  return weather.fetchedAt !== undefined && now.getTime() - weather.fetchedAt.getTime() > maxAgeHours * 3600 * 1000;
+}
+
+/**
+ * 取得からの経過時間を表示用に変換（例: 35分前、3時間前、2日前）
+ */
+export function formatWeatherAge(fetchedAt: Date, now: Date = new Date()): string {
+  const minutes = Math.max(0, Math.floor((now.getTime() - fetchedAt.getTime()) / 60000));
+  if (minutes < 1) return 'たった今';
+  if (minutes < 60) return `${minutes}分前`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) return `${hours}時間前`;
+  return `${Math.floor(hours / 24)}日前`;
+}
+
+// 地上風の標準の測定高度 [m]
+export const STANDARD_WIND_HEIGHT = 10;
+
+// 安全規定の風速上限 [m/s]（NAR・Tripoli の 20 mph）
+export const SAFETY_CODE_MAX_WIND_SPEED = 8.9;
+
+// 突風率から乱流強度を推定するピーク係数（瞬間風速 = 平均風速 × (1 + ピーク係数 × 乱流強度)）
+export const GUST_PEAK_FACTOR = 3;
+
+/**
+ * 乱流強度（指定がなければ瞬間風速と平均風速の比から推定、どちらもなければ0）
+ */
+export function getTurbulenceIntensity(weather: WeatherData): number {
+  if (weather.turbulenceIntensity !== undefined) return Math.max(0, weather.turbulenceIntensity);
+  const { surfaceGustSpeed, surfaceWindSpeed } = weather;
+  if (surfaceGustSpeed === undefined || surfaceWindSpeed <= 0 || surfaceGustSpeed <= surfaceWindSpeed) return 0;
+  return (surfaceGustSpeed / surfaceWindSpeed - 1) / GUST_PEAK_FACTOR;
+}
+
+/**
+ * 地上の最大風速 [m/s]（瞬間風速があればそれ、なければ平均風速）
+ */
+export function getPeakWindSpeed(weather: WeatherData): number {
+  return Math.max(weather.surfaceWindSpeed, weather.surfaceGustSpeed ?? 0);
 }
 
 /**
@@ -31,6 +147,7 @@ export interface WeatherData {
 export const DEFAULT_WEATHER_DATA: WeatherData = {
   surfaceWindSpeed: 0,
   surfaceWindDirection: 0,
+  windReferenceHeight: STANDARD_WIND_HEIGHT,
   surfaceTemperature: 15,       // 15°C（ISA海面高度）
   surfacePressure: 1013.25,     // 標準気圧
   source: 'manual',